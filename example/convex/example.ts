@@ -1,20 +1,32 @@
-import { action, mutation, query } from "./_generated/server.js";
-import { components } from "./_generated/api.js";
+import { action, internalMutation, mutation, query } from "./_generated/server.js";
+import type { MutationCtx } from "./_generated/server.js";
+import { components, internal } from "./_generated/api.js";
 import {
   AuditLog,
+  createActorResolver,
+  defineEncryptionKeyProvider,
   exposeAuditApi,
   STANDARD_ACTIONS,
   logAuditEvent,
 } from "@flickeriy/convex-audit";
-import { v } from "convex/values";
-import { Auth } from "convex/server";
+import type { RegisteredAction } from "convex/server";
+import { ConvexError, v } from "convex/values";
 
 // =============================================================================
 // Option 1: Using the AuditLog class (recommended for most use cases)
 // =============================================================================
 
+// Resolve actors from ctx.auth; functions run without a signed-in user, like
+// scheduled jobs, are recorded as the system
+const actorResolver = createActorResolver({
+  fallback: { type: "system", id: "example_app" }
+});
+
 // Create an instance of the audit log client
-const audit = new AuditLog(components.convexAudit);
+const audit = new AuditLog(components.convexAudit, {
+  actorResolver,
+  requestContext: { sessionCookie: "session_id" }
+});
 
 /**
  * Example: Log a user sign-in event
@@ -169,6 +181,130 @@ export const logPermissionGranted = mutation({
   },
 });
 
+/**
+ * Example: The handler of an audited mutation
+ *
+ * `rotateApiKey` runs it in its own transaction, so its writes are rolled
+ * back when it throws while the failure event is kept.
+ */
+export const rotateApiKeyHandler = internalMutation({
+  args: {
+    keyId: v.string(),
+    secret: v.string(),
+  },
+  returns: v.object({ keyId: v.string() }),
+  handler: async (_ctx, args) => {
+    if (args.secret.length < 16) {
+      throw new ConvexError({ code: "secret_too_short" });
+    }
+    return { keyId: args.keyId };
+  },
+});
+
+/**
+ * Example: A mutation that is audited automatically
+ *
+ * An `api_key.created` event is logged when the handler succeeds, and a
+ * failure event with the error code before the error is rethrown.
+ */
+export const rotateApiKey: RegisteredAction<
+  "public",
+  { keyId: string; secret: string },
+  Promise<{ keyId: string }>
+> = audit.withAudit(
+  {
+    action: STANDARD_ACTIONS.API_KEY_CREATED,
+    actor: async (ctx) => {
+      const identity = await ctx.auth.getUserIdentity();
+      return identity
+        ? { type: "user", id: identity.subject }
+        : { type: "system", id: "anonymous" };
+    },
+    targets: (args) => [{ type: "api_key", id: args.keyId }],
+    metadata: (_args, result) => ({ rotated: result !== undefined }),
+    redactArgs: ["secret"],
+  },
+  {
+    args: {
+      keyId: v.string(),
+      secret: v.string(),
+    },
+    returns: v.object({ keyId: v.string() }),
+    handler: internal.example.rotateApiKeyHandler,
+  }
+);
+
+/**
+ * Example: Writes to `notes` audited through a wrapped database
+ */
+function auditedDb(ctx: MutationCtx) {
+  return audit.wrapDatabase(ctx, {
+    tables: {
+      notes: {
+        redact: ["body"],
+        organizationId: (doc) => doc.orgId
+      }
+    }
+  });
+}
+
+export const createNote = mutation({
+  args: {
+    title: v.string(),
+    body: v.string(),
+    orgId: v.string()
+  },
+  returns: v.id("notes"),
+  handler: async (ctx, args) => {
+    return await auditedDb(ctx).insert("notes", {
+      ...args,
+      ownerId: "user_1"
+    });
+  }
+});
+
+export const renameNote = mutation({
+  args: {
+    noteId: v.id("notes"),
+    title: v.string()
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await auditedDb(ctx).patch(args.noteId, { title: args.title });
+    return null;
+  }
+});
+
+export const deleteNote = mutation({
+  args: {
+    noteId: v.id("notes")
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await auditedDb(ctx).delete("notes", args.noteId);
+    return null;
+  }
+});
+
+/**
+ * Example: An HTTP endpoint whose events record the caller's IP address,
+ * user agent, location, request ID and session
+ */
+export const exportNotes = audit.httpAction(async (_ctx, request, { log }) => {
+  const orgId = new URL(request.url).searchParams.get("orgId");
+  if (!orgId) {
+    return new Response("orgId parameter required", { status: 400 });
+  }
+  await log({
+    action: STANDARD_ACTIONS.RESOURCE_EXPORTED,
+    targets: [{ type: "organization", id: orgId }],
+    organizationId: orgId
+  });
+  return new Response(JSON.stringify([]), {
+    headers: { "Content-Type": "application/json" }
+  });
+});
+
 // =============================================================================
 // Option 2: Using the helper function directly
 // =============================================================================
@@ -271,6 +407,7 @@ export const listAuditEvents = query({
     organizationId: v.optional(v.string()),
     action: v.optional(v.string()),
     limit: v.optional(v.number()),
+    cursor: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     return await audit.list(ctx, args);
@@ -314,12 +451,49 @@ export const searchEvents = query({
     query: v.string(),
     organizationId: v.optional(v.string()),
     limit: v.optional(v.number()),
+    cursor: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     return await audit.search(ctx, args.query, {
       organizationId: args.organizationId,
       limit: args.limit,
+      cursor: args.cursor,
+    });
+  },
+});
+
+/**
+ * Run an audit query such as "action:user.* result:failure"
+ */
+export const queryAuditLog = query({
+  args: {
+    q: v.string(),
+    cursor: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    return await audit.query(ctx, args.q, { cursor: args.cursor });
+  },
+});
+
+/**
+ * Key encryption keys for event fields, read from the environment
+ */
+export const auditEncryptionKeys = defineEncryptionKeyProvider(() => [
+  { keyId: "example", key: process.env.AUDIT_ENCRYPTION_KEY },
+]);
+
+/**
+ * Encrypt event metadata and context at rest
+ */
+export const enableEncryption = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    await audit.configureEncryption(ctx, {
+      keyId: "example",
+      keyProvider: internal.example.auditEncryptionKeys,
     });
+    return null;
   },
 });
 
@@ -331,31 +505,20 @@ export const searchEvents = query({
  * Expose the audit API with authentication
  * These functions can be called directly from React clients
  */
-export const { log, list, get, search, getStats, listByActor, listByAction } =
+export const { log, list, get, search, queryEvents, getStats, listByActor, listByAction } =
   exposeAuditApi(components.convexAudit, {
     auth: async (ctx, operation) => {
-      const identity = await ctx.auth.getUserIdentity();
-
       // For read operations, allow anonymous access (or require auth)
       if (operation.type === "read" || operation.type === "search" || operation.type === "stats") {
-        return {
-          actorId: identity?.subject ?? "anonymous",
-          actorType: "user" as const,
-          actorName: identity?.name ?? undefined,
-          actorEmail: identity?.email ?? undefined,
-        };
+        return;
       }
 
       // For write operations, require authentication
+      const identity = await ctx.auth.getUserIdentity();
       if (!identity) {
         throw new Error("Authentication required to log audit events");
       }
-
-      return {
-        actorId: identity.subject,
-        actorType: "user" as const,
-        actorName: identity.name ?? undefined,
-        actorEmail: identity.email ?? undefined,
-      };
     },
+    // Same actors as events logged through `audit`
+    actorResolver,
   });
@@ -1,17 +1,57 @@
 import { httpRouter } from "convex/server";
-import { registerAuditRoutes } from "@flickeriy/convex-audit";
+import {
+  apiKeyAuth,
+  createActorResolver,
+  registerAuditRoutes,
+} from "@flickeriy/convex-audit";
 import { components } from "./_generated/api";
+import { exportNotes } from "./example";
 
 const http = httpRouter();
 
 // Register audit log HTTP routes
 // This exposes endpoints like:
 // - GET /audit/events - List recent events
+// - POST /audit/events - Log an event as the signed-in user
 // - GET /audit/event?id=xxx - Get a single event
 // - GET /audit/stats - Get audit statistics
 // - GET /audit/search?q=xxx - Search events
 registerAuditRoutes(http, components.convexAudit, {
   pathPrefix: "/audit",
+  auth: [
+    // Services send `X-API-Key` and may read every organization
+    apiKeyAuth([
+      {
+        name: "example-service",
+        secret: process.env.AUDIT_API_KEY,
+        organizationIds: "*",
+      },
+    ]),
+    // Signed-in users may read the organizations in their `org_ids` claim
+    async (ctx) => {
+      const identity = await ctx.auth.getUserIdentity();
+      if (!identity) {
+        return null;
+      }
+      const orgIds = identity.org_ids;
+      return {
+        id: identity.subject,
+        organizationIds: Array.isArray(orgIds)
+          ? orgIds.filter((id): id is string => typeof id === "string")
+          : [],
+      };
+    },
+  ],
+  // No fallback actor: logging over HTTP requires a signed-in user
+  actorResolver: createActorResolver(),
+  context: { sessionCookie: "session_id" },
+});
+
+// An endpoint that audits itself with the request's context
+http.route({
+  path: "/notes/export",
+  method: "GET",
+  handler: exportNotes,
 });
 
 export default http;
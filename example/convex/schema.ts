@@ -1,5 +1,12 @@
-import { defineSchema } from "convex/server";
+import { defineSchema, defineTable } from "convex/server";
+import { v } from "convex/values";
 
 export default defineSchema({
   // Any tables used by the example app go here.
+  notes: defineTable({
+    title: v.string(),
+    body: v.string(),
+    ownerId: v.string(),
+    orgId: v.string(),
+  }),
 });
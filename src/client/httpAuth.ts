@@ -0,0 +1,342 @@
+/**
+ * Authentication for the audit HTTP routes
+ *
+ * Each scheme turns a request into an `AuditPrincipal`, or `null` when the
+ * request carries no credentials it accepts.
+ */
+
+import type { GenericActionCtx, GenericDataModel } from "convex/server";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Caller of the audit HTTP routes, bound to the organizations it may access
+ */
+export interface AuditPrincipal {
+  /** Who authenticated, e.g. an API key's name or a JWT's subject */
+  id: string;
+  /** Organizations whose events it may read and write, or "*" for all */
+  organizationIds: string[] | "*";
+}
+
+/**
+ * Authenticates a request to the audit HTTP routes
+ *
+ * Returns `null` when the request carries no credentials it accepts.
+ */
+export type AuditRouteAuth = (
+  ctx: GenericActionCtx<GenericDataModel>,
+  request: Request,
+) => Promise<AuditPrincipal | null>;
+
+/**
+ * A bearer token or API key accepted by `bearerTokenAuth` or `apiKeyAuth`
+ */
+export interface AuditCredential {
+  /** Identifies the caller, e.g. "siem-export" */
+  name: string;
+  /** The token or key, e.g. from an environment variable */
+  secret: string | undefined;
+  organizationIds: string[] | "*";
+}
+
+/**
+ * Options for `jwtAuth`
+ */
+export interface JwtAuthOptions {
+  /** Public keys the tokens are signed with (a JSON Web Key Set) */
+  jwks: { keys: Array<JsonWebKey & { kid?: string }> };
+  /** Accepted `iss` claims */
+  issuer?: string | string[];
+  /** Accepted `aud` claims */
+  audience?: string | string[];
+  /** Organizations a token's claims grant access to */
+  organizations: (claims: Record<string, unknown>) => string[] | "*";
+  /** Allowed clock skew for `exp` and `nbf` (default: 60 seconds) */
+  clockToleranceMs?: number;
+  /** Reject tokens without an `exp` claim (default true) */
+  requireExpiration?: boolean;
+}
+
+// =============================================================================
+// HTTP Authentication
+// =============================================================================
+
+/**
+ * SHA-256 digest of a secret
+ */
+async function digest(secret: string) {
+  return new Uint8Array(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret)),
+  );
+}
+
+/**
+ * Find the credential a secret belongs to
+ *
+ * Digests are compared in full, so the time taken doesn't reveal how much of
+ * a secret matched. Credentials without a secret never match.
+ */
+async function matchCredential(
+  credentials: AuditCredential[],
+  secret: string,
+): Promise<AuditPrincipal | null> {
+  const given = await digest(secret);
+  for (const credential of credentials) {
+    if (!credential.secret) {
+      continue;
+    }
+    const expected = await digest(credential.secret);
+    let difference = 0;
+    for (let i = 0; i < expected.length; i++) {
+      difference |= expected[i] ^ given[i];
+    }
+    if (difference === 0) {
+      return {
+        id: credential.name,
+        organizationIds: credential.organizationIds,
+      };
+    }
+  }
+  return null;
+}
+
+function bearerToken(request: Request) {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(
+    request.headers.get("Authorization") ?? "",
+  );
+  return match?.[1];
+}
+
+/**
+ * Authenticate the audit routes with static bearer tokens
+ *
+ * Reads `Authorization: Bearer <token>`.
+ *
+ * @example
+ * ```typescript
+ * bearerTokenAuth([
+ *   { name: "siem", secret: process.env.AUDIT_SIEM_TOKEN, organizationIds: "*" },
+ * ]);
+ * ```
+ */
+export function bearerTokenAuth(
+  credentials: AuditCredential[],
+): AuditRouteAuth {
+  return async (_ctx, request) => {
+    const token = bearerToken(request);
+    return token ? await matchCredential(credentials, token) : null;
+  };
+}
+
+/**
+ * Authenticate the audit routes with API keys
+ *
+ * Reads the key from the `X-API-Key` header, or the given one.
+ */
+export function apiKeyAuth(
+  credentials: AuditCredential[],
+  { header = "X-API-Key" }: { header?: string } = {},
+): AuditRouteAuth {
+  return async (_ctx, request) => {
+    const key = request.headers.get(header);
+    return key ? await matchCredential(credentials, key) : null;
+  };
+}
+
+/**
+ * Signing algorithms accepted in JWTs, with their Web Crypto parameters
+ */
+const JWT_ALGORITHMS: Record<
+  string,
+  {
+    key: RsaHashedImportParams | EcKeyImportParams;
+    verify: AlgorithmIdentifier | EcdsaParams;
+  }
+> = {
+  RS256: {
+    key: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verify: "RSASSA-PKCS1-v1_5",
+  },
+  RS384: {
+    key: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" },
+    verify: "RSASSA-PKCS1-v1_5",
+  },
+  RS512: {
+    key: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-512" },
+    verify: "RSASSA-PKCS1-v1_5",
+  },
+  ES256: {
+    key: { name: "ECDSA", namedCurve: "P-256" },
+    verify: { name: "ECDSA", hash: "SHA-256" },
+  },
+  ES384: {
+    key: { name: "ECDSA", namedCurve: "P-384" },
+    verify: { name: "ECDSA", hash: "SHA-384" },
+  },
+};
+
+function decodeBase64Url(input: string) {
+  const base64 = input.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function decodeJson(input: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(new TextDecoder().decode(decodeBase64Url(input)));
+    return value !== null && typeof value === "object" ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function acceptedClaim(
+  claim: unknown,
+  accepted: string | string[] | undefined,
+) {
+  if (accepted === undefined) {
+    return true;
+  }
+  const allowed = Array.isArray(accepted) ? accepted : [accepted];
+  const values = Array.isArray(claim) ? claim : [claim];
+  return values.some((value) => allowed.includes(value as string));
+}
+
+/**
+ * Authenticate the audit routes with JWTs verified against a local JWKS
+ *
+ * Reads `Authorization: Bearer <jwt>`. Tokens must be signed with RS256,
+ * RS384, RS512, ES256 or ES384 by a key in `jwks` (matched by `kid` when the
+ * token names one), have an `exp` unless `requireExpiration` is false, be
+ * within `exp` and `nbf`, and match `issuer` and `audience` when given. No
+ * keys are fetched over the network. Tokens whose claims `organizations`
+ * throws on, or maps to anything but "*" or an array of strings, are
+ * rejected.
+ *
+ * @example
+ * ```typescript
+ * jwtAuth({
+ *   jwks: JSON.parse(process.env.AUDIT_JWKS!),
+ *   issuer: "https://auth.example.com",
+ *   audience: "audit-api",
+ *   organizations: (claims) => claims.org_ids as string[],
+ * });
+ * ```
+ */
+export function jwtAuth(options: JwtAuthOptions): AuditRouteAuth {
+  const tolerance = options.clockToleranceMs ?? 60 * 1000;
+  const importedKeys = new Map<string, Promise<CryptoKey | null>>();
+
+  const importKey = (index: number, algorithm: string) => {
+    const cacheKey = `${index}:${algorithm}`;
+    let key = importedKeys.get(cacheKey);
+    if (!key) {
+      key = crypto.subtle
+        .importKey(
+          "jwk",
+          options.jwks.keys[index],
+          JWT_ALGORITHMS[algorithm].key,
+          false,
+          ["verify"],
+        )
+        .catch(() => null);
+      importedKeys.set(cacheKey, key);
+    }
+    return key;
+  };
+
+  return async (_ctx, request) => {
+    const token = bearerToken(request);
+    const parts = token?.split(".");
+    if (!parts || parts.length !== 3) {
+      return null;
+    }
+    const header = decodeJson(parts[0]);
+    const claims = decodeJson(parts[1]);
+    const algorithm = header?.alg;
+    if (
+      !header ||
+      !claims ||
+      typeof algorithm !== "string" ||
+      !(algorithm in JWT_ALGORITHMS)
+    ) {
+      return null;
+    }
+
+    let signature;
+    try {
+      signature = decodeBase64Url(parts[2]);
+    } catch {
+      return null;
+    }
+    const signed = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+
+    let verified = false;
+    for (const [index, jwk] of options.jwks.keys.entries()) {
+      if (
+        (header.kid !== undefined && jwk.kid !== header.kid) ||
+        (jwk.alg !== undefined && jwk.alg !== algorithm)
+      ) {
+        continue;
+      }
+      const key = await importKey(index, algorithm);
+      if (
+        key &&
+        (await crypto.subtle.verify(
+          JWT_ALGORITHMS[algorithm].verify,
+          key,
+          signature,
+          signed,
+        ))
+      ) {
+        verified = true;
+        break;
+      }
+    }
+    if (!verified) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (typeof claims.exp !== "number") {
+      if (options.requireExpiration !== false) {
+        return null;
+      }
+    } else if (claims.exp * 1000 + tolerance < now) {
+      return null;
+    }
+    if (typeof claims.nbf === "number" && claims.nbf * 1000 - tolerance > now) {
+      return null;
+    }
+    if (
+      !acceptedClaim(claims.iss, options.issuer) ||
+      !acceptedClaim(claims.aud, options.audience)
+    ) {
+      return null;
+    }
+
+    let organizationIds: unknown;
+    try {
+      organizationIds = options.organizations(claims);
+    } catch {
+      return null;
+    }
+    // Claims are untyped, so a resolver can return whatever a token holds
+    if (
+      organizationIds !== "*" &&
+      !(
+        Array.isArray(organizationIds) &&
+        organizationIds.every((id) => typeof id === "string")
+      )
+    ) {
+      return null;
+    }
+    return {
+      id: typeof claims.sub === "string" ? claims.sub : "jwt",
+      organizationIds,
+    };
+  };
+}
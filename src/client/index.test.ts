@@ -1,11 +1,36 @@
 import { convexTest } from "convex-test";
 import { expect, test, describe } from "vitest";
-import { api, components } from "../../example/convex/_generated/api.js";
+import { v } from "convex/values";
+import { httpRouter } from "convex/server";
+import {
+  api,
+  components,
+  internal,
+} from "../../example/convex/_generated/api.js";
+import {
+  AuditLog,
+  STANDARD_AUDIT_ACTIONS,
+  bearerTokenAuth,
+  defineAuditActions,
+  diffDocuments,
+  extractRequestContext,
+  jwtAuth,
+  parseAuditQuery,
+  registerAuditRoutes,
+} from "./index.js";
 import auditTest from "../test.js";
 import schema from "../../example/convex/schema.js";
 
 const modules = import.meta.glob("../../example/convex/**/*.ts");
 
+// The example's audit routes accept this key for every organization
+process.env.AUDIT_API_KEY = "test-api-key";
+const serviceHeaders = { "X-API-Key": "test-api-key" };
+// Served by the example's encryption key provider
+process.env.AUDIT_ENCRYPTION_KEY = btoa(
+  String.fromCharCode(...new Array(32).fill(7)),
+);
+
 describe("Audit Log Client", () => {
   test("can log events through example mutations", async () => {
     const t = convexTest(schema, modules);
@@ -114,4 +139,737 @@ describe("Audit Log Client", () => {
     expect(events.length).toBe(1);
     expect(events[0].actor.id).toBe("user_1");
   });
+
+  test("can search events by actor email", async () => {
+    const t = convexTest(schema, modules);
+    auditTest.register(t);
+
+    for (const userId of ["user_1", "user_2"]) {
+      await t.mutation(api.example.logUserSignIn, {
+        userId,
+        email: `${userId}@example.com`,
+      });
+    }
+
+    const result = await t.query(api.example.searchEvents, {
+      query: "user_2@example.com",
+    });
+    expect(result.events.map((e) => e.actor.id)).toEqual(["user_2"]);
+    expect(result.hasMore).toBe(false);
+
+    const response = await t.fetch("/audit/search?q=example&actorId=user_1", {
+      headers: serviceHeaders,
+    });
+    expect(response.status).toBe(200);
+    const page = await response.json();
+    expect(page.events.map((e: any) => e.actor.id)).toEqual(["user_1"]);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  test("encrypts events with keys from the app's key provider", async () => {
+    const t = convexTest(schema, modules);
+    auditTest.register(t);
+
+    await t.mutation(internal.example.enableEncryption, {});
+
+    await t.mutation(api.example.logUserSignIn, {
+      userId: "user_1",
+      email: "user_1@example.com",
+      ipAddress: "203.0.113.9",
+    });
+
+    const stored = await t.run(async (ctx) => {
+      const page = await ctx.runQuery(components.convexAudit.lib.list, {});
+      const keys = await ctx.runQuery(
+        components.convexAudit.encryption.getStatus,
+        {},
+      );
+      return { page, keys };
+    });
+    expect(stored.keys).toMatchObject({
+      enabled: true,
+      activeKeyId: "example",
+    });
+    expect(stored.page.events[0].context).toBeUndefined();
+    expect(stored.page.events[0].encryption?.keyId).toBe("example");
+    expect(JSON.stringify(stored)).not.toContain(
+      process.env.AUDIT_ENCRYPTION_KEY,
+    );
+
+    const { events } = await t.query(api.example.listAuditEvents, {});
+    expect(events[0].context?.location).toBe("203.0.113.9");
+  });
+
+  test("registered actions validate payloads in the component", async () => {
+    const t = convexTest(schema, modules);
+    auditTest.register(t);
+
+    const audit = new AuditLog(components.convexAudit, {
+      actions: defineAuditActions({
+        ...STANDARD_AUDIT_ACTIONS,
+        "invoice.paid": {
+          severity: "low",
+          targetTypes: ["invoice"],
+          metadata: v.object({
+            amount: v.number(),
+            lines: v.array(v.object({ sku: v.string() })),
+            note: v.optional(v.string()),
+          }),
+        },
+      }),
+    });
+
+    await t.run(async (ctx) => {
+      await audit.registerActions(ctx);
+    });
+
+    const actions = await t.run(async (ctx) => await audit.listActions(ctx));
+    expect(
+      actions.find((a) => a.action === "invoice.paid")?.targetTypes,
+    ).toEqual(["invoice"]);
+    expect(actions.find((a) => a.action === "user.signed_in")?.severity).toBe(
+      "low",
+    );
+
+    await t.run(async (ctx) => {
+      await audit.log(ctx, {
+        action: "invoice.paid",
+        actor: { type: "user", id: "user_1" },
+        targets: [{ type: "invoice", id: "inv_1" }],
+        metadata: { amount: 10, lines: [{ sku: "sku_1" }] },
+      });
+    });
+
+    await expect(
+      t.run(async (ctx) => {
+        // @ts-expect-error sku must be a string
+        await audit.log(ctx, {
+          action: "invoice.paid",
+          actor: { type: "user", id: "user_1" },
+          targets: [{ type: "invoice", id: "inv_1" }],
+          metadata: { amount: 10, lines: [{ sku: 1 }] },
+        });
+      }),
+    ).rejects.toThrow("metadata.lines[0].sku must be string, got number");
+  });
+
+  test("diffDocuments records field-level changes", () => {
+    const before = {
+      _id: "doc_1",
+      _creationTime: 1,
+      name: "Acme",
+      plan: "free",
+      address: { city: "Berlin", zip: "10115" },
+      tags: ["a"],
+      apiSecret: "old",
+      updatedAt: 1,
+    };
+    const after = {
+      _id: "doc_1",
+      _creationTime: 1,
+      name: "Acme",
+      address: { city: "Hamburg", zip: "10115", country: "DE" },
+      tags: ["a", "b"],
+      apiSecret: "new",
+      seats: 5n,
+      updatedAt: 2,
+    };
+
+    expect(
+      diffDocuments(before, after, {
+        ignore: ["updatedAt"],
+        redact: ["apiSecret"],
+      }),
+    ).toEqual([
+      { field: "plan", kind: "removed", before: "free", after: undefined },
+      {
+        field: "address.city",
+        kind: "changed",
+        before: "Berlin",
+        after: "Hamburg",
+      },
+      {
+        field: "address.country",
+        kind: "added",
+        before: undefined,
+        after: "DE",
+      },
+      { field: "tags", kind: "changed", before: ["a"], after: ["a", "b"] },
+      { field: "apiSecret", kind: "changed", redacted: true },
+      { field: "seats", kind: "added", before: undefined, after: 5n },
+    ]);
+
+    expect(diffDocuments(null, { name: "Acme" })).toEqual([
+      { field: "name", kind: "added", before: undefined, after: "Acme" },
+    ]);
+    expect(diffDocuments(before, { ...before })).toEqual([]);
+  });
+
+  test("withAudit logs an event after the handler succeeds", async () => {
+    const t = convexTest(schema, modules);
+    auditTest.register(t);
+
+    const result = await t
+      .withIdentity({ subject: "user_123" })
+      .action(api.example.rotateApiKey, {
+        keyId: "key_1",
+        secret: "a-long-enough-secret",
+      });
+    expect(result).toEqual({ keyId: "key_1" });
+
+    const { events } = await t.query(api.example.listAuditEvents, {});
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      action: "api_key.created",
+      actor: { type: "user", id: "user_123" },
+      targets: [{ type: "api_key", id: "key_1" }],
+      result: "success",
+      metadata: {
+        rotated: true,
+        args: { keyId: "key_1", secret: "[REDACTED]" },
+      },
+    });
+  });
+
+  test("withAudit logs a failure event and rethrows when the handler throws", async () => {
+    const t = convexTest(schema, modules);
+    auditTest.register(t);
+
+    await expect(
+      t
+        .withIdentity({ subject: "user_123" })
+        .action(api.example.rotateApiKey, { keyId: "key_1", secret: "short" }),
+    ).rejects.toThrow();
+
+    // Only the handler's writes are rolled back
+    const { events } = await t.query(api.example.listAuditEvents, {});
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      action: "api_key.created",
+      actor: { type: "user", id: "user_123" },
+      result: "failure",
+      error: { code: "secret_too_short" },
+      metadata: {
+        rotated: false,
+        args: { keyId: "key_1", secret: "[REDACTED]" },
+      },
+    });
+  });
+
+  test("wrapDatabase audits writes to captured tables", async () => {
+    const t = convexTest(schema, modules);
+    auditTest.register(t);
+
+    const user = t.withIdentity({ subject: "user_123" });
+    const noteId = await user.mutation(api.example.createNote, {
+      title: "Plan",
+      body: "Secret plans",
+      orgId: "org_1",
+    });
+    await user.mutation(api.example.renameNote, { noteId, title: "Roadmap" });
+    await user.mutation(api.example.deleteNote, { noteId });
+
+    const { events } = await t.query(api.example.listAuditEvents, {
+      organizationId: "org_1",
+    });
+    const [deleted, updated, created] = events;
+    expect(events.map((e) => e.action)).toEqual([
+      "resource.deleted",
+      "resource.updated",
+      "resource.created",
+    ]);
+    for (const event of events) {
+      expect(event).toMatchObject({
+        actor: { type: "user", id: "user_123" },
+        targets: [{ type: "notes", id: noteId }],
+        metadata: { table: "notes" },
+      });
+    }
+    expect(created.changes).toContainEqual({
+      field: "body",
+      kind: "added",
+      redacted: true,
+    });
+    expect(created.changes).toContainEqual({
+      field: "title",
+      kind: "added",
+      after: "Plan",
+    });
+    expect(updated.changes).toEqual([
+      { field: "title", kind: "changed", before: "Plan", after: "Roadmap" },
+    ]);
+    expect(deleted.changes?.map((change) => change.kind)).toEqual(
+      Array(4).fill("removed"),
+    );
+  });
+
+  test("actorResolver gives both logging paths the same actor", async () => {
+    const t = convexTest(schema, modules);
+    auditTest.register(t);
+
+    const user = t.withIdentity({
+      subject: "user_123",
+      name: "Ada Lovelace",
+      email: "ada@example.com",
+    });
+    await user.mutation(api.example.createNote, {
+      title: "Plan",
+      body: "Secret plans",
+      orgId: "org_1",
+    });
+    await user.mutation(api.example.log, {
+      action: "note.shared",
+      targets: [{ type: "notes", id: "note_1" }],
+      organizationId: "org_1",
+    });
+    await expect(
+      t.mutation(api.example.log, { action: "note.shared", targets: [] }),
+    ).rejects.toThrow("Authentication required");
+
+    // Without a signed-in user, the fallback actor is recorded
+    await t.mutation(api.example.createNote, {
+      title: "Nightly digest",
+      body: "",
+      orgId: "org_1",
+    });
+
+    const { events } = await t.query(api.example.listAuditEvents, {
+      organizationId: "org_1",
+    });
+    const ada = {
+      type: "user",
+      id: "user_123",
+      name: "Ada Lovelace",
+      email: "ada@example.com",
+    };
+    expect(events.map((e) => [e.action, e.actor])).toEqual([
+      ["resource.created", { type: "system", id: "example_app" }],
+      ["note.shared", ada],
+      ["resource.created", ada],
+    ]);
+  });
+
+  test("extractRequestContext reads the client from request headers", () => {
+    const request = new Request("https://example.com/api", {
+      headers: {
+        "X-Forwarded-For": "203.0.113.9, 198.51.100.7, 10.1.2.3",
+        "User-Agent": "Mozilla/5.0",
+        "CF-IPCountry": "de",
+        "CF-IPCity": "M%C3%BCnchen",
+        "CF-IPLatitude": "48.137",
+        "CF-IPLongitude": "11.575",
+        traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+        Cookie: "theme=dark; session_id=sess%2F42",
+      },
+    });
+
+    expect(
+      extractRequestContext(request, {
+        trustedProxies: ["10.0.0.0/8", "198.51.100.7"],
+        sessionCookie: "session_id",
+        geoProvider: "cloudflare",
+      }),
+    ).toEqual({
+      location: "203.0.113.9",
+      userAgent: "Mozilla/5.0",
+      geoLocation: {
+        countryCode: "DE",
+        city: "München",
+        latitude: 48.137,
+        longitude: 11.575,
+      },
+      requestId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      sessionId: "sess/42",
+    });
+
+    // Without trusted proxies, client-supplied entries are not believed
+    const spoofed = new Request("https://example.com/api", {
+      headers: {
+        "X-Forwarded-For": "1.1.1.1, 2001:db8::1",
+        "X-Vercel-IP-Country": "US",
+        "X-Request-Id": "req_1",
+      },
+    });
+    expect(extractRequestContext(spoofed)).toEqual({
+      location: "2001:db8::1",
+      requestId: "req_1",
+    });
+    // Only the configured CDN's geo headers are read
+    expect(
+      extractRequestContext(spoofed, { geoProvider: "cloudflare" }).geoLocation,
+    ).toBeUndefined();
+    expect(
+      extractRequestContext(spoofed, { geoProvider: "vercel" }).geoLocation,
+    ).toEqual({ countryCode: "US" });
+    expect(
+      extractRequestContext(spoofed, { trustedProxies: ["2001:db8::/32"] })
+        .location,
+    ).toBe("1.1.1.1");
+  });
+
+  test("parseAuditQuery compiles filters and search text", () => {
+    expect(
+      parseAuditQuery(
+        'actor.email:alice@x.com action:user.* result:failure after:2026-01-01 tag:billing tag:eu "card declined" refund',
+      ),
+    ).toEqual({
+      filters: {
+        actorEmail: "alice@x.com",
+        actionPrefix: "user.",
+        result: "failure",
+        startTime: Date.UTC(2026, 0, 1),
+        tags: ["billing", "eu"],
+      },
+      text: "card declined refund",
+      diagnostics: [],
+    });
+    expect(
+      parseAuditQuery("org:org_1 actor.type:user before:2026-02-01").filters,
+    ).toEqual({
+      organizationId: "org_1",
+      actorType: "user",
+      endTime: Date.UTC(2026, 1, 1) - 1,
+    });
+  });
+
+  test("parseAuditQuery reports syntax errors with positions", () => {
+    const input = 'colour:red result:maybe after:soon action:*.failed "open';
+    expect(parseAuditQuery(input).diagnostics).toEqual([
+      { message: "Unterminated quote", start: 51, end: 56 },
+      {
+        message:
+          'Unknown field "colour"; quote the term to search for it as text',
+        start: 0,
+        end: 6,
+      },
+      {
+        message: "result must be one of success, failure, pending",
+        start: 11,
+        end: 23,
+      },
+      {
+        message: "after must be a date such as 2026-01-01",
+        start: 24,
+        end: 34,
+      },
+      {
+        message: '"*" is only allowed at the end of an action',
+        start: 35,
+        end: 50,
+      },
+    ]);
+    expect(
+      parseAuditQuery("tag:a action: result:success result:failure")
+        .diagnostics,
+    ).toEqual([
+      { message: "Missing value for action", start: 6, end: 13 },
+      { message: "result can only be given once", start: 29, end: 43 },
+    ]);
+  });
+
+  test("audit queries run through AuditLog.query and HTTP", async () => {
+    const t = convexTest(schema, modules);
+    auditTest.register(t);
+
+    await t.mutation(api.example.logUserSignIn, {
+      userId: "user_1",
+      email: "alice@x.com",
+    });
+    await t.mutation(api.example.logFailedSignIn, {
+      email: "alice@x.com",
+      reason: "Invalid password",
+    });
+    await t.mutation(api.example.logFailedSignIn, {
+      email: "bob@x.com",
+      reason: "Invalid password",
+    });
+
+    const failures = await t.query(api.example.queryAuditLog, {
+      q: "actor.email:alice@x.com action:user.* result:failure",
+    });
+    expect(failures.events.map((e) => e.action)).toEqual([
+      "user.sign_in_failed",
+    ]);
+
+    const signIns = await t.query(api.example.queryAuditLog, {
+      q: "alice action:user.signed_in",
+    });
+    expect(signIns.events.map((e) => e.actor.id)).toEqual(["user_1"]);
+
+    await expect(
+      t.query(api.example.queryAuditLog, { q: "color:red" }),
+    ).rejects.toThrow('Invalid audit query: Unknown field "color"');
+
+    const response = await t.fetch(
+      `/audit/events?q=${encodeURIComponent("result:failure")}`,
+      { headers: serviceHeaders },
+    );
+    expect(response.status).toBe(200);
+    expect((await response.json()).events).toHaveLength(2);
+
+    const invalid = await t.fetch(
+      `/audit/search?q=${encodeURIComponent("after:yesterday")}`,
+      { headers: serviceHeaders },
+    );
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({
+      error: "Invalid query",
+      diagnostics: [
+        {
+          message: "after must be a date such as 2026-01-01",
+          start: 0,
+          end: 15,
+        },
+      ],
+    });
+
+    const conflict = await t.fetch(
+      `/audit/events?organizationId=org_1&q=${encodeURIComponent("org:org_2")}`,
+      { headers: serviceHeaders },
+    );
+    expect(conflict.status).toBe(400);
+  });
+
+  test("HTTP endpoints record the request context", async () => {
+    const t = convexTest(schema, modules);
+    auditTest.register(t);
+
+    const headers = {
+      "X-Forwarded-For": "203.0.113.9",
+      "User-Agent": "curl/8.0",
+      "X-Request-Id": "req_1",
+      Cookie: "session_id=sess_1",
+    };
+    const user = t.withIdentity({ subject: "user_123", org_ids: ["org_1"] });
+
+    const exported = await user.fetch("/notes/export?orgId=org_1", {
+      headers,
+    });
+    expect(exported.status).toBe(200);
+
+    const anonymous = await t.fetch("/audit/events", {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ action: "note.shared", targets: [] }),
+    });
+    expect(anonymous.status).toBe(401);
+
+    const logged = await user.fetch("/audit/events", {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        action: "note.shared",
+        targets: [{ type: "notes", id: "note_1" }],
+        organizationId: "org_1",
+        context: { location: "198.51.100.1", requestId: "req_2" },
+      }),
+    });
+    expect(logged.status).toBe(201);
+
+    const { events } = await t.query(api.example.listAuditEvents, {
+      organizationId: "org_1",
+    });
+    const context = {
+      location: "203.0.113.9",
+      userAgent: "curl/8.0",
+      sessionId: "sess_1",
+    };
+    expect(events.map((e) => [e.action, e.actor.id, e.context])).toEqual([
+      ["note.shared", "user_123", { ...context, requestId: "req_1" }],
+      ["resource.exported", "user_123", { ...context, requestId: "req_1" }],
+    ]);
+  });
+
+  test("HTTP routes only serve the caller's organizations", async () => {
+    const t = convexTest(schema, modules);
+    auditTest.register(t);
+
+    const orgOne = t.withIdentity({ subject: "user_1", org_ids: ["org_1"] });
+    const both = t.withIdentity({
+      subject: "user_2",
+      org_ids: ["org_1", "org_2"],
+    });
+    const log = async (
+      user: typeof orgOne,
+      organizationId: string,
+      expected = 201,
+    ) => {
+      const response = await user.fetch("/audit/events", {
+        method: "POST",
+        body: JSON.stringify({
+          action: "note.shared",
+          targets: [{ type: "notes", id: `note_${organizationId}` }],
+          organizationId,
+        }),
+      });
+      expect(response.status).toBe(expected);
+      return response.status === 201 ? (await response.json()).eventId : null;
+    };
+    const first = await log(orgOne, "org_1");
+    const second = await log(both, "org_2");
+    await log(orgOne, "org_2", 403);
+
+    // Credentials are required on every route
+    const anonymous = await t.fetch("/audit/events");
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get("WWW-Authenticate")).toBe("Bearer");
+    const wrongKey = await t.fetch("/audit/stats", {
+      headers: { "X-API-Key": "guess" },
+    });
+    expect(wrongKey.status).toBe(401);
+
+    // A caller with one organization is scoped to it
+    const listed = await orgOne.fetch("/audit/events");
+    expect(
+      (await listed.json()).events.map((e: any) => e.organizationId),
+    ).toEqual(["org_1"]);
+    for (const path of [
+      "/audit/events?organizationId=org_2",
+      `/audit/events?q=${encodeURIComponent("org:org_2")}`,
+      `/audit/search?q=${encodeURIComponent("org:org_2 note")}`,
+      "/audit/target?type=notes&id=note_org_2&organizationId=org_2",
+      "/audit/stats?organizationId=org_2",
+    ]) {
+      expect((await orgOne.fetch(path)).status).toBe(403);
+    }
+
+    // Single events of other organizations are not found
+    expect((await orgOne.fetch(`/audit/event?id=${first}`)).status).toBe(200);
+    expect((await orgOne.fetch(`/audit/event?id=${second}`)).status).toBe(404);
+    expect((await both.fetch(`/audit/event?id=${second}`)).status).toBe(200);
+
+    // Callers with several organizations choose one
+    expect((await both.fetch("/audit/stats")).status).toBe(400);
+    const stats = await both.fetch("/audit/stats?organizationId=org_2");
+    expect((await stats.json()).totalEvents).toBe(1);
+
+    // The service key reads every organization
+    const all = await t.fetch("/audit/events", { headers: serviceHeaders });
+    expect((await all.json()).events).toHaveLength(2);
+  });
+
+  test("HTTP routes require auth or an explicit opt-out", async () => {
+    expect(() =>
+      registerAuditRoutes(httpRouter(), components.convexAudit, {} as any),
+    ).toThrow("requires `auth`");
+
+    const http = httpRouter();
+    registerAuditRoutes(http, components.convexAudit, { auth: "none" });
+    expect(http.lookup("/audit/events", "GET")).not.toBeNull();
+  });
+
+  test("bearer tokens and JWTs identify principals", async () => {
+    const ctx = {} as any;
+    const request = (token: string) =>
+      new Request("https://example.com/audit/events", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+    const tokens = bearerTokenAuth([
+      { name: "unset", secret: undefined, organizationIds: "*" },
+      { name: "siem", secret: "s3cret", organizationIds: ["org_1"] },
+    ]);
+    expect(await tokens(ctx, request("s3cret"))).toEqual({
+      id: "siem",
+      organizationIds: ["org_1"],
+    });
+    expect(await tokens(ctx, request("s3cre"))).toBeNull();
+    expect(await tokens(ctx, request("undefined"))).toBeNull();
+
+    const { publicKey, privateKey } = await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign", "verify"],
+    );
+    const jwk = await crypto.subtle.exportKey("jwk", publicKey);
+    const encode = (bytes: Uint8Array) =>
+      btoa(String.fromCharCode(...bytes))
+        .replace(/\+/g, "-")
+        .replace(/\//g, "_")
+        .replace(/=+$/, "");
+    const json = (value: object) =>
+      encode(new TextEncoder().encode(JSON.stringify(value)));
+    const sign = async (claims: object, header: object = {}) => {
+      const unsigned = `${json({ alg: "ES256", kid: "k1", ...header })}.${json(claims)}`;
+      const signature = await crypto.subtle.sign(
+        { name: "ECDSA", hash: "SHA-256" },
+        privateKey,
+        new TextEncoder().encode(unsigned),
+      );
+      return `${unsigned}.${encode(new Uint8Array(signature))}`;
+    };
+
+    const jwt = jwtAuth({
+      jwks: { keys: [{ ...jwk, kid: "k1" }] },
+      issuer: "https://auth.example.com",
+      audience: "audit-api",
+      organizations: (claims) => claims.orgs as string[],
+    });
+    const now = Math.floor(Date.now() / 1000);
+    const claims = {
+      sub: "user_1",
+      iss: "https://auth.example.com",
+      aud: ["audit-api"],
+      exp: now + 60,
+      orgs: ["org_1", "org_2"],
+    };
+
+    expect(await jwt(ctx, request(await sign(claims)))).toEqual({
+      id: "user_1",
+      organizationIds: ["org_1", "org_2"],
+    });
+    // Expired, foreign, unsigned or tampered tokens are rejected
+    for (const token of [
+      await sign({ ...claims, exp: now - 3600 }),
+      await sign({ ...claims, iss: "https://evil.example.com" }),
+      await sign({ ...claims, aud: "other-api" }),
+      await sign(claims, { kid: "k2" }),
+      `${json({ alg: "none" })}.${json(claims)}.`,
+      (await sign(claims)).replace(
+        /\.[^.]+\./,
+        `.${json({ ...claims, orgs: "*" })}.`,
+      ),
+    ]) {
+      expect(await jwt(ctx, request(token))).toBeNull();
+    }
+
+    // Tokens without `exp` are rejected unless allowed
+    const { exp: _exp, ...unexpiring } = claims;
+    expect(await jwt(ctx, request(await sign(unexpiring)))).toBeNull();
+    const lenient = jwtAuth({
+      jwks: { keys: [{ ...jwk, kid: "k1" }] },
+      organizations: (claims) => claims.orgs as string[],
+      requireExpiration: false,
+    });
+    expect(await lenient(ctx, request(await sign(unexpiring)))).toEqual({
+      id: "user_1",
+      organizationIds: ["org_1", "org_2"],
+    });
+
+    // A resolver that throws on the claims rejects the token
+    const strict = jwtAuth({
+      jwks: { keys: [{ ...jwk, kid: "k1" }] },
+      organizations: (claims) => {
+        if (!Array.isArray(claims.org_ids)) {
+          throw new Error("org_ids claim missing");
+        }
+        return claims.org_ids as string[];
+      },
+    });
+    expect(await strict(ctx, request(await sign(claims)))).toBeNull();
+
+    // So do organizations that aren't "*" or a list of IDs, like a missing
+    // claim
+    const { orgs: _orgs, ...orgless } = claims;
+    for (const token of [
+      await sign(orgless),
+      await sign({ ...claims, orgs: "org_1" }),
+      await sign({ ...claims, orgs: [1, 2] }),
+    ]) {
+      expect(await jwt(ctx, request(token))).toBeNull();
+    }
+    expect(
+      await jwt(ctx, request(await sign({ ...claims, orgs: "*" }))),
+    ).toEqual({ id: "user_1", organizationIds: "*" });
+  });
 });
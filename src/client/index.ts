@@ -1,17 +1,61 @@
 import {
+  actionGeneric,
+  createFunctionHandle,
   httpActionGeneric,
+  internalQueryGeneric,
   mutationGeneric,
   queryGeneric,
 } from "convex/server";
 import type {
   Auth,
+  FunctionReference,
+  GenericActionCtx,
+  GenericDatabaseWriter,
   GenericDataModel,
+  GenericDocument,
   GenericMutationCtx,
   GenericQueryCtx,
   HttpRouter,
+  RegisteredAction,
+  TableNamesInDataModel,
+  UserIdentity,
+  WithOptionalSystemFields,
 } from "convex/server";
-import { v } from "convex/values";
+import { ConvexError, v } from "convex/values";
+import type {
+  GenericId,
+  GenericValidator,
+  Infer,
+  ObjectType,
+  PropertyValidators,
+} from "convex/values";
 import type { ComponentApi } from "../component/_generated/component.js";
+import {
+  formatAuditQueryDiagnostics,
+  parseAuditQuery,
+} from "./queryLanguage.js";
+import type { ParsedAuditQuery } from "./queryLanguage.js";
+import { extractRequestContext } from "./requestContext.js";
+import type { RequestContextOptions } from "./requestContext.js";
+import type { AuditPrincipal, AuditRouteAuth } from "./httpAuth.js";
+
+export {
+  formatAuditQueryDiagnostics,
+  parseAuditQuery,
+} from "./queryLanguage.js";
+export type {
+  AuditQueryDiagnostic,
+  ParsedAuditQuery,
+} from "./queryLanguage.js";
+export { extractRequestContext } from "./requestContext.js";
+export type { GeoProvider, RequestContextOptions } from "./requestContext.js";
+export { apiKeyAuth, bearerTokenAuth, jwtAuth } from "./httpAuth.js";
+export type {
+  AuditCredential,
+  AuditPrincipal,
+  AuditRouteAuth,
+  JwtAuthOptions,
+} from "./httpAuth.js";
 
 // =============================================================================
 // Types
@@ -61,6 +105,33 @@ export interface Context {
   sessionId?: string;
 }
 
+/**
+ * One field changed by an action, with its value before and after
+ *
+ * `field` is a dot-separated path ("address.city"). Redacted changes record
+ * that the field changed without its values.
+ */
+export interface AuditChange {
+  field: string;
+  kind: "added" | "removed" | "changed";
+  before?: any;
+  after?: any;
+  redacted?: boolean;
+}
+
+/**
+ * Options for computing a change diff
+ *
+ * Paths are dot-separated and `*` matches any key. A path also covers every
+ * field below it.
+ */
+export interface DiffOptions {
+  /** Fields left out of the diff (`_id` and `_creationTime` always are) */
+  ignore?: string[];
+  /** Fields recorded as changed without their before and after values */
+  redact?: string[];
+}
+
 /**
  * Audit event input for logging
  */
@@ -70,6 +141,7 @@ export interface AuditEventInput {
   targets: Target[];
   context?: Context;
   metadata?: Record<string, any>;
+  changes?: AuditChange[];
   organizationId?: string;
   occurredAt?: number;
   idempotencyKey?: string;
@@ -82,6 +154,266 @@ export interface AuditEventInput {
   version?: number;
 }
 
+/**
+ * Retention policy for audit events
+ *
+ * `action` is either an exact action ("resource.read") or a prefix pattern
+ * ("security.*"). Omit `organizationId` for a policy that applies to every
+ * organization.
+ */
+export interface RetentionPolicyInput {
+  organizationId?: string;
+  action?: string;
+  tag?: string;
+  retentionDays: number;
+}
+
+/**
+ * A redaction rule applied to events before they are stored
+ *
+ * Paths are dot-separated from the event root ("actor.email",
+ * "context.location", "metadata.card.number"); `*` matches any key or array
+ * element ("targets.*.name").
+ */
+export type RedactionRule =
+  | { type: "remove"; path: string }
+  | {
+      type: "pattern";
+      name: string;
+      pattern: string;
+      flags?: string;
+      replacement?: string;
+      paths?: string[];
+    }
+  | { type: "truncateIp"; path: string }
+  | { type: "hashEmail"; path: string }
+  | { type: "pseudonymize"; path: string };
+
+/**
+ * Redaction policy for an organization, or for every organization without
+ * a policy of its own when `organizationId` is omitted
+ *
+ * `pseudonymKey` is the secret for `pseudonymize` rules; it is kept when
+ * omitted on later updates.
+ */
+export interface RedactionPolicyInput {
+  organizationId?: string;
+  rules: RedactionRule[];
+  pseudonymKey?: string;
+}
+
+/**
+ * Event fields that can be encrypted at rest
+ */
+export type EncryptableField = "metadata" | "actor.metadata" | "context";
+
+/**
+ * Key encryption key for field-level encryption
+ *
+ * `key` is a base64 encoded 256-bit AES key (e.g. `openssl rand -base64 32`),
+ * usually read from an environment variable; keys left unset are skipped.
+ */
+export interface EncryptionKey {
+  keyId: string;
+  key: string | undefined;
+}
+
+/**
+ * How to encrypt event fields at rest
+ *
+ * `keyProvider` is a query defined with `defineEncryptionKeyProvider`.
+ * `fields` defaults to every encryptable field.
+ */
+export interface EncryptionOptions {
+  keyId: string;
+  keyProvider: FunctionReference<"query", "internal">;
+  fields?: EncryptableField[];
+}
+
+/**
+ * What a legal hold freezes: an organization, an actor, or a target resource.
+ * Actor and target holds can be narrowed to a single organization.
+ */
+export type LegalHoldScope =
+  | { type: "organization"; organizationId: string }
+  | {
+      type: "actor";
+      actorType: ActorType;
+      actorId: string;
+      organizationId?: string;
+    }
+  | {
+      type: "target";
+      targetType: string;
+      targetId: string;
+      organizationId?: string;
+    };
+
+/**
+ * Filters for listing audit events. Every given filter must match.
+ *
+ * `actionPrefix` matches actions starting with it ("user."), and `tags`
+ * matches events carrying all of the tags.
+ */
+export interface AuditEventFilters {
+  organizationId?: string;
+  action?: string;
+  actionPrefix?: string;
+  actorId?: string;
+  actorType?: string;
+  actorEmail?: string;
+  result?: "success" | "failure" | "pending";
+  tags?: string[];
+  startTime?: number;
+  endTime?: number;
+}
+
+/**
+ * File format for data subject access reports
+ */
+export type AccessReportFormat = "json" | "html";
+
+/**
+ * File format for audit event exports
+ */
+export type ExportFormat = "csv" | "ndjson";
+
+/**
+ * Filters selecting the events included in an export (the `list` filters)
+ */
+export type ExportFilters = AuditEventFilters;
+
+/**
+ * Webhook subscription streaming an organization's audit events
+ *
+ * `actions` holds exact actions or prefix patterns ("security.*"); `tags`
+ * matches events carrying any of the tags. Omitted filters match everything.
+ */
+export interface WebhookSubscriptionInput {
+  organizationId?: string;
+  url: string;
+  secret: string;
+  actions?: string[];
+  tags?: string[];
+  maxAttempts?: number;
+}
+
+/**
+ * Threshold rule raising a `security.alert` when matching events pile up
+ *
+ * Fires when `threshold` events matching `action` (an exact action or a
+ * prefix pattern), and optionally `result` and a target, occur within
+ * `windowMs` for the same `groupBy` key. Each key is counted separately.
+ * Repeated firings within `cooldownMs` (default: the window) are folded into
+ * the previous alert.
+ */
+export interface DetectionRuleInput {
+  organizationId?: string;
+  name: string;
+  action: string;
+  result?: "success" | "failure" | "pending";
+  targetType?: string;
+  targetId?: string;
+  groupBy: Array<"actor" | "ip" | "target" | "organization">;
+  threshold: number;
+  windowMs: number;
+  cooldownMs?: number;
+  severity?: AuditSeverity;
+  /** Action of the alert event (default `security.alert`) */
+  alertAction?: string;
+}
+
+/**
+ * Options for a time series of event counts
+ */
+export interface TimeSeriesOptions {
+  granularity: "hour" | "day";
+  organizationId?: string;
+  startTime?: number;
+  endTime?: number;
+  groupBy?: "action" | "actorType" | "result";
+}
+
+/**
+ * How a mutation wrapped with `withAudit` is audited
+ *
+ * `actor` and `organizationId` can be resolved from the mutation's context
+ * and arguments. `targets` and `metadata` also receive the handler's result,
+ * which is undefined when the handler threw.
+ */
+export interface AuditedMutationOptions<Ctx, Args, Output> {
+  action: string;
+  /** Defaults to the client's `actorResolver` */
+  actor?: Actor | ((ctx: Ctx, args: Args) => Actor | Promise<Actor>);
+  targets?: Target[] | ((args: Args, result: Output | undefined) => Target[]);
+  metadata?: (args: Args, result: Output | undefined) => Record<string, any>;
+  organizationId?:
+    | string
+    | ((
+        ctx: Ctx,
+        args: Args,
+      ) => string | undefined | Promise<string | undefined>);
+  tags?: string[];
+  /** Record the arguments as `metadata.args` (default true) */
+  recordArgs?: boolean;
+  /** Argument paths recorded as "[REDACTED]"; `*` matches any key */
+  redactArgs?: string[];
+}
+
+/**
+ * Resolves the actor responsible for an action from the function's context
+ */
+export type ActorResolver<Ctx = { auth: Auth }> = (
+  ctx: Ctx,
+) => Actor | Promise<Actor>;
+
+/**
+ * Options for `createActorResolver`
+ */
+export interface ActorResolverOptions {
+  /**
+   * Actor for an authenticated identity. Defaults to a `user` actor with the
+   * identity's subject, name and email.
+   */
+  fromIdentity?: (identity: UserIdentity) => Actor;
+  /**
+   * Actor when no one is signed in, such as `{ type: "system", id: "cron" }`
+   * for scheduled and internal functions or `{ type: "service", ... }` for a
+   * backend integration. Without one, unauthenticated calls throw.
+   */
+  fallback?: Actor;
+}
+
+/**
+ * An event whose actor may be left to the client's `actorResolver`
+ */
+export type EventWithOptionalActor<Event> = Event extends unknown
+  ? Omit<Event, "actor"> & { actor?: Actor }
+  : never;
+
+/**
+ * Change capture settings for one table
+ */
+export interface CapturedTableOptions<Ctx> {
+  /** Fields left out of the diff */
+  ignore?: string[];
+  /** Fields recorded as changed without their values */
+  redact?: string[];
+  /** Actor for this table's writes, instead of the default resolver */
+  actor?: ActorResolver<Ctx>;
+  /** Organization of a document, e.g. from its `orgId` field */
+  organizationId?: (doc: Record<string, any>) => string | undefined;
+}
+
+/**
+ * Which tables `wrapDatabase` audits, and how
+ */
+export interface ChangeCaptureOptions<Ctx, TableName extends string> {
+  tables: Partial<Record<TableName, CapturedTableOptions<Ctx>>>;
+  /** Defaults to the client's `actorResolver` */
+  actor?: ActorResolver<Ctx>;
+}
+
 /**
  * Standard action categories for audit events
  */
@@ -137,6 +469,9 @@ export const STANDARD_ACTIONS = {
   API_KEY_USED: "api_key.used",
   SECURITY_ALERT: "security.alert",
   SUSPICIOUS_ACTIVITY: "security.suspicious_activity",
+  LEGAL_HOLD_CREATED: "legal_hold.created",
+  LEGAL_HOLD_RELEASED: "legal_hold.released",
+  ACTOR_FORGOTTEN: "actor.forgotten",
 
   // Settings events
   SETTINGS_UPDATED: "settings.updated",
@@ -148,6 +483,357 @@ export const STANDARD_ACTIONS = {
 export type StandardAction =
   (typeof STANDARD_ACTIONS)[keyof typeof STANDARD_ACTIONS];
 
+// =============================================================================
+// Action Registry
+// =============================================================================
+
+/**
+ * How much attention an action deserves when it shows up in the log
+ */
+export type AuditSeverity = "low" | "medium" | "high" | "critical";
+
+/**
+ * Definition of a known action
+ *
+ * `metadata` is a Convex validator for the event's metadata, and
+ * `targetTypes` lists the target types its events may reference.
+ */
+export interface AuditActionDefinition {
+  description?: string;
+  severity?: AuditSeverity;
+  targetTypes?: readonly string[];
+  metadata?: GenericValidator;
+}
+
+/**
+ * Known actions, keyed by action name
+ */
+export type AuditActionRegistry = Record<string, AuditActionDefinition>;
+
+/**
+ * Define a registry of known actions
+ *
+ * Passing the registry to `AuditLog` type-checks `log()` calls against it,
+ * and `registerActions` stores it in the component so payloads are also
+ * validated when events are written.
+ *
+ * @example
+ * ```typescript
+ * export const auditActions = defineAuditActions({
+ *   ...STANDARD_AUDIT_ACTIONS,
+ *   "invoice.paid": {
+ *     description: "An invoice was paid",
+ *     severity: "low",
+ *     targetTypes: ["invoice"],
+ *     metadata: v.object({ amount: v.number(), currency: v.string() }),
+ *   },
+ * });
+ * ```
+ */
+export function defineAuditActions<const Actions extends AuditActionRegistry>(
+  actions: Actions,
+): Actions {
+  return actions;
+}
+
+/**
+ * Built-in registry describing `STANDARD_ACTIONS`
+ */
+export const STANDARD_AUDIT_ACTIONS = defineAuditActions({
+  [STANDARD_ACTIONS.USER_SIGNED_IN]: {
+    description: "A user signed in",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.USER_SIGNED_OUT]: {
+    description: "A user signed out",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.USER_SIGN_IN_FAILED]: {
+    description: "A sign-in attempt failed",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.USER_PASSWORD_RESET_REQUESTED]: {
+    description: "A password reset was requested",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.USER_PASSWORD_CHANGED]: {
+    description: "A user changed their password",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.USER_MFA_ENABLED]: {
+    description: "Multi-factor authentication was enabled",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.USER_MFA_DISABLED]: {
+    description: "Multi-factor authentication was disabled",
+    severity: "high",
+  },
+  [STANDARD_ACTIONS.USER_SESSION_EXPIRED]: {
+    description: "A session expired",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.USER_SESSION_REVOKED]: {
+    description: "A session was revoked",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.USER_CREATED]: {
+    description: "A user was created",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.USER_UPDATED]: {
+    description: "A user was updated",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.USER_DELETED]: {
+    description: "A user was deleted",
+    severity: "high",
+  },
+  [STANDARD_ACTIONS.USER_INVITED]: {
+    description: "A user was invited",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.USER_ROLE_CHANGED]: {
+    description: "A user's role changed",
+    severity: "high",
+  },
+  [STANDARD_ACTIONS.USER_EMAIL_VERIFIED]: {
+    description: "A user verified their email address",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.USER_ACTIVATED]: {
+    description: "A user was activated",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.USER_DEACTIVATED]: {
+    description: "A user was deactivated",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.ORGANIZATION_CREATED]: {
+    description: "An organization was created",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.ORGANIZATION_UPDATED]: {
+    description: "An organization was updated",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.ORGANIZATION_DELETED]: {
+    description: "An organization was deleted",
+    severity: "critical",
+  },
+  [STANDARD_ACTIONS.MEMBER_ADDED]: {
+    description: "A member was added to an organization",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.MEMBER_REMOVED]: {
+    description: "A member was removed from an organization",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.MEMBER_ROLE_CHANGED]: {
+    description: "A member's role changed",
+    severity: "high",
+  },
+  [STANDARD_ACTIONS.MEMBER_INVITED]: {
+    description: "A member was invited to an organization",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.INVITATION_ACCEPTED]: {
+    description: "An invitation was accepted",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.INVITATION_REVOKED]: {
+    description: "An invitation was revoked",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.RESOURCE_CREATED]: {
+    description: "A resource was created",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.RESOURCE_READ]: {
+    description: "A resource was read",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.RESOURCE_UPDATED]: {
+    description: "A resource was updated",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.RESOURCE_DELETED]: {
+    description: "A resource was deleted",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.RESOURCE_EXPORTED]: {
+    description: "Data was exported",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.RESOURCE_IMPORTED]: {
+    description: "Data was imported",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.RESOURCE_SHARED]: {
+    description: "A resource was shared",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.RESOURCE_UNSHARED]: {
+    description: "A resource stopped being shared",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.ACCESS_DENIED]: {
+    description: "Access to a resource was denied",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.PERMISSION_GRANTED]: {
+    description: "A permission was granted",
+    severity: "high",
+  },
+  [STANDARD_ACTIONS.PERMISSION_REVOKED]: {
+    description: "A permission was revoked",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.API_KEY_CREATED]: {
+    description: "An API key was created",
+    severity: "high",
+  },
+  [STANDARD_ACTIONS.API_KEY_REVOKED]: {
+    description: "An API key was revoked",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.API_KEY_USED]: {
+    description: "An API key was used",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.SECURITY_ALERT]: {
+    description: "A security alert was raised",
+    severity: "critical",
+  },
+  [STANDARD_ACTIONS.SUSPICIOUS_ACTIVITY]: {
+    description: "Suspicious activity was detected",
+    severity: "high",
+  },
+  [STANDARD_ACTIONS.LEGAL_HOLD_CREATED]: {
+    description: "A legal hold was placed",
+    severity: "high",
+  },
+  [STANDARD_ACTIONS.LEGAL_HOLD_RELEASED]: {
+    description: "A legal hold was released",
+    severity: "high",
+  },
+  [STANDARD_ACTIONS.ACTOR_FORGOTTEN]: {
+    description: "An actor's identity was erased from the audit log",
+    severity: "high",
+  },
+  [STANDARD_ACTIONS.SETTINGS_UPDATED]: {
+    description: "Settings were updated",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.NOTIFICATION_PREFERENCES_CHANGED]: {
+    description: "Notification preferences changed",
+    severity: "low",
+  },
+  [STANDARD_ACTIONS.BILLING_UPDATED]: {
+    description: "Billing details were updated",
+    severity: "medium",
+  },
+  [STANDARD_ACTIONS.SUBSCRIPTION_CHANGED]: {
+    description: "A subscription changed",
+    severity: "medium",
+  },
+});
+
+type TargetTypeOf<Definition> = Definition extends {
+  targetTypes: readonly (infer TargetType extends string)[];
+}
+  ? TargetType
+  : string;
+
+type MetadataOf<Definition> = Definition extends {
+  metadata: infer Metadata extends GenericValidator;
+}
+  ? Metadata["isOptional"] extends "optional"
+    ? { metadata?: Infer<Metadata> }
+    : { metadata: Infer<Metadata> }
+  : { metadata?: Record<string, any> };
+
+type RegisteredActionInput<
+  Actions extends AuditActionRegistry,
+  Action extends keyof Actions & string,
+> = Omit<AuditEventInput, "action" | "targets" | "metadata"> & {
+  action: Action;
+  targets: Array<Target & { type: TargetTypeOf<Actions[Action]> }>;
+} & MetadataOf<Actions[Action]>;
+
+/**
+ * Event input checked against a registry. Without a registry, any action is
+ * accepted.
+ */
+export type RegisteredEventInput<Actions extends AuditActionRegistry> =
+  string extends keyof Actions
+    ? AuditEventInput
+    : {
+        [Action in keyof Actions & string]: RegisteredActionInput<
+          Actions,
+          Action
+        >;
+      }[keyof Actions & string];
+
+/**
+ * Serialize a Convex validator so the component can check values against it
+ */
+function serializeValidator(validator: GenericValidator): unknown {
+  const base = {
+    kind: validator.kind,
+    ...(validator.isOptional === "optional" ? { optional: true } : {}),
+  };
+  switch (validator.kind) {
+    case "literal":
+      return { ...base, value: validator.value };
+    case "id":
+      return { ...base, tableName: validator.tableName };
+    case "array":
+      return { ...base, element: serializeValidator(validator.element) };
+    case "object":
+      return {
+        ...base,
+        fields: Object.fromEntries(
+          Object.entries(validator.fields).map(([field, fieldValidator]) => [
+            field,
+            serializeValidator(fieldValidator as GenericValidator),
+          ]),
+        ),
+      };
+    case "record":
+      return {
+        ...base,
+        key: serializeValidator(validator.key),
+        value: serializeValidator(validator.value),
+      };
+    case "union":
+      return {
+        ...base,
+        members: validator.members.map((member: GenericValidator) =>
+          serializeValidator(member),
+        ),
+      };
+    default:
+      return base;
+  }
+}
+
+/**
+ * Convert a registry into the definitions stored by the component
+ */
+function serializeActions(actions: AuditActionRegistry) {
+  return Object.entries(actions).map(([action, definition]) => ({
+    action,
+    description: definition.description,
+    severity: definition.severity,
+    targetTypes: definition.targetTypes
+      ? [...definition.targetTypes]
+      : undefined,
+    metadata: definition.metadata
+      ? serializeValidator(definition.metadata)
+      : undefined,
+  }));
+}
+
 // =============================================================================
 // Validators (for use in user's code)
 // =============================================================================
@@ -247,8 +933,9 @@ export async function getAuditEvent(
   ctx: QueryCtx,
   component: ComponentApi,
   eventId: string,
+  options?: { decrypt?: boolean },
 ) {
-  return await ctx.runQuery(component.lib.get, { eventId });
+  return await ctx.runQuery(component.lib.get, { eventId, ...options });
 }
 
 /**
@@ -257,31 +944,26 @@ export async function getAuditEvent(
 export async function listAuditEvents(
   ctx: QueryCtx,
   component: ComponentApi,
-  options?: {
-    organizationId?: string;
-    action?: string;
-    actorId?: string;
-    actorType?: string;
-    startTime?: number;
-    endTime?: number;
+  options?: AuditEventFilters & {
     limit?: number;
     cursor?: string;
+    decrypt?: boolean;
   },
 ) {
   return await ctx.runQuery(component.lib.list, options ?? {});
 }
 
 /**
- * Search audit events
+ * Search audit events by text, one page at a time
  */
 export async function searchAuditEvents(
   ctx: QueryCtx,
   component: ComponentApi,
   searchQuery: string,
-  options?: {
-    organizationId?: string;
-    actorId?: string;
+  options?: AuditEventFilters & {
     limit?: number;
+    cursor?: string;
+    decrypt?: boolean;
   },
 ) {
   return await ctx.runQuery(component.lib.search, {
@@ -290,6 +972,84 @@ export async function searchAuditEvents(
   });
 }
 
+/**
+ * Parse an audit query and combine it with filters given alongside it
+ *
+ * Single-valued filters must agree, so a query cannot widen a filter the
+ * caller enforces; tags add up.
+ */
+function compileAuditQuery(
+  q: string,
+  given: AuditEventFilters,
+): ParsedAuditQuery {
+  const parsed = parseAuditQuery(q);
+  const filters: AuditEventFilters = { ...given, ...parsed.filters };
+  for (const [key, value] of Object.entries(parsed.filters)) {
+    const givenValue = given[key as keyof AuditEventFilters];
+    if (key !== "tags" && givenValue !== undefined && givenValue !== value) {
+      parsed.diagnostics.push({
+        message: `The query's ${key} conflicts with the ${key} it was given with`,
+        start: 0,
+        end: q.length,
+      });
+    }
+  }
+  if (given.tags && parsed.filters.tags) {
+    filters.tags = [...given.tags, ...parsed.filters.tags];
+  }
+  return { ...parsed, filters };
+}
+
+/**
+ * Fetch a page of a compiled query: through the search index when it has
+ * text, otherwise through `list`
+ */
+async function runAuditQuery(
+  ctx: QueryCtx,
+  component: ComponentApi,
+  query: ParsedAuditQuery,
+  options: { limit?: number; cursor?: string; decrypt?: boolean },
+) {
+  if (query.text) {
+    return await ctx.runQuery(component.lib.search, {
+      searchQuery: query.text,
+      ...query.filters,
+      ...options,
+    });
+  }
+  return await ctx.runQuery(component.lib.list, {
+    ...query.filters,
+    ...options,
+  });
+}
+
+/**
+ * Run an audit query such as `action:user.* result:failure after:2026-01-01`
+ * (see `parseAuditQuery`), one page at a time
+ *
+ * Filters in `options` are combined with the query's. Throws on an invalid
+ * query; call `parseAuditQuery` first to show its diagnostics.
+ */
+export async function queryAuditEvents(
+  ctx: QueryCtx,
+  component: ComponentApi,
+  q: string,
+  options?: AuditEventFilters & {
+    limit?: number;
+    cursor?: string;
+    decrypt?: boolean;
+  },
+) {
+  const { limit, cursor, decrypt, ...given } = options ?? {};
+  const query = compileAuditQuery(q, given);
+  if (query.diagnostics.length > 0) {
+    throw new Error(
+      `Invalid audit query: ${formatAuditQueryDiagnostics(query.diagnostics)}`,
+    );
+  }
+  return await runAuditQuery(ctx, component, query, { limit, cursor, decrypt });
+}
+
 /**
  * Get audit statistics
  */
@@ -305,12 +1065,266 @@ export async function getAuditStats(
   return await ctx.runQuery(component.lib.getStats, options ?? {});
 }
 
-// =============================================================================
-// Class-based Client
-// =============================================================================
-
 /**
- * AuditLog client for interacting with the audit component
+ * Get event counts per hour or day
+ */
+export async function getAuditTimeSeries(
+  ctx: QueryCtx,
+  component: ComponentApi,
+  options: TimeSeriesOptions,
+) {
+  return await ctx.runQuery(component.lib.getTimeSeries, options);
+}
+
+// =============================================================================
+// Change Diffs
+// =============================================================================
+
+const ALWAYS_IGNORED = ["_id", "_creationTime"];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof ArrayBuffer)
+  );
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a instanceof ArrayBuffer && b instanceof ArrayBuffer) {
+    const left = new Uint8Array(a);
+    const right = new Uint8Array(b);
+    return (
+      left.length === right.length && left.every((byte, i) => byte === right[i])
+    );
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Whether a path is, or is below, one of the given paths
+ */
+function coveredBy(paths: string[], path: string[]) {
+  return paths.some((pattern) => {
+    const segments = pattern.split(".");
+    return (
+      segments.length <= path.length &&
+      segments.every((segment, i) => segment === "*" || segment === path[i])
+    );
+  });
+}
+
+function collectChanges(
+  before: unknown,
+  after: unknown,
+  path: string[],
+  options: { ignore: string[]; redact: string[] },
+  changes: AuditChange[],
+) {
+  if (path.length > 0 && coveredBy(options.ignore, path)) {
+    return;
+  }
+  const redacted = path.length > 0 && coveredBy(options.redact, path);
+
+  // Nested objects are compared field by field unless they are redacted
+  if (!redacted && isPlainObject(before) && isPlainObject(after)) {
+    const keys = [
+      ...Object.keys(before),
+      ...Object.keys(after).filter((key) => !(key in before)),
+    ];
+    for (const key of keys) {
+      collectChanges(before[key], after[key], [...path, key], options, changes);
+    }
+    return;
+  }
+  if (isEqual(before, after)) {
+    return;
+  }
+
+  const kind =
+    before === undefined
+      ? "added"
+      : after === undefined
+        ? "removed"
+        : "changed";
+  changes.push(
+    redacted
+      ? { field: path.join("."), kind, redacted: true }
+      : { field: path.join("."), kind, before, after },
+  );
+}
+
+/**
+ * Compute the field-level changes between two versions of a document
+ *
+ * Nested objects are compared field by field; arrays and other values are
+ * compared as a whole. Pass `null` as `before` for a created document or as
+ * `after` for a deleted one.
+ *
+ * @example
+ * ```typescript
+ * const changes = diffDocuments(oldDoc, newDoc, {
+ *   ignore: ["updatedAt"],
+ *   redact: ["apiSecret"],
+ * });
+ * // [{ field: "plan", kind: "changed", before: "free", after: "pro" },
+ * //  { field: "apiSecret", kind: "changed", redacted: true }]
+ * ```
+ */
+export function diffDocuments(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined,
+  options?: DiffOptions,
+): AuditChange[] {
+  const changes: AuditChange[] = [];
+  collectChanges(
+    before ?? {},
+    after ?? {},
+    [],
+    {
+      ignore: [...ALWAYS_IGNORED, ...(options?.ignore ?? [])],
+      redact: options?.redact ?? [],
+    },
+    changes,
+  );
+  return changes;
+}
+
+// =============================================================================
+// Actor Resolution
+// =============================================================================
+
+/**
+ * Create an actor resolver that reads the caller from `ctx.auth`
+ *
+ * Pass the same resolver to `AuditLog` and `exposeAuditApi` so events logged
+ * from your own functions and from React clients record the same actor.
+ *
+ * @example
+ * ```typescript
+ * const actorResolver = createActorResolver({
+ *   fallback: { type: "system", id: "scheduler" },
+ * });
+ * const audit = new AuditLog(components.convexAudit, { actorResolver });
+ * ```
+ */
+export function createActorResolver(
+  options: ActorResolverOptions = {},
+): ActorResolver {
+  return async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (identity) {
+      if (options.fromIdentity) {
+        return options.fromIdentity(identity);
+      }
+      return {
+        type: "user",
+        id: identity.subject,
+        ...(identity.name !== undefined ? { name: identity.name } : {}),
+        ...(identity.email !== undefined ? { email: identity.email } : {}),
+      };
+    }
+    if (options.fallback) {
+      return options.fallback;
+    }
+    throw new Error("Cannot resolve audit actor: no authenticated user");
+  };
+}
+
+// =============================================================================
+// Audited Mutations
+// =============================================================================
+
+function maskArgs(
+  value: unknown,
+  paths: string[],
+  path: string[] = [],
+): unknown {
+  if (path.length > 0 && coveredBy(paths, path)) {
+    return "[REDACTED]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => maskArgs(item, paths, [...path, String(i)]));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        maskArgs(entry, paths, [...path, key]),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * The code and message recorded for a handler error
+ *
+ * The code comes from a `ConvexError`'s data (a string, or its `code` field)
+ * and otherwise falls back to the error's name.
+ */
+function describeError(error: unknown) {
+  let code: string | undefined;
+  if (error instanceof ConvexError) {
+    const data: unknown = error.data;
+    if (typeof data === "string") {
+      code = data;
+    } else if (isPlainObject(data) && typeof data.code === "string") {
+      code = data.code;
+    }
+  }
+  return {
+    code: code ?? (error instanceof Error ? error.name : "Error"),
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+// =============================================================================
+// Encryption Keys
+// =============================================================================
+
+/**
+ * Define the query that hands key encryption keys to the component
+ *
+ * The component calls it whenever it encrypts or decrypts, including in
+ * background jobs, and only stores a fingerprint of each key. Export it as
+ * an internal query and pass it to `audit.configureEncryption`.
+ *
+ * @example
+ * ```typescript
+ * // convex/audit.ts
+ * export const encryptionKeys = defineEncryptionKeyProvider(() => [
+ *   { keyId: "2026-10", key: process.env.AUDIT_KEY_2026_10 },
+ * ]);
+ * ```
+ */
+export function defineEncryptionKeyProvider(keys: () => EncryptionKey[]) {
+  return internalQueryGeneric({
+    args: {},
+    returns: v.array(v.object({ keyId: v.string(), key: v.string() })),
+    handler: async () => {
+      return keys().flatMap(({ keyId, key }) => (key ? [{ keyId, key }] : []));
+    },
+  });
+}
+
+// =============================================================================
+// Class-based Client
+// =============================================================================
+
+/**
+ * AuditLog client for interacting with the audit component
  *
  * @example
  * ```typescript
@@ -329,63 +1343,1110 @@ export async function getAuditStats(
  * });
  * ```
  */
-export class AuditLog {
+export class AuditLog<
+  Actions extends AuditActionRegistry = AuditActionRegistry,
+> {
   constructor(
     public component: ComponentApi,
     public options?: {
       defaultOrganizationId?: string;
+      /**
+       * Fills in the actor of events logged without one (see
+       * `createActorResolver`)
+       */
+      actorResolver?: ActorResolver;
+      /**
+       * How `httpAction` reads the context of events from requests
+       */
+      requestContext?: RequestContextOptions;
+      /**
+       * Registry of known actions (see `defineAuditActions`). `log` calls are
+       * type-checked against it.
+       */
+      actions?: Actions;
     },
   ) {}
 
   /**
-   * Log a single audit event
+   * The registry of known actions, if one was given
+   */
+  get actions(): Actions | undefined {
+    return this.options?.actions;
+  }
+
+  /**
+   * Resolve the actor for the current caller with the client's
+   * `actorResolver`
+   */
+  async resolveActor(ctx: MutationCtx | QueryCtx): Promise<Actor> {
+    const resolver = this.options?.actorResolver;
+    if (!resolver) {
+      throw new Error("No actor given and no actorResolver configured");
+    }
+    if (!ctx.auth) {
+      throw new Error("Cannot resolve audit actor: ctx has no auth");
+    }
+    return await resolver({ auth: ctx.auth });
+  }
+
+  /**
+   * Log a single audit event
+   *
+   * Without an `actor`, the client's `actorResolver` fills it in.
+   */
+  async log(
+    ctx: MutationCtx,
+    event: EventWithOptionalActor<RegisteredEventInput<Actions>>,
+  ) {
+    const input = event as Partial<AuditEventInput>;
+    return await logAuditEvent(ctx, this.component, {
+      ...(input as AuditEventInput),
+      actor: input.actor ?? (await this.resolveActor(ctx)),
+      organizationId:
+        input.organizationId ?? this.options?.defaultOrganizationId,
+    });
+  }
+
+  /**
+   * Log an audit event with the field-level changes between two versions of
+   * a document
+   *
+   * The diff is stored in the event's `changes` field (see `diffDocuments`).
+   *
+   * @example
+   * ```typescript
+   * const before = await ctx.db.get(settingsId);
+   * await ctx.db.patch(settingsId, updates);
+   * const after = await ctx.db.get(settingsId);
+   *
+   * await audit.logChange(ctx, {
+   *   action: "settings.updated",
+   *   actor: { type: "user", id: userId },
+   *   targets: [{ type: "settings", id: settingsId }],
+   *   before,
+   *   after,
+   *   ignore: ["updatedAt"],
+   *   redact: ["smtpPassword"],
+   * });
+   * ```
+   */
+  async logChange(
+    ctx: MutationCtx,
+    event: EventWithOptionalActor<RegisteredEventInput<Actions>> &
+      DiffOptions & {
+        before: Record<string, any> | null;
+        after: Record<string, any> | null;
+      },
+  ) {
+    const { before, after, ignore, redact, ...input } =
+      event as AuditEventInput &
+        DiffOptions & {
+          before: Record<string, any> | null;
+          after: Record<string, any> | null;
+        };
+    return await this.log(ctx, {
+      ...input,
+      changes: diffDocuments(before, after, { ignore, redact }),
+    } as EventWithOptionalActor<RegisteredEventInput<Actions>>);
+  }
+
+  /**
+   * Define a public action that runs a mutation and audits it automatically
+   *
+   * The handler is an internal mutation of your app. When it succeeds, an
+   * event is logged and its value is returned. When it throws, its writes
+   * are rolled back, a `failure` event with the error's code is logged and
+   * the error is rethrown. Being an action, the handler and its event commit
+   * separately. Arguments are recorded as `metadata.args`, with `redactArgs`
+   * paths masked. Events fall back to `defaultOrganizationId` like `log`.
+   *
+   * @example
+   * ```typescript
+   * export const renameDocumentHandler = internalMutation({
+   *   args: { documentId: v.id("documents"), title: v.string() },
+   *   handler: async (ctx, args) => {
+   *     await ctx.db.patch(args.documentId, { title: args.title });
+   *   },
+   * });
+   *
+   * export const renameDocument = audit.withAudit(
+   *   {
+   *     action: "document.renamed",
+   *     actor: async (ctx) => ({
+   *       type: "user",
+   *       id: (await ctx.auth.getUserIdentity())!.subject,
+   *     }),
+   *     targets: (args) => [{ type: "document", id: args.documentId }],
+   *     redactArgs: ["secret"],
+   *   },
+   *   {
+   *     args: { documentId: v.id("documents"), title: v.string() },
+   *     handler: internal.documents.renameDocumentHandler,
+   *   },
+   * );
+   * ```
+   */
+  withAudit<
+    DataModel extends GenericDataModel,
+    ArgsValidator extends PropertyValidators,
+    Output,
+  >(
+    options: AuditedMutationOptions<
+      GenericActionCtx<DataModel>,
+      ObjectType<ArgsValidator>,
+      Output
+    >,
+    definition: {
+      args: ArgsValidator;
+      /** Validator for the handler's return value */
+      returns?: GenericValidator;
+      handler: FunctionReference<
+        "mutation",
+        "internal",
+        ObjectType<ArgsValidator>,
+        Output
+      >;
+    },
+  ): RegisteredAction<"public", ObjectType<ArgsValidator>, Promise<Output>> {
+    const auditEvent = async (
+      ctx: GenericActionCtx<DataModel>,
+      args: ObjectType<ArgsValidator>,
+      result: Output | undefined,
+      error?: { code: string; message: string },
+    ) => {
+      const metadata = {
+        ...options.metadata?.(args, result),
+        ...(options.recordArgs === false
+          ? {}
+          : { args: maskArgs(args, options.redactArgs ?? []) }),
+      };
+      return {
+        action: options.action,
+        actor:
+          typeof options.actor === "function"
+            ? await options.actor(ctx, args)
+            : options.actor,
+        targets:
+          typeof options.targets === "function"
+            ? options.targets(args, result)
+            : (options.targets ?? []),
+        metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+        organizationId:
+          typeof options.organizationId === "function"
+            ? await options.organizationId(ctx, args)
+            : options.organizationId,
+        tags: options.tags,
+        result: error ? ("failure" as const) : ("success" as const),
+        error,
+      } as EventWithOptionalActor<RegisteredEventInput<Actions>>;
+    };
+
+    return actionGeneric({
+      args: definition.args,
+      returns: definition.returns,
+      handler: async (
+        ctx: GenericActionCtx<DataModel>,
+        args: ObjectType<ArgsValidator>,
+      ): Promise<Output> => {
+        let result: Output;
+        try {
+          result = await ctx.runMutation(
+            definition.handler as FunctionReference<"mutation", "internal">,
+            args,
+          );
+        } catch (thrown) {
+          const error = describeError(thrown);
+          await this.log(ctx, await auditEvent(ctx, args, undefined, error));
+          throw thrown;
+        }
+        await this.log(ctx, await auditEvent(ctx, args, result));
+        return result;
+      },
+    }) as RegisteredAction<
+      "public",
+      ObjectType<ArgsValidator>,
+      Promise<Output>
+    >;
+  }
+
+  /**
+   * Define an HTTP action whose audit events carry the request's context
+   *
+   * The handler receives the context extracted from the request (see
+   * `extractRequestContext`) and a `log` function that adds it to events.
+   * Context fields given on the event take precedence.
+   *
+   * @example
+   * ```typescript
+   * export const download = audit.httpAction(async (ctx, request, { log }) => {
+   *   const fileId = new URL(request.url).searchParams.get("id")!;
+   *   await log({
+   *     action: "file.downloaded",
+   *     targets: [{ type: "file", id: fileId }],
+   *   });
+   *   return new Response(await loadFile(ctx, fileId));
+   * });
+   * ```
+   */
+  httpAction(
+    handler: (
+      ctx: GenericActionCtx<GenericDataModel>,
+      request: Request,
+      audit: {
+        context: Context;
+        log: (
+          event: EventWithOptionalActor<RegisteredEventInput<Actions>>,
+        ) => Promise<{ eventId: string; created: boolean }>;
+      },
+    ) => Promise<Response>,
+    options?: RequestContextOptions,
+  ) {
+    return httpActionGeneric(async (ctx, request) => {
+      const context = extractRequestContext(
+        request,
+        options ?? this.options?.requestContext,
+      );
+      return await handler(ctx, request, {
+        context,
+        log: async (event) =>
+          await this.log(ctx, {
+            ...event,
+            context: { ...context, ...(event as AuditEventInput).context },
+          }),
+      });
+    });
+  }
+
+  /**
+   * Wrap a mutation's database so writes to the given tables are audited
+   *
+   * Every insert, patch, replace and delete on a captured table logs a
+   * `resource.created`, `resource.updated` or `resource.deleted` event in
+   * the same transaction, targeting the document (`type` is the table name)
+   * with the field diff in `changes`. Other tables pass through untouched.
+   *
+   * @example
+   * ```typescript
+   * const handler = async (ctx: MutationCtx, args) => {
+   *   const db = audit.wrapDatabase(ctx, {
+   *     tables: {
+   *       patients: { redact: ["ssn"], organizationId: (doc) => doc.clinicId },
+   *       prescriptions: {},
+   *     },
+   *     actor: async (ctx) => ({
+   *       type: "user",
+   *       id: (await ctx.auth.getUserIdentity())!.subject,
+   *     }),
+   *   });
+   *   await db.patch(args.patientId, { name: args.name });
+   * };
+   * ```
+   */
+  wrapDatabase<DataModel extends GenericDataModel>(
+    ctx: GenericMutationCtx<DataModel>,
+    options: ChangeCaptureOptions<
+      GenericMutationCtx<DataModel>,
+      TableNamesInDataModel<DataModel>
+    >,
+  ): GenericDatabaseWriter<DataModel> {
+    // Tables are only known by name here, so work on the untyped writer
+    const db = ctx.db as unknown as GenericDatabaseWriter<GenericDataModel>;
+    const tables = options.tables as Record<
+      string,
+      CapturedTableOptions<GenericMutationCtx<DataModel>> | undefined
+    >;
+
+    const capturedTable = (id: string, table?: string) =>
+      (table !== undefined ? [table] : Object.keys(tables)).find(
+        (name) => tables[name] && db.normalizeId(name, id) !== null,
+      );
+
+    const record = async (
+      table: string,
+      id: string,
+      action: string,
+      before: GenericDocument | null,
+      after: GenericDocument | null,
+    ) => {
+      const tableOptions = tables[table]!;
+      const actor = tableOptions.actor ?? options.actor;
+      const doc = after ?? before;
+      await this.log(ctx, {
+        action,
+        actor: actor ? await actor(ctx) : undefined,
+        targets: [{ type: table, id }],
+        metadata: { table },
+        changes: diffDocuments(before, after, {
+          ignore: tableOptions.ignore,
+          redact: tableOptions.redact,
+        }),
+        organizationId: doc ? tableOptions.organizationId?.(doc) : undefined,
+      } as unknown as EventWithOptionalActor<RegisteredEventInput<Actions>>);
+    };
+
+    // Writes by ID accept an optional leading table name
+    type WriteArgs<Fields> =
+      | [GenericId<string>, Fields]
+      | [string, GenericId<string>, Fields];
+
+    const update = async <Fields>(
+      args: WriteArgs<Fields>,
+      write: (
+        table: string | undefined,
+        id: GenericId<string>,
+        value: Fields,
+      ) => Promise<void>,
+    ) => {
+      const [table, id, value] =
+        args.length === 3 ? args : [undefined, args[0], args[1]];
+      const captured = capturedTable(id, table);
+      const before = captured ? await db.get(id) : null;
+      await write(table, id, value);
+      if (captured) {
+        await record(
+          captured,
+          id,
+          STANDARD_ACTIONS.RESOURCE_UPDATED,
+          before,
+          await db.get(id),
+        );
+      }
+    };
+
+    const wrapped: GenericDatabaseWriter<GenericDataModel> = {
+      get: (...args: [GenericId<string>] | [string, GenericId<string>]) =>
+        args.length === 2 ? db.get(args[0], args[1]) : db.get(args[0]),
+      query: (table) => db.query(table),
+      normalizeId: (table, id) => db.normalizeId(table, id),
+      system: db.system,
+      insert: async (table, value) => {
+        const id = await db.insert(table, value);
+        if (tables[table]) {
+          await record(
+            table,
+            id,
+            STANDARD_ACTIONS.RESOURCE_CREATED,
+            null,
+            await db.get(id),
+          );
+        }
+        return id;
+      },
+      patch: (...args: WriteArgs<Partial<GenericDocument>>) =>
+        update(args, (table, id, value) =>
+          table !== undefined
+            ? db.patch(table, id, value)
+            : db.patch(id, value),
+        ),
+      replace: (
+        ...args: WriteArgs<WithOptionalSystemFields<GenericDocument>>
+      ) =>
+        update(args, (table, id, value) =>
+          table !== undefined
+            ? db.replace(table, id, value)
+            : db.replace(id, value),
+        ),
+      delete: async (
+        ...args: [GenericId<string>] | [string, GenericId<string>]
+      ) => {
+        const [table, id] = args.length === 2 ? args : [undefined, args[0]];
+        const captured = capturedTable(id, table);
+        const before = captured ? await db.get(id) : null;
+        if (table !== undefined) {
+          await db.delete(table, id);
+        } else {
+          await db.delete(id);
+        }
+        if (captured) {
+          await record(
+            captured,
+            id,
+            STANDARD_ACTIONS.RESOURCE_DELETED,
+            before,
+            null,
+          );
+        }
+      },
+    };
+    return wrapped as unknown as GenericDatabaseWriter<DataModel>;
+  }
+
+  /**
+   * Log multiple audit events in a batch
+   */
+  async logBatch(
+    ctx: MutationCtx,
+    events: EventWithOptionalActor<RegisteredEventInput<Actions>>[],
+  ) {
+    const inputs = events as Partial<AuditEventInput>[];
+    const actor = inputs.every((e) => e.actor)
+      ? undefined
+      : await this.resolveActor(ctx);
+    return await logAuditEventBatch(
+      ctx,
+      this.component,
+      inputs.map((e) => ({
+        ...(e as AuditEventInput),
+        actor: e.actor ?? actor!,
+        organizationId: e.organizationId ?? this.options?.defaultOrganizationId,
+      })),
+    );
+  }
+
+  /**
+   * Store the action registry in the component
+   *
+   * Events for registered actions are then validated when they are written.
+   * Run this when deploying, e.g. from an internal mutation.
+   */
+  async registerActions(ctx: MutationCtx) {
+    if (!this.options?.actions) {
+      throw new Error("AuditLog was created without an action registry");
+    }
+    return await ctx.runMutation(this.component.registry.registerActions, {
+      actions: serializeActions(this.options.actions),
+    });
+  }
+
+  /**
+   * List the actions registered in the component
+   */
+  async listActions(ctx: QueryCtx) {
+    return await ctx.runQuery(this.component.registry.listActions, {});
+  }
+
+  /**
+   * Get a single audit event by ID
+   *
+   * Encrypted fields are decrypted, as for every read through this client.
+   */
+  async get(ctx: QueryCtx, eventId: string) {
+    return await getAuditEvent(ctx, this.component, eventId, {
+      decrypt: true,
+    });
+  }
+
+  /**
+   * List audit events with filtering
+   *
+   * Pass the returned `nextCursor` as `cursor` to fetch the next page.
+   */
+  async list(
+    ctx: QueryCtx,
+    options?: AuditEventFilters & {
+      limit?: number;
+      cursor?: string;
+    },
+  ) {
+    return await listAuditEvents(ctx, this.component, {
+      ...options,
+      organizationId:
+        options?.organizationId ?? this.options?.defaultOrganizationId,
+      decrypt: true,
+    });
+  }
+
+  /**
+   * Search audit events by text
+   *
+   * Matches the action, the actor's name and email, target names and IDs,
+   * the error message, tags and the metadata keys chosen with
+   * `configureSearch`. Pass the returned `nextCursor` back as `cursor` for
+   * the next page.
+   */
+  async search(
+    ctx: QueryCtx,
+    searchQuery: string,
+    options?: AuditEventFilters & {
+      limit?: number;
+      cursor?: string;
+    },
+  ) {
+    return await searchAuditEvents(ctx, this.component, searchQuery, {
+      ...options,
+      organizationId:
+        options?.organizationId ?? this.options?.defaultOrganizationId,
+      decrypt: true,
+    });
+  }
+
+  /**
+   * Run an audit query, one page at a time
+   *
+   * The query combines filters and search text, e.g.
+   * `actor.email:alice@x.com action:user.* result:failure tag:billing`.
+   * Throws on an invalid query; see `parseAuditQuery` for its diagnostics.
+   */
+  async query(
+    ctx: QueryCtx,
+    q: string,
+    options?: AuditEventFilters & {
+      limit?: number;
+      cursor?: string;
+    },
+  ) {
+    const { filters } = parseAuditQuery(q);
+    return await queryAuditEvents(ctx, this.component, q, {
+      ...options,
+      organizationId:
+        options?.organizationId ??
+        filters.organizationId ??
+        this.options?.defaultOrganizationId,
+      decrypt: true,
+    });
+  }
+
+  /**
+   * Choose the metadata keys (dot paths allowed) that new events are
+   * searchable by
+   */
+  async configureSearch(ctx: MutationCtx, metadataKeys: string[]) {
+    return await ctx.runMutation(this.component.search.configure, {
+      metadataKeys,
+    });
+  }
+
+  /**
+   * Get the full-text search settings
+   */
+  async getSearchSettings(ctx: QueryCtx) {
+    return await ctx.runQuery(this.component.search.getSettings, {});
+  }
+
+  /**
+   * Add search text to events written before search existed
+   *
+   * Only needed once after upgrading from a version without `searchText`;
+   * until it completes, those events aren't found by `search`. The job runs
+   * in the background and is safe to start again.
+   */
+  async backfillSearch(ctx: MutationCtx, options?: { batchSize?: number }) {
+    return await ctx.runMutation(this.component.search.backfill, {
+      ...options,
+    });
+  }
+
+  /**
+   * Get the progress of the search text backfill
+   */
+  async getSearchBackfillStatus(ctx: QueryCtx) {
+    return await ctx.runQuery(this.component.search.getBackfillStatus, {});
+  }
+
+  /**
+   * Get audit statistics
+   */
+  async getStats(
+    ctx: QueryCtx,
+    options?: {
+      organizationId?: string;
+      startTime?: number;
+      endTime?: number;
+    },
+  ) {
+    return await getAuditStats(ctx, this.component, {
+      ...options,
+      organizationId:
+        options?.organizationId ?? this.options?.defaultOrganizationId,
+    });
+  }
+
+  /**
+   * Get event counts per hour or day, for dashboards
+   *
+   * Returns one point per bucket (empty buckets included), optionally broken
+   * down by action, actor type or result.
+   *
+   * @example
+   * ```typescript
+   * const points = await audit.getTimeSeries(ctx, {
+   *   granularity: "day",
+   *   startTime: Date.now() - 14 * 24 * 60 * 60 * 1000,
+   *   groupBy: "result",
+   * });
+   * ```
+   */
+  async getTimeSeries(ctx: QueryCtx, options: TimeSeriesOptions) {
+    return await getAuditTimeSeries(ctx, this.component, {
+      ...options,
+      organizationId:
+        options.organizationId ?? this.options?.defaultOrganizationId,
+    });
+  }
+
+  /**
+   * Build the stats counters from events written before they existed
+   *
+   * Only needed once after upgrading from a version without counters; until
+   * it completes, `getStats` returns status "backfilling" and
+   * `getTimeSeries` throws. The job runs in the background and is safe to
+   * start again.
+   */
+  async backfillStats(ctx: MutationCtx, options?: { batchSize?: number }) {
+    return await ctx.runMutation(this.component.stats.backfill, {
+      ...options,
+    });
+  }
+
+  /**
+   * Get the progress of the stats counter backfill
+   */
+  async getStatsBackfillStatus(ctx: QueryCtx) {
+    return await ctx.runQuery(this.component.stats.getBackfillStatus, {});
+  }
+
+  /**
+   * Verify the tamper-evident hash chain for an organization
+   *
+   * Checks up to `limit` events and reports the first broken link. When
+   * `continueFrom` is returned, pass it back to keep verifying.
+   */
+  async verifyChain(
+    ctx: QueryCtx,
+    options?: {
+      organizationId?: string;
+      fromSequence?: number;
+      previousHash?: string;
+      limit?: number;
+    },
+  ) {
+    return await ctx.runQuery(this.component.chain.verifyChain, {
+      ...options,
+      organizationId:
+        options?.organizationId ?? this.options?.defaultOrganizationId,
+    });
+  }
+
+  /**
+   * Create or update a retention policy
+   *
+   * @example
+   * ```typescript
+   * await audit.setRetentionPolicy(ctx, { action: "security.*", retentionDays: 7 * 365 });
+   * await audit.setRetentionPolicy(ctx, { action: "resource.read", retentionDays: 30 });
+   * ```
+   */
+  async setRetentionPolicy(ctx: MutationCtx, policy: RetentionPolicyInput) {
+    return await ctx.runMutation(this.component.retention.setPolicy, {
+      ...policy,
+      organizationId:
+        policy.organizationId ?? this.options?.defaultOrganizationId,
+    });
+  }
+
+  /**
+   * Remove a retention policy
+   */
+  async removeRetentionPolicy(ctx: MutationCtx, policyId: string) {
+    return await ctx.runMutation(this.component.retention.removePolicy, {
+      policyId,
+    });
+  }
+
+  /**
+   * List the retention policies that apply to an organization
+   */
+  async listRetentionPolicies(
+    ctx: QueryCtx,
+    options?: { organizationId?: string },
+  ) {
+    return await ctx.runQuery(this.component.retention.listPolicies, {
+      organizationId:
+        options?.organizationId ?? this.options?.defaultOrganizationId,
+    });
+  }
+
+  /**
+   * Preview how many events a retention policy would purge
+   */
+  async previewRetentionPolicy(
+    ctx: QueryCtx,
+    policy: RetentionPolicyInput & { limit?: number },
+  ) {
+    return await ctx.runQuery(this.component.retention.previewPolicy, {
+      ...policy,
+      organizationId:
+        policy.organizationId ?? this.options?.defaultOrganizationId,
+    });
+  }
+
+  /**
+   * Purge expired events now instead of waiting for the scheduled job
+   *
+   * Does nothing while a run is already in progress.
+   */
+  async enforceRetention(ctx: MutationCtx, options?: { batchSize?: number }) {
+    return await ctx.runMutation(
+      this.component.retention.enforce,
+      options ?? {},
+    );
+  }
+
+  /**
+   * Set the redaction policy applied to events before they are stored
+   *
+   * Replaces the organization's previous rules and bumps the policy version
+   * recorded on redacted events.
+   *
+   * @example
+   * ```typescript
+   * await audit.setRedactionPolicy(ctx, {
+   *   rules: [
+   *     { type: "hashEmail", path: "actor.email" },
+   *     { type: "truncateIp", path: "context.location" },
+   *     { type: "remove", path: "metadata.ssn" },
+   *   ],
+   * });
+   * ```
+   */
+  async setRedactionPolicy(ctx: MutationCtx, policy: RedactionPolicyInput) {
+    return await ctx.runMutation(this.component.redaction.setPolicy, {
+      ...policy,
+      organizationId:
+        policy.organizationId ?? this.options?.defaultOrganizationId,
+    });
+  }
+
+  /**
+   * Remove an organization's redaction policy
+   */
+  async removeRedactionPolicy(
+    ctx: MutationCtx,
+    options?: { organizationId?: string },
+  ) {
+    return await ctx.runMutation(this.component.redaction.removePolicy, {
+      organizationId:
+        options?.organizationId ?? this.options?.defaultOrganizationId,
+    });
+  }
+
+  /**
+   * Get the redaction policy that applies to an organization
+   */
+  async getRedactionPolicy(
+    ctx: QueryCtx,
+    options?: { organizationId?: string },
+  ) {
+    return await ctx.runQuery(this.component.redaction.getPolicy, {
+      organizationId:
+        options?.organizationId ?? this.options?.defaultOrganizationId,
+    });
+  }
+
+  /**
+   * Encrypt event fields at rest with a key encryption key
+   *
+   * Keys come from `keyProvider` whenever they are needed and are never
+   * stored. Passing a new `keyId` makes it the active key and rewraps events
+   * encrypted with older keys in the background, so keep serving those
+   * until `getEncryptionStatus` reports the rotation complete. Then remove
+   * retired keys with `removeEncryptionKey`.
+   *
+   * @example
+   * ```typescript
+   * await audit.configureEncryption(ctx, {
+   *   keyId: "2026-10",
+   *   keyProvider: internal.audit.encryptionKeys,
+   * });
+   * ```
+   */
+  async configureEncryption(
+    ctx: MutationCtx,
+    { keyProvider, ...options }: EncryptionOptions & { batchSize?: number },
+  ) {
+    return await ctx.runMutation(this.component.encryption.configure, {
+      ...options,
+      keyProvider: await createFunctionHandle(keyProvider),
+    });
+  }
+
+  /**
+   * Stop encrypting new events; existing events stay readable
+   */
+  async disableEncryption(ctx: MutationCtx) {
+    return await ctx.runMutation(this.component.encryption.disable, {});
+  }
+
+  /**
+   * Remove a retired key once no event is wrapped with it
+   */
+  async removeEncryptionKey(ctx: MutationCtx, keyId: string) {
+    return await ctx.runMutation(this.component.encryption.removeKey, {
+      keyId,
+    });
+  }
+
+  /**
+   * Get the encryption settings and key rotation progress
+   */
+  async getEncryptionStatus(ctx: QueryCtx) {
+    return await ctx.runQuery(this.component.encryption.getStatus, {});
+  }
+
+  /**
+   * Place a legal hold
+   *
+   * Held events are skipped by retention and cannot be edited until the hold
+   * is released or expires.
+   *
+   * @example
+   * ```typescript
+   * await audit.createLegalHold(ctx, {
+   *   scope: { type: "actor", actorType: "user", actorId: "user_123" },
+   *   reason: "Litigation #4521",
+   *   createdBy: { type: "user", id: adminId },
+   * });
+   * ```
+   */
+  async createLegalHold(
+    ctx: MutationCtx,
+    hold: {
+      scope: LegalHoldScope;
+      reason: string;
+      createdBy: Actor;
+      expiresAt?: number;
+    },
+  ) {
+    return await ctx.runMutation(this.component.legalHolds.createHold, hold);
+  }
+
+  /**
+   * Release a legal hold
+   */
+  async releaseLegalHold(
+    ctx: MutationCtx,
+    holdId: string,
+    options: { releasedBy: Actor; reason?: string },
+  ) {
+    return await ctx.runMutation(this.component.legalHolds.releaseHold, {
+      holdId,
+      ...options,
+    });
+  }
+
+  /**
+   * List legal holds
+   */
+  async listLegalHolds(
+    ctx: QueryCtx,
+    options?: { organizationId?: string; includeInactive?: boolean },
+  ) {
+    return await ctx.runQuery(this.component.legalHolds.listHolds, {
+      ...options,
+      organizationId:
+        options?.organizationId ?? this.options?.defaultOrganizationId,
+    });
+  }
+
+  /**
+   * Erase an actor's identity from the audit log (right to be forgotten)
+   *
+   * Their ID, name and email are replaced with one pseudonym in every event
+   * they performed or were a target of, in background batches. Events under
+   * a legal hold are skipped. Poll `getErasure` for progress; when done, an
+   * `actor.forgotten` certificate event is recorded.
+   *
+   * @example
+   * ```typescript
+   * const { erasureId, pseudonym } = await audit.forgetActor(
+   *   ctx,
+   *   "user",
+   *   userId,
+   *   { requestedBy: { type: "user", id: adminId }, reason: "GDPR request" },
+   * );
+   * ```
+   */
+  async forgetActor(
+    ctx: MutationCtx,
+    actorType: ActorType,
+    actorId: string,
+    options?: { requestedBy?: Actor; reason?: string; batchSize?: number },
+  ) {
+    return await ctx.runMutation(this.component.erasure.forgetActor, {
+      actorType,
+      actorId,
+      ...options,
+    });
+  }
+
+  /**
+   * Get an erasure job and its progress
+   */
+  async getErasure(ctx: QueryCtx, erasureId: string) {
+    return await ctx.runQuery(this.component.erasure.getErasure, {
+      erasureId,
+    });
+  }
+
+  /**
+   * Collect everything the audit log holds about a person into one file
+   *
+   * Covers every event, across organizations, that the subject performed or
+   * was a target of, as readable JSON or HTML with a manifest of counts and
+   * a SHA-256 of the file. The report is built in the background; poll
+   * `getAccessReport` for progress and the download URLs.
+   *
+   * @example
+   * ```typescript
+   * const reportId = await audit.startAccessReport(ctx, {
+   *   subject: { type: "user", id: userId },
+   *   format: "html",
+   *   requestedBy: { type: "user", id: adminId },
+   * });
+   * ```
+   */
+  async startAccessReport(
+    ctx: MutationCtx,
+    options: {
+      subject: { type: ActorType; id: string };
+      format?: AccessReportFormat;
+      requestedBy: Actor;
+    },
+  ) {
+    return await ctx.runMutation(
+      this.component.accessReports.startAccessReport,
+      options,
+    );
+  }
+
+  /**
+   * Get an access report job, including its manifest and download URLs once
+   * completed
+   */
+  async getAccessReport(ctx: QueryCtx, reportId: string) {
+    return await ctx.runQuery(this.component.accessReports.getAccessReport, {
+      reportId,
+    });
+  }
+
+  /**
+   * Start exporting audit events to a CSV or NDJSON file
+   *
+   * The file is written in the background; poll `getExport` for progress and
+   * the download URL. The export itself is audited as `resource.exported`.
+   *
+   * @example
+   * ```typescript
+   * const exportId = await audit.startExport(ctx, {
+   *   format: "csv",
+   *   filters: { startTime: Date.now() - 30 * 24 * 60 * 60 * 1000 },
+   *   requestedBy: { type: "user", id: userId },
+   * });
+   * ```
+   */
+  async startExport(
+    ctx: MutationCtx,
+    options: {
+      format: ExportFormat;
+      filters?: ExportFilters;
+      requestedBy: Actor;
+    },
+  ) {
+    return await ctx.runMutation(this.component.exports.startExport, {
+      format: options.format,
+      filters: {
+        ...options.filters,
+        organizationId:
+          options.filters?.organizationId ??
+          this.options?.defaultOrganizationId,
+      },
+      requestedBy: options.requestedBy,
+    });
+  }
+
+  /**
+   * Get an export job, including its download URL once completed
+   */
+  async getExport(ctx: QueryCtx, exportId: string) {
+    return await ctx.runQuery(this.component.exports.getExport, { exportId });
+  }
+
+  /**
+   * Subscribe an endpoint to an organization's audit events
+   *
+   * Each matching event is POSTed as JSON with an `X-Audit-Signature`
+   * header: `sha256=` followed by the hex HMAC-SHA256 of
+   * `${X-Audit-Timestamp}.${body}` keyed with `secret`.
+   *
+   * @example
+   * ```typescript
+   * await audit.createWebhook(ctx, {
+   *   organizationId: "org_456",
+   *   url: "https://siem.example.com/ingest",
+   *   secret: process.env.SIEM_WEBHOOK_SECRET!,
+   *   actions: ["security.*", "user.signed_in"],
+   * });
+   * ```
+   */
+  async createWebhook(
+    ctx: MutationCtx,
+    subscription: WebhookSubscriptionInput,
+  ) {
+    const organizationId =
+      subscription.organizationId ?? this.options?.defaultOrganizationId;
+    if (organizationId === undefined) {
+      throw new Error("Webhook subscriptions require an organizationId");
+    }
+    return await ctx.runMutation(this.component.webhooks.createSubscription, {
+      ...subscription,
+      organizationId,
+    });
+  }
+
+  /**
+   * Update a webhook subscription; omitted fields are left unchanged
    */
-  async log(ctx: MutationCtx, event: AuditEventInput) {
-    return await logAuditEvent(ctx, this.component, {
-      ...event,
-      organizationId:
-        event.organizationId ?? this.options?.defaultOrganizationId,
+  async updateWebhook(
+    ctx: MutationCtx,
+    subscriptionId: string,
+    changes: Partial<Omit<WebhookSubscriptionInput, "organizationId">> & {
+      enabled?: boolean;
+    },
+  ) {
+    return await ctx.runMutation(this.component.webhooks.updateSubscription, {
+      subscriptionId,
+      ...changes,
     });
   }
 
   /**
-   * Log multiple audit events in a batch
+   * Remove a webhook subscription
    */
-  async logBatch(ctx: MutationCtx, events: AuditEventInput[]) {
-    return await logAuditEventBatch(
-      ctx,
-      this.component,
-      events.map((e) => ({
-        ...e,
-        organizationId: e.organizationId ?? this.options?.defaultOrganizationId,
-      })),
-    );
+  async removeWebhook(ctx: MutationCtx, subscriptionId: string) {
+    return await ctx.runMutation(this.component.webhooks.removeSubscription, {
+      subscriptionId,
+    });
   }
 
   /**
-   * Get a single audit event by ID
+   * List an organization's webhook subscriptions (secrets are not returned)
    */
-  async get(ctx: QueryCtx, eventId: string) {
-    return await getAuditEvent(ctx, this.component, eventId);
+  async listWebhooks(ctx: QueryCtx, options?: { organizationId?: string }) {
+    const organizationId =
+      options?.organizationId ?? this.options?.defaultOrganizationId;
+    if (organizationId === undefined) {
+      throw new Error(
+        "Listing webhook subscriptions requires an organizationId",
+      );
+    }
+    return await ctx.runQuery(this.component.webhooks.listSubscriptions, {
+      organizationId,
+    });
   }
 
   /**
-   * List audit events with filtering
+   * List webhook deliveries, most recent first
    */
-  async list(
+  async listWebhookDeliveries(
     ctx: QueryCtx,
     options?: {
+      subscriptionId?: string;
       organizationId?: string;
-      action?: string;
-      actorId?: string;
-      actorType?: string;
-      startTime?: number;
-      endTime?: number;
+      status?: "pending" | "delivered" | "dead_letter";
       limit?: number;
-      cursor?: string;
     },
   ) {
-    return await listAuditEvents(ctx, this.component, {
+    return await ctx.runQuery(this.component.webhooks.listDeliveries, {
       ...options,
       organizationId:
         options?.organizationId ?? this.options?.defaultOrganizationId,
@@ -393,36 +2454,121 @@ export class AuditLog {
   }
 
   /**
-   * Search audit events
+   * List the HTTP attempts made for a webhook delivery
    */
-  async search(
-    ctx: QueryCtx,
-    searchQuery: string,
-    options?: {
-      organizationId?: string;
-      actorId?: string;
-      limit?: number;
+  async listWebhookAttempts(ctx: QueryCtx, deliveryId: string) {
+    return await ctx.runQuery(this.component.webhooks.listAttempts, {
+      deliveryId,
+    });
+  }
+
+  /**
+   * Send a delivered or dead-lettered webhook delivery again
+   */
+  async replayWebhookDelivery(ctx: MutationCtx, deliveryId: string) {
+    return await ctx.runMutation(this.component.webhooks.replayDelivery, {
+      deliveryId,
+    });
+  }
+
+  /**
+   * Create a detection rule, evaluated as events are logged
+   *
+   * @example
+   * ```typescript
+   * // More than 5 failed sign-ins for the same actor or IP in 10 minutes
+   * await audit.createDetectionRule(ctx, {
+   *   name: "Brute force",
+   *   action: STANDARD_ACTIONS.USER_SIGN_IN_FAILED,
+   *   groupBy: ["actor", "ip"],
+   *   threshold: 6,
+   *   windowMs: 10 * 60 * 1000,
+   * });
+   * ```
+   */
+  async createDetectionRule(ctx: MutationCtx, rule: DetectionRuleInput) {
+    return await ctx.runMutation(this.component.detection.createRule, {
+      ...rule,
+      organizationId:
+        rule.organizationId ?? this.options?.defaultOrganizationId,
+    });
+  }
+
+  /**
+   * Update a detection rule; omitted fields are left unchanged
+   */
+  async updateDetectionRule(
+    ctx: MutationCtx,
+    ruleId: string,
+    changes: Partial<Omit<DetectionRuleInput, "organizationId">> & {
+      enabled?: boolean;
     },
   ) {
-    return await searchAuditEvents(ctx, this.component, searchQuery, {
-      ...options,
+    return await ctx.runMutation(this.component.detection.updateRule, {
+      ruleId,
+      ...changes,
+    });
+  }
+
+  /**
+   * Remove a detection rule; alerts it raised stay in the log
+   */
+  async removeDetectionRule(ctx: MutationCtx, ruleId: string) {
+    return await ctx.runMutation(this.component.detection.removeRule, {
+      ruleId,
+    });
+  }
+
+  /**
+   * List an organization's detection rules and the global ones
+   */
+  async listDetectionRules(
+    ctx: QueryCtx,
+    options?: { organizationId?: string },
+  ) {
+    return await ctx.runQuery(this.component.detection.listRules, {
       organizationId:
         options?.organizationId ?? this.options?.defaultOrganizationId,
     });
   }
+  /**
+   * Tune sign-in location analysis; omitted settings are left unchanged
+   *
+   * `user.signed_in` events with a `geoLocation` are checked for travel
+   * faster than `maxSpeedKmh` (default 1000) across at least
+   * `minDistanceKm` (default 500) and for countries new to the actor.
+   */
+  async configureLocationAnalysis(
+    ctx: MutationCtx,
+    settings: {
+      enabled?: boolean;
+      maxSpeedKmh?: number;
+      minDistanceKm?: number;
+      flagNewCountries?: boolean;
+    },
+  ) {
+    return await ctx.runMutation(this.component.locations.configure, settings);
+  }
 
   /**
-   * Get audit statistics
+   * Get the sign-in location analysis settings
    */
-  async getStats(
+  async getLocationAnalysisSettings(ctx: QueryCtx) {
+    return await ctx.runQuery(this.component.locations.getSettings, {});
+  }
+
+  /**
+   * List an actor's recorded sign-in locations, most recent first
+   */
+  async listSignInLocations(
     ctx: QueryCtx,
-    options?: {
-      organizationId?: string;
-      startTime?: number;
-      endTime?: number;
-    },
+    actorType: ActorType,
+    actorId: string,
+    options?: { organizationId?: string; limit?: number },
   ) {
-    return await getAuditStats(ctx, this.component, {
+    return await ctx.runQuery(this.component.locations.listSignInLocations, {
+      actorType,
+      actorId,
       ...options,
       organizationId:
         options?.organizationId ?? this.options?.defaultOrganizationId,
@@ -446,6 +2592,7 @@ export class AuditLog {
       actorType,
       actorId,
       ...options,
+      decrypt: true,
     });
   }
 
@@ -467,6 +2614,61 @@ export class AuditLog {
       ...options,
       organizationId:
         options?.organizationId ?? this.options?.defaultOrganizationId,
+      decrypt: true,
+    });
+  }
+
+  /**
+   * List events that affected a specific target resource
+   *
+   * Returns a page of events, most recent first. Pass `nextCursor` back as
+   * `cursor` to fetch the following page.
+   */
+  async listByTarget(
+    ctx: QueryCtx,
+    targetType: string,
+    targetId: string,
+    options?: {
+      organizationId?: string;
+      startTime?: number;
+      endTime?: number;
+      limit?: number;
+      cursor?: string;
+    },
+  ) {
+    return await ctx.runQuery(this.component.lib.listByTarget, {
+      targetType,
+      targetId,
+      ...options,
+      organizationId:
+        options?.organizationId ?? this.options?.defaultOrganizationId,
+      decrypt: true,
+    });
+  }
+
+  /**
+   * List events that changed a specific field
+   *
+   * A parent path matches changes below it ("address" finds changes to
+   * "address.city"). Pages like `listByTarget`.
+   */
+  async listByChangedField(
+    ctx: QueryCtx,
+    field: string,
+    options?: {
+      organizationId?: string;
+      startTime?: number;
+      endTime?: number;
+      limit?: number;
+      cursor?: string;
+    },
+  ) {
+    return await ctx.runQuery(this.component.lib.listByChangedField, {
+      field,
+      ...options,
+      organizationId:
+        options?.organizationId ?? this.options?.defaultOrganizationId,
+      decrypt: true,
     });
   }
 }
@@ -482,11 +2684,17 @@ export type AuditOperation =
   | { type: "log"; action: string; organizationId?: string }
   | { type: "read"; organizationId?: string }
   | { type: "search"; organizationId?: string }
-  | { type: "stats"; organizationId?: string };
+  | { type: "stats"; organizationId?: string }
+  | { type: "export"; organizationId?: string };
 
 /**
  * Expose the audit log API for direct use from React clients
  *
+ * `auth` authorizes each operation. The actor of logged events comes from
+ * `actorResolver` when one is given (use the same one as your `AuditLog` so
+ * both record identical actors), and otherwise from the fields `auth`
+ * returns.
+ *
  * @example
  * ```typescript
  * // convex/audit.ts
@@ -521,14 +2729,37 @@ export function exposeAuditApi(
       ctx: { auth: Auth },
       operation: AuditOperation,
     ) => Promise<{
-      actorId: string;
-      actorType: ActorType;
+      actorId?: string;
+      actorType?: ActorType;
       actorName?: string;
       actorEmail?: string;
       organizationId?: string;
-    }>;
+    } | void>;
+    /**
+     * Resolves the actor of logged events and export requests, instead of
+     * the actor fields returned by `auth`
+     */
+    actorResolver?: ActorResolver;
   },
 ) {
+  const resolveActor = async (
+    ctx: { auth: Auth },
+    authResult: Awaited<ReturnType<typeof options.auth>>,
+  ): Promise<Actor> => {
+    if (options.actorResolver) {
+      return await options.actorResolver(ctx);
+    }
+    if (!authResult?.actorId || !authResult.actorType) {
+      throw new Error("auth must return an actor when no actorResolver is set");
+    }
+    return {
+      type: authResult.actorType,
+      id: authResult.actorId,
+      name: authResult.actorName,
+      email: authResult.actorEmail,
+    };
+  };
+
   return {
     /**
      * Log an audit event
@@ -565,16 +2796,11 @@ export function exposeAuditApi(
 
         return await ctx.runMutation(component.lib.log, {
           action: args.action,
-          actor: {
-            type: authResult.actorType,
-            id: authResult.actorId,
-            name: authResult.actorName,
-            email: authResult.actorEmail,
-          },
+          actor: await resolveActor(ctx, authResult),
           targets: args.targets,
           context: args.context,
           metadata: args.metadata,
-          organizationId: args.organizationId ?? authResult.organizationId,
+          organizationId: args.organizationId ?? authResult?.organizationId,
           idempotencyKey: args.idempotencyKey,
           result: args.result,
           error: args.error,
@@ -590,8 +2816,17 @@ export function exposeAuditApi(
       args: {
         organizationId: v.optional(v.string()),
         action: v.optional(v.string()),
+        actionPrefix: v.optional(v.string()),
         actorId: v.optional(v.string()),
         actorType: v.optional(v.string()),
+        result: v.optional(
+          v.union(
+            v.literal("success"),
+            v.literal("failure"),
+            v.literal("pending"),
+          ),
+        ),
+        tags: v.optional(v.array(v.string())),
         startTime: v.optional(v.number()),
         endTime: v.optional(v.number()),
         limit: v.optional(v.number()),
@@ -603,7 +2838,10 @@ export function exposeAuditApi(
           organizationId: args.organizationId,
         });
 
-        return await ctx.runQuery(component.lib.list, args);
+        return await ctx.runQuery(component.lib.list, {
+          ...args,
+          decrypt: true,
+        });
       },
     }),
 
@@ -615,8 +2853,19 @@ export function exposeAuditApi(
         eventId: v.string(),
       },
       handler: async (ctx, args) => {
-        await options.auth(ctx, { type: "read" });
-        return await ctx.runQuery(component.lib.get, args);
+        const event = await ctx.runQuery(component.lib.get, args);
+        if (!event) {
+          await options.auth(ctx, { type: "read" });
+          return null;
+        }
+        await options.auth(ctx, {
+          type: "read",
+          organizationId: event.organizationId,
+        });
+        return await ctx.runQuery(component.lib.get, {
+          ...args,
+          decrypt: true,
+        });
       },
     }),
 
@@ -627,72 +2876,266 @@ export function exposeAuditApi(
       args: {
         searchQuery: v.string(),
         organizationId: v.optional(v.string()),
+        actorType: v.optional(v.string()),
+        actorId: v.optional(v.string()),
+        action: v.optional(v.string()),
+        result: v.optional(
+          v.union(
+            v.literal("success"),
+            v.literal("failure"),
+            v.literal("pending"),
+          ),
+        ),
+        limit: v.optional(v.number()),
+        cursor: v.optional(v.string()),
+      },
+      handler: async (ctx, args) => {
+        await options.auth(ctx, {
+          type: "search",
+          organizationId: args.organizationId,
+        });
+
+        return await ctx.runQuery(component.lib.search, {
+          ...args,
+          decrypt: true,
+        });
+      },
+    }),
+
+    /**
+     * Run an audit query (see `parseAuditQuery`)
+     *
+     * The organization a query names is authorized like an `organizationId`
+     * argument.
+     */
+    queryEvents: queryGeneric({
+      args: {
+        q: v.string(),
+        organizationId: v.optional(v.string()),
+        limit: v.optional(v.number()),
+        cursor: v.optional(v.string()),
+      },
+      handler: async (ctx, args) => {
+        const { q, ...rest } = args;
+        const { filters } = parseAuditQuery(q);
+        await options.auth(ctx, {
+          type: "search",
+          organizationId: args.organizationId ?? filters.organizationId,
+        });
+
+        return await queryAuditEvents(ctx, component, q, {
+          ...rest,
+          decrypt: true,
+        });
+      },
+    }),
+
+    /**
+     * Get audit statistics
+     */
+    getStats: queryGeneric({
+      args: {
+        organizationId: v.optional(v.string()),
+        startTime: v.optional(v.number()),
+        endTime: v.optional(v.number()),
+      },
+      handler: async (ctx, args) => {
+        await options.auth(ctx, {
+          type: "stats",
+          organizationId: args.organizationId,
+        });
+
+        return await ctx.runQuery(component.lib.getStats, args);
+      },
+    }),
+
+    /**
+     * Get event counts per hour or day
+     */
+    getTimeSeries: queryGeneric({
+      args: {
+        granularity: v.union(v.literal("hour"), v.literal("day")),
+        organizationId: v.optional(v.string()),
+        startTime: v.optional(v.number()),
+        endTime: v.optional(v.number()),
+        groupBy: v.optional(
+          v.union(
+            v.literal("action"),
+            v.literal("actorType"),
+            v.literal("result"),
+          ),
+        ),
+      },
+      handler: async (ctx, args) => {
+        await options.auth(ctx, {
+          type: "stats",
+          organizationId: args.organizationId,
+        });
+
+        return await ctx.runQuery(component.lib.getTimeSeries, args);
+      },
+    }),
+
+    /**
+     * Start exporting audit events to a file
+     */
+    startExport: mutationGeneric({
+      args: {
+        format: v.union(v.literal("csv"), v.literal("ndjson")),
+        organizationId: v.optional(v.string()),
+        action: v.optional(v.string()),
         actorId: v.optional(v.string()),
+        actorType: v.optional(v.string()),
+        startTime: v.optional(v.number()),
+        endTime: v.optional(v.number()),
+      },
+      handler: async (ctx, args) => {
+        const { format, ...filters } = args;
+        const authResult = await options.auth(ctx, {
+          type: "export",
+          organizationId: args.organizationId,
+        });
+
+        return await ctx.runMutation(component.exports.startExport, {
+          format,
+          filters: {
+            ...filters,
+            organizationId: args.organizationId ?? authResult?.organizationId,
+          },
+          requestedBy: await resolveActor(ctx, authResult),
+        });
+      },
+    }),
+
+    /**
+     * Get an export job
+     */
+    getExport: queryGeneric({
+      args: {
+        exportId: v.string(),
+      },
+      handler: async (ctx, args) => {
+        const job = await ctx.runQuery(component.exports.getExport, args);
+        await options.auth(ctx, {
+          type: "export",
+          organizationId: job?.filters.organizationId,
+        });
+        return job;
+      },
+    }),
+
+    /**
+     * List events by actor
+     */
+    listByActor: queryGeneric({
+      args: {
+        actorType: v.string(),
+        actorId: v.string(),
+        startTime: v.optional(v.number()),
+        endTime: v.optional(v.number()),
         limit: v.optional(v.number()),
       },
       handler: async (ctx, args) => {
-        await options.auth(ctx, {
-          type: "search",
-          organizationId: args.organizationId,
+        // An actor's events can span organizations: authorize each one
+        // before returning them decrypted
+        const events = await ctx.runQuery(component.lib.listByActor, args);
+        const organizationIds = new Set(
+          events.map((event) => event.organizationId),
+        );
+        if (organizationIds.size === 0) {
+          await options.auth(ctx, { type: "read" });
+          return [];
+        }
+        for (const organizationId of organizationIds) {
+          await options.auth(ctx, { type: "read", organizationId });
+        }
+        return await ctx.runQuery(component.lib.listByActor, {
+          ...args,
+          decrypt: true,
         });
-
-        return await ctx.runQuery(component.lib.search, args);
       },
     }),
 
     /**
-     * Get audit statistics
+     * List events by action
      */
-    getStats: queryGeneric({
+    listByAction: queryGeneric({
       args: {
+        action: v.string(),
         organizationId: v.optional(v.string()),
         startTime: v.optional(v.number()),
         endTime: v.optional(v.number()),
+        limit: v.optional(v.number()),
       },
       handler: async (ctx, args) => {
         await options.auth(ctx, {
-          type: "stats",
+          type: "read",
           organizationId: args.organizationId,
         });
+        return await ctx.runQuery(component.lib.listByAction, {
+          ...args,
+          decrypt: true,
+        });
+      },
+    }),
 
-        return await ctx.runQuery(component.lib.getStats, args);
+    /**
+     * List the registered actions
+     */
+    listActions: queryGeneric({
+      args: {},
+      handler: async (ctx) => {
+        await options.auth(ctx, { type: "read" });
+        return await ctx.runQuery(component.registry.listActions, {});
       },
     }),
 
     /**
-     * List events by actor
+     * List events by target resource
      */
-    listByActor: queryGeneric({
+    listByTarget: queryGeneric({
       args: {
-        actorType: v.string(),
-        actorId: v.string(),
+        targetType: v.string(),
+        targetId: v.string(),
+        organizationId: v.optional(v.string()),
         startTime: v.optional(v.number()),
         endTime: v.optional(v.number()),
         limit: v.optional(v.number()),
+        cursor: v.optional(v.string()),
       },
       handler: async (ctx, args) => {
-        await options.auth(ctx, { type: "read" });
-        return await ctx.runQuery(component.lib.listByActor, args);
+        await options.auth(ctx, {
+          type: "read",
+          organizationId: args.organizationId,
+        });
+        return await ctx.runQuery(component.lib.listByTarget, {
+          ...args,
+          decrypt: true,
+        });
       },
     }),
 
     /**
-     * List events by action
+     * List events that changed a field
      */
-    listByAction: queryGeneric({
+    listByChangedField: queryGeneric({
       args: {
-        action: v.string(),
+        field: v.string(),
         organizationId: v.optional(v.string()),
         startTime: v.optional(v.number()),
         endTime: v.optional(v.number()),
         limit: v.optional(v.number()),
+        cursor: v.optional(v.string()),
       },
       handler: async (ctx, args) => {
         await options.auth(ctx, {
           type: "read",
           organizationId: args.organizationId,
         });
-        return await ctx.runQuery(component.lib.listByAction, args);
+        return await ctx.runQuery(component.lib.listByChangedField, {
+          ...args,
+          decrypt: true,
+        });
       },
     }),
   };
@@ -702,6 +3145,113 @@ export function exposeAuditApi(
 // HTTP Routes
 // =============================================================================
 
+/**
+ * Narrow a request to one organization the principal may access
+ *
+ * A requested organization must be one of the principal's. Without one, a
+ * principal bound to a single organization is scoped to it; others must
+ * name the organization, unless they may access all of them.
+ */
+function scopeOrganization(
+  principal: AuditPrincipal,
+  requested: string | undefined,
+): { organizationId: string | undefined } | { status: number; error: string } {
+  const allowed = principal.organizationIds;
+  if (allowed === "*") {
+    return { organizationId: requested };
+  }
+  if (requested !== undefined) {
+    return allowed.includes(requested)
+      ? { organizationId: requested }
+      : { status: 403, error: `Access to organization ${requested} denied` };
+  }
+  if (allowed.length === 1) {
+    return { organizationId: allowed[0] };
+  }
+  return allowed.length === 0
+    ? { status: 403, error: "No organizations accessible" }
+    : { status: 400, error: "organizationId parameter required" };
+}
+
+/**
+ * Whether the principal may access a record of the given organization
+ */
+function canAccess(principal: AuditPrincipal, organizationId?: string) {
+  return (
+    principal.organizationIds === "*" ||
+    (organizationId !== undefined &&
+      principal.organizationIds.includes(organizationId))
+  );
+}
+
+/**
+ * Read the `list` filters from query parameters
+ */
+function readFilterParams(
+  params: URLSearchParams,
+): { filters: AuditEventFilters } | { error: string } {
+  const result = params.get("result") ?? undefined;
+  if (
+    result !== undefined &&
+    result !== "success" &&
+    result !== "failure" &&
+    result !== "pending"
+  ) {
+    return { error: "result must be success, failure or pending" };
+  }
+
+  const tags = params.get("tags");
+  const startTime = params.get("startTime");
+  const endTime = params.get("endTime");
+
+  return {
+    filters: {
+      organizationId: params.get("organizationId") ?? undefined,
+      action: params.get("action") ?? undefined,
+      actionPrefix: params.get("actionPrefix") ?? undefined,
+      actorType: params.get("actorType") ?? undefined,
+      actorId: params.get("actorId") ?? undefined,
+      actorEmail: params.get("actorEmail") ?? undefined,
+      result,
+      tags: tags ? tags.split(",") : undefined,
+      startTime: startTime ? parseInt(startTime, 10) : undefined,
+      endTime: endTime ? parseInt(endTime, 10) : undefined,
+    },
+  };
+}
+
+/**
+ * Answer with a page of events matching an audit query, or with the query's
+ * diagnostics when it is invalid
+ */
+async function queryResponse(
+  ctx: QueryCtx,
+  component: ComponentApi,
+  q: string,
+  filters: AuditEventFilters,
+  page: { limit?: number; cursor?: string },
+) {
+  const query = compileAuditQuery(q, filters);
+  if (query.diagnostics.length > 0) {
+    return new Response(
+      JSON.stringify({
+        error: "Invalid query",
+        diagnostics: query.diagnostics,
+      }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+
+  const result = await runAuditQuery(ctx, component, query, page);
+  return new Response(JSON.stringify(result), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
 /**
  * Register HTTP routes for the audit log component
  *
@@ -716,31 +3266,202 @@ export function exposeAuditApi(
  *
  * registerAuditRoutes(http, components.convexAudit, {
  *   pathPrefix: "/audit",
+ *   auth: apiKeyAuth([
+ *     {
+ *       name: "dashboard",
+ *       secret: process.env.AUDIT_API_KEY,
+ *       organizationIds: ["org_1"],
+ *     },
+ *   ]),
  * });
  *
  * export default http;
  * ```
+ *
+ * Requests are authenticated by the `auth` hooks, tried in order; without a
+ * principal they are answered with 401. Every route only reads and writes
+ * the organizations of the principal: other organizations are refused with
+ * 403 and their events and exports are reported as not found. `auth` is
+ * required; `auth: "none"` opens the routes to anyone who can reach them.
+ *
+ * With an `actorResolver`, `POST {pathPrefix}/events` also logs events for
+ * the authenticated caller, with their context read from the request.
  */
 export function registerAuditRoutes(
   http: HttpRouter,
   component: ComponentApi,
-  { pathPrefix = "/audit" }: { pathPrefix?: string } = {},
+  {
+    pathPrefix = "/audit",
+    auth,
+    actorResolver,
+    context: contextOptions,
+  }: {
+    pathPrefix?: string;
+    /**
+     * Authenticates requests; the first hook returning a principal wins.
+     * `"none"` lets every request read and write all organizations.
+     */
+    auth: AuditRouteAuth | AuditRouteAuth[] | "none";
+    /** Resolves the actor of events logged over HTTP */
+    actorResolver?: ActorResolver;
+    /** How the context of logged events is read from requests */
+    context?: RequestContextOptions;
+  },
 ) {
-  // GET /audit/events - List recent events
+  if (auth === undefined) {
+    throw new Error(
+      'registerAuditRoutes requires `auth`; pass auth: "none" to leave the routes open',
+    );
+  }
+  const hooks = auth === "none" ? [] : Array.isArray(auth) ? auth : [auth];
+
+  // Answer requests without a principal before reaching the handler
+  const authenticated = (
+    handler: (
+      ctx: GenericActionCtx<GenericDataModel>,
+      request: Request,
+      principal: AuditPrincipal,
+    ) => Promise<Response>,
+  ) =>
+    httpActionGeneric(async (ctx, request) => {
+      let principal: AuditPrincipal | null =
+        auth === "none" ? { id: "anonymous", organizationIds: "*" } : null;
+      for (const hook of hooks) {
+        principal = await hook(ctx, request);
+        if (principal) {
+          break;
+        }
+      }
+      if (!principal) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: {
+            "Content-Type": "application/json",
+            "WWW-Authenticate": "Bearer",
+          },
+        });
+      }
+      return await handler(ctx, request, principal);
+    });
+
+  // POST /audit/events - Log an event as the authenticated caller
+  if (actorResolver) {
+    http.route({
+      path: `${pathPrefix}/events`,
+      method: "POST",
+      handler: authenticated(async (ctx, request, principal) => {
+        let actor: Actor;
+        try {
+          actor = await actorResolver(ctx);
+        } catch {
+          return new Response(JSON.stringify({ error: "Unauthorized" }), {
+            status: 401,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        let body: Record<string, any>;
+        try {
+          body = await request.json();
+        } catch {
+          body = {};
+        }
+        if (typeof body.action !== "string" || !Array.isArray(body.targets)) {
+          return new Response(
+            JSON.stringify({ error: "action and targets are required" }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            },
+          );
+        }
+
+        const scope = scopeOrganization(principal, body.organizationId);
+        if ("error" in scope) {
+          return new Response(JSON.stringify({ error: scope.error }), {
+            status: scope.status,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        try {
+          const result = await logAuditEvent(ctx, component, {
+            action: body.action,
+            actor,
+            targets: body.targets,
+            // What the request itself shows wins over the body's claims
+            context: {
+              ...body.context,
+              ...extractRequestContext(request, contextOptions),
+            },
+            metadata: body.metadata,
+            organizationId: scope.organizationId,
+            idempotencyKey: body.idempotencyKey,
+            result: body.result,
+            error: body.error,
+            tags: body.tags,
+          });
+          return new Response(JSON.stringify(result), {
+            status: result.created ? 201 : 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (error) {
+          return new Response(
+            JSON.stringify({
+              error: error instanceof Error ? error.message : String(error),
+            }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            },
+          );
+        }
+      }),
+    });
+  }
+
+  // GET /audit/events - List events matching every filter and the query `q` (pass `cursor` for the next page)
   http.route({
     path: `${pathPrefix}/events`,
     method: "GET",
-    handler: httpActionGeneric(async (ctx, request) => {
-      const url = new URL(request.url);
-      const organizationId =
-        url.searchParams.get("organizationId") ?? undefined;
-      const action = url.searchParams.get("action") ?? undefined;
-      const limit = url.searchParams.get("limit");
+    handler: authenticated(async (ctx, request, principal) => {
+      const params = new URL(request.url).searchParams;
+      const read = readFilterParams(params);
 
-      const result = await ctx.runQuery(component.lib.list, {
-        organizationId,
-        action,
+      if ("error" in read) {
+        return new Response(JSON.stringify({ error: read.error }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const q = params.get("q");
+      const scope = scopeOrganization(
+        principal,
+        read.filters.organizationId ??
+          (q !== null ? parseAuditQuery(q).filters.organizationId : undefined),
+      );
+      if ("error" in scope) {
+        return new Response(JSON.stringify({ error: scope.error }), {
+          status: scope.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      const filters = { ...read.filters, organizationId: scope.organizationId };
+
+      const limit = params.get("limit");
+      const page = {
         limit: limit ? parseInt(limit, 10) : undefined,
+        cursor: params.get("cursor") ?? undefined,
+      };
+
+      if (q !== null) {
+        return await queryResponse(ctx, component, q, filters, page);
+      }
+
+      const result = await ctx.runQuery(component.lib.list, {
+        ...filters,
+        ...page,
       });
 
       return new Response(JSON.stringify(result), {
@@ -756,7 +3477,7 @@ export function registerAuditRoutes(
   http.route({
     path: `${pathPrefix}/event`,
     method: "GET",
-    handler: httpActionGeneric(async (ctx, request) => {
+    handler: authenticated(async (ctx, request, principal) => {
       const url = new URL(request.url);
       const eventId = url.searchParams.get("id");
 
@@ -772,7 +3493,8 @@ export function registerAuditRoutes(
 
       const event = await ctx.runQuery(component.lib.get, { eventId });
 
-      if (!event) {
+      // Events of other organizations are reported as missing
+      if (!event || !canAccess(principal, event.organizationId)) {
         return new Response(JSON.stringify({ error: "Event not found" }), {
           status: 404,
           headers: { "Content-Type": "application/json" },
@@ -786,14 +3508,185 @@ export function registerAuditRoutes(
     }),
   });
 
+  // GET /audit/target?type=xxx&id=yyy - List events that affected a resource
+  http.route({
+    path: `${pathPrefix}/target`,
+    method: "GET",
+    handler: authenticated(async (ctx, request, principal) => {
+      const url = new URL(request.url);
+      const targetType = url.searchParams.get("type");
+      const targetId = url.searchParams.get("id");
+
+      if (!targetType || !targetId) {
+        return new Response(
+          JSON.stringify({ error: "type and id parameters required" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const scope = scopeOrganization(
+        principal,
+        url.searchParams.get("organizationId") ?? undefined,
+      );
+      if ("error" in scope) {
+        return new Response(JSON.stringify({ error: scope.error }), {
+          status: scope.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      const organizationId = scope.organizationId;
+      const limit = url.searchParams.get("limit");
+      const cursor = url.searchParams.get("cursor") ?? undefined;
+
+      const result = await ctx.runQuery(component.lib.listByTarget, {
+        targetType,
+        targetId,
+        organizationId,
+        limit: limit ? parseInt(limit, 10) : undefined,
+        cursor,
+      });
+
+      return new Response(JSON.stringify(result), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }),
+  });
+
+  // GET /audit/changes?field=xxx - List events that changed a field
+  http.route({
+    path: `${pathPrefix}/changes`,
+    method: "GET",
+    handler: authenticated(async (ctx, request, principal) => {
+      const url = new URL(request.url);
+      const field = url.searchParams.get("field");
+
+      if (!field) {
+        return new Response(
+          JSON.stringify({ error: "field parameter required" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const scope = scopeOrganization(
+        principal,
+        url.searchParams.get("organizationId") ?? undefined,
+      );
+      if ("error" in scope) {
+        return new Response(JSON.stringify({ error: scope.error }), {
+          status: scope.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      const organizationId = scope.organizationId;
+      const limit = url.searchParams.get("limit");
+      const cursor = url.searchParams.get("cursor") ?? undefined;
+
+      const result = await ctx.runQuery(component.lib.listByChangedField, {
+        field,
+        organizationId,
+        limit: limit ? parseInt(limit, 10) : undefined,
+        cursor,
+      });
+
+      return new Response(JSON.stringify(result), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }),
+  });
+
+  // GET /audit/export?id=xxx - Download a completed export file
+  http.route({
+    path: `${pathPrefix}/export`,
+    method: "GET",
+    handler: authenticated(async (ctx, request, principal) => {
+      const url = new URL(request.url);
+      const exportId = url.searchParams.get("id");
+
+      if (!exportId) {
+        return new Response(
+          JSON.stringify({ error: "id parameter required" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const job = await ctx.runQuery(component.exports.getExport, {
+        exportId,
+      });
+
+      if (!job || !canAccess(principal, job.filters.organizationId)) {
+        return new Response(JSON.stringify({ error: "Export not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      if (job.status !== "completed" || !job.url) {
+        return new Response(
+          JSON.stringify({
+            error: "Export is not ready",
+            status: job.status,
+            rowCount: job.rowCount,
+          }),
+          {
+            status: 409,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      // Stream the stored file through without buffering it
+      const file = await fetch(job.url);
+      if (!file.ok || !file.body) {
+        return new Response(
+          JSON.stringify({ error: "Export file is unavailable" }),
+          {
+            status: 502,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      return new Response(file.body, {
+        status: 200,
+        headers: {
+          "Content-Type":
+            job.format === "csv"
+              ? "text/csv; charset=utf-8"
+              : "application/x-ndjson",
+          "Content-Disposition": `attachment; filename="audit-export-${job._id}.${job.format}"`,
+        },
+      });
+    }),
+  });
+
   // GET /audit/stats - Get audit statistics
   http.route({
     path: `${pathPrefix}/stats`,
     method: "GET",
-    handler: httpActionGeneric(async (ctx, request) => {
+    handler: authenticated(async (ctx, request, principal) => {
       const url = new URL(request.url);
-      const organizationId =
-        url.searchParams.get("organizationId") ?? undefined;
+      const scope = scopeOrganization(
+        principal,
+        url.searchParams.get("organizationId") ?? undefined,
+      );
+      if ("error" in scope) {
+        return new Response(JSON.stringify({ error: scope.error }), {
+          status: scope.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      const organizationId = scope.organizationId;
       const startTime = url.searchParams.get("startTime");
       const endTime = url.searchParams.get("endTime");
 
@@ -810,17 +3703,34 @@ export function registerAuditRoutes(
     }),
   });
 
-  // GET /audit/search - Search events
+  // GET /audit/timeseries?granularity=day - Event counts per hour or day
   http.route({
-    path: `${pathPrefix}/search`,
+    path: `${pathPrefix}/timeseries`,
     method: "GET",
-    handler: httpActionGeneric(async (ctx, request) => {
+    handler: authenticated(async (ctx, request, principal) => {
       const url = new URL(request.url);
-      const searchQuery = url.searchParams.get("q");
+      const granularity = url.searchParams.get("granularity") ?? "day";
+      const groupBy = url.searchParams.get("groupBy") ?? undefined;
 
-      if (!searchQuery) {
+      if (granularity !== "hour" && granularity !== "day") {
         return new Response(
-          JSON.stringify({ error: "q (search query) parameter required" }),
+          JSON.stringify({ error: "granularity must be hour or day" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+      if (
+        groupBy !== undefined &&
+        groupBy !== "action" &&
+        groupBy !== "actorType" &&
+        groupBy !== "result"
+      ) {
+        return new Response(
+          JSON.stringify({
+            error: "groupBy must be action, actorType or result",
+          }),
           {
             status: 400,
             headers: { "Content-Type": "application/json" },
@@ -828,32 +3738,96 @@ export function registerAuditRoutes(
         );
       }
 
-      const organizationId =
-        url.searchParams.get("organizationId") ?? undefined;
-      const actorId = url.searchParams.get("actorId") ?? undefined;
-      const limit = url.searchParams.get("limit");
+      const scope = scopeOrganization(
+        principal,
+        url.searchParams.get("organizationId") ?? undefined,
+      );
+      if ("error" in scope) {
+        return new Response(JSON.stringify({ error: scope.error }), {
+          status: scope.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      const organizationId = scope.organizationId;
+      const startTime = url.searchParams.get("startTime");
+      const endTime = url.searchParams.get("endTime");
 
-      const events = await ctx.runQuery(component.lib.search, {
-        searchQuery,
+      const points = await ctx.runQuery(component.lib.getTimeSeries, {
+        granularity,
         organizationId,
-        actorId,
-        limit: limit ? parseInt(limit, 10) : undefined,
+        startTime: startTime ? parseInt(startTime, 10) : undefined,
+        endTime: endTime ? parseInt(endTime, 10) : undefined,
+        groupBy,
       });
 
-      return new Response(JSON.stringify({ events }), {
+      return new Response(JSON.stringify({ points }), {
         status: 200,
         headers: { "Content-Type": "application/json" },
       });
     }),
   });
+
+  // GET /audit/search?q=xxx - Run an audit query (pass `cursor` for the next page)
+  http.route({
+    path: `${pathPrefix}/search`,
+    method: "GET",
+    handler: authenticated(async (ctx, request, principal) => {
+      const params = new URL(request.url).searchParams;
+      const q = params.get("q");
+
+      if (!q) {
+        return new Response(
+          JSON.stringify({ error: "q (search query) parameter required" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const read = readFilterParams(params);
+      if ("error" in read) {
+        return new Response(JSON.stringify({ error: read.error }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const scope = scopeOrganization(
+        principal,
+        read.filters.organizationId ??
+          parseAuditQuery(q).filters.organizationId,
+      );
+      if ("error" in scope) {
+        return new Response(JSON.stringify({ error: scope.error }), {
+          status: scope.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const limit = params.get("limit");
+      return await queryResponse(
+        ctx,
+        component,
+        q,
+        { ...read.filters, organizationId: scope.organizationId },
+        {
+          limit: limit ? parseInt(limit, 10) : undefined,
+          cursor: params.get("cursor") ?? undefined,
+        },
+      );
+    }),
+  });
 }
 
 // =============================================================================
 // Context Types
 // =============================================================================
 
-type QueryCtx = Pick<GenericQueryCtx<GenericDataModel>, "runQuery">;
+type QueryCtx = Pick<GenericQueryCtx<GenericDataModel>, "runQuery"> & {
+  auth?: Auth;
+};
 type MutationCtx = Pick<
   GenericMutationCtx<GenericDataModel>,
   "runQuery" | "runMutation"
->;
+> & { auth?: Auth };
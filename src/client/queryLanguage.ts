@@ -0,0 +1,289 @@
+/**
+ * Audit query language
+ *
+ * A query is a list of terms separated by spaces. `field:value` terms become
+ * filters; any other word (or "quoted phrase") is searched for as text:
+ *
+ * ```
+ * actor.email:alice@x.com action:user.* result:failure after:2026-01-01 tag:billing
+ * ```
+ *
+ * Kept free of Convex server imports so React clients can parse queries as
+ * they are typed.
+ */
+
+import type { AuditEventFilters } from "./index.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A problem with part of a query, located by character offsets
+ */
+export interface AuditQueryDiagnostic {
+  message: string;
+  start: number; // Offset of the first character
+  end: number; // Offset after the last character
+}
+
+/**
+ * A parsed query: the filters it sets, the text to search for, and any
+ * problems found. Only run queries without diagnostics.
+ */
+export interface ParsedAuditQuery {
+  filters: AuditEventFilters;
+  text: string;
+  diagnostics: AuditQueryDiagnostic[];
+}
+
+type Term = {
+  field?: string;
+  value: string;
+  start: number;
+  end: number;
+  valueStart: number;
+};
+
+const ACTOR_TYPES = ["user", "system", "api_key", "service"];
+const RESULTS = ["success", "failure", "pending"];
+
+/**
+ * Fields a query may filter on, with the filters they set
+ */
+const FIELDS: Record<string, keyof AuditEventFilters> = {
+  action: "action",
+  actor: "actorId",
+  "actor.id": "actorId",
+  "actor.type": "actorType",
+  "actor.email": "actorEmail",
+  result: "result",
+  tag: "tags",
+  org: "organizationId",
+  organization: "organizationId",
+  after: "startTime",
+  before: "endTime",
+};
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Read a quoted string starting at `start` (the opening quote)
+ *
+ * `\"` and `\\` are unescaped. Returns `end` -1 for an unterminated quote.
+ */
+function readQuoted(input: string, start: number) {
+  let value = "";
+  for (let i = start + 1; i < input.length; i++) {
+    const char = input[i];
+    if (char === "\\" && i + 1 < input.length) {
+      value += input[++i];
+    } else if (char === '"') {
+      return { value, end: i + 1 };
+    } else {
+      value += char;
+    }
+  }
+  return { value, end: -1 };
+}
+
+function isSpace(char: string) {
+  return /\s/.test(char);
+}
+
+/**
+ * Split a query into terms, reporting unterminated quotes
+ */
+function tokenize(input: string, diagnostics: AuditQueryDiagnostic[]) {
+  const terms: Term[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (isSpace(input[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+
+    // A field name runs up to the first ":", space or quote
+    let nameEnd = i;
+    while (
+      nameEnd < input.length &&
+      !isSpace(input[nameEnd]) &&
+      input[nameEnd] !== ":" &&
+      input[nameEnd] !== '"'
+    ) {
+      nameEnd++;
+    }
+    const field =
+      input[nameEnd] === ":" && nameEnd > start
+        ? input.slice(start, nameEnd)
+        : undefined;
+    const valueStart = field !== undefined ? nameEnd + 1 : start;
+
+    if (input[valueStart] === '"') {
+      const quoted = readQuoted(input, valueStart);
+      if (quoted.end === -1) {
+        diagnostics.push({
+          message: "Unterminated quote",
+          start: valueStart,
+          end: input.length,
+        });
+        return terms;
+      }
+      terms.push({
+        field,
+        value: quoted.value,
+        start,
+        end: quoted.end,
+        valueStart,
+      });
+      i = quoted.end;
+      continue;
+    }
+
+    let end = valueStart;
+    while (end < input.length && !isSpace(input[end])) {
+      end++;
+    }
+    terms.push({
+      field,
+      value: input.slice(valueStart, end),
+      start,
+      end,
+      valueStart,
+    });
+    i = end;
+  }
+  return terms;
+}
+
+/**
+ * Parse a date as a timestamp: `2026-01-01` (midnight UTC), an ISO date-time
+ * or milliseconds since the epoch
+ */
+function parseDate(value: string) {
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(value)) {
+    return undefined;
+  }
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+}
+
+/**
+ * Parse an audit query
+ *
+ * Never throws: problems are returned as diagnostics with the offsets of the
+ * offending term, ready to underline in an input box.
+ */
+export function parseAuditQuery(input: string): ParsedAuditQuery {
+  const diagnostics: AuditQueryDiagnostic[] = [];
+  const filters: AuditEventFilters = {};
+  const words: string[] = [];
+  const seen = new Set<keyof AuditEventFilters>();
+
+  for (const term of tokenize(input, diagnostics)) {
+    const fail = (message: string) =>
+      diagnostics.push({ message, start: term.start, end: term.end });
+
+    if (term.field === undefined) {
+      words.push(term.value);
+      continue;
+    }
+
+    const filter = FIELDS[term.field];
+    if (!filter) {
+      diagnostics.push({
+        message: `Unknown field "${term.field}"; quote the term to search for it as text`,
+        start: term.start,
+        end: term.valueStart - 1,
+      });
+      continue;
+    }
+    if (term.value === "") {
+      fail(`Missing value for ${term.field}`);
+      continue;
+    }
+    if (filter !== "tags" && seen.has(filter)) {
+      fail(`${term.field} can only be given once`);
+      continue;
+    }
+    seen.add(filter);
+
+    const value = term.value;
+    switch (filter) {
+      case "action": {
+        const star = value.indexOf("*");
+        if (star === -1) {
+          filters.action = value;
+        } else if (star === value.length - 1) {
+          filters.actionPrefix = value.slice(0, -1);
+        } else {
+          fail('"*" is only allowed at the end of an action');
+        }
+        break;
+      }
+      case "actorType":
+        if (ACTOR_TYPES.includes(value)) {
+          filters.actorType = value;
+        } else {
+          fail(`actor.type must be one of ${ACTOR_TYPES.join(", ")}`);
+        }
+        break;
+      case "result":
+        if (RESULTS.includes(value)) {
+          filters.result = value as AuditEventFilters["result"];
+        } else {
+          fail(`result must be one of ${RESULTS.join(", ")}`);
+        }
+        break;
+      case "tags":
+        filters.tags = [...(filters.tags ?? []), value];
+        break;
+      case "startTime":
+      case "endTime": {
+        const timestamp = parseDate(value);
+        if (timestamp === undefined) {
+          fail(`${term.field} must be a date such as 2026-01-01`);
+        } else if (filter === "startTime") {
+          filters.startTime = timestamp;
+        } else {
+          filters.endTime = timestamp - 1;
+        }
+        break;
+      }
+      default:
+        // organizationId, actorId and actorEmail take the value as is
+        filters[filter as "organizationId"] = value;
+    }
+  }
+
+  if (
+    filters.startTime !== undefined &&
+    filters.endTime !== undefined &&
+    filters.startTime > filters.endTime
+  ) {
+    diagnostics.push({
+      message: "after must be earlier than before",
+      start: 0,
+      end: input.length,
+    });
+  }
+
+  return { filters, text: words.join(" "), diagnostics };
+}
+
+/**
+ * Describe diagnostics in one line, e.g. for an error message
+ */
+export function formatAuditQueryDiagnostics(
+  diagnostics: AuditQueryDiagnostic[],
+) {
+  return diagnostics
+    .map(({ message, start, end }) => `${message} (at ${start}-${end})`)
+    .join("; ");
+}
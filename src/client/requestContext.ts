@@ -0,0 +1,279 @@
+/**
+ * Request context
+ *
+ * Builds an audit event's `context` from an HTTP request: the client address
+ * behind your proxies, CDN geo headers, and request and session IDs.
+ */
+
+import type { Context } from "./index.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for building an event's context from an HTTP request
+ */
+export interface RequestContextOptions {
+  /**
+   * Addresses or CIDR ranges of your own proxies and load balancers. They are
+   * skipped when reading the client address from X-Forwarded-For.
+   */
+  trustedProxies?: string[];
+  /** Cookie recorded as `sessionId` */
+  sessionCookie?: string;
+  /**
+   * The CDN in front of your deployment, whose geo headers are recorded as
+   * `geoLocation`. Without it no geo headers are read, since clients can
+   * send any of them.
+   */
+  geoProvider?: GeoProvider;
+}
+
+/**
+ * CDNs whose geo headers can be recorded
+ */
+export type GeoProvider = "cloudflare" | "vercel" | "fastly";
+
+// =============================================================================
+// Request Context
+// =============================================================================
+
+/**
+ * Parse an IPv4 or IPv6 address into its bits, or null if it isn't one
+ */
+function parseIp(address: string): { bits: bigint; size: number } | null {
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) {
+    const octets = address.split(".").map(Number);
+    if (octets.some((octet) => octet > 255)) {
+      return null;
+    }
+    return {
+      bits: octets.reduce((bits, octet) => (bits << 8n) | BigInt(octet), 0n),
+      size: 32,
+    };
+  }
+  if (!address.includes(":")) {
+    return null;
+  }
+  const halves = address.toLowerCase().split("::");
+  if (halves.length > 2) {
+    return null;
+  }
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) {
+    return null;
+  }
+  const groups = [
+    ...head,
+    ...Array(halves.length === 2 ? missing : 0).fill("0"),
+    ...tail,
+  ];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) {
+    return null;
+  }
+  return {
+    bits: groups.reduce(
+      (bits, group) => (bits << 16n) | BigInt(`0x${group}`),
+      0n,
+    ),
+    size: 128,
+  };
+}
+
+/**
+ * Whether an address matches a proxy entry: an address or a CIDR range
+ */
+function matchesProxy(address: string, proxy: string) {
+  const [range, prefix] = proxy.split("/");
+  const ip = parseIp(address);
+  const network = parseIp(range);
+  if (!ip || !network || ip.size !== network.size) {
+    return false;
+  }
+  const length = prefix === undefined ? ip.size : Number(prefix);
+  const shift = BigInt(ip.size - length);
+  return ip.bits >> shift === network.bits >> shift;
+}
+
+/**
+ * Strip the port from an X-Forwarded-For entry ("1.2.3.4:80", "[::1]:80")
+ */
+function stripPort(entry: string) {
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(entry);
+  if (bracketed) {
+    return bracketed[1];
+  }
+  return /^[\d.]+:\d+$/.test(entry) ? entry.split(":")[0] : entry;
+}
+
+/**
+ * The client address from X-Forwarded-For
+ *
+ * Proxies append the address they received the request from, so the list is
+ * read from the right, skipping trusted proxies. Entries left of the first
+ * untrusted one were supplied by the client and are ignored.
+ */
+function clientAddress(forwardedFor: string, trustedProxies: string[]) {
+  const entries = forwardedFor
+    .split(",")
+    .map((entry) => stripPort(entry.trim()))
+    .filter((entry) => entry.length > 0);
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (
+      i === 0 ||
+      !trustedProxies.some((proxy) => matchesProxy(entries[i], proxy))
+    ) {
+      return entries[i];
+    }
+  }
+  return undefined;
+}
+
+function readCookie(cookieHeader: string, name: string) {
+  for (const pair of cookieHeader.split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator !== -1 && pair.slice(0, separator).trim() === name) {
+      const value = pair.slice(separator + 1).trim();
+      try {
+        return decodeURIComponent(value);
+      } catch {
+        return value;
+      }
+    }
+  }
+  return undefined;
+}
+
+function decodeHeader(value: string | null) {
+  if (value === null || value === "") {
+    return undefined;
+  }
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function parseCoordinate(value: string | null) {
+  const coordinate = value === null ? NaN : parseFloat(value);
+  return Number.isFinite(coordinate) ? coordinate : undefined;
+}
+
+/**
+ * Geo headers set by each CDN
+ *
+ * Cloudflare needs the "Add visitor location headers" managed transform;
+ * Fastly headers must be set from `client.geo` in VCL.
+ */
+const GEO_HEADERS: Record<
+  GeoProvider,
+  Record<"countryCode" | "region" | "city" | "latitude" | "longitude", string>
+> = {
+  cloudflare: {
+    countryCode: "cf-ipcountry",
+    region: "cf-region",
+    city: "cf-ipcity",
+    latitude: "cf-iplatitude",
+    longitude: "cf-iplongitude",
+  },
+  vercel: {
+    countryCode: "x-vercel-ip-country",
+    region: "x-vercel-ip-country-region",
+    city: "x-vercel-ip-city",
+    latitude: "x-vercel-ip-latitude",
+    longitude: "x-vercel-ip-longitude",
+  },
+  fastly: {
+    countryCode: "fastly-geo-country-code",
+    region: "fastly-geo-region",
+    city: "fastly-geo-city",
+    latitude: "fastly-geo-latitude",
+    longitude: "fastly-geo-longitude",
+  },
+};
+
+function geoLocation(
+  headers: Headers,
+  provider: GeoProvider | undefined,
+): Context["geoLocation"] {
+  if (!provider) {
+    return undefined;
+  }
+  const names = GEO_HEADERS[provider];
+  const countryCode = headers.get(names.countryCode)?.toUpperCase();
+  // Cloudflare sends XX for unknown and T1 for Tor
+  if (!countryCode || countryCode === "XX" || countryCode === "T1") {
+    return undefined;
+  }
+  const geo = {
+    countryCode,
+    region: decodeHeader(headers.get(names.region)),
+    city: decodeHeader(headers.get(names.city)),
+    latitude: parseCoordinate(headers.get(names.latitude)),
+    longitude: parseCoordinate(headers.get(names.longitude)),
+  };
+  return Object.fromEntries(
+    Object.entries(geo).filter(([, value]) => value !== undefined),
+  );
+}
+
+/**
+ * The trace ID of a W3C `traceparent` header
+ */
+function traceId(traceparent: string | null) {
+  const match = traceparent
+    ? /^[0-9a-f]{2}-([0-9a-f]{32})-[0-9a-f]{16}-[0-9a-f]{2}$/.exec(
+        traceparent.trim().toLowerCase(),
+      )
+    : null;
+  return match && !/^0+$/.test(match[1]) ? match[1] : undefined;
+}
+
+/**
+ * Build an event's `context` from an HTTP request
+ *
+ * - `location`: the client address from X-Forwarded-For, skipping
+ *   `trustedProxies`
+ * - `userAgent`: the User-Agent header
+ * - `geoLocation`: the geo headers of `geoProvider`
+ * - `requestId`: X-Request-Id, or the trace ID of a `traceparent` header
+ * - `sessionId`: the `sessionCookie` cookie
+ *
+ * @example
+ * ```typescript
+ * const context = extractRequestContext(request, {
+ *   trustedProxies: ["10.0.0.0/8"],
+ *   sessionCookie: "session_id",
+ *   geoProvider: "cloudflare",
+ * });
+ * ```
+ */
+export function extractRequestContext(
+  request: Request,
+  options: RequestContextOptions = {},
+): Context {
+  const headers = request.headers;
+  const forwardedFor = headers.get("x-forwarded-for");
+  const cookies = headers.get("cookie");
+  const context: Context = {
+    location: forwardedFor
+      ? clientAddress(forwardedFor, options.trustedProxies ?? [])
+      : undefined,
+    userAgent: headers.get("user-agent") ?? undefined,
+    geoLocation: geoLocation(headers, options.geoProvider),
+    requestId:
+      headers.get("x-request-id")?.trim() ||
+      traceId(headers.get("traceparent")),
+    sessionId:
+      cookies && options.sessionCookie
+        ? readCookie(cookies, options.sessionCookie)
+        : undefined,
+  };
+  return Object.fromEntries(
+    Object.entries(context).filter(([, value]) => value !== undefined),
+  );
+}
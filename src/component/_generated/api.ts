@@ -8,7 +8,25 @@
  * @module
  */
 
+import type * as accessReports from "../accessReports.js";
+import type * as chain from "../chain.js";
+import type * as crons from "../crons.js";
+import type * as detection from "../detection.js";
+import type * as encryption from "../encryption.js";
+import type * as erasure from "../erasure.js";
+import type * as events from "../events.js";
+import type * as exports from "../exports.js";
+import type * as hashing from "../hashing.js";
+import type * as legalHolds from "../legalHolds.js";
 import type * as lib from "../lib.js";
+import type * as locations from "../locations.js";
+import type * as planner from "../planner.js";
+import type * as redaction from "../redaction.js";
+import type * as registry from "../registry.js";
+import type * as retention from "../retention.js";
+import type * as search from "../search.js";
+import type * as stats from "../stats.js";
+import type * as webhooks from "../webhooks.js";
 
 import type {
   ApiFromModules,
@@ -18,7 +36,25 @@ import type {
 import { anyApi, componentsGeneric } from "convex/server";
 
 const fullApi: ApiFromModules<{
+  accessReports: typeof accessReports;
+  chain: typeof chain;
+  crons: typeof crons;
+  detection: typeof detection;
+  encryption: typeof encryption;
+  erasure: typeof erasure;
+  events: typeof events;
+  exports: typeof exports;
+  hashing: typeof hashing;
+  legalHolds: typeof legalHolds;
   lib: typeof lib;
+  locations: typeof locations;
+  planner: typeof planner;
+  redaction: typeof redaction;
+  registry: typeof registry;
+  retention: typeof retention;
+  search: typeof search;
+  stats: typeof stats;
+  webhooks: typeof webhooks;
 }> = anyApi as any;
 
 /**
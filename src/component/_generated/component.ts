@@ -23,11 +23,432 @@ import type { FunctionReference } from "convex/server";
  */
 export type ComponentApi<Name extends string | undefined = string | undefined> =
   {
+    accessReports: {
+      getAccessReport: FunctionReference<
+        "query",
+        "internal",
+        { reportId: string },
+        null | {
+          _creationTime: number;
+          _id: string;
+          completedAt?: number;
+          createdAt: number;
+          error?: string;
+          eventCount: number;
+          format: "json" | "html";
+          manifest?: {
+            actions: Record<string, number>;
+            actorEventCount: number;
+            eventCount: number;
+            firstOccurredAt?: number;
+            format: "json" | "html";
+            generatedAt: number;
+            lastOccurredAt?: number;
+            organizations: Array<string>;
+            sha256: string;
+            subject: {
+              id: string;
+              type: "user" | "system" | "api_key" | "service";
+            };
+            targetEventCount: number;
+          };
+          manifestStorageId?: string;
+          manifestUrl: null | string;
+          requestedBy: {
+            email?: string;
+            id: string;
+            metadata?: Record<string, any>;
+            name?: string;
+            type: "user" | "system" | "api_key" | "service";
+          };
+          status: "pending" | "running" | "completed" | "failed";
+          storageId?: string;
+          subject: {
+            id: string;
+            type: "user" | "system" | "api_key" | "service";
+          };
+          url: null | string;
+        },
+        Name
+      >;
+      startAccessReport: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          format?: "json" | "html";
+          requestedBy: {
+            email?: string;
+            id: string;
+            metadata?: Record<string, any>;
+            name?: string;
+            type: "user" | "system" | "api_key" | "service";
+          };
+          subject: {
+            id: string;
+            type: "user" | "system" | "api_key" | "service";
+          };
+        },
+        string,
+        Name
+      >;
+    };
+    chain: {
+      verifyChain: FunctionReference<
+        "query",
+        "internal",
+        {
+          fromSequence?: number;
+          limit?: number;
+          organizationId?: string;
+          previousHash?: string;
+        },
+        {
+          brokenLink: null | {
+            eventId: null | string;
+            reason: string;
+            sequence: number;
+          };
+          checked: number;
+          continueFrom: null | { fromSequence: number; previousHash?: string };
+          valid: boolean;
+        },
+        Name
+      >;
+    };
+    detection: {
+      createRule: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          action: string;
+          alertAction?: string;
+          cooldownMs?: number;
+          groupBy: Array<"actor" | "ip" | "target" | "organization">;
+          name: string;
+          organizationId?: string;
+          result?: "success" | "failure" | "pending";
+          severity?: "low" | "medium" | "high" | "critical";
+          targetId?: string;
+          targetType?: string;
+          threshold: number;
+          windowMs: number;
+        },
+        string,
+        Name
+      >;
+      listRules: FunctionReference<
+        "query",
+        "internal",
+        { organizationId?: string },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          action: string;
+          alertAction: string;
+          cooldownMs: number;
+          createdAt: number;
+          enabled: boolean;
+          groupBy: Array<"actor" | "ip" | "target" | "organization">;
+          name: string;
+          organizationId?: string;
+          result?: "success" | "failure" | "pending";
+          severity: "low" | "medium" | "high" | "critical";
+          targetId?: string;
+          targetType?: string;
+          threshold: number;
+          updatedAt: number;
+          windowMs: number;
+        }>,
+        Name
+      >;
+      removeRule: FunctionReference<
+        "mutation",
+        "internal",
+        { ruleId: string },
+        boolean,
+        Name
+      >;
+      updateRule: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          action?: string;
+          alertAction?: string;
+          cooldownMs?: number;
+          enabled?: boolean;
+          groupBy?: Array<"actor" | "ip" | "target" | "organization">;
+          name?: string;
+          result?: "success" | "failure" | "pending";
+          ruleId: string;
+          severity?: "low" | "medium" | "high" | "critical";
+          targetId?: string;
+          targetType?: string;
+          threshold?: number;
+          windowMs?: number;
+        },
+        null,
+        Name
+      >;
+    };
+    encryption: {
+      configure: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          batchSize?: number;
+          fields?: Array<"metadata" | "actor.metadata" | "context">;
+          keyId: string;
+          keyProvider: string;
+        },
+        {
+          activeKeyId: null | string;
+          enabled: boolean;
+          fields: Array<"metadata" | "actor.metadata" | "context">;
+          keys: Array<{ active: boolean; createdAt: number; keyId: string }>;
+          rewrapped: number;
+          rotationComplete: boolean;
+        },
+        Name
+      >;
+      disable: FunctionReference<"mutation", "internal", {}, boolean, Name>;
+      getStatus: FunctionReference<
+        "query",
+        "internal",
+        {},
+        {
+          activeKeyId: null | string;
+          enabled: boolean;
+          fields: Array<"metadata" | "actor.metadata" | "context">;
+          keys: Array<{ active: boolean; createdAt: number; keyId: string }>;
+          rewrapped: number;
+          rotationComplete: boolean;
+        },
+        Name
+      >;
+      removeKey: FunctionReference<
+        "mutation",
+        "internal",
+        { keyId: string },
+        boolean,
+        Name
+      >;
+    };
+    erasure: {
+      forgetActor: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actorId: string;
+          actorType: "user" | "system" | "api_key" | "service";
+          batchSize?: number;
+          reason?: string;
+          requestedBy?: {
+            email?: string;
+            id: string;
+            metadata?: Record<string, any>;
+            name?: string;
+            type: "user" | "system" | "api_key" | "service";
+          };
+        },
+        { erasureId: string; pseudonym: string },
+        Name
+      >;
+      getErasure: FunctionReference<
+        "query",
+        "internal",
+        { erasureId: string },
+        null | {
+          _creationTime: number;
+          _id: string;
+          actorId?: string;
+          actorType: "user" | "system" | "api_key" | "service";
+          batchSize: number;
+          certificateEventId?: string;
+          completedAt?: number;
+          createdAt: number;
+          cursor?: string;
+          eventsRewritten: number;
+          phase: "actor" | "targets";
+          pseudonym: string;
+          reason?: string;
+          requestedBy: {
+            email?: string;
+            id: string;
+            metadata?: Record<string, any>;
+            name?: string;
+            type: "user" | "system" | "api_key" | "service";
+          };
+          skippedHeld: number;
+          status: "running" | "completed";
+        },
+        Name
+      >;
+    };
+    exports: {
+      getExport: FunctionReference<
+        "query",
+        "internal",
+        { exportId: string },
+        null | {
+          _creationTime: number;
+          _id: string;
+          completedAt?: number;
+          createdAt: number;
+          error?: string;
+          filters: {
+            action?: string;
+            actionPrefix?: string;
+            actorEmail?: string;
+            actorId?: string;
+            actorType?: string;
+            endTime?: number;
+            organizationId?: string;
+            result?: "success" | "failure" | "pending";
+            startTime?: number;
+            tags?: Array<string>;
+          };
+          format: "csv" | "ndjson";
+          requestedBy: {
+            email?: string;
+            id: string;
+            metadata?: Record<string, any>;
+            name?: string;
+            type: "user" | "system" | "api_key" | "service";
+          };
+          rowCount: number;
+          status: "pending" | "running" | "completed" | "failed";
+          storageId?: string;
+          url: null | string;
+        },
+        Name
+      >;
+      startExport: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          filters: {
+            action?: string;
+            actionPrefix?: string;
+            actorEmail?: string;
+            actorId?: string;
+            actorType?: string;
+            endTime?: number;
+            organizationId?: string;
+            result?: "success" | "failure" | "pending";
+            startTime?: number;
+            tags?: Array<string>;
+          };
+          format: "csv" | "ndjson";
+          requestedBy: {
+            email?: string;
+            id: string;
+            metadata?: Record<string, any>;
+            name?: string;
+            type: "user" | "system" | "api_key" | "service";
+          };
+        },
+        string,
+        Name
+      >;
+    };
+    legalHolds: {
+      createHold: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          createdBy: {
+            email?: string;
+            id: string;
+            metadata?: Record<string, any>;
+            name?: string;
+            type: "user" | "system" | "api_key" | "service";
+          };
+          expiresAt?: number;
+          reason: string;
+          scope:
+            | { organizationId: string; type: "organization" }
+            | {
+                actorId: string;
+                actorType: "user" | "system" | "api_key" | "service";
+                organizationId?: string;
+                type: "actor";
+              }
+            | {
+                organizationId?: string;
+                targetId: string;
+                targetType: string;
+                type: "target";
+              };
+        },
+        { eventId: string; holdId: string },
+        Name
+      >;
+      listHolds: FunctionReference<
+        "query",
+        "internal",
+        { includeInactive?: boolean; organizationId?: string },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          createdAt: number;
+          createdBy: {
+            email?: string;
+            id: string;
+            metadata?: Record<string, any>;
+            name?: string;
+            type: "user" | "system" | "api_key" | "service";
+          };
+          expiresAt?: number;
+          reason: string;
+          releaseReason?: string;
+          releasedAt?: number;
+          releasedBy?: {
+            email?: string;
+            id: string;
+            metadata?: Record<string, any>;
+            name?: string;
+            type: "user" | "system" | "api_key" | "service";
+          };
+          scope:
+            | { organizationId: string; type: "organization" }
+            | {
+                actorId: string;
+                actorType: "user" | "system" | "api_key" | "service";
+                organizationId?: string;
+                type: "actor";
+              }
+            | {
+                organizationId?: string;
+                targetId: string;
+                targetType: string;
+                type: "target";
+              };
+        }>,
+        Name
+      >;
+      releaseHold: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          holdId: string;
+          reason?: string;
+          releasedBy: {
+            email?: string;
+            id: string;
+            metadata?: Record<string, any>;
+            name?: string;
+            type: "user" | "system" | "api_key" | "service";
+          };
+        },
+        { eventId: null | string; released: boolean },
+        Name
+      >;
+    };
     lib: {
       get: FunctionReference<
         "query",
         "internal",
-        { eventId: string },
+        { decrypt?: boolean; eventId: string },
         null | {
           _creationTime: number;
           _id: string;
@@ -39,6 +460,13 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             name?: string;
             type: "user" | "system" | "api_key" | "service";
           };
+          changes?: Array<{
+            after?: any;
+            before?: any;
+            field: string;
+            kind: "added" | "removed" | "changed";
+            redacted?: boolean;
+          }>;
           context?: {
             geoLocation?: {
               city?: string;
@@ -53,12 +481,27 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             sessionId?: string;
             userAgent?: string;
           };
+          encryption?: {
+            ciphertext: string;
+            dataKey: string;
+            fields: Array<"metadata" | "actor.metadata" | "context">;
+            keyId: string;
+          };
           error?: { code?: string; message?: string };
+          hash?: string;
           idempotencyKey?: string;
           metadata?: Record<string, any>;
           occurredAt: number;
           organizationId?: string;
+          previousHash?: string;
+          redaction?: {
+            fields: Array<string>;
+            policyId: string;
+            policyVersion: number;
+          };
           result?: "success" | "failure" | "pending";
+          searchText?: string;
+          sequence?: number;
           tags?: Array<string>;
           targets: Array<{
             id: string;
@@ -78,22 +521,45 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           eventsByAction: Record<string, number>;
           eventsByActorType: Record<string, number>;
           eventsByResult: Record<string, number>;
+          status: "ready" | "backfilling";
           totalEvents: number;
         },
         Name
       >;
+      getTimeSeries: FunctionReference<
+        "query",
+        "internal",
+        {
+          endTime?: number;
+          granularity: "hour" | "day";
+          groupBy?: "action" | "actorType" | "result";
+          organizationId?: string;
+          startTime?: number;
+        },
+        Array<{
+          bucketStart: number;
+          groups: Record<string, number>;
+          total: number;
+        }>,
+        Name
+      >;
       list: FunctionReference<
         "query",
         "internal",
         {
           action?: string;
+          actionPrefix?: string;
+          actorEmail?: string;
           actorId?: string;
           actorType?: string;
           cursor?: string;
+          decrypt?: boolean;
           endTime?: number;
           limit?: number;
           organizationId?: string;
+          result?: "success" | "failure" | "pending";
           startTime?: number;
+          tags?: Array<string>;
         },
         {
           events: Array<{
@@ -107,6 +573,13 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
               name?: string;
               type: "user" | "system" | "api_key" | "service";
             };
+            changes?: Array<{
+              after?: any;
+              before?: any;
+              field: string;
+              kind: "added" | "removed" | "changed";
+              redacted?: boolean;
+            }>;
             context?: {
               geoLocation?: {
                 city?: string;
@@ -121,12 +594,27 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
               sessionId?: string;
               userAgent?: string;
             };
+            encryption?: {
+              ciphertext: string;
+              dataKey: string;
+              fields: Array<"metadata" | "actor.metadata" | "context">;
+              keyId: string;
+            };
             error?: { code?: string; message?: string };
+            hash?: string;
             idempotencyKey?: string;
             metadata?: Record<string, any>;
             occurredAt: number;
             organizationId?: string;
+            previousHash?: string;
+            redaction?: {
+              fields: Array<string>;
+              policyId: string;
+              policyVersion: number;
+            };
             result?: "success" | "failure" | "pending";
+            searchText?: string;
+            sequence?: number;
             tags?: Array<string>;
             targets: Array<{
               id: string;
@@ -138,6 +626,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           }>;
           hasMore: boolean;
           nextCursor: null | string;
+          truncated: boolean;
         },
         Name
       >;
@@ -146,6 +635,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "internal",
         {
           action: string;
+          decrypt?: boolean;
           endTime?: number;
           limit?: number;
           organizationId?: string;
@@ -162,6 +652,13 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             name?: string;
             type: "user" | "system" | "api_key" | "service";
           };
+          changes?: Array<{
+            after?: any;
+            before?: any;
+            field: string;
+            kind: "added" | "removed" | "changed";
+            redacted?: boolean;
+          }>;
           context?: {
             geoLocation?: {
               city?: string;
@@ -176,12 +673,27 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             sessionId?: string;
             userAgent?: string;
           };
+          encryption?: {
+            ciphertext: string;
+            dataKey: string;
+            fields: Array<"metadata" | "actor.metadata" | "context">;
+            keyId: string;
+          };
           error?: { code?: string; message?: string };
+          hash?: string;
           idempotencyKey?: string;
           metadata?: Record<string, any>;
           occurredAt: number;
           organizationId?: string;
+          previousHash?: string;
+          redaction?: {
+            fields: Array<string>;
+            policyId: string;
+            policyVersion: number;
+          };
           result?: "success" | "failure" | "pending";
+          searchText?: string;
+          sequence?: number;
           tags?: Array<string>;
           targets: Array<{
             id: string;
@@ -199,6 +711,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         {
           actorId: string;
           actorType: string;
+          decrypt?: boolean;
           endTime?: number;
           limit?: number;
           startTime?: number;
@@ -214,6 +727,13 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             name?: string;
             type: "user" | "system" | "api_key" | "service";
           };
+          changes?: Array<{
+            after?: any;
+            before?: any;
+            field: string;
+            kind: "added" | "removed" | "changed";
+            redacted?: boolean;
+          }>;
           context?: {
             geoLocation?: {
               city?: string;
@@ -228,12 +748,27 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             sessionId?: string;
             userAgent?: string;
           };
+          encryption?: {
+            ciphertext: string;
+            dataKey: string;
+            fields: Array<"metadata" | "actor.metadata" | "context">;
+            keyId: string;
+          };
           error?: { code?: string; message?: string };
+          hash?: string;
           idempotencyKey?: string;
           metadata?: Record<string, any>;
           occurredAt: number;
           organizationId?: string;
+          previousHash?: string;
+          redaction?: {
+            fields: Array<string>;
+            policyId: string;
+            policyVersion: number;
+          };
           result?: "success" | "failure" | "pending";
+          searchText?: string;
+          sequence?: number;
           tags?: Array<string>;
           targets: Array<{
             id: string;
@@ -245,25 +780,193 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         }>,
         Name
       >;
-      log: FunctionReference<
-        "mutation",
+      listByChangedField: FunctionReference<
+        "query",
         "internal",
         {
-          action: string;
-          actor: {
-            email?: string;
-            id: string;
-            metadata?: Record<string, any>;
-            name?: string;
-            type: "user" | "system" | "api_key" | "service";
-          };
-          context?: {
-            geoLocation?: {
-              city?: string;
-              country?: string;
-              countryCode?: string;
-              latitude?: number;
-              longitude?: number;
+          cursor?: string;
+          decrypt?: boolean;
+          endTime?: number;
+          field: string;
+          limit?: number;
+          organizationId?: string;
+          startTime?: number;
+        },
+        {
+          events: Array<{
+            _creationTime: number;
+            _id: string;
+            action: string;
+            actor: {
+              email?: string;
+              id: string;
+              metadata?: Record<string, any>;
+              name?: string;
+              type: "user" | "system" | "api_key" | "service";
+            };
+            changes?: Array<{
+              after?: any;
+              before?: any;
+              field: string;
+              kind: "added" | "removed" | "changed";
+              redacted?: boolean;
+            }>;
+            context?: {
+              geoLocation?: {
+                city?: string;
+                country?: string;
+                countryCode?: string;
+                latitude?: number;
+                longitude?: number;
+                region?: string;
+              };
+              location?: string;
+              requestId?: string;
+              sessionId?: string;
+              userAgent?: string;
+            };
+            encryption?: {
+              ciphertext: string;
+              dataKey: string;
+              fields: Array<"metadata" | "actor.metadata" | "context">;
+              keyId: string;
+            };
+            error?: { code?: string; message?: string };
+            hash?: string;
+            idempotencyKey?: string;
+            metadata?: Record<string, any>;
+            occurredAt: number;
+            organizationId?: string;
+            previousHash?: string;
+            redaction?: {
+              fields: Array<string>;
+              policyId: string;
+              policyVersion: number;
+            };
+            result?: "success" | "failure" | "pending";
+            searchText?: string;
+            sequence?: number;
+            tags?: Array<string>;
+            targets: Array<{
+              id: string;
+              metadata?: Record<string, any>;
+              name?: string;
+              type: string;
+            }>;
+            version?: number;
+          }>;
+          hasMore: boolean;
+          nextCursor: null | string;
+        },
+        Name
+      >;
+      listByTarget: FunctionReference<
+        "query",
+        "internal",
+        {
+          cursor?: string;
+          decrypt?: boolean;
+          endTime?: number;
+          limit?: number;
+          organizationId?: string;
+          startTime?: number;
+          targetId: string;
+          targetType: string;
+        },
+        {
+          events: Array<{
+            _creationTime: number;
+            _id: string;
+            action: string;
+            actor: {
+              email?: string;
+              id: string;
+              metadata?: Record<string, any>;
+              name?: string;
+              type: "user" | "system" | "api_key" | "service";
+            };
+            changes?: Array<{
+              after?: any;
+              before?: any;
+              field: string;
+              kind: "added" | "removed" | "changed";
+              redacted?: boolean;
+            }>;
+            context?: {
+              geoLocation?: {
+                city?: string;
+                country?: string;
+                countryCode?: string;
+                latitude?: number;
+                longitude?: number;
+                region?: string;
+              };
+              location?: string;
+              requestId?: string;
+              sessionId?: string;
+              userAgent?: string;
+            };
+            encryption?: {
+              ciphertext: string;
+              dataKey: string;
+              fields: Array<"metadata" | "actor.metadata" | "context">;
+              keyId: string;
+            };
+            error?: { code?: string; message?: string };
+            hash?: string;
+            idempotencyKey?: string;
+            metadata?: Record<string, any>;
+            occurredAt: number;
+            organizationId?: string;
+            previousHash?: string;
+            redaction?: {
+              fields: Array<string>;
+              policyId: string;
+              policyVersion: number;
+            };
+            result?: "success" | "failure" | "pending";
+            searchText?: string;
+            sequence?: number;
+            tags?: Array<string>;
+            targets: Array<{
+              id: string;
+              metadata?: Record<string, any>;
+              name?: string;
+              type: string;
+            }>;
+            version?: number;
+          }>;
+          hasMore: boolean;
+          nextCursor: null | string;
+        },
+        Name
+      >;
+      log: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          action: string;
+          actor: {
+            email?: string;
+            id: string;
+            metadata?: Record<string, any>;
+            name?: string;
+            type: "user" | "system" | "api_key" | "service";
+          };
+          changes?: Array<{
+            after?: any;
+            before?: any;
+            field: string;
+            kind: "added" | "removed" | "changed";
+            redacted?: boolean;
+          }>;
+          context?: {
+            geoLocation?: {
+              city?: string;
+              country?: string;
+              countryCode?: string;
+              latitude?: number;
+              longitude?: number;
               region?: string;
             };
             location?: string;
@@ -302,6 +1005,13 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
               name?: string;
               type: "user" | "system" | "api_key" | "service";
             };
+            changes?: Array<{
+              after?: any;
+              before?: any;
+              field: string;
+              kind: "added" | "removed" | "changed";
+              redacted?: boolean;
+            }>;
             context?: {
               geoLocation?: {
                 city?: string;
@@ -339,52 +1049,454 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "query",
         "internal",
         {
+          action?: string;
+          actionPrefix?: string;
+          actorEmail?: string;
           actorId?: string;
+          actorType?: string;
+          cursor?: string;
+          decrypt?: boolean;
+          endTime?: number;
           limit?: number;
           organizationId?: string;
+          result?: "success" | "failure" | "pending";
           searchQuery: string;
+          startTime?: number;
+          tags?: Array<string>;
+        },
+        {
+          events: Array<{
+            _creationTime: number;
+            _id: string;
+            action: string;
+            actor: {
+              email?: string;
+              id: string;
+              metadata?: Record<string, any>;
+              name?: string;
+              type: "user" | "system" | "api_key" | "service";
+            };
+            changes?: Array<{
+              after?: any;
+              before?: any;
+              field: string;
+              kind: "added" | "removed" | "changed";
+              redacted?: boolean;
+            }>;
+            context?: {
+              geoLocation?: {
+                city?: string;
+                country?: string;
+                countryCode?: string;
+                latitude?: number;
+                longitude?: number;
+                region?: string;
+              };
+              location?: string;
+              requestId?: string;
+              sessionId?: string;
+              userAgent?: string;
+            };
+            encryption?: {
+              ciphertext: string;
+              dataKey: string;
+              fields: Array<"metadata" | "actor.metadata" | "context">;
+              keyId: string;
+            };
+            error?: { code?: string; message?: string };
+            hash?: string;
+            idempotencyKey?: string;
+            metadata?: Record<string, any>;
+            occurredAt: number;
+            organizationId?: string;
+            previousHash?: string;
+            redaction?: {
+              fields: Array<string>;
+              policyId: string;
+              policyVersion: number;
+            };
+            result?: "success" | "failure" | "pending";
+            searchText?: string;
+            sequence?: number;
+            tags?: Array<string>;
+            targets: Array<{
+              id: string;
+              metadata?: Record<string, any>;
+              name?: string;
+              type: string;
+            }>;
+            version?: number;
+          }>;
+          hasMore: boolean;
+          nextCursor: null | string;
+        },
+        Name
+      >;
+    };
+    locations: {
+      configure: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          enabled?: boolean;
+          flagNewCountries?: boolean;
+          maxSpeedKmh?: number;
+          minDistanceKm?: number;
+        },
+        {
+          enabled: boolean;
+          flagNewCountries: boolean;
+          maxSpeedKmh: number;
+          minDistanceKm: number;
+        },
+        Name
+      >;
+      getSettings: FunctionReference<
+        "query",
+        "internal",
+        {},
+        {
+          enabled: boolean;
+          flagNewCountries: boolean;
+          maxSpeedKmh: number;
+          minDistanceKm: number;
+        },
+        Name
+      >;
+      listSignInLocations: FunctionReference<
+        "query",
+        "internal",
+        {
+          actorId: string;
+          actorType: "user" | "system" | "api_key" | "service";
+          limit?: number;
+          organizationId?: string;
         },
         Array<{
           _creationTime: number;
           _id: string;
-          action: string;
-          actor: {
-            email?: string;
-            id: string;
-            metadata?: Record<string, any>;
-            name?: string;
-            type: "user" | "system" | "api_key" | "service";
-          };
-          context?: {
-            geoLocation?: {
-              city?: string;
-              country?: string;
-              countryCode?: string;
-              latitude?: number;
-              longitude?: number;
-              region?: string;
-            };
-            location?: string;
-            requestId?: string;
-            sessionId?: string;
-            userAgent?: string;
-          };
-          error?: { code?: string; message?: string };
-          idempotencyKey?: string;
-          metadata?: Record<string, any>;
+          actorId: string;
+          actorType: "user" | "system" | "api_key" | "service";
+          countryCode?: string;
+          eventId: string;
+          latitude?: number;
+          longitude?: number;
           occurredAt: number;
           organizationId?: string;
-          result?: "success" | "failure" | "pending";
-          tags?: Array<string>;
-          targets: Array<{
-            id: string;
-            metadata?: Record<string, any>;
-            name?: string;
-            type: string;
+        }>,
+        Name
+      >;
+    };
+    redaction: {
+      getPolicy: FunctionReference<
+        "query",
+        "internal",
+        { organizationId?: string },
+        null | {
+          _creationTime: number;
+          _id: string;
+          createdAt: number;
+          hasPseudonymKey: boolean;
+          organizationId?: string;
+          rules: Array<
+            | { path: string; type: "remove" }
+            | {
+                flags?: string;
+                name: string;
+                paths?: Array<string>;
+                pattern: string;
+                replacement?: string;
+                type: "pattern";
+              }
+            | { path: string; type: "truncateIp" }
+            | { path: string; type: "hashEmail" }
+            | { path: string; type: "pseudonymize" }
+          >;
+          updatedAt: number;
+          version: number;
+        },
+        Name
+      >;
+      removePolicy: FunctionReference<
+        "mutation",
+        "internal",
+        { organizationId?: string },
+        boolean,
+        Name
+      >;
+      setPolicy: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          organizationId?: string;
+          pseudonymKey?: string;
+          rules: Array<
+            | { path: string; type: "remove" }
+            | {
+                flags?: string;
+                name: string;
+                paths?: Array<string>;
+                pattern: string;
+                replacement?: string;
+                type: "pattern";
+              }
+            | { path: string; type: "truncateIp" }
+            | { path: string; type: "hashEmail" }
+            | { path: string; type: "pseudonymize" }
+          >;
+        },
+        { policyId: string; version: number },
+        Name
+      >;
+    };
+    registry: {
+      listActions: FunctionReference<
+        "query",
+        "internal",
+        {},
+        Array<{
+          action: string;
+          description?: string;
+          metadata?: any;
+          severity?: "low" | "medium" | "high" | "critical";
+          targetTypes?: Array<string>;
+        }>,
+        Name
+      >;
+      registerActions: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actions: Array<{
+            action: string;
+            description?: string;
+            metadata?: any;
+            severity?: "low" | "medium" | "high" | "critical";
+            targetTypes?: Array<string>;
           }>;
-          version?: number;
+        },
+        { registered: number; removed: number },
+        Name
+      >;
+    };
+    retention: {
+      enforce: FunctionReference<
+        "mutation",
+        "internal",
+        { batchSize?: number },
+        { deleted: number; hasMore: boolean; held: number; scanned: number },
+        Name
+      >;
+      listPolicies: FunctionReference<
+        "query",
+        "internal",
+        { organizationId?: string },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          action?: string;
+          createdAt: number;
+          organizationId?: string;
+          retentionDays: number;
+          tag?: string;
+          updatedAt: number;
+        }>,
+        Name
+      >;
+      previewPolicy: FunctionReference<
+        "query",
+        "internal",
+        {
+          action?: string;
+          limit?: number;
+          organizationId?: string;
+          retentionDays: number;
+          tag?: string;
+        },
+        { isComplete: boolean; scanned: number; wouldPurge: number },
+        Name
+      >;
+      removePolicy: FunctionReference<
+        "mutation",
+        "internal",
+        { policyId: string },
+        boolean,
+        Name
+      >;
+      setPolicy: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          action?: string;
+          organizationId?: string;
+          retentionDays: number;
+          tag?: string;
+        },
+        string,
+        Name
+      >;
+    };
+    search: {
+      backfill: FunctionReference<
+        "mutation",
+        "internal",
+        { batchSize?: number },
+        {
+          backfillComplete: boolean;
+          backfillUntil: null | number;
+          backfilledThrough: null | number;
+        },
+        Name
+      >;
+      configure: FunctionReference<
+        "mutation",
+        "internal",
+        { metadataKeys: Array<string> },
+        { metadataKeys: Array<string> },
+        Name
+      >;
+      getBackfillStatus: FunctionReference<
+        "query",
+        "internal",
+        {},
+        {
+          backfillComplete: boolean;
+          backfillUntil: null | number;
+          backfilledThrough: null | number;
+        },
+        Name
+      >;
+      getSettings: FunctionReference<
+        "query",
+        "internal",
+        {},
+        { metadataKeys: Array<string> },
+        Name
+      >;
+    };
+    stats: {
+      backfill: FunctionReference<
+        "mutation",
+        "internal",
+        { batchSize?: number },
+        {
+          backfillComplete: boolean;
+          backfillUntil: null | number;
+          backfilledThrough: null | number;
+        },
+        Name
+      >;
+      getBackfillStatus: FunctionReference<
+        "query",
+        "internal",
+        {},
+        {
+          backfillComplete: boolean;
+          backfillUntil: null | number;
+          backfilledThrough: null | number;
+        },
+        Name
+      >;
+    };
+    webhooks: {
+      createSubscription: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actions?: Array<string>;
+          maxAttempts?: number;
+          organizationId: string;
+          secret: string;
+          tags?: Array<string>;
+          url: string;
+        },
+        string,
+        Name
+      >;
+      listAttempts: FunctionReference<
+        "query",
+        "internal",
+        { deliveryId: string },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          attemptedAt: number;
+          deliveryId: string;
+          error?: string;
+          statusCode?: number;
+        }>,
+        Name
+      >;
+      listDeliveries: FunctionReference<
+        "query",
+        "internal",
+        {
+          limit?: number;
+          organizationId?: string;
+          status?: "pending" | "delivered" | "dead_letter";
+          subscriptionId?: string;
+        },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          attemptCount: number;
+          createdAt: number;
+          deliveredAt?: number;
+          eventId: string;
+          lastError?: string;
+          nextAttemptAt?: number;
+          organizationId: string;
+          status: "pending" | "delivered" | "dead_letter";
+          subscriptionId: string;
         }>,
         Name
       >;
+      listSubscriptions: FunctionReference<
+        "query",
+        "internal",
+        { organizationId: string },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          actions?: Array<string>;
+          createdAt: number;
+          enabled: boolean;
+          maxAttempts: number;
+          organizationId: string;
+          tags?: Array<string>;
+          updatedAt: number;
+          url: string;
+        }>,
+        Name
+      >;
+      removeSubscription: FunctionReference<
+        "mutation",
+        "internal",
+        { subscriptionId: string },
+        boolean,
+        Name
+      >;
+      replayDelivery: FunctionReference<
+        "mutation",
+        "internal",
+        { deliveryId: string },
+        null,
+        Name
+      >;
+      updateSubscription: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          actions?: Array<string>;
+          enabled?: boolean;
+          maxAttempts?: number;
+          secret?: string;
+          subscriptionId: string;
+          tags?: Array<string>;
+          url?: string;
+        },
+        null,
+        Name
+      >;
     };
   };
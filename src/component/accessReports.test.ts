@@ -0,0 +1,153 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import schema from "./schema.js";
+import type { Id } from "./_generated/dataModel.js";
+
+const modules = import.meta.glob("./**/*.ts");
+
+const ada = { type: "user" as const, id: "user_1", name: "Ada Lovelace" };
+const admin = { type: "user" as const, id: "admin_1", name: "Admin" };
+
+async function seed(t: ReturnType<typeof convexTest>) {
+  await t.mutation(api.lib.log, {
+    action: "user.signed_in",
+    actor: ada,
+    targets: [{ type: "user", id: "user_1" }],
+    organizationId: "org_1",
+    occurredAt: 1000,
+  });
+  await t.mutation(api.lib.log, {
+    action: "document.viewed",
+    actor: ada,
+    targets: [{ type: "document", id: "doc_1", name: "<Plans>" }],
+    organizationId: "org_2",
+    occurredAt: 2000,
+  });
+  await t.mutation(api.lib.log, {
+    action: "user.role_changed",
+    actor: admin,
+    targets: [{ type: "user", id: "user_1" }],
+    organizationId: "org_1",
+    metadata: { role: "owner" },
+    occurredAt: 3000,
+  });
+  await t.mutation(api.lib.log, {
+    action: "document.viewed",
+    actor: admin,
+    targets: [{ type: "document", id: "doc_2" }],
+    organizationId: "org_1",
+    occurredAt: 4000,
+  });
+}
+
+async function readFile(t: ReturnType<typeof convexTest>, storageId: string) {
+  return await t.run(async (ctx) => {
+    const blob = await ctx.storage.get(storageId as Id<"_storage">);
+    return await blob!.text();
+  });
+}
+
+describe("Access Reports", () => {
+  test("collects a person's events across organizations as JSON", async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, modules);
+    await seed(t);
+
+    const reportId = await t.mutation(api.accessReports.startAccessReport, {
+      subject: { type: "user", id: "user_1" },
+      requestedBy: admin,
+    });
+    expect(
+      (await t.query(api.accessReports.getAccessReport, { reportId }))?.status,
+    ).toBe("pending");
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const report = await t.query(api.accessReports.getAccessReport, {
+      reportId,
+    });
+    expect(report).toMatchObject({ status: "completed", eventCount: 3 });
+    expect(report?.url).toEqual(expect.any(String));
+    expect(report?.manifestUrl).toEqual(expect.any(String));
+    expect(report?.manifest).toMatchObject({
+      subject: { type: "user", id: "user_1" },
+      format: "json",
+      eventCount: 3,
+      actorEventCount: 2,
+      targetEventCount: 1,
+      organizations: ["org_1", "org_2"],
+      actions: {
+        "user.signed_in": 1,
+        "document.viewed": 1,
+        "user.role_changed": 1,
+      },
+      firstOccurredAt: 1000,
+      lastOccurredAt: 3000,
+    });
+
+    const bundle = await readFile(t, report!.storageId!);
+    const parsed = JSON.parse(bundle);
+    expect(parsed.report.eventCount).toBe(3);
+    expect(
+      parsed.events.map((e: { action: string; occurredAt: string }) => [
+        e.action,
+        e.occurredAt,
+      ]),
+    ).toEqual([
+      ["user.signed_in", "1970-01-01T00:00:01.000Z"],
+      ["document.viewed", "1970-01-01T00:00:02.000Z"],
+      ["user.role_changed", "1970-01-01T00:00:03.000Z"],
+    ]);
+    expect(parsed.events[2].metadata).toEqual({ role: "owner" });
+
+    // The manifest fingerprints the bundle
+    const manifest = JSON.parse(await readFile(t, report!.manifestStorageId!));
+    expect(manifest.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(manifest.sha256).toBe(report?.manifest?.sha256);
+
+    // Producing the report is itself audited
+    const exported = await t.query(api.lib.listByAction, {
+      action: "resource.exported",
+    });
+    expect(exported).toHaveLength(1);
+    expect(exported[0].actor).toEqual(admin);
+    expect(exported[0].targets).toEqual([
+      { type: "audit_access_report", id: reportId },
+      { type: "user", id: "user_1" },
+    ]);
+
+    vi.useRealTimers();
+  });
+
+  test("renders an HTML report with escaped values", async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, modules);
+    await seed(t);
+
+    const reportId = await t.mutation(api.accessReports.startAccessReport, {
+      subject: { type: "user", id: "user_1" },
+      format: "html",
+      requestedBy: ada,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const report = await t.query(api.accessReports.getAccessReport, {
+      reportId,
+    });
+    expect(report?.status).toBe("completed");
+    const html = await readFile(t, report!.storageId!);
+    expect(html).toContain("<h1>Audit data for user user_1</h1>");
+    expect(html).toContain("document: &lt;Plans&gt;");
+    expect(html).not.toContain("<Plans>");
+    expect(html.match(/<tr><td>/g)).toHaveLength(3);
+
+    expect(
+      await t.query(api.accessReports.getAccessReport, {
+        reportId: "missing",
+      }),
+    ).toBeNull();
+
+    vi.useRealTimers();
+  });
+});
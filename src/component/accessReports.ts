@@ -0,0 +1,433 @@
+import { v } from "convex/values";
+import {
+  internalAction,
+  internalMutation,
+  mutation,
+  query,
+} from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import { api, internal } from "./_generated/api.js";
+import {
+  STANDARD_ACTIONS,
+  accessReportFormatValidator,
+  accessReportManifestValidator,
+  accessReportSubjectValidator,
+  accessReportValidator,
+  actorValidator,
+} from "./schema.js";
+import type { AccessReportFormat, AccessReportManifest } from "./schema.js";
+import { sha256 } from "./chain.js";
+import { writeEvent } from "./events.js";
+
+const PAGE_SIZE = 500;
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+const accessReportDocValidator = accessReportValidator.extend({
+  _id: v.string(),
+  _creationTime: v.number(),
+  url: v.union(v.null(), v.string()),
+  manifestUrl: v.union(v.null(), v.string()),
+});
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+const CONTENT_TYPES: Record<AccessReportFormat, string> = {
+  json: "application/json",
+  html: "text/html; charset=utf-8",
+};
+
+type Summary = Omit<AccessReportManifest, "sha256">;
+
+/**
+ * An event as shown to the person it is about, without storage details
+ */
+function describeEvent(event: Doc<"auditEvents">) {
+  return {
+    id: event._id,
+    occurredAt: new Date(event.occurredAt).toISOString(),
+    organizationId: event.organizationId,
+    action: event.action,
+    result: event.result ?? "success",
+    actor: event.actor,
+    targets: event.targets,
+    context: event.context,
+    metadata: event.metadata,
+    error: event.error,
+    tags: event.tags,
+  };
+}
+
+/**
+ * JSON.stringify that writes 64-bit integers as strings
+ */
+function toJson(value: unknown, space?: number) {
+  return JSON.stringify(
+    value,
+    (_key, entry) => (typeof entry === "bigint" ? entry.toString() : entry),
+    space,
+  );
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderHtml(summary: Summary, events: Array<Doc<"auditEvents">>) {
+  const subject = `${summary.subject.type} ${summary.subject.id}`;
+  const rows = events.map((event) => {
+    const described = describeEvent(event);
+    const details = {
+      context: described.context,
+      metadata: described.metadata,
+      error: described.error,
+      tags: described.tags,
+    };
+    const cells = [
+      described.occurredAt,
+      described.organizationId ?? "",
+      described.action,
+      `${event.actor.name ?? event.actor.id} (${event.actor.type})`,
+      event.targets
+        .map((target) => `${target.type}: ${target.name ?? target.id}`)
+        .join(", "),
+      described.result,
+    ].map((cell) => `<td>${escapeHtml(cell)}</td>`);
+    cells.push(`<td><pre>${escapeHtml(toJson(details, 2))}</pre></td>`);
+    return `<tr>${cells.join("")}</tr>`;
+  });
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Audit data for ${escapeHtml(subject)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #ddd; padding: 0.4rem; text-align: left; vertical-align: top; }
+pre { margin: 0; white-space: pre-wrap; }
+</style>
+</head>
+<body>
+<h1>Audit data for ${escapeHtml(subject)}</h1>
+<p>Generated ${escapeHtml(new Date(summary.generatedAt).toISOString())}.
+${summary.eventCount} events across ${summary.organizations.length} organizations.</p>
+<table>
+<thead><tr><th>Time</th><th>Organization</th><th>Action</th><th>Actor</th><th>Targets</th><th>Result</th><th>Details</th></tr></thead>
+<tbody>
+${rows.join("\n")}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render the report file in the requested format
+ */
+function renderBundle(summary: Summary, events: Array<Doc<"auditEvents">>) {
+  if (summary.format === "html") {
+    return renderHtml(summary, events);
+  }
+  return toJson({ report: summary, events: events.map(describeEvent) }, 2);
+}
+
+function summarize(
+  job: { subject: Summary["subject"]; format: AccessReportFormat },
+  events: Array<Doc<"auditEvents">>,
+  actorEventCount: number,
+): Summary {
+  const organizations = new Set<string>();
+  const actions: Record<string, number> = {};
+  for (const event of events) {
+    if (event.organizationId !== undefined) {
+      organizations.add(event.organizationId);
+    }
+    actions[event.action] = (actions[event.action] ?? 0) + 1;
+  }
+
+  return {
+    subject: job.subject,
+    format: job.format,
+    generatedAt: Date.now(),
+    eventCount: events.length,
+    actorEventCount,
+    targetEventCount: events.length - actorEventCount,
+    organizations: [...organizations].sort(),
+    actions,
+    firstOccurredAt: events[0]?.occurredAt,
+    lastOccurredAt: events[events.length - 1]?.occurredAt,
+  };
+}
+
+// =============================================================================
+// Report Jobs
+// =============================================================================
+
+/**
+ * Start collecting a person's audit data into a JSON or HTML file
+ *
+ * Includes every event, in any organization, that the subject performed or
+ * that targeted them. The report runs in the background; poll
+ * `getAccessReport` for progress, the download URL and the manifest. The
+ * report itself is audited as `resource.exported`.
+ */
+export const startAccessReport = mutation({
+  args: {
+    subject: accessReportSubjectValidator,
+    format: v.optional(accessReportFormatValidator),
+    requestedBy: actorValidator,
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    const reportId = await ctx.db.insert("accessReports", {
+      subject: args.subject,
+      format: args.format ?? "json",
+      requestedBy: args.requestedBy,
+      status: "pending",
+      eventCount: 0,
+      createdAt: Date.now(),
+    });
+
+    await ctx.scheduler.runAfter(0, internal.accessReports.run, { reportId });
+
+    return reportId;
+  },
+});
+
+/**
+ * Get an access report job, with download URLs once it has completed
+ */
+export const getAccessReport = query({
+  args: {
+    reportId: v.string(),
+  },
+  returns: v.union(v.null(), accessReportDocValidator),
+  handler: async (ctx, args) => {
+    const reportId = ctx.db.normalizeId("accessReports", args.reportId);
+    const job = reportId ? await ctx.db.get(reportId) : null;
+    if (!job) {
+      return null;
+    }
+
+    const url = job.storageId ? await ctx.storage.getUrl(job.storageId) : null;
+    const manifestUrl = job.manifestStorageId
+      ? await ctx.storage.getUrl(job.manifestStorageId)
+      : null;
+    return { ...job, url, manifestUrl };
+  },
+});
+
+/**
+ * Internal action collecting the subject's events and storing the bundle
+ */
+export const run = internalAction({
+  args: {
+    reportId: v.id("accessReports"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const job = await ctx.runMutation(internal.accessReports.markRunning, {
+      reportId: args.reportId,
+    });
+    if (!job) {
+      return null;
+    }
+
+    try {
+      const events = new Map<string, Doc<"auditEvents">>();
+      let cursor: string | undefined;
+
+      // Events the subject performed
+      do {
+        const page = await ctx.runQuery(api.lib.list, {
+          actorType: job.subject.type,
+          actorId: job.subject.id,
+          limit: PAGE_SIZE,
+          cursor,
+          decrypt: true,
+        });
+        for (const event of page.events) {
+          events.set(event._id, event);
+        }
+        cursor = page.nextCursor ?? undefined;
+
+        await ctx.runMutation(internal.accessReports.recordProgress, {
+          reportId: args.reportId,
+          eventCount: events.size,
+        });
+      } while (cursor);
+      const actorEventCount = events.size;
+
+      // Events that targeted the subject
+      do {
+        const page = await ctx.runQuery(api.lib.listByTarget, {
+          targetType: job.subject.type,
+          targetId: job.subject.id,
+          limit: PAGE_SIZE,
+          cursor,
+          decrypt: true,
+        });
+        for (const event of page.events) {
+          events.set(event._id, event);
+        }
+        cursor = page.nextCursor ?? undefined;
+
+        await ctx.runMutation(internal.accessReports.recordProgress, {
+          reportId: args.reportId,
+          eventCount: events.size,
+        });
+      } while (cursor);
+
+      const sorted = [...events.values()].sort(
+        (a, b) => a.occurredAt - b.occurredAt,
+      );
+      const summary = summarize(job, sorted, actorEventCount);
+      const bundle = renderBundle(summary, sorted);
+      const manifest = { ...summary, sha256: await sha256(bundle) };
+
+      const storageId = await ctx.storage.store(
+        new Blob([bundle], { type: CONTENT_TYPES[job.format] }),
+      );
+      const manifestStorageId = await ctx.storage.store(
+        new Blob([toJson(manifest, 2)], { type: CONTENT_TYPES.json }),
+      );
+
+      await ctx.runMutation(internal.accessReports.complete, {
+        reportId: args.reportId,
+        storageId,
+        manifestStorageId,
+        manifest,
+      });
+    } catch (error) {
+      await ctx.runMutation(internal.accessReports.fail, {
+        reportId: args.reportId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return null;
+  },
+});
+
+// =============================================================================
+// Job State
+// =============================================================================
+
+/**
+ * Internal function to claim a pending report
+ *
+ * Returns what to collect, or null if the report no longer exists or has
+ * already been started.
+ */
+export const markRunning = internalMutation({
+  args: {
+    reportId: v.id("accessReports"),
+  },
+  returns: v.union(
+    v.null(),
+    v.object({
+      subject: accessReportSubjectValidator,
+      format: accessReportFormatValidator,
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.reportId);
+    if (!job || job.status !== "pending") {
+      return null;
+    }
+    await ctx.db.patch(job._id, { status: "running" });
+    return { subject: job.subject, format: job.format };
+  },
+});
+
+/**
+ * Internal function to record how many events have been collected
+ */
+export const recordProgress = internalMutation({
+  args: {
+    reportId: v.id("accessReports"),
+    eventCount: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.reportId, { eventCount: args.eventCount });
+    return null;
+  },
+});
+
+/**
+ * Internal function to finish a report and audit it
+ */
+export const complete = internalMutation({
+  args: {
+    reportId: v.id("accessReports"),
+    storageId: v.id("_storage"),
+    manifestStorageId: v.id("_storage"),
+    manifest: accessReportManifestValidator,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.reportId);
+    if (!job) {
+      await ctx.storage.delete(args.storageId);
+      await ctx.storage.delete(args.manifestStorageId);
+      return null;
+    }
+
+    await ctx.db.patch(job._id, {
+      status: "completed",
+      storageId: args.storageId,
+      manifestStorageId: args.manifestStorageId,
+      manifest: args.manifest,
+      eventCount: args.manifest.eventCount,
+      completedAt: Date.now(),
+    });
+
+    await writeEvent(ctx, {
+      action: STANDARD_ACTIONS.RESOURCE_EXPORTED,
+      actor: job.requestedBy,
+      targets: [
+        { type: "audit_access_report", id: job._id },
+        { type: job.subject.type, id: job.subject.id },
+      ],
+      metadata: {
+        format: job.format,
+        eventCount: args.manifest.eventCount,
+        sha256: args.manifest.sha256,
+      },
+    });
+
+    return null;
+  },
+});
+
+/**
+ * Internal function to mark a report as failed
+ */
+export const fail = internalMutation({
+  args: {
+    reportId: v.id("accessReports"),
+    error: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.reportId, {
+      status: "failed",
+      error: args.error,
+      completedAt: Date.now(),
+    });
+    return null;
+  },
+});
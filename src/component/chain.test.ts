@@ -0,0 +1,176 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api, internal } from "./_generated/api.js";
+import schema from "./schema.js";
+
+const modules = import.meta.glob("./**/*.ts");
+
+async function logEvents(
+  t: ReturnType<typeof convexTest>,
+  count: number,
+  organizationId?: string,
+) {
+  const ids: string[] = [];
+  for (let i = 1; i <= count; i++) {
+    const { eventId } = await t.mutation(api.lib.log, {
+      action: "resource.updated",
+      actor: { type: "user", id: `user_${i}` },
+      targets: [{ type: "document", id: `doc_${i}` }],
+      organizationId,
+      occurredAt: i * 1000,
+    });
+    ids.push(eventId);
+  }
+  return ids;
+}
+
+describe("Hash chain", () => {
+  test("log links events per organization", async () => {
+    const t = convexTest(schema, modules);
+
+    const [first, second] = await logEvents(t, 2, "org_1");
+    await logEvents(t, 1, "org_2");
+
+    const a = await t.query(api.lib.get, { eventId: first });
+    const b = await t.query(api.lib.get, { eventId: second });
+
+    expect(a?.sequence).toBe(1);
+    expect(a?.previousHash).toBeUndefined();
+    expect(b?.sequence).toBe(2);
+    expect(b?.previousHash).toBe(a?.hash);
+
+    const other = await t.query(api.lib.list, { organizationId: "org_2" });
+    expect(other.events[0].sequence).toBe(1);
+  });
+
+  test("verifyChain accepts an untouched chain", async () => {
+    const t = convexTest(schema, modules);
+
+    await logEvents(t, 3, "org_1");
+    await t.mutation(api.lib.logBatch, {
+      events: [
+        {
+          action: "user.signed_in",
+          actor: { type: "user", id: "user_4" },
+          targets: [],
+          organizationId: "org_1",
+        },
+      ],
+    });
+
+    const result = await t.query(api.chain.verifyChain, {
+      organizationId: "org_1",
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.checked).toBe(4);
+    expect(result.brokenLink).toBeNull();
+  });
+
+  test("verifyChain reports an edited event", async () => {
+    const t = convexTest(schema, modules);
+
+    const ids = await logEvents(t, 3, "org_1");
+    await t.run(async (ctx) => {
+      await ctx.db.patch(ids[1] as any, { action: "resource.deleted" });
+    });
+
+    const result = await t.query(api.chain.verifyChain, {
+      organizationId: "org_1",
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.brokenLink).toEqual({
+      sequence: 2,
+      eventId: ids[1],
+      reason: "Event content does not match its hash",
+    });
+  });
+
+  test("verifyChain reports a deleted event", async () => {
+    const t = convexTest(schema, modules);
+
+    const ids = await logEvents(t, 3, "org_1");
+    await t.run(async (ctx) => {
+      await ctx.db.delete(ids[1] as any);
+    });
+
+    const result = await t.query(api.chain.verifyChain, {
+      organizationId: "org_1",
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.brokenLink?.sequence).toBe(2);
+  });
+
+  test("verifyChain reports removal of the latest event", async () => {
+    const t = convexTest(schema, modules);
+
+    const ids = await logEvents(t, 3, "org_1");
+    await t.run(async (ctx) => {
+      await ctx.db.delete(ids[2] as any);
+    });
+
+    const result = await t.query(api.chain.verifyChain, {
+      organizationId: "org_1",
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.brokenLink?.reason).toBe(
+      "Event is missing and no deletion was recorded",
+    );
+  });
+
+  test("updateEvent records a checkpoint the verifier accepts", async () => {
+    const t = convexTest(schema, modules);
+
+    const ids = await logEvents(t, 3, "org_1");
+    await t.mutation(internal.lib.updateEvent, {
+      eventId: ids[1] as any,
+      tags: ["exported"],
+    });
+
+    const result = await t.query(api.chain.verifyChain, {
+      organizationId: "org_1",
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.checked).toBe(3);
+  });
+
+  test("deleteOldEvents records checkpoints the verifier accepts", async () => {
+    const t = convexTest(schema, modules);
+
+    await logEvents(t, 5, "org_1");
+    const deleted = await t.mutation(internal.lib.deleteOldEvents, {
+      olderThan: 2500,
+      organizationId: "org_1",
+    });
+    expect(deleted.deleted).toBe(2);
+
+    const result = await t.query(api.chain.verifyChain, {
+      organizationId: "org_1",
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.checked).toBe(3);
+  });
+
+  test("verifyChain continues across calls", async () => {
+    const t = convexTest(schema, modules);
+
+    await logEvents(t, 5);
+
+    const first = await t.query(api.chain.verifyChain, { limit: 3 });
+    expect(first.valid).toBe(true);
+    expect(first.continueFrom?.fromSequence).toBe(4);
+
+    const second = await t.query(api.chain.verifyChain, {
+      limit: 3,
+      ...first.continueFrom!,
+    });
+    expect(second.valid).toBe(true);
+    expect(second.checked).toBe(2);
+    expect(second.continueFrom).toBeNull();
+  });
+});
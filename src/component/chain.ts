@@ -0,0 +1,379 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server.js";
+import type { MutationCtx, QueryCtx } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import type { AuditEvent } from "./schema.js";
+
+// =============================================================================
+// Hashing
+// =============================================================================
+
+/**
+ * Serialize a value as JSON with object keys sorted, so the same content
+ * always produces the same string regardless of insertion order.
+ */
+function canonicalize(value: unknown): string {
+  if (typeof value === "bigint") {
+    return JSON.stringify(`${value}n`);
+  }
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(",")}]`;
+  }
+  const entries = Object.entries(value)
+    .filter(([, fieldValue]) => fieldValue !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries
+    .map(
+      ([key, fieldValue]) =>
+        `${JSON.stringify(key)}:${canonicalize(fieldValue)}`,
+    )
+    .join(",")}}`;
+}
+
+/**
+ * SHA-256 of a string, hex encoded
+ */
+export async function sha256(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(input),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Hash the canonical content of an audit event
+ *
+ * System fields and the stored hash itself are excluded; the chain position
+ * (`sequence` and `previousHash`) is included so events cannot be reordered.
+ */
+export async function hashEvent(
+  event: AuditEvent & { _id?: string; _creationTime?: number },
+): Promise<string> {
+  const { _id, _creationTime, hash: _hash, ...content } = event;
+  return await sha256(canonicalize(content));
+}
+
+// =============================================================================
+// Writing
+// =============================================================================
+
+/**
+ * Insert an audit event at the end of its organization's hash chain
+ */
+export async function insertChainedEvent(
+  ctx: MutationCtx,
+  event: Omit<AuditEvent, "sequence" | "previousHash" | "hash">,
+) {
+  const head = await ctx.db
+    .query("auditChainHeads")
+    .withIndex("by_organizationId", (q) =>
+      q.eq("organizationId", event.organizationId),
+    )
+    .unique();
+
+  const chained = {
+    ...event,
+    sequence: (head?.lastSequence ?? 0) + 1,
+    previousHash: head?.lastHash,
+  };
+  const hash = await hashEvent(chained);
+
+  const eventId = await ctx.db.insert("auditEvents", { ...chained, hash });
+
+  if (head) {
+    await ctx.db.patch(head._id, {
+      lastSequence: chained.sequence,
+      lastHash: hash,
+    });
+  } else {
+    await ctx.db.insert("auditChainHeads", {
+      organizationId: event.organizationId,
+      lastSequence: chained.sequence,
+      lastHash: hash,
+    });
+  }
+
+  return eventId;
+}
+
+/**
+ * Record that a chained event's content was changed after it was written
+ *
+ * Call this after patching the event. Events written before hash chaining
+ * was introduced are ignored.
+ */
+export async function recordUpdateCheckpoint(
+  ctx: MutationCtx,
+  event: Doc<"auditEvents">,
+) {
+  if (event.sequence === undefined || event.hash === undefined) {
+    return;
+  }
+
+  await ctx.db.insert("auditChainCheckpoints", {
+    organizationId: event.organizationId,
+    kind: "update",
+    fromSequence: event.sequence,
+    toSequence: event.sequence,
+    eventId: event._id,
+    previousHash: event.hash,
+    hash: await hashEvent(event),
+    recordedAt: Date.now(),
+  });
+}
+
+/**
+ * Record that chained events are about to be deleted
+ *
+ * Events are grouped per organization into runs of consecutive sequence
+ * numbers, and one checkpoint is written per run.
+ */
+export async function recordDeleteCheckpoints(
+  ctx: MutationCtx,
+  events: Array<Doc<"auditEvents">>,
+) {
+  const chained = events
+    .filter((e) => e.sequence !== undefined && e.hash !== undefined)
+    .sort((a, b) =>
+      (a.organizationId ?? "") === (b.organizationId ?? "")
+        ? a.sequence! - b.sequence!
+        : (a.organizationId ?? "") < (b.organizationId ?? "")
+          ? -1
+          : 1,
+    );
+
+  let run: Array<Doc<"auditEvents">> = [];
+  const flush = async () => {
+    if (run.length === 0) {
+      return;
+    }
+    const first = run[0];
+    const last = run[run.length - 1];
+    await ctx.db.insert("auditChainCheckpoints", {
+      organizationId: first.organizationId,
+      kind: "delete",
+      fromSequence: first.sequence!,
+      toSequence: last.sequence!,
+      previousHash: first.previousHash,
+      hash: last.hash!,
+      recordedAt: Date.now(),
+    });
+    run = [];
+  };
+
+  for (const event of chained) {
+    const previous = run[run.length - 1];
+    if (
+      previous &&
+      (previous.organizationId !== event.organizationId ||
+        previous.sequence! + 1 !== event.sequence)
+    ) {
+      await flush();
+    }
+    run.push(event);
+  }
+  await flush();
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+async function findDeleteCheckpoint(
+  ctx: QueryCtx,
+  organizationId: string | undefined,
+  fromSequence: number,
+) {
+  return await ctx.db
+    .query("auditChainCheckpoints")
+    .withIndex("by_organizationId_and_kind_and_fromSequence", (q) =>
+      q
+        .eq("organizationId", organizationId)
+        .eq("kind", "delete")
+        .eq("fromSequence", fromSequence),
+    )
+    .first();
+}
+
+async function findLatestUpdateCheckpoint(
+  ctx: QueryCtx,
+  organizationId: string | undefined,
+  sequence: number,
+) {
+  return await ctx.db
+    .query("auditChainCheckpoints")
+    .withIndex("by_organizationId_and_kind_and_fromSequence", (q) =>
+      q
+        .eq("organizationId", organizationId)
+        .eq("kind", "update")
+        .eq("fromSequence", sequence),
+    )
+    .order("desc")
+    .first();
+}
+
+const brokenLinkValidator = v.object({
+  sequence: v.number(),
+  eventId: v.union(v.null(), v.string()),
+  reason: v.string(),
+});
+
+/**
+ * Verify an organization's hash chain
+ *
+ * Walks up to `limit` events starting at `fromSequence` and reports the first
+ * broken link. To verify a long chain in several calls, pass the returned
+ * `continueFrom` values back as `fromSequence` and `previousHash`.
+ */
+export const verifyChain = query({
+  args: {
+    organizationId: v.optional(v.string()),
+    fromSequence: v.optional(v.number()),
+    previousHash: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({
+    valid: v.boolean(),
+    checked: v.number(),
+    brokenLink: v.union(v.null(), brokenLinkValidator),
+    continueFrom: v.union(
+      v.null(),
+      v.object({
+        fromSequence: v.number(),
+        previousHash: v.optional(v.string()),
+      }),
+    ),
+  }),
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 500;
+    const organizationId = args.organizationId;
+
+    let expected = args.fromSequence ?? 1;
+    let previousHash = args.previousHash;
+    let checked = 0;
+
+    const broken = (
+      sequence: number,
+      eventId: string | null,
+      reason: string,
+    ) => ({
+      valid: false,
+      checked,
+      brokenLink: { sequence, eventId, reason },
+      continueFrom: null,
+    });
+
+    // Follow deletion checkpoints across a gap ending before `untilSequence`
+    const skipDeleted = async (untilSequence: number) => {
+      while (expected < untilSequence) {
+        const checkpoint = await findDeleteCheckpoint(
+          ctx,
+          organizationId,
+          expected,
+        );
+        if (!checkpoint) {
+          return broken(
+            expected,
+            null,
+            "Event is missing and no deletion was recorded",
+          );
+        }
+        if (checkpoint.previousHash !== previousHash) {
+          return broken(
+            expected,
+            null,
+            "Deletion checkpoint does not link to the previous event",
+          );
+        }
+        previousHash = checkpoint.hash;
+        expected = checkpoint.toSequence + 1;
+      }
+      return null;
+    };
+
+    const events = await ctx.db
+      .query("auditEvents")
+      .withIndex("by_organizationId_and_sequence", (q) =>
+        q.eq("organizationId", organizationId).gte("sequence", expected),
+      )
+      .take(limit);
+
+    for (const event of events) {
+      const sequence = event.sequence!;
+
+      const gap = await skipDeleted(sequence);
+      if (gap) {
+        return gap;
+      }
+      if (sequence !== expected) {
+        return broken(sequence, event._id, "Duplicate sequence number");
+      }
+      if (event.previousHash !== previousHash) {
+        return broken(
+          sequence,
+          event._id,
+          "Previous hash does not match the preceding event",
+        );
+      }
+
+      const contentHash = await hashEvent(event);
+      if (contentHash !== event.hash) {
+        const checkpoint = await findLatestUpdateCheckpoint(
+          ctx,
+          organizationId,
+          sequence,
+        );
+        if (!checkpoint || checkpoint.hash !== contentHash) {
+          return broken(
+            sequence,
+            event._id,
+            "Event content does not match its hash",
+          );
+        }
+      }
+
+      previousHash = event.hash;
+      expected = sequence + 1;
+      checked++;
+    }
+
+    if (events.length === limit) {
+      return {
+        valid: true,
+        checked,
+        brokenLink: null,
+        continueFrom: { fromSequence: expected, previousHash },
+      };
+    }
+
+    // Reached the end of the stored events: the chain must end at its head
+    const head = await ctx.db
+      .query("auditChainHeads")
+      .withIndex("by_organizationId", (q) =>
+        q.eq("organizationId", organizationId),
+      )
+      .unique();
+
+    if (head) {
+      const gap = await skipDeleted(head.lastSequence + 1);
+      if (gap) {
+        return gap;
+      }
+      if (previousHash !== head.lastHash) {
+        return broken(
+          head.lastSequence,
+          null,
+          "Chain does not end at the recorded head",
+        );
+      }
+    }
+
+    return { valid: true, checked, brokenLink: null, continueFrom: null };
+  },
+});
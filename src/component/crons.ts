@@ -0,0 +1,30 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api.js";
+
+const crons = cronJobs();
+
+// Purge events that have outlived their retention policy
+crons.hourly(
+  "enforce retention policies",
+  { minuteUTC: 0 },
+  internal.retention.enforceBatch,
+  {},
+);
+
+// Drop detection rule hits that slid out of every window
+crons.hourly(
+  "prune detection hits",
+  { minuteUTC: 30 },
+  internal.detection.pruneHits,
+  {},
+);
+
+// Retry webhook deliveries whose attempt died before recording its result
+crons.hourly(
+  "retry stalled webhook deliveries",
+  { minuteUTC: 15 },
+  internal.webhooks.retryStalledDeliveries,
+  {},
+);
+
+export default crons;
@@ -0,0 +1,229 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api.js";
+import schema from "./schema.js";
+
+const modules = import.meta.glob("./**/*.ts");
+
+const MINUTE = 60 * 1000;
+
+describe("Detection rules", () => {
+  test("threshold rules raise one alert per burst", async () => {
+    const t = convexTest(schema, modules);
+
+    const ruleId = await t.mutation(api.detection.createRule, {
+      name: "Brute force",
+      action: "user.sign_in_failed",
+      groupBy: ["actor", "ip"],
+      threshold: 6,
+      windowMs: 10 * MINUTE,
+    });
+
+    const failedSignIn = (actorId: string, ip: string, minute: number) =>
+      t.mutation(api.lib.log, {
+        action: "user.sign_in_failed",
+        actor: { type: "user", id: actorId },
+        targets: [],
+        context: { location: ip },
+        organizationId: "org_1",
+        result: "failure",
+        occurredAt: minute * MINUTE,
+      });
+
+    // Five failures in the window are allowed; the sixth fires for the actor
+    const eventIds: string[] = [];
+    for (let i = 0; i < 6; i++) {
+      const { eventId } = await failedSignIn("user_1", `10.0.0.${i}`, i);
+      eventIds.push(eventId);
+    }
+    let alerts = await t.query(api.lib.listByAction, {
+      action: "security.alert",
+    });
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({
+      actor: { type: "system", id: "audit_detection" },
+      organizationId: "org_1",
+      occurredAt: 5 * MINUTE,
+      metadata: {
+        ruleId,
+        ruleName: "Brute force",
+        severity: "high",
+        groupBy: "actor",
+        count: 6,
+        triggeringEventIds: eventIds,
+      },
+      tags: ["detection", "high"],
+    });
+    expect(alerts[0].targets.slice(0, 2)).toEqual([
+      { type: "audit_detection_rule", id: ruleId, name: "Brute force" },
+      { type: "user", id: "user_1" },
+    ]);
+
+    // The alert links back to each triggering event
+    const linked = await t.query(api.lib.listByTarget, {
+      targetType: "audit_event",
+      targetId: eventIds[0],
+    });
+    expect(linked.events.map((e) => e._id)).toEqual([alerts[0]._id]);
+
+    // Further failures within the cooldown are folded into that alert
+    await failedSignIn("user_1", "10.0.0.9", 7);
+    alerts = await t.query(api.lib.listByAction, { action: "security.alert" });
+    expect(alerts).toHaveLength(1);
+
+    // Old failures slide out of the window, so a slow trickle never fires
+    for (let i = 0; i < 6; i++) {
+      await failedSignIn("user_2", "10.0.1.1", 100 + i * 3);
+    }
+    alerts = await t.query(api.lib.listByAction, { action: "security.alert" });
+    expect(alerts).toHaveLength(1);
+
+    // Once the cooldown has passed, a new burst raises a new alert
+    for (let i = 0; i < 6; i++) {
+      await failedSignIn("user_1", "10.0.0.1", 200 + i);
+    }
+    alerts = await t.query(api.lib.listByAction, { action: "security.alert" });
+    expect(alerts.map((e) => e.metadata?.groupBy)).toEqual([
+      "ip",
+      "actor",
+      "actor",
+    ]);
+    expect(alerts[1].metadata?.suppressedSinceLastAlert).toBe(1);
+
+    // The IP is only kept in the alert's context, not in keys or targets
+    expect(alerts[0].context).toEqual({ location: "10.0.0.1" });
+    expect(alerts[0].targets.map((target) => target.type)).not.toContain(
+      "ip_address",
+    );
+    const stored = await t.run(async (ctx) => ({
+      hits: await ctx.db.query("detectionHits").collect(),
+      state: await ctx.db.query("detectionState").collect(),
+      alert: await ctx.db.get(alerts[0]._id as any),
+    }));
+    expect(JSON.stringify([stored.hits, stored.state])).not.toContain(
+      "10.0.0.1",
+    );
+    expect((stored.alert as any)?.searchText).not.toContain("10.0.0.1");
+  });
+
+  test("rules filter by target and organization", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.detection.createRule, {
+      organizationId: "org_1",
+      name: "Admin grants",
+      action: "permission.*",
+      targetType: "role",
+      targetId: "admin",
+      groupBy: ["organization"],
+      threshold: 3,
+      windowMs: 60 * MINUTE,
+      severity: "critical",
+      alertAction: "security.suspicious_activity",
+    });
+    await expect(
+      t.mutation(api.detection.createRule, {
+        name: "Broken",
+        action: "user.*.failed",
+        groupBy: ["actor"],
+        threshold: 1,
+        windowMs: MINUTE,
+      }),
+    ).rejects.toThrow('"*" is only allowed at the end');
+
+    const grant = (organizationId: string, role: string, minute: number) =>
+      t.mutation(api.lib.log, {
+        action: "permission.granted",
+        actor: { type: "user", id: "admin_1" },
+        targets: [
+          { type: "user", id: `user_${minute}` },
+          { type: "role", id: role },
+        ],
+        organizationId,
+        occurredAt: minute * MINUTE,
+      });
+
+    await grant("org_1", "admin", 1);
+    await grant("org_1", "viewer", 2);
+    await grant("org_2", "admin", 3);
+    await grant("org_1", "admin", 4);
+    expect(
+      await t.query(api.lib.listByAction, {
+        action: "security.suspicious_activity",
+      }),
+    ).toEqual([]);
+
+    await grant("org_1", "admin", 5);
+    const alerts = await t.query(api.lib.listByAction, {
+      action: "security.suspicious_activity",
+    });
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].metadata).toMatchObject({
+      severity: "critical",
+      groupBy: "organization",
+      count: 3,
+    });
+
+    const rules = await t.query(api.detection.listRules, {
+      organizationId: "org_1",
+    });
+    expect(rules.map((rule) => rule.name)).toEqual(["Admin grants"]);
+    expect(
+      await t.mutation(api.detection.removeRule, { ruleId: rules[0]._id }),
+    ).toBe(true);
+    expect(
+      await t.query(api.detection.listRules, { organizationId: "org_1" }),
+    ).toEqual([]);
+  });
+
+  test("rules for every organization count each one separately", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.detection.createRule, {
+      name: "Brute force",
+      action: "user.sign_in_failed",
+      groupBy: ["actor", "ip"],
+      threshold: 3,
+      windowMs: 10 * MINUTE,
+    });
+    const failedSignIn = (organizationId: string, minute: number) =>
+      t.mutation(api.lib.log, {
+        action: "user.sign_in_failed",
+        actor: { type: "user", id: "user_1" },
+        targets: [],
+        context: { location: "10.0.0.1" },
+        organizationId,
+        result: "failure",
+        occurredAt: minute * MINUTE,
+      });
+
+    // The same actor and IP in two organizations never add up
+    await failedSignIn("org_1", 1);
+    await failedSignIn("org_2", 2);
+    await failedSignIn("org_1", 3);
+    await failedSignIn("org_2", 4);
+    expect(
+      await t.query(api.lib.listByAction, { action: "security.alert" }),
+    ).toEqual([]);
+
+    const { eventId } = await failedSignIn("org_2", 5);
+    const alerts = await t.query(api.lib.listByAction, {
+      action: "security.alert",
+    });
+    expect(alerts.map((alert) => alert.organizationId)).toEqual([
+      "org_2",
+      "org_2",
+    ]);
+    // Alerts only point at events of their own organization
+    const org2Events = await t.query(api.lib.listByAction, {
+      action: "user.sign_in_failed",
+      organizationId: "org_2",
+    });
+    for (const alert of alerts) {
+      expect(alert.metadata?.triggeringEventIds).toEqual(
+        org2Events.map((event) => event._id).reverse(),
+      );
+      expect(alert.metadata?.triggeringEventIds).toContain(eventId);
+    }
+  });
+});
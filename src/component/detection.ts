@@ -0,0 +1,486 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server.js";
+import type { MutationCtx } from "./_generated/server.js";
+import type { Doc, Id } from "./_generated/dataModel.js";
+import { internal } from "./_generated/api.js";
+import {
+  STANDARD_ACTIONS,
+  detectionGroupByValidator,
+  detectionRuleValidator,
+  severityValidator,
+} from "./schema.js";
+import type { Actor, AuditEvent, DetectionGroupBy, Target } from "./schema.js";
+import { matchesAction, validateActionPattern } from "./retention.js";
+import { writeEvent } from "./events.js";
+import { keyedHash } from "./hashing.js";
+
+// Recorded as the actor of alerts; its events are never evaluated
+export const DETECTION_ACTOR: Actor = { type: "system", id: "audit_detection" };
+
+const PRUNE_BATCH_SIZE = 500;
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+const detectionRuleDocValidator = detectionRuleValidator.extend({
+  _id: v.string(),
+  _creationTime: v.number(),
+});
+
+const resultValidator = v.union(
+  v.literal("success"),
+  v.literal("failure"),
+  v.literal("pending"),
+);
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function validateRule(fields: {
+  action?: string;
+  groupBy?: DetectionGroupBy[];
+  threshold?: number;
+  windowMs?: number;
+  cooldownMs?: number;
+}) {
+  validateActionPattern(fields.action);
+  if (fields.groupBy !== undefined && fields.groupBy.length === 0) {
+    throw new Error("groupBy must name at least one key");
+  }
+  if (
+    fields.threshold !== undefined &&
+    !(Number.isInteger(fields.threshold) && fields.threshold >= 1)
+  ) {
+    throw new Error("threshold must be a positive integer");
+  }
+  if (fields.windowMs !== undefined && !(fields.windowMs > 0)) {
+    throw new Error("windowMs must be positive");
+  }
+  if (fields.cooldownMs !== undefined && !(fields.cooldownMs >= 0)) {
+    throw new Error("cooldownMs must not be negative");
+  }
+}
+
+type EvaluatedEvent = Pick<
+  AuditEvent,
+  "action" | "actor" | "targets" | "context" | "organizationId" | "result"
+> & {
+  _id: Id<"auditEvents">;
+  occurredAt: number;
+};
+
+function matchesRule(rule: Doc<"detectionRules">, event: EvaluatedEvent) {
+  return (
+    rule.enabled &&
+    matchesAction(rule.action, event.action) &&
+    (rule.result === undefined || rule.result === event.result) &&
+    (rule.targetType === undefined ||
+      event.targets.some(
+        (target) =>
+          target.type === rule.targetType &&
+          (rule.targetId === undefined || target.id === rule.targetId),
+      ))
+  );
+}
+
+type GroupKey = {
+  // Key within the event's organization, such as "actor:user:user_1"
+  subjectKey: string;
+  // Entity the key stands for, targeted by alerts
+  subject?: Target;
+  // Context of alerts, encrypted like the context of any event
+  context?: AuditEvent["context"];
+};
+
+/**
+ * The keys an event is counted under, with the entity each one stands for
+ *
+ * IP addresses are keyed by a keyed hash, so they are only stored in the
+ * context of events and alerts. `evaluateKey` scopes each key to the event's
+ * organization.
+ */
+async function groupKeys(
+  ctx: MutationCtx,
+  rule: Doc<"detectionRules">,
+  event: EvaluatedEvent,
+) {
+  const keys: GroupKey[] = [];
+  for (const groupBy of rule.groupBy) {
+    switch (groupBy) {
+      case "actor":
+        keys.push({
+          subjectKey: `actor:${event.actor.type}:${event.actor.id}`,
+          subject: { type: event.actor.type, id: event.actor.id },
+        });
+        break;
+      case "ip":
+        if (event.context?.location) {
+          keys.push({
+            subjectKey: `ip:${await keyedHash(ctx, "ip", event.context.location)}`,
+            context: { location: event.context.location },
+          });
+        }
+        break;
+      case "target":
+        for (const target of event.targets) {
+          if (
+            rule.targetType === undefined ||
+            target.type === rule.targetType
+          ) {
+            keys.push({
+              subjectKey: `target:${target.type}:${target.id}`,
+              subject: { type: target.type, id: target.id },
+            });
+          }
+        }
+        break;
+      case "organization":
+        keys.push({ subjectKey: "organization" });
+        break;
+    }
+  }
+  return keys;
+}
+
+async function loadRules(ctx: MutationCtx, organizationId: string | undefined) {
+  const global = await ctx.db
+    .query("detectionRules")
+    .withIndex("by_organizationId", (q) => q.eq("organizationId", undefined))
+    .collect();
+  if (organizationId === undefined) {
+    return global;
+  }
+  const scoped = await ctx.db
+    .query("detectionRules")
+    .withIndex("by_organizationId", (q) =>
+      q.eq("organizationId", organizationId),
+    )
+    .collect();
+  return [...global, ...scoped];
+}
+
+/**
+ * Count an event in one rule's window and raise an alert if it is full
+ *
+ * Windows are kept per organization: a rule without an organization never
+ * counts one tenant's events towards another's alert.
+ */
+async function evaluateKey(
+  ctx: MutationCtx,
+  rule: Doc<"detectionRules">,
+  event: EvaluatedEvent,
+  { subjectKey, subject, context }: GroupKey,
+) {
+  // The organization is encoded so it can't run into the subject key
+  const key = `org:${encodeURIComponent(event.organizationId ?? "")}:${subjectKey}`;
+  await ctx.db.insert("detectionHits", {
+    ruleId: rule._id,
+    key,
+    subjectKey,
+    eventId: event._id,
+    occurredAt: event.occurredAt,
+  });
+
+  // Hits that slid out of the window are no longer needed
+  const windowStart = event.occurredAt - rule.windowMs;
+  const expired = await ctx.db
+    .query("detectionHits")
+    .withIndex("by_ruleId_and_key_and_occurredAt", (q) =>
+      q.eq("ruleId", rule._id).eq("key", key).lt("occurredAt", windowStart),
+    )
+    .take(PRUNE_BATCH_SIZE);
+  for (const hit of expired) {
+    await ctx.db.delete(hit._id);
+  }
+
+  const hits = await ctx.db
+    .query("detectionHits")
+    .withIndex("by_ruleId_and_key_and_occurredAt", (q) =>
+      q
+        .eq("ruleId", rule._id)
+        .eq("key", key)
+        .gte("occurredAt", windowStart)
+        .lte("occurredAt", event.occurredAt),
+    )
+    .order("desc")
+    .take(rule.threshold);
+  if (hits.length < rule.threshold) {
+    return;
+  }
+
+  const state = await ctx.db
+    .query("detectionState")
+    .withIndex("by_ruleId_and_key", (q) =>
+      q.eq("ruleId", rule._id).eq("key", key),
+    )
+    .unique();
+  if (state && event.occurredAt - state.lastAlertAt < rule.cooldownMs) {
+    await ctx.db.patch(state._id, { suppressed: state.suppressed + 1 });
+    return;
+  }
+
+  const triggeringEventIds = hits.map((hit) => hit.eventId).reverse();
+  const { eventId } = await writeEvent(ctx, {
+    action: rule.alertAction,
+    actor: DETECTION_ACTOR,
+    targets: [
+      { type: "audit_detection_rule", id: rule._id, name: rule.name },
+      ...(subject ? [subject] : []),
+      ...triggeringEventIds.map((id) => ({ type: "audit_event", id })),
+    ],
+    organizationId: event.organizationId,
+    occurredAt: event.occurredAt,
+    context,
+    metadata: {
+      ruleId: rule._id,
+      ruleName: rule.name,
+      severity: rule.severity,
+      groupBy: subjectKey.split(":")[0],
+      count: hits.length,
+      windowMs: rule.windowMs,
+      triggeringEventIds,
+      // Firings folded into the previous alert for this key
+      suppressedSinceLastAlert: state?.suppressed ?? 0,
+    },
+    tags: ["detection", rule.severity],
+  });
+
+  const alert = {
+    lastAlertEventId: eventId as Id<"auditEvents">,
+    lastAlertAt: event.occurredAt,
+    suppressed: 0,
+  };
+  if (state) {
+    await ctx.db.patch(state._id, alert);
+  } else {
+    await ctx.db.insert("detectionState", {
+      ruleId: rule._id,
+      key,
+      subjectKey,
+      ...alert,
+    });
+  }
+}
+
+/**
+ * Evaluate detection rules against a newly written event
+ *
+ * Called by `writeEvent` once the event is stored. Alerts are written in the
+ * same transaction, so they commit or roll back with the event.
+ */
+export async function evaluateDetectionRules(
+  ctx: MutationCtx,
+  event: EvaluatedEvent,
+) {
+  if (
+    event.actor.type === DETECTION_ACTOR.type &&
+    event.actor.id === DETECTION_ACTOR.id
+  ) {
+    return;
+  }
+  for (const rule of await loadRules(ctx, event.organizationId)) {
+    if (!matchesRule(rule, event)) {
+      continue;
+    }
+    for (const group of await groupKeys(ctx, rule, event)) {
+      await evaluateKey(ctx, rule, event, group);
+    }
+  }
+}
+
+/**
+ * Drop an entity's detection windows and alert state in every organization
+ *
+ * Group keys contain actor and target IDs, so erasing an actor removes them.
+ */
+export async function forgetDetectionKeys(
+  ctx: MutationCtx,
+  type: string,
+  id: string,
+) {
+  for (const subjectKey of [`actor:${type}:${id}`, `target:${type}:${id}`]) {
+    for await (const hit of ctx.db
+      .query("detectionHits")
+      .withIndex("by_subjectKey", (q) => q.eq("subjectKey", subjectKey))) {
+      await ctx.db.delete(hit._id);
+    }
+    for await (const state of ctx.db
+      .query("detectionState")
+      .withIndex("by_subjectKey", (q) => q.eq("subjectKey", subjectKey))) {
+      await ctx.db.delete(state._id);
+    }
+  }
+}
+
+// =============================================================================
+// Rules
+// =============================================================================
+
+/**
+ * Create a threshold detection rule
+ *
+ * For "more than 5 failed sign-ins for the same actor or IP within 10
+ * minutes", use `action: "user.sign_in_failed"`, `groupBy: ["actor", "ip"]`,
+ * `threshold: 6` and `windowMs: 10 * 60 * 1000`. Alerts are logged as
+ * `security.alert` unless `alertAction` says otherwise. `cooldownMs`
+ * defaults to the window.
+ */
+export const createRule = mutation({
+  args: {
+    organizationId: v.optional(v.string()),
+    name: v.string(),
+    action: v.string(),
+    result: v.optional(resultValidator),
+    targetType: v.optional(v.string()),
+    targetId: v.optional(v.string()),
+    groupBy: v.array(detectionGroupByValidator),
+    threshold: v.number(),
+    windowMs: v.number(),
+    cooldownMs: v.optional(v.number()),
+    severity: v.optional(severityValidator),
+    alertAction: v.optional(v.string()),
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    validateRule(args);
+    const now = Date.now();
+    return await ctx.db.insert("detectionRules", {
+      ...args,
+      cooldownMs: args.cooldownMs ?? args.windowMs,
+      severity: args.severity ?? "high",
+      alertAction: args.alertAction ?? STANDARD_ACTIONS.SECURITY_ALERT,
+      enabled: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Update a detection rule
+ *
+ * Omitted fields are left unchanged. Events already counted stay in the
+ * rule's windows.
+ */
+export const updateRule = mutation({
+  args: {
+    ruleId: v.string(),
+    name: v.optional(v.string()),
+    action: v.optional(v.string()),
+    result: v.optional(resultValidator),
+    targetType: v.optional(v.string()),
+    targetId: v.optional(v.string()),
+    groupBy: v.optional(v.array(detectionGroupByValidator)),
+    threshold: v.optional(v.number()),
+    windowMs: v.optional(v.number()),
+    cooldownMs: v.optional(v.number()),
+    severity: v.optional(severityValidator),
+    alertAction: v.optional(v.string()),
+    enabled: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { ruleId, ...fields } = args;
+    const id = ctx.db.normalizeId("detectionRules", ruleId);
+    if (!id || !(await ctx.db.get(id))) {
+      throw new Error(`Detection rule not found: ${ruleId}`);
+    }
+    validateRule(fields);
+    await ctx.db.patch(id, { ...fields, updatedAt: Date.now() });
+    return null;
+  },
+});
+
+/**
+ * Remove a detection rule along with its windows
+ *
+ * Alerts it raised stay in the log.
+ */
+export const removeRule = mutation({
+  args: {
+    ruleId: v.string(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const id = ctx.db.normalizeId("detectionRules", args.ruleId);
+    if (!id || !(await ctx.db.get(id))) {
+      return false;
+    }
+    await ctx.db.delete(id);
+    for await (const hit of ctx.db
+      .query("detectionHits")
+      .withIndex("by_ruleId_and_key_and_occurredAt", (q) =>
+        q.eq("ruleId", id),
+      )) {
+      await ctx.db.delete(hit._id);
+    }
+    for await (const state of ctx.db
+      .query("detectionState")
+      .withIndex("by_ruleId_and_key", (q) => q.eq("ruleId", id))) {
+      await ctx.db.delete(state._id);
+    }
+    return true;
+  },
+});
+
+/**
+ * List detection rules
+ *
+ * With an `organizationId`, returns that organization's rules and the rules
+ * that apply to every organization.
+ */
+export const listRules = query({
+  args: {
+    organizationId: v.optional(v.string()),
+  },
+  returns: v.array(detectionRuleDocValidator),
+  handler: async (ctx, args) => {
+    const global = await ctx.db
+      .query("detectionRules")
+      .withIndex("by_organizationId", (q) => q.eq("organizationId", undefined))
+      .collect();
+    if (args.organizationId === undefined) {
+      return global;
+    }
+    const scoped = await ctx.db
+      .query("detectionRules")
+      .withIndex("by_organizationId", (q) =>
+        q.eq("organizationId", args.organizationId),
+      )
+      .collect();
+    return [...global, ...scoped];
+  },
+});
+
+// =============================================================================
+// Maintenance
+// =============================================================================
+
+/**
+ * Internal function to delete hits older than every rule's window
+ *
+ * Windows are pruned as events arrive; this catches keys that went quiet.
+ */
+export const pruneHits = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const rules = await ctx.db.query("detectionRules").collect();
+    const longestWindow = Math.max(0, ...rules.map((rule) => rule.windowMs));
+    const hits = await ctx.db
+      .query("detectionHits")
+      .withIndex("by_occurredAt", (q) =>
+        q.lt("occurredAt", Date.now() - longestWindow),
+      )
+      .take(PRUNE_BATCH_SIZE);
+    for (const hit of hits) {
+      await ctx.db.delete(hit._id);
+    }
+    if (hits.length === PRUNE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.detection.pruneHits, {});
+    }
+    return null;
+  },
+});
@@ -0,0 +1,253 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe, vi } from "vitest";
+import {
+  createFunctionHandle,
+  makeFunctionReference,
+  queryGeneric,
+} from "convex/server";
+import { api, internal } from "./_generated/api.js";
+import schema from "./schema.js";
+import type { Id } from "./_generated/dataModel.js";
+
+const KEY_1 = btoa(String.fromCharCode(...new Array(32).fill(1)));
+const KEY_2 = btoa(String.fromCharCode(...new Array(32).fill(2)));
+
+// Keys returned by the app's key provider, as if read from the environment
+let providedKeys: Array<{ keyId: string; key: string }> = [];
+
+const modules = {
+  ...import.meta.glob("./**/*.ts"),
+  "./testKeys.ts": async () => ({
+    provide: queryGeneric({ args: {}, handler: async () => providedKeys }),
+  }),
+};
+
+async function keyProvider(t: ReturnType<typeof convexTest>) {
+  return await t.run(async () =>
+    createFunctionHandle(makeFunctionReference<"query">("testKeys:provide")),
+  );
+}
+
+function signIn(i: number) {
+  return {
+    action: "user.signed_in",
+    actor: {
+      type: "user" as const,
+      id: `user_${i}`,
+      metadata: { plan: "pro" },
+    },
+    targets: [{ type: "user", id: `user_${i}` }],
+    context: { location: "203.0.113.42", sessionId: `sess_${i}` },
+    metadata: { method: "password", attempts: BigInt(i) },
+    organizationId: "org_1",
+    occurredAt: i * 1000,
+  };
+}
+
+describe("Encryption", () => {
+  test("stores configured fields encrypted and decrypts on request", async () => {
+    const t = convexTest(schema, modules);
+    providedKeys = [{ keyId: "k1", key: KEY_1 }];
+
+    await t.mutation(api.encryption.configure, {
+      keyId: "k1",
+      keyProvider: await keyProvider(t),
+    });
+    const { eventId } = await t.mutation(api.lib.log, signIn(1));
+
+    const stored = (await t.run(async (ctx) => {
+      return await ctx.db.get(eventId as Id<"auditEvents">);
+    }))!;
+    expect(stored.metadata).toBeUndefined();
+    expect(stored.context).toBeUndefined();
+    expect(stored.actor).toEqual({ type: "user", id: "user_1" });
+    expect(stored.encryption).toEqual({
+      keyId: "k1",
+      dataKey: expect.any(String),
+      ciphertext: expect.any(String),
+      fields: ["metadata", "actor.metadata", "context"],
+    });
+    expect(stored.encryption?.ciphertext).not.toContain("password");
+
+    // Without `decrypt`, events are returned as stored
+    const raw = await t.query(api.lib.get, { eventId });
+    expect(raw?.metadata).toBeUndefined();
+    expect(raw?.encryption?.keyId).toBe("k1");
+
+    const event = await t.query(api.lib.get, { eventId, decrypt: true });
+    expect(event?.metadata).toEqual({ method: "password", attempts: 1n });
+    expect(event?.actor.metadata).toEqual({ plan: "pro" });
+    expect(event?.context?.sessionId).toBe("sess_1");
+    expect(event?.encryption).toBeUndefined();
+
+    const page = await t.query(api.lib.list, {
+      organizationId: "org_1",
+      decrypt: true,
+    });
+    expect(page.events[0].metadata?.method).toBe("password");
+
+    // Queries over unencrypted fields keep working
+    const found = await t.query(api.lib.search, {
+      searchQuery: "user.signed_in",
+      decrypt: true,
+    });
+    expect(found.events.map((e) => e.context?.sessionId)).toEqual(["sess_1"]);
+    const stats = await t.query(api.lib.getStats, {
+      organizationId: "org_1",
+      startTime: 0,
+    });
+    expect(stats.eventsByAction).toEqual({ "user.signed_in": 1 });
+
+    // Updates are re-encrypted
+    await t.mutation(internal.lib.updateEvent, {
+      eventId: eventId as Id<"auditEvents">,
+      metadata: { reviewed: true },
+    });
+    const updated = await t.query(api.lib.get, { eventId, decrypt: true });
+    expect(updated?.metadata).toEqual({
+      method: "password",
+      attempts: 1n,
+      reviewed: true,
+    });
+    const verified = await t.query(api.chain.verifyChain, {
+      organizationId: "org_1",
+    });
+    expect(verified.valid).toBe(true);
+  });
+
+  test("rotating keys rewraps older events in the background", async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, modules);
+    providedKeys = [{ keyId: "k1", key: KEY_1 }];
+
+    await t.mutation(api.encryption.configure, {
+      keyId: "k1",
+      keyProvider: await keyProvider(t),
+      fields: ["metadata"],
+    });
+    for (let i = 1; i <= 5; i++) {
+      await t.mutation(api.lib.log, signIn(i));
+    }
+
+    // The provider serves both keys while older events are rewrapped
+    providedKeys = [...providedKeys, { keyId: "k2", key: KEY_2 }];
+    const started = await t.mutation(api.encryption.configure, {
+      keyId: "k2",
+      keyProvider: await keyProvider(t),
+      batchSize: 2,
+    });
+    expect(started.activeKeyId).toBe("k2");
+    expect(started.fields).toEqual(["metadata"]);
+    expect(started.rotationComplete).toBe(false);
+    expect(started.rewrapped).toBe(2);
+
+    await expect(
+      t.mutation(api.encryption.removeKey, { keyId: "k1" }),
+    ).rejects.toThrow("still wraps events");
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const status = await t.query(api.encryption.getStatus, {});
+    expect(status.rotationComplete).toBe(true);
+    expect(status.rewrapped).toBe(5);
+
+    const page = await t.query(api.lib.list, {
+      organizationId: "org_1",
+      decrypt: true,
+    });
+    expect(page.events).toHaveLength(5);
+    for (const event of page.events) {
+      expect(event.metadata?.method).toBe("password");
+      // Fields that were not configured are stored in plaintext
+      expect(event.context?.location).toBe("203.0.113.42");
+    }
+    const stored = await t.query(api.lib.list, { organizationId: "org_1" });
+    expect(stored.events.every((e) => e.encryption?.keyId === "k2")).toBe(true);
+
+    // Rewrapping is recorded so the chain still verifies
+    const verified = await t.query(api.chain.verifyChain, {
+      organizationId: "org_1",
+    });
+    expect(verified.valid).toBe(true);
+
+    expect(await t.mutation(api.encryption.removeKey, { keyId: "k1" })).toBe(
+      true,
+    );
+    await expect(
+      t.mutation(api.encryption.removeKey, { keyId: "k2" }),
+    ).rejects.toThrow("is the active key");
+
+    // Events stay readable after encryption is turned off
+    await t.mutation(api.encryption.disable, {});
+    const { eventId } = await t.mutation(api.lib.log, signIn(6));
+    expect((await t.query(api.lib.get, { eventId }))?.metadata?.method).toBe(
+      "password",
+    );
+    const older = await t.query(api.lib.list, {
+      organizationId: "org_1",
+      decrypt: true,
+    });
+    expect(older.events.every((e) => e.metadata?.method === "password")).toBe(
+      true,
+    );
+
+    vi.useRealTimers();
+  });
+
+  test("configure rejects invalid or conflicting keys", async () => {
+    const t = convexTest(schema, modules);
+    const provider = await keyProvider(t);
+
+    providedKeys = [{ keyId: "k1", key: "short" }];
+    await expect(
+      t.mutation(api.encryption.configure, {
+        keyId: "k1",
+        keyProvider: provider,
+      }),
+    ).rejects.toThrow("must be 256-bit AES keys");
+    await expect(
+      t.mutation(api.encryption.configure, {
+        keyId: "k2",
+        keyProvider: provider,
+      }),
+    ).rejects.toThrow('did not return encryption key "k2"');
+
+    providedKeys = [{ keyId: "k1", key: KEY_1 }];
+    await t.mutation(api.encryption.configure, {
+      keyId: "k1",
+      keyProvider: provider,
+    });
+    const { eventId } = await t.mutation(api.lib.log, signIn(1));
+
+    // Key material is never stored, only its fingerprint
+    const stored = await t.run(async (ctx) => ({
+      keys: await ctx.db.query("encryptionKeys").collect(),
+      config: await ctx.db.query("encryptionConfig").collect(),
+    }));
+    expect(JSON.stringify(stored)).not.toContain(KEY_1);
+    expect(stored.keys).toEqual([
+      expect.objectContaining({ keyId: "k1", fingerprint: expect.any(String) }),
+    ]);
+
+    // A provider serving other key material under the same ID is caught
+    providedKeys = [{ keyId: "k1", key: KEY_2 }];
+    await expect(
+      t.mutation(api.encryption.configure, {
+        keyId: "k1",
+        keyProvider: provider,
+      }),
+    ).rejects.toThrow("already exists with different key material");
+    await expect(
+      t.query(api.lib.get, { eventId, decrypt: true }),
+    ).rejects.toThrow('wrong key material for encryption key "k1"');
+    providedKeys = [];
+    await expect(
+      t.query(api.lib.get, { eventId, decrypt: true }),
+    ).rejects.toThrow('did not return encryption key "k1"');
+
+    const status = await t.query(api.encryption.getStatus, {});
+    expect(status.keys).toEqual([
+      { keyId: "k1", createdAt: expect.any(Number), active: true },
+    ]);
+  });
+});
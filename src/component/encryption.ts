@@ -0,0 +1,541 @@
+import { v, convexToJson, jsonToConvex, type Value } from "convex/values";
+import type { FunctionHandle } from "convex/server";
+import { internalMutation, mutation, query } from "./_generated/server.js";
+import type { MutationCtx, QueryCtx } from "./_generated/server.js";
+import { internal } from "./_generated/api.js";
+import { encryptableFieldValidator } from "./schema.js";
+import type { AuditEvent, EncryptableField } from "./schema.js";
+import { recordUpdateCheckpoint } from "./chain.js";
+
+const DEFAULT_FIELDS: EncryptableField[] = [
+  "metadata",
+  "actor.metadata",
+  "context",
+];
+
+// The parts of an event this module reads and rewrites
+type EncryptableEvent = Pick<
+  AuditEvent,
+  "actor" | "context" | "metadata" | "encryption"
+>;
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+const encryptionStatusValidator = v.object({
+  enabled: v.boolean(),
+  activeKeyId: v.union(v.null(), v.string()),
+  fields: v.array(encryptableFieldValidator),
+  keys: v.array(
+    v.object({
+      keyId: v.string(),
+      createdAt: v.number(),
+      active: v.boolean(),
+    }),
+  ),
+  rotationComplete: v.boolean(),
+  rewrapped: v.number(),
+});
+
+// =============================================================================
+// Keys
+// =============================================================================
+
+function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Reject key material that is not a base64 encoded 256-bit key
+ */
+function validateKey(key: string) {
+  let length = 0;
+  try {
+    length = fromBase64(key).length;
+  } catch {
+    // Reported below
+  }
+  if (length !== 32) {
+    throw new Error("Encryption keys must be 256-bit AES keys, base64 encoded");
+  }
+}
+
+/**
+ * Identify key material without revealing it
+ */
+async function fingerprint(key: string) {
+  return toBase64(
+    new Uint8Array(await crypto.subtle.digest("SHA-256", fromBase64(key))),
+  );
+}
+
+async function importKey(bytes: Uint8Array<ArrayBuffer>) {
+  return await crypto.subtle.importKey("raw", bytes, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+async function findKey(ctx: QueryCtx, keyId: string) {
+  return await ctx.db
+    .query("encryptionKeys")
+    .withIndex("by_keyId", (q) => q.eq("keyId", keyId))
+    .unique();
+}
+
+/**
+ * Key encryption keys imported during one function call, by key ID
+ */
+type KeyCache = Map<string, CryptoKey>;
+
+/**
+ * Ask the app's key provider for the key encryption keys
+ *
+ * The provider is a query in the app, usually reading the keys from
+ * environment variables, so key material is never stored in the component.
+ */
+async function provideKeys(ctx: QueryCtx, keyProvider: string) {
+  const keys = await ctx.runQuery(
+    keyProvider as FunctionHandle<
+      "query",
+      Record<string, never>,
+      Array<{ keyId: string; key: string }>
+    >,
+    {},
+  );
+  return new Map(keys.map(({ keyId, key }) => [keyId, key]));
+}
+
+async function loadKey(ctx: QueryCtx, keyId: string, cache: KeyCache) {
+  const cached = cache.get(keyId);
+  if (cached) {
+    return cached;
+  }
+  const row = await findKey(ctx, keyId);
+  const config = await getConfig(ctx);
+  if (!row || !config) {
+    throw new Error(`Encryption key "${keyId}" is not configured`);
+  }
+  const key = (await provideKeys(ctx, config.keyProvider)).get(keyId);
+  if (key === undefined) {
+    throw new Error(
+      `The key provider did not return encryption key "${keyId}"`,
+    );
+  }
+  validateKey(key);
+  if ((await fingerprint(key)) !== row.fingerprint) {
+    throw new Error(
+      `The key provider returned the wrong key material for encryption key "${keyId}"`,
+    );
+  }
+  const imported = await importKey(fromBase64(key));
+  cache.set(keyId, imported);
+  return imported;
+}
+
+/**
+ * AES-GCM encrypt with a random IV, returned as base64 of IV + ciphertext
+ */
+async function seal(key: CryptoKey, plaintext: Uint8Array<ArrayBuffer>) {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext),
+  );
+  const sealed = new Uint8Array(iv.length + ciphertext.length);
+  sealed.set(iv);
+  sealed.set(ciphertext, iv.length);
+  return toBase64(sealed);
+}
+
+/**
+ * Reverse `seal`
+ */
+async function unseal(key: CryptoKey, sealed: string) {
+  const bytes = fromBase64(sealed);
+  return new Uint8Array(
+    await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: bytes.slice(0, 12) },
+      key,
+      bytes.slice(12),
+    ),
+  );
+}
+
+async function getConfig(ctx: QueryCtx) {
+  return await ctx.db.query("encryptionConfig").first();
+}
+
+// =============================================================================
+// Encrypting and Decrypting Events
+// =============================================================================
+
+function readField(event: EncryptableEvent, field: EncryptableField) {
+  return field === "actor.metadata" ? event.actor.metadata : event[field];
+}
+
+/**
+ * Move the configured fields of an event into an encrypted envelope
+ *
+ * Each event gets its own data key, which is wrapped with the active key
+ * encryption key. Returns the event unchanged when encryption is not
+ * configured or none of the fields are set.
+ */
+export async function encryptEvent<Event extends EncryptableEvent>(
+  ctx: QueryCtx,
+  event: Event,
+): Promise<Event> {
+  const config = await getConfig(ctx);
+  if (!config?.enabled) {
+    return event;
+  }
+  const fields = config.fields.filter(
+    (field) => readField(event, field) !== undefined,
+  );
+  if (fields.length === 0) {
+    return event;
+  }
+
+  const values: Record<string, Value> = {};
+  for (const field of fields) {
+    values[field] = readField(event, field) as Value;
+  }
+
+  const keyEncryptionKey = await loadKey(ctx, config.activeKeyId, new Map());
+  const dataKey = crypto.getRandomValues(new Uint8Array(32));
+  const ciphertext = await seal(
+    await importKey(dataKey),
+    new TextEncoder().encode(JSON.stringify(convexToJson(values))),
+  );
+
+  const encrypted: any = { ...event, actor: { ...event.actor } };
+  for (const field of fields) {
+    if (field === "actor.metadata") {
+      delete encrypted.actor.metadata;
+    } else {
+      delete encrypted[field];
+    }
+  }
+  encrypted.encryption = {
+    keyId: config.activeKeyId,
+    dataKey: await seal(keyEncryptionKey, dataKey),
+    ciphertext,
+    fields,
+  };
+  return encrypted;
+}
+
+/**
+ * Restore the encrypted fields of an event
+ *
+ * The envelope is dropped, so a decrypted event looks as if it had been
+ * stored in plaintext. Events without an envelope are returned as they are.
+ */
+export async function decryptEvent<Event extends EncryptableEvent>(
+  ctx: QueryCtx,
+  event: Event,
+  cache: KeyCache = new Map(),
+): Promise<Event> {
+  if (!event.encryption) {
+    return event;
+  }
+  const { encryption, ...rest } = event;
+
+  const keyEncryptionKey = await loadKey(ctx, encryption.keyId, cache);
+  const dataKey = await unseal(keyEncryptionKey, encryption.dataKey);
+  const plaintext = await unseal(
+    await importKey(dataKey),
+    encryption.ciphertext,
+  );
+  const values = jsonToConvex(
+    JSON.parse(new TextDecoder().decode(plaintext)),
+  ) as Record<string, any>;
+
+  const decrypted: any = { ...rest, actor: { ...rest.actor } };
+  for (const field of encryption.fields) {
+    if (field === "actor.metadata") {
+      decrypted.actor.metadata = values[field];
+    } else {
+      decrypted[field] = values[field];
+    }
+  }
+  return decrypted;
+}
+
+/**
+ * Decrypt a list of events, importing each key only once
+ */
+export async function decryptEvents<Event extends EncryptableEvent>(
+  ctx: QueryCtx,
+  events: Event[],
+): Promise<Event[]> {
+  const cache: KeyCache = new Map();
+  const decrypted: Event[] = [];
+  for (const event of events) {
+    decrypted.push(await decryptEvent(ctx, event, cache));
+  }
+  return decrypted;
+}
+
+// =============================================================================
+// Key Rotation
+// =============================================================================
+
+/**
+ * Rewrap the data keys of up to `batchSize` events still wrapped with an
+ * older key, scheduling the next batch until none are left
+ *
+ * Only the wrapped data keys change; the encrypted fields are untouched.
+ * Each rewrapped event gets an update checkpoint so the hash chain still
+ * verifies.
+ */
+async function rewrapEvents(ctx: MutationCtx, batchSize: number) {
+  const config = await getConfig(ctx);
+  if (!config || config.rotationComplete) {
+    return;
+  }
+
+  const cache: KeyCache = new Map();
+  const activeKey = await loadKey(ctx, config.activeKeyId, cache);
+  let remaining = batchSize;
+
+  for (const key of await ctx.db.query("encryptionKeys").collect()) {
+    if (key.keyId === config.activeKeyId) {
+      continue;
+    }
+    const events = await ctx.db
+      .query("auditEvents")
+      .withIndex("by_encryption_keyId", (q) =>
+        q.eq("encryption.keyId", key.keyId),
+      )
+      .take(remaining);
+
+    for (const event of events) {
+      const encryption = event.encryption!;
+      const dataKey = await unseal(
+        await loadKey(ctx, key.keyId, cache),
+        encryption.dataKey,
+      );
+      await ctx.db.patch(event._id, {
+        encryption: {
+          ...encryption,
+          keyId: config.activeKeyId,
+          dataKey: await seal(activeKey, dataKey),
+        },
+      });
+      const updated = await ctx.db.get(event._id);
+      if (updated) {
+        await recordUpdateCheckpoint(ctx, updated);
+      }
+    }
+
+    remaining -= events.length;
+    if (remaining === 0) {
+      break;
+    }
+  }
+
+  const done = remaining > 0;
+  await ctx.db.patch(config._id, {
+    rewrapped: config.rewrapped + batchSize - remaining,
+    rotationComplete: done,
+  });
+
+  if (!done) {
+    await ctx.scheduler.runAfter(0, internal.encryption.rewrapBatch, {
+      batchSize,
+    });
+  }
+}
+
+/**
+ * Internal function to rewrap one batch of events for a key rotation
+ */
+export const rewrapBatch = internalMutation({
+  args: {
+    batchSize: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await rewrapEvents(ctx, args.batchSize);
+    return null;
+  },
+});
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+async function loadStatus(ctx: QueryCtx) {
+  const config = await getConfig(ctx);
+  const keys = await ctx.db.query("encryptionKeys").collect();
+  return {
+    enabled: config?.enabled ?? false,
+    activeKeyId: config?.enabled ? config.activeKeyId : null,
+    fields: config?.enabled ? config.fields : [],
+    keys: keys.map((key) => ({
+      keyId: key.keyId,
+      createdAt: key.createdAt,
+      active: config?.enabled === true && key.keyId === config.activeKeyId,
+    })),
+    rotationComplete: config?.rotationComplete ?? true,
+    rewrapped: config?.rewrapped ?? 0,
+  };
+}
+
+/**
+ * Encrypt new events with a key encryption key
+ *
+ * `keyProvider` is a function handle to a query in the app that returns the
+ * key encryption keys (`{ keyId, key }`, each key a base64 encoded 256-bit
+ * AES key), typically read from environment variables. The component only
+ * stores each key's fingerprint, and rejects a provider whose key material
+ * differs from what was configured before.
+ *
+ * Configuring a new `keyId` makes it the active key and starts rotating
+ * older events to it: the first batch runs now and the rest in the
+ * background. The provider must keep returning the older keys until the
+ * rotation is complete. Events written before encryption was configured
+ * stay in plaintext.
+ */
+export const configure = mutation({
+  args: {
+    keyId: v.string(),
+    keyProvider: v.string(),
+    fields: v.optional(v.array(encryptableFieldValidator)), // Default: all
+    batchSize: v.optional(v.number()),
+  },
+  returns: encryptionStatusValidator,
+  handler: async (ctx, args) => {
+    const keys = await provideKeys(ctx, args.keyProvider);
+    if (!keys.has(args.keyId)) {
+      throw new Error(
+        `The key provider did not return encryption key "${args.keyId}"`,
+      );
+    }
+
+    // Every key the provider knows must match the one registered under its ID
+    for (const [keyId, key] of keys) {
+      validateKey(key);
+      const existingKey = await findKey(ctx, keyId);
+      const keyFingerprint = await fingerprint(key);
+      if (existingKey && existingKey.fingerprint !== keyFingerprint) {
+        throw new Error(
+          `Encryption key "${keyId}" already exists with different key material`,
+        );
+      }
+      if (!existingKey && keyId === args.keyId) {
+        await ctx.db.insert("encryptionKeys", {
+          keyId,
+          fingerprint: keyFingerprint,
+          createdAt: Date.now(),
+        });
+      }
+    }
+
+    const config = await getConfig(ctx);
+    const fields =
+      args.fields ?? (config?.enabled ? config.fields : DEFAULT_FIELDS);
+    if (config) {
+      const rotating = config.activeKeyId !== args.keyId;
+      await ctx.db.patch(config._id, {
+        enabled: true,
+        keyProvider: args.keyProvider,
+        activeKeyId: args.keyId,
+        fields,
+        updatedAt: Date.now(),
+        ...(rotating ? { rotationComplete: false, rewrapped: 0 } : {}),
+      });
+    } else {
+      // Keys left over from an earlier configuration may still wrap events
+      await ctx.db.insert("encryptionConfig", {
+        enabled: true,
+        keyProvider: args.keyProvider,
+        activeKeyId: args.keyId,
+        fields,
+        rotationComplete: false,
+        rewrapped: 0,
+        updatedAt: Date.now(),
+      });
+    }
+
+    await rewrapEvents(ctx, args.batchSize ?? 100);
+    return await loadStatus(ctx);
+  },
+});
+
+/**
+ * Stop encrypting new events
+ *
+ * The key provider is kept so events that are already encrypted can still
+ * be read.
+ */
+export const disable = mutation({
+  args: {},
+  returns: v.boolean(),
+  handler: async (ctx) => {
+    const config = await getConfig(ctx);
+    if (!config?.enabled) {
+      return false;
+    }
+    await ctx.db.patch(config._id, { enabled: false, updatedAt: Date.now() });
+    return true;
+  },
+});
+
+/**
+ * Delete a key encryption key that no longer wraps any event
+ *
+ * The active key cannot be removed, and neither can a key whose events
+ * have not been rotated yet.
+ */
+export const removeKey = mutation({
+  args: {
+    keyId: v.string(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const key = await findKey(ctx, args.keyId);
+    if (!key) {
+      return false;
+    }
+
+    const config = await getConfig(ctx);
+    if (config?.enabled && config.activeKeyId === args.keyId) {
+      throw new Error(`Encryption key "${args.keyId}" is the active key`);
+    }
+    const wrapped = await ctx.db
+      .query("auditEvents")
+      .withIndex("by_encryption_keyId", (q) =>
+        q.eq("encryption.keyId", args.keyId),
+      )
+      .first();
+    if (wrapped) {
+      throw new Error(
+        `Encryption key "${args.keyId}" still wraps events; wait for key rotation to complete`,
+      );
+    }
+
+    await ctx.db.delete(key._id);
+    return true;
+  },
+});
+
+/**
+ * Get the encryption settings and key rotation progress
+ */
+export const getStatus = query({
+  args: {},
+  returns: encryptionStatusValidator,
+  handler: async (ctx) => {
+    return await loadStatus(ctx);
+  },
+});
@@ -0,0 +1,246 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import schema from "./schema.js";
+
+const modules = import.meta.glob("./**/*.ts");
+
+const ada = {
+  type: "user" as const,
+  id: "user_1",
+  name: "Ada Lovelace",
+  email: "ada@example.com",
+};
+const admin = { type: "user" as const, id: "admin_1", name: "Admin" };
+
+describe("Erasure", () => {
+  test("forgetActor pseudonymizes the actor everywhere", async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, modules);
+
+    for (let i = 1; i <= 3; i++) {
+      await t.mutation(api.lib.log, {
+        action: "document.viewed",
+        actor: ada,
+        targets: [{ type: "document", id: `doc_${i}` }],
+        organizationId: i === 3 ? "org_2" : "org_1",
+        occurredAt: i * 1000,
+      });
+    }
+    await t.mutation(api.lib.log, {
+      action: "user.role_changed",
+      actor: admin,
+      targets: [
+        { type: "user", id: "user_1", name: "Ada Lovelace" },
+        { type: "team", id: "team_1" },
+      ],
+      organizationId: "org_1",
+      occurredAt: 4000,
+    });
+    // Held events are left as they are
+    await t.mutation(api.lib.log, {
+      action: "document.viewed",
+      actor: ada,
+      targets: [{ type: "document", id: "doc_held" }],
+      organizationId: "org_1",
+      occurredAt: 5000,
+    });
+    await t.mutation(api.legalHolds.createHold, {
+      scope: { type: "target", targetType: "document", targetId: "doc_held" },
+      reason: "Litigation",
+      createdBy: admin,
+    });
+
+    const { erasureId, pseudonym } = await t.mutation(api.erasure.forgetActor, {
+      actorType: "user",
+      actorId: "user_1",
+      requestedBy: admin,
+      reason: "GDPR request #42",
+      batchSize: 2,
+    });
+    expect(pseudonym).toMatch(/^pseu_[0-9a-f]{24}$/);
+
+    // Starting again while it runs returns the same job
+    const again = await t.mutation(api.erasure.forgetActor, {
+      actorType: "user",
+      actorId: "user_1",
+    });
+    expect(again.erasureId).toBe(erasureId);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const job = await t.query(api.erasure.getErasure, { erasureId });
+    expect(job).toMatchObject({
+      status: "completed",
+      eventsRewritten: 4,
+      skippedHeld: 1,
+      pseudonym,
+    });
+    expect(job?.actorId).toBeUndefined();
+
+    // The pseudonymized events still group under one actor
+    const byActor = await t.query(api.lib.listByActor, {
+      actorType: "user",
+      actorId: pseudonym,
+    });
+    expect(byActor.map((e) => e.occurredAt)).toEqual([3000, 2000, 1000]);
+    expect(byActor[0].actor).toEqual({ type: "user", id: pseudonym });
+
+    const remaining = await t.query(api.lib.listByActor, {
+      actorType: "user",
+      actorId: "user_1",
+    });
+    expect(remaining.map((e) => e.targets[0].id)).toEqual(["doc_held"]);
+
+    // The name is gone from the search text of rewritten events
+    const found = await t.query(api.lib.search, { searchQuery: "lovelace" });
+    expect(found.events.map((e) => e.targets[0].id)).toEqual(["doc_held"]);
+
+    const targeted = await t.query(api.lib.listByTarget, {
+      targetType: "user",
+      targetId: pseudonym,
+    });
+    const roleChange = targeted.events.find(
+      (e) => e.action === "user.role_changed",
+    );
+    expect(roleChange?.actor.id).toBe("admin_1");
+    expect(roleChange?.targets).toEqual([
+      { type: "user", id: pseudonym },
+      { type: "team", id: "team_1" },
+    ]);
+
+    // A single certificate records the erasure
+    const certificates = await t.query(api.lib.listByAction, {
+      action: "actor.forgotten",
+    });
+    expect(certificates).toHaveLength(1);
+    expect(certificates[0]._id).toBe(job?.certificateEventId);
+    expect(certificates[0].actor).toEqual(admin);
+    expect(certificates[0].metadata).toMatchObject({
+      erasureId,
+      reason: "GDPR request #42",
+      eventsRewritten: 4,
+      skippedHeld: 1,
+    });
+    expect(JSON.stringify(certificates[0])).not.toContain("user_1");
+
+    for (const organizationId of ["org_1", "org_2"]) {
+      const verified = await t.query(api.chain.verifyChain, {
+        organizationId,
+      });
+      expect(verified.valid).toBe(true);
+    }
+
+    vi.useRealTimers();
+  });
+
+  test("forgetting an actor again reuses their pseudonym", async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, modules);
+
+    for (const targetId of ["doc_1", "doc_held"]) {
+      await t.mutation(api.lib.log, {
+        action: "document.viewed",
+        actor: ada,
+        targets: [{ type: "document", id: targetId }],
+      });
+    }
+    const { holdId } = await t.mutation(api.legalHolds.createHold, {
+      scope: { type: "target", targetType: "document", targetId: "doc_held" },
+      reason: "Litigation",
+      createdBy: admin,
+    });
+
+    const first = await t.mutation(api.erasure.forgetActor, {
+      actorType: "user",
+      actorId: "user_1",
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    await t.mutation(api.legalHolds.releaseHold, {
+      holdId,
+      releasedBy: admin,
+    });
+    const second = await t.mutation(api.erasure.forgetActor, {
+      actorType: "user",
+      actorId: "user_1",
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(second.erasureId).not.toBe(first.erasureId);
+    expect(second.pseudonym).toBe(first.pseudonym);
+
+    // Both erasures' events group under the same actor
+    const byActor = await t.query(api.lib.listByActor, {
+      actorType: "user",
+      actorId: first.pseudonym,
+    });
+    expect(byActor.map((e) => e.targets[0].id).sort()).toEqual([
+      "doc_1",
+      "doc_held",
+    ]);
+
+    // Other actors get other pseudonyms
+    const other = await t.mutation(api.erasure.forgetActor, {
+      actorType: "user",
+      actorId: "user_2",
+    });
+    expect(other.pseudonym).not.toBe(first.pseudonym);
+
+    vi.useRealTimers();
+  });
+
+  test("self-service erasures record the requester by pseudonym", async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.lib.log, {
+      action: "user.signed_in",
+      actor: ada,
+      targets: [],
+    });
+    const { erasureId, pseudonym } = await t.mutation(api.erasure.forgetActor, {
+      actorType: "user",
+      actorId: "user_1",
+      requestedBy: ada,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const job = await t.query(api.erasure.getErasure, { erasureId });
+    expect(job?.requestedBy).toEqual({ type: "user", id: pseudonym });
+
+    const events = await t.query(api.lib.listByActor, {
+      actorType: "user",
+      actorId: pseudonym,
+    });
+    expect(events.map((e) => e.action)).toEqual([
+      "actor.forgotten",
+      "user.signed_in",
+    ]);
+    expect(JSON.stringify(events)).not.toMatch(/user_1|Ada|ada@/);
+
+    vi.useRealTimers();
+  });
+
+  test("forgetActor validates and caps batchSize", async () => {
+    const t = convexTest(schema, modules);
+
+    for (const batchSize of [0, -1, 1.5, NaN]) {
+      await expect(
+        t.mutation(api.erasure.forgetActor, {
+          actorType: "user",
+          actorId: "user_1",
+          batchSize,
+        }),
+      ).rejects.toThrow("batchSize must be a positive integer");
+    }
+
+    const { erasureId } = await t.mutation(api.erasure.forgetActor, {
+      actorType: "user",
+      actorId: "user_1",
+      batchSize: 1_000_000,
+    });
+    const job = await t.query(api.erasure.getErasure, { erasureId });
+    expect(job?.batchSize).toBe(500);
+  });
+});
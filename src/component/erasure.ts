@@ -0,0 +1,339 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server.js";
+import type { MutationCtx } from "./_generated/server.js";
+import type { Doc, Id } from "./_generated/dataModel.js";
+import { internal } from "./_generated/api.js";
+import {
+  STANDARD_ACTIONS,
+  actorTypeValidator,
+  actorValidator,
+  erasureJobValidator,
+} from "./schema.js";
+import type { Actor, Target } from "./schema.js";
+import { recordUpdateCheckpoint } from "./chain.js";
+import { writeEvent } from "./events.js";
+import { findHold, loadActiveHolds } from "./legalHolds.js";
+import { forgetDetectionKeys } from "./detection.js";
+import { forgetSignInLocations } from "./locations.js";
+import { searchTextFor } from "./search.js";
+import { keyedHash } from "./hashing.js";
+
+const DEFAULT_BATCH_SIZE = 100;
+// Each event rewritten also rewrites its target rows and search text
+const MAX_BATCH_SIZE = 500;
+
+// Recorded as the requester when none is given
+const ERASURE_ACTOR: Actor = { type: "system", id: "audit_erasure" };
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+const erasureJobDocValidator = erasureJobValidator.extend({
+  _id: v.string(),
+  _creationTime: v.number(),
+});
+
+// =============================================================================
+// Rewriting Events
+// =============================================================================
+
+/**
+ * Position of the last row a batch read
+ */
+type Position = { occurredAt: number; creationTime: number };
+
+/**
+ * The actor's pseudonym
+ *
+ * Derived from the actor with a keyed hash, so every erasure of the same
+ * actor uses the same pseudonym: events skipped because of a legal hold, or
+ * written after an erasure, join the others when the actor is forgotten
+ * again.
+ */
+async function pseudonymFor(
+  ctx: MutationCtx,
+  actorType: string,
+  actorId: string,
+) {
+  const hash = await keyedHash(ctx, "pseudonym", `${actorType}:${actorId}`);
+  return `pseu_${hash.slice(0, 24)}`;
+}
+
+function isForgotten(job: Doc<"erasureJobs">, entity: Actor | Target) {
+  return entity.type === job.actorType && entity.id === job.actorId;
+}
+
+/**
+ * Replace the actor's identity in one event with the job's pseudonym
+ *
+ * Rewrites the actor and matching targets, along with their rows in the
+ * target index and the search text, and records an update checkpoint so the
+ * hash chain still verifies. Returns whether the event referenced the actor.
+ */
+async function forgetInEvent(
+  ctx: MutationCtx,
+  job: Doc<"erasureJobs">,
+  event: Doc<"auditEvents">,
+) {
+  const isActor = isForgotten(job, event.actor);
+  if (!isActor && !event.targets.some((target) => isForgotten(job, target))) {
+    return false;
+  }
+
+  const { name: _name, email: _email, ...actor } = event.actor;
+  const rewritten = {
+    actor: isActor ? { ...actor, id: job.pseudonym } : event.actor,
+    targets: event.targets.map((target) => {
+      if (!isForgotten(job, target)) {
+        return target;
+      }
+      const { name: _targetName, ...rest } = target;
+      return { ...rest, id: job.pseudonym };
+    }),
+  };
+  await ctx.db.patch(event._id, {
+    ...rewritten,
+    searchText: await searchTextFor(ctx, { ...event, ...rewritten }),
+  });
+
+  const targetRows = await ctx.db
+    .query("auditEventTargets")
+    .withIndex("by_eventId", (q) => q.eq("eventId", event._id))
+    .collect();
+  for (const row of targetRows) {
+    if (row.targetType === job.actorType && row.targetId === job.actorId) {
+      await ctx.db.patch(row._id, { targetId: job.pseudonym });
+    }
+  }
+
+  const updated = await ctx.db.get(event._id);
+  if (updated) {
+    await recordUpdateCheckpoint(ctx, updated);
+  }
+  return true;
+}
+
+/**
+ * Process one page of the job's current phase
+ *
+ * The job moves from the actor's own events to events targeting the actor,
+ * then records the erasure certificate and forgets the original ID.
+ */
+async function processBatch(ctx: MutationCtx, job: Doc<"erasureJobs">) {
+  const actorId = job.actorId!;
+  const holds = await loadActiveHolds(ctx);
+
+  // Resume after the last row the previous batch read. Rewritten rows leave
+  // the index range, but held rows stay in it and must not be read again.
+  const position: Position | null = job.cursor ? JSON.parse(job.cursor) : null;
+  const rows: Array<Doc<"auditEvents"> | Doc<"auditEventTargets">> = [];
+  const query =
+    job.phase === "actor"
+      ? ctx.db.query("auditEvents").withIndex("by_actor_and_occurredAt", (q) =>
+          q
+            .eq("actor.type", job.actorType)
+            .eq("actor.id", actorId)
+            .gte("occurredAt", position?.occurredAt ?? 0),
+        )
+      : ctx.db
+          .query("auditEventTargets")
+          .withIndex("by_targetType_and_targetId_and_occurredAt", (q) =>
+            q
+              .eq("targetType", job.actorType)
+              .eq("targetId", actorId)
+              .gte("occurredAt", position?.occurredAt ?? 0),
+          );
+  for await (const row of query) {
+    if (
+      position &&
+      row.occurredAt === position.occurredAt &&
+      row._creationTime <= position.creationTime
+    ) {
+      continue;
+    }
+    rows.push(row);
+    if (rows.length === job.batchSize) {
+      break;
+    }
+  }
+
+  const events: Array<Doc<"auditEvents">> = [];
+  for (const row of rows) {
+    const event =
+      "eventId" in row
+        ? await ctx.db.get(row.eventId)
+        : (row as Doc<"auditEvents">);
+    if (event) {
+      events.push(event);
+    }
+  }
+
+  let rewritten = 0;
+  let skipped = 0;
+  for (const event of events) {
+    if (findHold(holds, event)) {
+      // Held events the actor performed were counted in the first phase
+      if (job.phase === "actor" || !isForgotten(job, event.actor)) {
+        skipped++;
+      }
+      continue;
+    }
+    if (await forgetInEvent(ctx, job, event)) {
+      rewritten++;
+    }
+  }
+
+  const progress = {
+    eventsRewritten: job.eventsRewritten + rewritten,
+    skippedHeld: job.skippedHeld + skipped,
+  };
+
+  const last = rows[rows.length - 1];
+  const isDone = rows.length < job.batchSize;
+  if (!isDone || job.phase === "actor") {
+    await ctx.db.patch(job._id, {
+      ...progress,
+      ...(isDone
+        ? { phase: "targets" as const, cursor: undefined }
+        : {
+            cursor: JSON.stringify({
+              occurredAt: last.occurredAt,
+              creationTime: last._creationTime,
+            }),
+          }),
+    });
+    await ctx.scheduler.runAfter(0, internal.erasure.forgetBatch, {
+      erasureId: job._id,
+    });
+    return;
+  }
+
+  await forgetDetectionKeys(ctx, job.actorType, actorId);
+  await forgetSignInLocations(ctx, job.actorType, actorId);
+
+  // Requesters erasing themselves are recorded under their pseudonym
+  const requestedBy = isForgotten(job, job.requestedBy)
+    ? { type: job.actorType, id: job.pseudonym }
+    : job.requestedBy;
+  const { eventId } = await writeEvent(ctx, {
+    action: STANDARD_ACTIONS.ACTOR_FORGOTTEN,
+    actor: requestedBy,
+    targets: [{ type: job.actorType, id: job.pseudonym }],
+    metadata: {
+      erasureId: job._id,
+      reason: job.reason,
+      eventsRewritten: progress.eventsRewritten,
+      skippedHeld: progress.skippedHeld,
+      startedAt: job.createdAt,
+    },
+  });
+
+  await ctx.db.patch(job._id, {
+    ...progress,
+    status: "completed",
+    actorId: undefined,
+    cursor: undefined,
+    requestedBy,
+    certificateEventId: eventId,
+    completedAt: Date.now(),
+  });
+}
+
+/**
+ * Internal function to process one batch of an erasure job
+ */
+export const forgetBatch = internalMutation({
+  args: {
+    erasureId: v.id("erasureJobs"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.erasureId);
+    if (job && job.status === "running") {
+      await processBatch(ctx, job);
+    }
+    return null;
+  },
+});
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Forget an actor: replace their ID, name and email with a pseudonym in
+ * every event they performed or were a target of
+ *
+ * Events are kept, and all of them share the same pseudonym, so they can
+ * still be listed together by actor. The work runs in the background in
+ * batches; events under a legal hold are left untouched, and forgetting the
+ * actor again once the hold is released gives them the same pseudonym. When
+ * it completes, an `actor.forgotten` certificate event is recorded and the
+ * original ID is dropped from the job. Starting an erasure that is already running returns
+ * the running job.
+ */
+export const forgetActor = mutation({
+  args: {
+    actorType: actorTypeValidator,
+    actorId: v.string(),
+    requestedBy: v.optional(actorValidator),
+    reason: v.optional(v.string()),
+    batchSize: v.optional(v.number()),
+  },
+  returns: v.object({
+    erasureId: v.string(),
+    pseudonym: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const batchSize = args.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (!(Number.isInteger(batchSize) && batchSize >= 1)) {
+      throw new Error("batchSize must be a positive integer");
+    }
+
+    const running = await ctx.db
+      .query("erasureJobs")
+      .withIndex("by_actorType_and_actorId", (q) =>
+        q.eq("actorType", args.actorType).eq("actorId", args.actorId),
+      )
+      .first();
+    if (running) {
+      return { erasureId: running._id, pseudonym: running.pseudonym };
+    }
+
+    const pseudonym = await pseudonymFor(ctx, args.actorType, args.actorId);
+    const erasureId: Id<"erasureJobs"> = await ctx.db.insert("erasureJobs", {
+      actorType: args.actorType,
+      actorId: args.actorId,
+      pseudonym,
+      requestedBy: args.requestedBy ?? ERASURE_ACTOR,
+      reason: args.reason,
+      status: "running",
+      phase: "actor",
+      batchSize: Math.min(batchSize, MAX_BATCH_SIZE),
+      eventsRewritten: 0,
+      skippedHeld: 0,
+      createdAt: Date.now(),
+    });
+
+    await ctx.scheduler.runAfter(0, internal.erasure.forgetBatch, {
+      erasureId,
+    });
+
+    return { erasureId, pseudonym };
+  },
+});
+
+/**
+ * Get an erasure job and its progress
+ */
+export const getErasure = query({
+  args: {
+    erasureId: v.string(),
+  },
+  returns: v.union(v.null(), erasureJobDocValidator),
+  handler: async (ctx, args) => {
+    const erasureId = ctx.db.normalizeId("erasureJobs", args.erasureId);
+    return erasureId ? await ctx.db.get(erasureId) : null;
+  },
+});
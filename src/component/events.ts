@@ -0,0 +1,217 @@
+import { v, type Infer } from "convex/values";
+import type { MutationCtx } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import {
+  actorValidator,
+  changeValidator,
+  targetValidator,
+  contextValidator,
+} from "./schema.js";
+import type { Change } from "./schema.js";
+import { insertChainedEvent, recordDeleteCheckpoints } from "./chain.js";
+import { enqueueDeliveries } from "./webhooks.js";
+import { checkRegisteredAction } from "./registry.js";
+import { redactEvent } from "./redaction.js";
+import { encryptEvent } from "./encryption.js";
+import { evaluateDetectionRules } from "./detection.js";
+import { analyzeSignIn } from "./locations.js";
+import { searchTextFor } from "./search.js";
+import {
+  ensureLiveCounting,
+  recordEventWritten,
+  recordEventsDeleted,
+} from "./stats.js";
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+/**
+ * Fields accepted when writing an audit event
+ */
+export const eventInputFields = {
+  action: v.string(),
+  actor: actorValidator,
+  targets: v.array(targetValidator),
+  context: v.optional(contextValidator),
+  metadata: v.optional(v.record(v.string(), v.any())),
+  changes: v.optional(v.array(changeValidator)),
+  organizationId: v.optional(v.string()),
+  occurredAt: v.optional(v.number()),
+  idempotencyKey: v.optional(v.string()),
+  result: v.optional(
+    v.union(v.literal("success"), v.literal("failure"), v.literal("pending")),
+  ),
+  error: v.optional(
+    v.object({
+      code: v.optional(v.string()),
+      message: v.optional(v.string()),
+    }),
+  ),
+  tags: v.optional(v.array(v.string())),
+  version: v.optional(v.number()),
+};
+
+export const eventInputValidator = v.object(eventInputFields);
+
+export type EventInput = Infer<typeof eventInputValidator>;
+
+// =============================================================================
+// Writing
+// =============================================================================
+
+/**
+ * Every field path a change index row is written for: the changed fields and
+ * their parents ("address.city" also indexes "address")
+ */
+function changedFieldPaths(changes: Change[]) {
+  const paths = new Set<string>();
+  for (const change of changes) {
+    const segments = change.field.split(".");
+    for (let i = 1; i <= segments.length; i++) {
+      paths.add(segments.slice(0, i).join("."));
+    }
+  }
+  return paths;
+}
+
+/**
+ * Write an audit event
+ *
+ * Shared by `lib.log`, `lib.logBatch` and component features that record
+ * their own events, so every event goes through the same idempotency check,
+ * action registry check, redaction, encryption, search text, hash chain,
+ * target and change indexes, stats counters, webhook fan-out, detection rules and
+ * sign-in location analysis.
+ */
+export async function writeEvent(
+  ctx: MutationCtx,
+  event: EventInput,
+): Promise<{ eventId: string; created: boolean }> {
+  // Check for idempotency
+  if (event.idempotencyKey) {
+    const existing = await ctx.db
+      .query("auditEvents")
+      .withIndex("by_idempotencyKey", (q) =>
+        q.eq("idempotencyKey", event.idempotencyKey),
+      )
+      .first();
+
+    if (existing) {
+      return { eventId: existing._id, created: false };
+    }
+  }
+
+  await checkRegisteredAction(ctx, event);
+  await ensureLiveCounting(ctx);
+
+  // Raw PII never reaches the table when a redaction policy applies
+  const { event: redacted, redaction } = await redactEvent(ctx, event);
+
+  const doc = {
+    action: redacted.action,
+    actor: redacted.actor,
+    targets: redacted.targets,
+    context: redacted.context,
+    metadata: redacted.metadata,
+    changes: redacted.changes,
+    organizationId: redacted.organizationId,
+    occurredAt: redacted.occurredAt ?? Date.now(),
+    idempotencyKey: redacted.idempotencyKey,
+    result: redacted.result ?? "success",
+    error: redacted.error,
+    tags: redacted.tags,
+    version: redacted.version ?? 1,
+    redaction,
+  };
+
+  // The hash chain and search text cover the stored (encrypted) form
+  const stored = await encryptEvent(ctx, doc);
+  const eventId = await insertChainedEvent(ctx, {
+    ...stored,
+    searchText: await searchTextFor(ctx, stored),
+  });
+  // Index each distinct target so the event can be found by resource
+  const seen = new Set<string>();
+  for (const target of doc.targets) {
+    const key = JSON.stringify([target.type, target.id]);
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    await ctx.db.insert("auditEventTargets", {
+      eventId,
+      targetType: target.type,
+      targetId: target.id,
+      organizationId: doc.organizationId,
+      occurredAt: doc.occurredAt,
+    });
+  }
+  // Index changed fields so the event can be found by what it changed
+  for (const field of changedFieldPaths(doc.changes ?? [])) {
+    await ctx.db.insert("auditEventChanges", {
+      eventId,
+      field,
+      organizationId: doc.organizationId,
+      occurredAt: doc.occurredAt,
+    });
+  }
+  await recordEventWritten(ctx, doc);
+
+  await enqueueDeliveries(ctx, {
+    _id: eventId,
+    organizationId: event.organizationId,
+    action: event.action,
+    tags: event.tags,
+  });
+
+  // Alerts raised by the event are written after it
+  await evaluateDetectionRules(ctx, { ...doc, _id: eventId });
+  await analyzeSignIn(ctx, { ...doc, _id: eventId });
+
+  return { eventId, created: true };
+}
+
+// =============================================================================
+// Deleting
+// =============================================================================
+
+/**
+ * Delete audit events along with everything derived from them
+ *
+ * Records hash chain checkpoints so the chain stays verifiable, and removes
+ * the events from the stats counters, the target and change indexes and the
+ * sign-in location history.
+ */
+export async function deleteEvents(
+  ctx: MutationCtx,
+  events: Array<Doc<"auditEvents">>,
+) {
+  await recordDeleteCheckpoints(ctx, events);
+  await recordEventsDeleted(ctx, events);
+
+  for (const event of events) {
+    const targets = await ctx.db
+      .query("auditEventTargets")
+      .withIndex("by_eventId", (q) => q.eq("eventId", event._id))
+      .collect();
+    for (const target of targets) {
+      await ctx.db.delete(target._id);
+    }
+    const changes = await ctx.db
+      .query("auditEventChanges")
+      .withIndex("by_eventId", (q) => q.eq("eventId", event._id))
+      .collect();
+    for (const change of changes) {
+      await ctx.db.delete(change._id);
+    }
+    const location = await ctx.db
+      .query("signInLocations")
+      .withIndex("by_eventId", (q) => q.eq("eventId", event._id))
+      .unique();
+    if (location) {
+      await ctx.db.delete(location._id);
+    }
+    await ctx.db.delete(event._id);
+  }
+}
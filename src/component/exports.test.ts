@@ -0,0 +1,169 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, expect, test, describe, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import schema from "./schema.js";
+
+const modules = import.meta.glob("./**/*.ts");
+
+const auditor = { type: "user" as const, id: "auditor_1" };
+
+async function readExport(t: ReturnType<typeof convexTest>, exportId: string) {
+  const job = await t.query(api.exports.getExport, { exportId });
+  return await t.run(async (ctx) => {
+    const blob = await ctx.storage.get(job!.storageId!);
+    return await blob!.text();
+  });
+}
+
+describe("Exports", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("exports filtered events as CSV", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.lib.log, {
+      action: "document.updated",
+      actor: { type: "user", id: "user_1", name: 'Ada "The Admin"' },
+      targets: [{ type: "document", id: "doc_1" }],
+      organizationId: "org_1",
+      occurredAt: Date.UTC(2024, 0, 1),
+      tags: ["a", "b"],
+      metadata: { field: "title" },
+    });
+    await t.mutation(api.lib.log, {
+      action: "document.updated",
+      actor: { type: "user", id: "user_2" },
+      targets: [],
+      organizationId: "org_2",
+    });
+
+    const exportId = await t.mutation(api.exports.startExport, {
+      format: "csv",
+      filters: { organizationId: "org_1" },
+      requestedBy: auditor,
+    });
+    expect((await t.query(api.exports.getExport, { exportId }))?.status).toBe(
+      "pending",
+    );
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const job = await t.query(api.exports.getExport, { exportId });
+    expect(job?.status).toBe("completed");
+    expect(job?.rowCount).toBe(1);
+    expect(job?.url).not.toBeNull();
+
+    const lines = (await readExport(t, exportId)).trimEnd().split("\n");
+    expect(lines[0]).toBe(
+      "id,occurredAt,action,actorType,actorId,actorName,actorEmail,targets," +
+        "organizationId,result,errorCode,errorMessage,location,userAgent,tags,metadata",
+    );
+    expect(lines.length).toBe(2);
+    expect(lines[1]).toContain(
+      ',2024-01-01T00:00:00.000Z,document.updated,user,user_1,"Ada ""The Admin""",,document:doc_1,org_1,success,',
+    );
+    expect(lines[1]).toContain(',a;b,"{""field"":""title""}"');
+  });
+
+  test("CSV cells cannot start a spreadsheet formula", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.lib.log, {
+      action: "user.updated",
+      actor: { type: "user", id: "user_1", name: '=HYPERLINK("x")' },
+      targets: [{ type: "user", id: "+1" }],
+      organizationId: "@org",
+    });
+
+    const exportId = await t.mutation(api.exports.startExport, {
+      format: "csv",
+      filters: {},
+      requestedBy: auditor,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const [, row] = (await readExport(t, exportId)).trimEnd().split("\n");
+    expect(row).toContain(`,user,user_1,"'=HYPERLINK(""x"")",,user:+1,'@org,`);
+  });
+
+  test("exports take the same filters as list", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.lib.logBatch, {
+      events: [
+        { action: "user.signed_in", tags: ["web"] },
+        { action: "user.signed_in", result: "failure" as const, tags: ["web"] },
+        { action: "user.signed_out", tags: ["web"] },
+        { action: "document.updated", tags: ["web"] },
+      ].map((event) => ({
+        ...event,
+        actor: { type: "user" as const, id: "user_1", email: "ada@x.com" },
+        targets: [],
+      })),
+    });
+
+    const exportId = await t.mutation(api.exports.startExport, {
+      format: "ndjson",
+      filters: {
+        actionPrefix: "user.",
+        actorEmail: "ADA@x.com",
+        result: "success",
+        tags: ["web"],
+      },
+      requestedBy: auditor,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const rows = (await readExport(t, exportId))
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line).action);
+    expect(rows.sort()).toEqual(["user.signed_in", "user.signed_out"]);
+  });
+
+  test("exports NDJSON and audits the export", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.lib.logBatch, {
+      events: Array.from({ length: 3 }, (_, i) => ({
+        action: "resource.read",
+        actor: { type: "user" as const, id: `user_${i}` },
+        targets: [],
+        organizationId: "org_1",
+      })),
+    });
+
+    const exportId = await t.mutation(api.exports.startExport, {
+      format: "ndjson",
+      filters: { organizationId: "org_1", action: "resource.read" },
+      requestedBy: auditor,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const rows = (await readExport(t, exportId))
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(rows.map((row) => row.actor.id).sort()).toEqual([
+      "user_0",
+      "user_1",
+      "user_2",
+    ]);
+
+    const audited = await t.query(api.lib.listByAction, {
+      action: "resource.exported",
+    });
+    expect(audited.length).toBe(1);
+    expect(audited[0].actor).toEqual(auditor);
+    expect(audited[0].targets).toEqual([
+      { type: "audit_export", id: exportId },
+    ]);
+    expect(audited[0].metadata?.rowCount).toBe(3);
+  });
+});
@@ -0,0 +1,338 @@
+import { v } from "convex/values";
+import {
+  internalAction,
+  internalMutation,
+  mutation,
+  query,
+} from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import { api, internal } from "./_generated/api.js";
+import {
+  STANDARD_ACTIONS,
+  actorValidator,
+  exportFiltersValidator,
+  exportFormatValidator,
+  exportValidator,
+} from "./schema.js";
+import type { ExportFormat } from "./schema.js";
+import { writeEvent } from "./events.js";
+
+const PAGE_SIZE = 500;
+
+/**
+ * Largest number of events in one export file
+ *
+ * The file is assembled in the action's memory before it is stored, so
+ * larger exports fail and must be narrowed with filters or a time range.
+ */
+const MAX_EXPORT_ROWS = 50_000;
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+const exportDocValidator = exportValidator.extend({
+  _id: v.string(),
+  _creationTime: v.number(),
+  url: v.union(v.null(), v.string()),
+});
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+const CSV_COLUMNS = [
+  "id",
+  "occurredAt",
+  "action",
+  "actorType",
+  "actorId",
+  "actorName",
+  "actorEmail",
+  "targets",
+  "organizationId",
+  "result",
+  "errorCode",
+  "errorMessage",
+  "location",
+  "userAgent",
+  "tags",
+  "metadata",
+] as const;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson",
+};
+
+/**
+ * Escape one CSV cell
+ *
+ * Text starting with a character spreadsheets read as a formula is
+ * prefixed with `'` so opening the file cannot run it.
+ */
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) {
+    return "";
+  }
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(event: Doc<"auditEvents">): string {
+  return [
+    event._id,
+    new Date(event.occurredAt).toISOString(),
+    event.action,
+    event.actor.type,
+    event.actor.id,
+    event.actor.name,
+    event.actor.email,
+    event.targets.map((target) => `${target.type}:${target.id}`).join(";"),
+    event.organizationId,
+    event.result,
+    event.error?.code,
+    event.error?.message,
+    event.context?.location,
+    event.context?.userAgent,
+    event.tags?.join(";"),
+    event.metadata ? JSON.stringify(event.metadata) : undefined,
+  ]
+    .map(csvField)
+    .join(",");
+}
+
+/**
+ * Render one page of events as lines of the export file
+ */
+function formatEvents(format: ExportFormat, events: Array<Doc<"auditEvents">>) {
+  return events
+    .map((event) => (format === "csv" ? csvRow(event) : JSON.stringify(event)))
+    .map((line) => `${line}\n`);
+}
+
+// =============================================================================
+// Export Jobs
+// =============================================================================
+
+/**
+ * Start exporting audit events to a CSV or NDJSON file
+ *
+ * The export runs in the background; poll `getExport` for progress and the
+ * download URL. A `resource.exported` audit event is written when the file
+ * is ready.
+ */
+export const startExport = mutation({
+  args: {
+    format: exportFormatValidator,
+    filters: exportFiltersValidator,
+    requestedBy: actorValidator,
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    const exportId = await ctx.db.insert("exports", {
+      format: args.format,
+      filters: args.filters,
+      requestedBy: args.requestedBy,
+      status: "pending",
+      rowCount: 0,
+      createdAt: Date.now(),
+    });
+
+    await ctx.scheduler.runAfter(0, internal.exports.run, { exportId });
+
+    return exportId;
+  },
+});
+
+/**
+ * Get an export job, with a download URL once it has completed
+ */
+export const getExport = query({
+  args: {
+    exportId: v.string(),
+  },
+  returns: v.union(v.null(), exportDocValidator),
+  handler: async (ctx, args) => {
+    const exportId = ctx.db.normalizeId("exports", args.exportId);
+    const job = exportId ? await ctx.db.get(exportId) : null;
+    if (!job) {
+      return null;
+    }
+
+    const url = job.storageId ? await ctx.storage.getUrl(job.storageId) : null;
+    return { ...job, url };
+  },
+});
+
+/**
+ * Internal action paging through the matching events and storing the file
+ */
+export const run = internalAction({
+  args: {
+    exportId: v.id("exports"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const job = await ctx.runMutation(internal.exports.markRunning, {
+      exportId: args.exportId,
+    });
+    if (!job) {
+      return null;
+    }
+
+    try {
+      const lines: string[] =
+        job.format === "csv" ? [`${CSV_COLUMNS.join(",")}\n`] : [];
+      let cursor: string | undefined;
+      let rowCount = 0;
+
+      do {
+        const page = await ctx.runQuery(api.lib.list, {
+          ...job.filters,
+          limit: PAGE_SIZE,
+          cursor,
+          decrypt: true,
+        });
+        rowCount += page.events.length;
+        if (rowCount > MAX_EXPORT_ROWS) {
+          throw new Error(
+            `Exports are limited to ${MAX_EXPORT_ROWS} events; narrow the filters or time range`,
+          );
+        }
+        lines.push(formatEvents(job.format, page.events).join(""));
+        cursor = page.nextCursor ?? undefined;
+
+        await ctx.runMutation(internal.exports.recordProgress, {
+          exportId: args.exportId,
+          rowCount,
+        });
+      } while (cursor);
+
+      const storageId = await ctx.storage.store(
+        new Blob(lines, { type: CONTENT_TYPES[job.format] }),
+      );
+
+      await ctx.runMutation(internal.exports.complete, {
+        exportId: args.exportId,
+        storageId,
+        rowCount,
+      });
+    } catch (error) {
+      await ctx.runMutation(internal.exports.fail, {
+        exportId: args.exportId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return null;
+  },
+});
+
+// =============================================================================
+// Job State
+// =============================================================================
+
+/**
+ * Internal function to claim a pending export
+ *
+ * Returns what to export, or null if the export no longer exists or has
+ * already been started.
+ */
+export const markRunning = internalMutation({
+  args: {
+    exportId: v.id("exports"),
+  },
+  returns: v.union(
+    v.null(),
+    v.object({
+      format: exportFormatValidator,
+      filters: exportFiltersValidator,
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.exportId);
+    if (!job || job.status !== "pending") {
+      return null;
+    }
+    await ctx.db.patch(job._id, { status: "running" });
+    return { format: job.format, filters: job.filters };
+  },
+});
+
+/**
+ * Internal function to record how many events have been written
+ */
+export const recordProgress = internalMutation({
+  args: {
+    exportId: v.id("exports"),
+    rowCount: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.exportId, { rowCount: args.rowCount });
+    return null;
+  },
+});
+
+/**
+ * Internal function to finish an export and audit it
+ */
+export const complete = internalMutation({
+  args: {
+    exportId: v.id("exports"),
+    storageId: v.id("_storage"),
+    rowCount: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.exportId);
+    if (!job) {
+      await ctx.storage.delete(args.storageId);
+      return null;
+    }
+
+    await ctx.db.patch(job._id, {
+      status: "completed",
+      storageId: args.storageId,
+      rowCount: args.rowCount,
+      completedAt: Date.now(),
+    });
+
+    await writeEvent(ctx, {
+      action: STANDARD_ACTIONS.RESOURCE_EXPORTED,
+      actor: job.requestedBy,
+      targets: [{ type: "audit_export", id: job._id }],
+      organizationId: job.filters.organizationId,
+      metadata: {
+        format: job.format,
+        filters: job.filters,
+        rowCount: args.rowCount,
+      },
+    });
+
+    return null;
+  },
+});
+
+/**
+ * Internal function to mark an export as failed
+ */
+export const fail = internalMutation({
+  args: {
+    exportId: v.id("exports"),
+    error: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.exportId, {
+      status: "failed",
+      error: args.error,
+      completedAt: Date.now(),
+    });
+    return null;
+  },
+});
@@ -0,0 +1,45 @@
+import type { MutationCtx } from "./_generated/server.js";
+
+// =============================================================================
+// Keyed Hashes
+// =============================================================================
+
+async function getSecret(ctx: MutationCtx) {
+  const existing = await ctx.db.query("hashingSecret").first();
+  if (existing) {
+    return existing.secret;
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const secret = btoa(String.fromCharCode(...bytes));
+  await ctx.db.insert("hashingSecret", { secret, createdAt: Date.now() });
+  return secret;
+}
+
+/**
+ * HMAC-SHA-256 of a value under the component's secret, as hex
+ *
+ * The same value always hashes the same way within a deployment, so hashes
+ * can stand in for identifiers that must not be stored. `purpose` keeps
+ * hashes made for different uses apart.
+ */
+export async function keyedHash(
+  ctx: MutationCtx,
+  purpose: string,
+  value: string,
+) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    Uint8Array.from(atob(await getSecret(ctx)), (char) => char.charCodeAt(0)),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${purpose}:${value}`),
+  );
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
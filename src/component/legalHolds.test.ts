@@ -0,0 +1,225 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, expect, test, describe, vi } from "vitest";
+import { api, internal } from "./_generated/api.js";
+import schema from "./schema.js";
+
+const modules = import.meta.glob("./**/*.ts");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const admin = { type: "user" as const, id: "admin_1" };
+
+describe("Legal holds", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("createHold and releaseHold write audit events", async () => {
+    const t = convexTest(schema, modules);
+
+    const { holdId, eventId } = await t.mutation(api.legalHolds.createHold, {
+      scope: { type: "organization", organizationId: "org_1" },
+      reason: "Litigation #4521",
+      createdBy: admin,
+    });
+
+    const created = await t.query(api.lib.get, { eventId });
+    expect(created?.action).toBe("legal_hold.created");
+    expect(created?.organizationId).toBe("org_1");
+    expect(created?.targets).toEqual([{ type: "legal_hold", id: holdId }]);
+
+    const active = await t.query(api.legalHolds.listHolds, {
+      organizationId: "org_1",
+    });
+    expect(active.map((hold) => hold._id)).toEqual([holdId]);
+
+    const release = await t.mutation(api.legalHolds.releaseHold, {
+      holdId,
+      releasedBy: admin,
+      reason: "Case closed",
+    });
+    expect(release.released).toBe(true);
+
+    const released = await t.query(api.lib.get, { eventId: release.eventId! });
+    expect(released?.action).toBe("legal_hold.released");
+
+    const again = await t.mutation(api.legalHolds.releaseHold, {
+      holdId,
+      releasedBy: admin,
+    });
+    expect(again).toEqual({ released: false, eventId: null });
+
+    expect(
+      await t.query(api.legalHolds.listHolds, { organizationId: "org_1" }),
+    ).toEqual([]);
+    const all = await t.query(api.legalHolds.listHolds, {
+      includeInactive: true,
+    });
+    expect(all[0].releaseReason).toBe("Case closed");
+  });
+
+  test("updateEvent refuses to edit held events", async () => {
+    const t = convexTest(schema, modules);
+
+    const { eventId } = await t.mutation(api.lib.log, {
+      action: "resource.updated",
+      actor: { type: "user", id: "user_1" },
+      targets: [{ type: "document", id: "doc_1" }],
+    });
+    const { holdId } = await t.mutation(api.legalHolds.createHold, {
+      scope: { type: "target", targetType: "document", targetId: "doc_1" },
+      reason: "Investigation",
+      createdBy: admin,
+    });
+
+    await expect(
+      t.mutation(internal.lib.updateEvent, {
+        eventId: eventId as any,
+        tags: ["reviewed"],
+      }),
+    ).rejects.toThrow(`is under legal hold ${holdId}`);
+
+    await t.mutation(api.legalHolds.releaseHold, {
+      holdId,
+      releasedBy: admin,
+    });
+    await t.mutation(internal.lib.updateEvent, {
+      eventId: eventId as any,
+      tags: ["reviewed"],
+    });
+
+    const event = await t.query(api.lib.get, { eventId });
+    expect(event?.tags).toEqual(["reviewed"]);
+  });
+
+  test("retention and deleteOldEvents skip held events", async () => {
+    const t = convexTest(schema, modules);
+    const now = Date.now();
+
+    for (const actorId of ["user_1", "user_2"]) {
+      await t.mutation(api.lib.log, {
+        action: "resource.read",
+        actor: { type: "user", id: actorId },
+        targets: [],
+        organizationId: "org_1",
+        occurredAt: now - 40 * DAY_MS,
+      });
+    }
+    await t.mutation(api.legalHolds.createHold, {
+      scope: {
+        type: "actor",
+        actorType: "user",
+        actorId: "user_1",
+        organizationId: "org_1",
+      },
+      reason: "Litigation #4521",
+      createdBy: admin,
+    });
+    await t.mutation(api.retention.setPolicy, {
+      action: "resource.read",
+      retentionDays: 30,
+    });
+
+    const result = await t.mutation(api.retention.enforce, {});
+    expect(result).toMatchObject({ deleted: 1, held: 1 });
+
+    const deleted = await t.mutation(internal.lib.deleteOldEvents, {
+      olderThan: now - 30 * DAY_MS,
+      organizationId: "org_1",
+    });
+    expect(deleted).toMatchObject({ deleted: 0, skipped: 1 });
+
+    const remaining = await t.query(api.lib.list, { action: "resource.read" });
+    expect(remaining.events.map((e) => e.actor.id)).toEqual(["user_1"]);
+
+    const chain = await t.query(api.chain.verifyChain, {
+      organizationId: "org_1",
+    });
+    expect(chain.valid).toBe(true);
+  });
+
+  test("deleteOldEvents moves past held events", async () => {
+    const t = convexTest(schema, modules);
+    const now = Date.now();
+
+    // Three held events ahead of two purgeable ones
+    for (const [i, actorId] of [
+      "user_1",
+      "user_1",
+      "user_1",
+      "user_2",
+      "user_2",
+    ].entries()) {
+      await t.mutation(api.lib.log, {
+        action: "resource.read",
+        actor: { type: "user", id: actorId },
+        targets: [],
+        organizationId: "org_1",
+        occurredAt: now - (50 - i) * DAY_MS,
+      });
+    }
+    await t.mutation(api.legalHolds.createHold, {
+      scope: { type: "actor", actorType: "user", actorId: "user_1" },
+      reason: "Litigation #4521",
+      createdBy: admin,
+    });
+
+    const batches: number[][] = [];
+    let after: { occurredAt: number; creationTime: number } | undefined;
+    do {
+      const batch = await t.mutation(internal.lib.deleteOldEvents, {
+        olderThan: now - 30 * DAY_MS,
+        organizationId: "org_1",
+        batchSize: 2,
+        after,
+      });
+      batches.push([batch.deleted, batch.skipped]);
+      after = batch.continueAfter ?? undefined;
+    } while (after);
+
+    expect(batches).toEqual([
+      [0, 2],
+      [1, 1],
+      [1, 0],
+    ]);
+    const remaining = await t.query(api.lib.list, { action: "resource.read" });
+    expect(remaining.events.map((e) => e.actor.id)).toEqual([
+      "user_1",
+      "user_1",
+      "user_1",
+    ]);
+  });
+
+  test("expired holds no longer protect events", async () => {
+    const t = convexTest(schema, modules);
+    const now = Date.now();
+
+    await t.mutation(api.lib.log, {
+      action: "resource.read",
+      actor: { type: "user", id: "user_1" },
+      targets: [],
+      occurredAt: now - 40 * DAY_MS,
+    });
+    await t.mutation(api.legalHolds.createHold, {
+      scope: { type: "actor", actorType: "user", actorId: "user_1" },
+      reason: "Preservation notice",
+      createdBy: admin,
+      expiresAt: now + DAY_MS,
+    });
+    await t.mutation(api.retention.setPolicy, {
+      action: "resource.read",
+      retentionDays: 30,
+    });
+
+    expect((await t.mutation(api.retention.enforce, {})).held).toBe(1);
+
+    vi.setSystemTime(now + 2 * DAY_MS);
+
+    expect(await t.query(api.legalHolds.listHolds, {})).toEqual([]);
+    expect((await t.mutation(api.retention.enforce, {})).deleted).toBe(1);
+  });
+});
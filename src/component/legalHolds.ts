@@ -0,0 +1,212 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server.js";
+import type { QueryCtx } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import {
+  STANDARD_ACTIONS,
+  actorValidator,
+  legalHoldScopeValidator,
+  legalHoldValidator,
+} from "./schema.js";
+import type { AuditEvent, LegalHoldScope, Target } from "./schema.js";
+import { writeEvent } from "./events.js";
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+const legalHoldDocValidator = legalHoldValidator.extend({
+  _id: v.string(),
+  _creationTime: v.number(),
+});
+
+// =============================================================================
+// Hold Matching
+// =============================================================================
+
+function isActive(hold: Doc<"legalHolds">, now: number) {
+  return (
+    hold.releasedAt === undefined &&
+    (hold.expiresAt === undefined || hold.expiresAt > now)
+  );
+}
+
+/**
+ * Load every hold that is currently in force
+ */
+export async function loadActiveHolds(ctx: QueryCtx) {
+  const now = Date.now();
+  const unreleased = await ctx.db
+    .query("legalHolds")
+    .withIndex("by_releasedAt", (q) => q.eq("releasedAt", undefined))
+    .collect();
+  return unreleased.filter((hold) => isActive(hold, now));
+}
+
+function coversEvent(
+  scope: LegalHoldScope,
+  event: Pick<AuditEvent, "organizationId" | "actor" | "targets">,
+) {
+  if (
+    scope.organizationId !== undefined &&
+    scope.organizationId !== event.organizationId
+  ) {
+    return false;
+  }
+
+  switch (scope.type) {
+    case "organization":
+      return true;
+    case "actor":
+      return (
+        event.actor.type === scope.actorType && event.actor.id === scope.actorId
+      );
+    case "target":
+      return event.targets.some(
+        (target) =>
+          target.type === scope.targetType && target.id === scope.targetId,
+      );
+  }
+}
+
+/**
+ * Find a hold covering an event, or null if the event is not held
+ */
+export function findHold(
+  holds: Array<Doc<"legalHolds">>,
+  event: Pick<AuditEvent, "organizationId" | "actor" | "targets">,
+) {
+  return holds.find((hold) => coversEvent(hold.scope, event)) ?? null;
+}
+
+/**
+ * Audit targets describing a hold and what it covers
+ */
+function holdTargets(holdId: string, scope: LegalHoldScope): Target[] {
+  const targets: Target[] = [{ type: "legal_hold", id: holdId }];
+  if (scope.type === "actor") {
+    targets.push({ type: scope.actorType, id: scope.actorId });
+  } else if (scope.type === "target") {
+    targets.push({ type: scope.targetType, id: scope.targetId });
+  }
+  return targets;
+}
+
+// =============================================================================
+// Hold Management
+// =============================================================================
+
+/**
+ * Place a legal hold
+ *
+ * Held events are skipped by retention and cannot be edited until the hold
+ * is released or expires. Writes a `legal_hold.created` audit event.
+ */
+export const createHold = mutation({
+  args: {
+    scope: legalHoldScopeValidator,
+    reason: v.string(),
+    createdBy: actorValidator,
+    expiresAt: v.optional(v.number()),
+  },
+  returns: v.object({
+    holdId: v.string(),
+    eventId: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const holdId = await ctx.db.insert("legalHolds", {
+      scope: args.scope,
+      reason: args.reason,
+      createdBy: args.createdBy,
+      createdAt: Date.now(),
+      expiresAt: args.expiresAt,
+    });
+
+    const { eventId } = await writeEvent(ctx, {
+      action: STANDARD_ACTIONS.LEGAL_HOLD_CREATED,
+      actor: args.createdBy,
+      targets: holdTargets(holdId, args.scope),
+      organizationId: args.scope.organizationId,
+      metadata: {
+        scope: args.scope,
+        reason: args.reason,
+        expiresAt: args.expiresAt,
+      },
+    });
+
+    return { holdId, eventId };
+  },
+});
+
+/**
+ * Release a legal hold
+ *
+ * Writes a `legal_hold.released` audit event. Releasing a hold that was
+ * already released does nothing and returns `released: false`.
+ */
+export const releaseHold = mutation({
+  args: {
+    holdId: v.string(),
+    releasedBy: actorValidator,
+    reason: v.optional(v.string()),
+  },
+  returns: v.object({
+    released: v.boolean(),
+    eventId: v.union(v.null(), v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const holdId = ctx.db.normalizeId("legalHolds", args.holdId);
+    const hold = holdId ? await ctx.db.get(holdId) : null;
+    if (!hold) {
+      throw new Error(`Legal hold not found: ${args.holdId}`);
+    }
+    if (hold.releasedAt !== undefined) {
+      return { released: false, eventId: null };
+    }
+
+    await ctx.db.patch(hold._id, {
+      releasedAt: Date.now(),
+      releasedBy: args.releasedBy,
+      releaseReason: args.reason,
+    });
+
+    const { eventId } = await writeEvent(ctx, {
+      action: STANDARD_ACTIONS.LEGAL_HOLD_RELEASED,
+      actor: args.releasedBy,
+      targets: holdTargets(hold._id, hold.scope),
+      organizationId: hold.scope.organizationId,
+      metadata: {
+        scope: hold.scope,
+        reason: args.reason,
+      },
+    });
+
+    return { released: true, eventId };
+  },
+});
+
+/**
+ * List legal holds
+ *
+ * Returns holds currently in force unless `includeInactive` is set. With an
+ * organization, only holds scoped to that organization are returned.
+ */
+export const listHolds = query({
+  args: {
+    organizationId: v.optional(v.string()),
+    includeInactive: v.optional(v.boolean()),
+  },
+  returns: v.array(legalHoldDocValidator),
+  handler: async (ctx, args) => {
+    const holds = args.includeInactive
+      ? await ctx.db.query("legalHolds").collect()
+      : await loadActiveHolds(ctx);
+
+    if (args.organizationId === undefined) {
+      return holds;
+    }
+    return holds.filter(
+      (hold) => hold.scope.organizationId === args.organizationId,
+    );
+  },
+});
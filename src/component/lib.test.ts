@@ -1,6 +1,6 @@
 import { convexTest } from "convex-test";
 import { expect, test, describe } from "vitest";
-import { api } from "./_generated/api.js";
+import { api, internal } from "./_generated/api.js";
 import schema from "./schema.js";
 
 const modules = import.meta.glob("./**/*.ts");
@@ -96,6 +96,262 @@ describe("Audit Log Component", () => {
     expect(result.events[0].actor.id).toBe("user_1");
   });
 
+  test("list paginates with cursors", async () => {
+    const t = convexTest(schema, modules);
+
+    for (let i = 1; i <= 5; i++) {
+      await t.mutation(api.lib.log, {
+        action: "user.signed_in",
+        actor: { type: "user", id: `user_${i}` },
+        targets: [],
+        organizationId: "org_1",
+        occurredAt: i * 1000,
+      });
+    }
+
+    const first = await t.query(api.lib.list, {
+      organizationId: "org_1",
+      limit: 2,
+    });
+    expect(first.events.map((e) => e.actor.id)).toEqual(["user_5", "user_4"]);
+    expect(first.hasMore).toBe(true);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await t.query(api.lib.list, {
+      organizationId: "org_1",
+      limit: 2,
+      cursor: first.nextCursor!,
+    });
+    expect(second.events.map((e) => e.actor.id)).toEqual(["user_3", "user_2"]);
+
+    const third = await t.query(api.lib.list, {
+      organizationId: "org_1",
+      limit: 2,
+      cursor: second.nextCursor!,
+    });
+    expect(third.events.map((e) => e.actor.id)).toEqual(["user_1"]);
+    expect(third.hasMore).toBe(false);
+    expect(third.nextCursor).toBeNull();
+  });
+
+  test("list paginates unfiltered events", async () => {
+    const t = convexTest(schema, modules);
+
+    for (let i = 1; i <= 3; i++) {
+      await t.mutation(api.lib.log, {
+        action: "user.signed_in",
+        actor: { type: "user", id: `user_${i}` },
+        targets: [],
+        occurredAt: i * 1000,
+      });
+    }
+
+    const first = await t.query(api.lib.list, { limit: 2 });
+    const second = await t.query(api.lib.list, {
+      limit: 2,
+      cursor: first.nextCursor!,
+    });
+
+    expect([...first.events, ...second.events].map((e) => e.actor.id)).toEqual([
+      "user_3",
+      "user_2",
+      "user_1",
+    ]);
+  });
+
+  test("list rejects a cursor issued for different filters", async () => {
+    const t = convexTest(schema, modules);
+
+    for (let i = 1; i <= 3; i++) {
+      await t.mutation(api.lib.log, {
+        action: "user.signed_in",
+        actor: { type: "user", id: `user_${i}` },
+        targets: [],
+        organizationId: "org_1",
+      });
+    }
+
+    const first = await t.query(api.lib.list, {
+      organizationId: "org_1",
+      limit: 1,
+    });
+
+    await expect(
+      t.query(api.lib.list, {
+        organizationId: "org_2",
+        limit: 1,
+        cursor: first.nextCursor!,
+      }),
+    ).rejects.toThrow("Cursor does not match the requested filters");
+  });
+
+  test("list combines every filter", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.lib.logBatch, {
+      events: [
+        {
+          action: "user.signed_in",
+          actor: { type: "user", id: "user_1" },
+          targets: [],
+          organizationId: "org_1",
+          tags: ["sso", "mobile"],
+          occurredAt: 1000,
+        },
+        {
+          action: "user.signed_in",
+          actor: { type: "user", id: "user_1" },
+          targets: [],
+          organizationId: "org_1",
+          result: "failure",
+          tags: ["sso"],
+          occurredAt: 2000,
+        },
+        {
+          action: "user.signed_out",
+          actor: { type: "user", id: "user_2" },
+          targets: [],
+          organizationId: "org_1",
+          tags: ["sso"],
+          occurredAt: 3000,
+        },
+        {
+          action: "user.signed_in",
+          actor: { type: "user", id: "user_1" },
+          targets: [],
+          organizationId: "org_2",
+          occurredAt: 4000,
+        },
+        {
+          action: "document.created",
+          actor: { type: "user", id: "user_1" },
+          targets: [],
+          organizationId: "org_1",
+          occurredAt: 5000,
+        },
+      ],
+    });
+
+    const byOrgAndAction = await t.query(api.lib.list, {
+      organizationId: "org_1",
+      action: "user.signed_in",
+    });
+    expect(byOrgAndAction.events.map((e) => e.occurredAt)).toEqual([
+      2000, 1000,
+    ]);
+
+    const byOrgAndActor = await t.query(api.lib.list, {
+      organizationId: "org_1",
+      actorType: "user",
+      actorId: "user_1",
+      actionPrefix: "user.",
+    });
+    expect(byOrgAndActor.events.map((e) => e.occurredAt)).toEqual([2000, 1000]);
+
+    const byResultAndTags = await t.query(api.lib.list, {
+      actionPrefix: "user.",
+      result: "success",
+      tags: ["sso"],
+    });
+    expect(byResultAndTags.events.map((e) => e.occurredAt)).toEqual([
+      3000, 1000,
+    ]);
+
+    const byTime = await t.query(api.lib.list, {
+      organizationId: "org_1",
+      startTime: 2000,
+      endTime: 3000,
+    });
+    expect(byTime.events.map((e) => e.occurredAt)).toEqual([3000, 2000]);
+  });
+
+  test("list pages consistently through filtered rows", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.lib.logBatch, {
+      events: Array.from({ length: 10 }, (_, i) => ({
+        action: i % 2 === 0 ? "user.signed_in" : "user.signed_out",
+        actor: { type: "user" as const, id: `user_${i}` },
+        targets: [],
+        organizationId: "org_1",
+        // Pairs of events share a timestamp
+        occurredAt: Math.floor(i / 2) * 1000,
+      })),
+    });
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    for (let pages = 0; pages < 10; pages++) {
+      const page = await t.query(api.lib.list, {
+        organizationId: "org_1",
+        actionPrefix: "user.signed_i",
+        limit: 2,
+        cursor,
+      });
+      expect(page.events.length).toBeLessThanOrEqual(2);
+      seen.push(...page.events.map((e) => e.actor.id));
+      if (!page.hasMore) {
+        break;
+      }
+      cursor = page.nextCursor!;
+    }
+
+    expect(seen).toEqual(["user_8", "user_6", "user_4", "user_2", "user_0"]);
+  });
+
+  test("list marks pages cut short by the scan limit as truncated", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.run(async (ctx) => {
+      await ctx.db.insert("auditEvents", {
+        action: "user.signed_in",
+        actor: { type: "user", id: "user_1" },
+        targets: [],
+        occurredAt: 1000,
+      });
+      for (let i = 0; i < 4000; i++) {
+        await ctx.db.insert("auditEvents", {
+          action: "invoice.paid",
+          actor: { type: "user", id: "user_2" },
+          targets: [],
+          occurredAt: 2000 + i,
+        });
+      }
+    });
+
+    const first = await t.query(api.lib.list, { actionPrefix: "user." });
+    expect(first.events).toEqual([]);
+    expect(first).toMatchObject({ hasMore: true, truncated: true });
+
+    const second = await t.query(api.lib.list, {
+      actionPrefix: "user.",
+      cursor: first.nextCursor!,
+    });
+    expect(second.events.map((e) => e.actor.id)).toEqual(["user_1"]);
+    expect(second).toMatchObject({ hasMore: false, truncated: false });
+  });
+
+  test("listByAction returns full pages within an organization", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.lib.logBatch, {
+      events: Array.from({ length: 6 }, (_, i) => ({
+        action: "user.signed_in",
+        actor: { type: "user" as const, id: `user_${i}` },
+        targets: [],
+        organizationId: i < 4 ? "org_2" : "org_1",
+        occurredAt: (6 - i) * 1000,
+      })),
+    });
+
+    const result = await t.query(api.lib.listByAction, {
+      action: "user.signed_in",
+      organizationId: "org_1",
+      limit: 2,
+    });
+    expect(result.map((e) => e.actor.id)).toEqual(["user_4", "user_5"]);
+  });
+
   test("listByActor filters events by actor", async () => {
     const t = convexTest(schema, modules);
 
@@ -143,6 +399,161 @@ describe("Audit Log Component", () => {
     expect(result[0].action).toBe("user.signed_in");
   });
 
+  test("listByTarget finds events by target resource", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.lib.logBatch, {
+      events: [
+        {
+          action: "document.created",
+          actor: { type: "user", id: "user_1" },
+          targets: [{ type: "document", id: "doc_1" }],
+          organizationId: "org_1",
+          occurredAt: 1000,
+        },
+        {
+          action: "document.shared",
+          actor: { type: "user", id: "user_1" },
+          targets: [
+            { type: "document", id: "doc_1" },
+            { type: "user", id: "user_2" },
+          ],
+          organizationId: "org_1",
+          occurredAt: 2000,
+        },
+        {
+          action: "document.created",
+          actor: { type: "user", id: "user_3" },
+          targets: [{ type: "document", id: "doc_2" }],
+          organizationId: "org_1",
+          occurredAt: 3000,
+        },
+        {
+          action: "document.viewed",
+          actor: { type: "user", id: "user_4" },
+          targets: [{ type: "document", id: "doc_1" }],
+          organizationId: "org_2",
+          occurredAt: 4000,
+        },
+      ],
+    });
+
+    const first = await t.query(api.lib.listByTarget, {
+      targetType: "document",
+      targetId: "doc_1",
+      limit: 2,
+    });
+    expect(first.events.map((e) => e.action)).toEqual([
+      "document.viewed",
+      "document.shared",
+    ]);
+    expect(first.hasMore).toBe(true);
+
+    const second = await t.query(api.lib.listByTarget, {
+      targetType: "document",
+      targetId: "doc_1",
+      limit: 2,
+      cursor: first.nextCursor!,
+    });
+    expect(second.events.map((e) => e.action)).toEqual(["document.created"]);
+
+    const scoped = await t.query(api.lib.listByTarget, {
+      targetType: "document",
+      targetId: "doc_1",
+      organizationId: "org_1",
+    });
+    expect(scoped.events.length).toBe(2);
+
+    const byUser = await t.query(api.lib.listByTarget, {
+      targetType: "user",
+      targetId: "user_2",
+    });
+    expect(byUser.events.map((e) => e.action)).toEqual(["document.shared"]);
+  });
+
+  test("deleting events removes their target rows", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.lib.log, {
+      action: "document.created",
+      actor: { type: "user", id: "user_1" },
+      targets: [{ type: "document", id: "doc_1" }],
+      occurredAt: 1000,
+    });
+    await t.mutation(internal.lib.deleteOldEvents, { olderThan: 2000 });
+
+    const result = await t.query(api.lib.listByTarget, {
+      targetType: "document",
+      targetId: "doc_1",
+    });
+    expect(result.events).toEqual([]);
+    const rows = await t.run(async (ctx) =>
+      ctx.db.query("auditEventTargets").collect(),
+    );
+    expect(rows).toEqual([]);
+  });
+
+  test("listByChangedField finds events by changed field", async () => {
+    const t = convexTest(schema, modules);
+    const actor = { type: "user" as const, id: "user_1" };
+
+    await t.mutation(api.lib.log, {
+      action: "settings.updated",
+      actor,
+      targets: [{ type: "settings", id: "settings_1" }],
+      changes: [
+        {
+          field: "billing.plan",
+          kind: "changed",
+          before: "free",
+          after: "pro",
+        },
+        { field: "smtpPassword", kind: "changed", redacted: true },
+      ],
+      organizationId: "org_1",
+      occurredAt: 1000,
+    });
+    await t.mutation(api.lib.log, {
+      action: "settings.updated",
+      actor,
+      targets: [{ type: "settings", id: "settings_2" }],
+      changes: [{ field: "billing.seats", kind: "added", after: 5 }],
+      organizationId: "org_2",
+      occurredAt: 2000,
+    });
+
+    const plan = await t.query(api.lib.listByChangedField, {
+      field: "billing.plan",
+    });
+    expect(plan.events.map((e) => e.targets[0].id)).toEqual(["settings_1"]);
+    expect(plan.events[0].changes?.[0]).toEqual({
+      field: "billing.plan",
+      kind: "changed",
+      before: "free",
+      after: "pro",
+    });
+
+    // Parent paths match changes below them
+    const billing = await t.query(api.lib.listByChangedField, {
+      field: "billing",
+    });
+    expect(billing.events.map((e) => e.targets[0].id)).toEqual([
+      "settings_2",
+      "settings_1",
+    ]);
+    const scoped = await t.query(api.lib.listByChangedField, {
+      field: "billing",
+      organizationId: "org_2",
+    });
+    expect(scoped.events.map((e) => e.targets[0].id)).toEqual(["settings_2"]);
+
+    await t.mutation(internal.lib.deleteOldEvents, { olderThan: 3000 });
+    const rows = await t.run(async (ctx) =>
+      ctx.db.query("auditEventChanges").collect(),
+    );
+    expect(rows).toEqual([]);
+  });
+
   test("get retrieves a single event", async () => {
     const t = convexTest(schema, modules);
 
@@ -5,12 +5,35 @@ import {
   mutation,
   query,
 } from "./_generated/server.js";
+import type { QueryCtx } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import { auditEventValidator, scanPositionValidator } from "./schema.js";
+import { recordUpdateCheckpoint } from "./chain.js";
 import {
-  actorValidator,
-  targetValidator,
-  contextValidator,
-  auditEventValidator,
-} from "./schema.js";
+  deleteEvents,
+  eventInputFields,
+  eventInputValidator,
+  writeEvent,
+} from "./events.js";
+import { findHold, loadActiveHolds } from "./legalHolds.js";
+import { scanBefore } from "./retention.js";
+import { searchTextFor } from "./search.js";
+import { decryptEvent, decryptEvents, encryptEvent } from "./encryption.js";
+import {
+  cursorScope,
+  decodeCursor,
+  encodeCursor,
+  eventFilterFields,
+  matchesFilters,
+  queryEvents,
+} from "./planner.js";
+import {
+  computeStats,
+  computeTimeSeries,
+  statsValidator,
+  timeSeriesGroupByValidator,
+  timeSeriesPointValidator,
+} from "./stats.js";
 
 // =============================================================================
 // Validators
@@ -21,6 +44,17 @@ const auditEventDocValidator = auditEventValidator.extend({
   _creationTime: v.number(),
 });
 
+/**
+ * Decrypt events for callers that asked for it
+ */
+async function readable(
+  ctx: QueryCtx,
+  events: Array<Doc<"auditEvents">>,
+  decrypt: boolean | undefined,
+) {
+  return decrypt ? await decryptEvents(ctx, events) : events;
+}
+
 // =============================================================================
 // Core Functions - Writing Audit Events
 // =============================================================================
@@ -29,67 +63,17 @@ const auditEventDocValidator = auditEventValidator.extend({
  * Log a new audit event
  *
  * This is the primary function for creating audit log entries.
- * It supports idempotency to prevent duplicate events.
+ * It supports idempotency to prevent duplicate events. Each event is
+ * appended to its organization's hash chain.
  */
 export const log = mutation({
-  args: {
-    action: v.string(),
-    actor: actorValidator,
-    targets: v.array(targetValidator),
-    context: v.optional(contextValidator),
-    metadata: v.optional(v.record(v.string(), v.any())),
-    organizationId: v.optional(v.string()),
-    occurredAt: v.optional(v.number()),
-    idempotencyKey: v.optional(v.string()),
-    result: v.optional(
-      v.union(v.literal("success"), v.literal("failure"), v.literal("pending")),
-    ),
-    error: v.optional(
-      v.object({
-        code: v.optional(v.string()),
-        message: v.optional(v.string()),
-      }),
-    ),
-    tags: v.optional(v.array(v.string())),
-    version: v.optional(v.number()),
-  },
+  args: eventInputFields,
   returns: v.object({
     eventId: v.string(),
     created: v.boolean(),
   }),
   handler: async (ctx, args) => {
-    // Check for idempotency
-    if (args.idempotencyKey) {
-      const existing = await ctx.db
-        .query("auditEvents")
-        .withIndex("by_idempotencyKey", (q) =>
-          q.eq("idempotencyKey", args.idempotencyKey),
-        )
-        .first();
-
-      if (existing) {
-        return { eventId: existing._id, created: false };
-      }
-    }
-
-    const occurredAt = args.occurredAt ?? Date.now();
-
-    const eventId = await ctx.db.insert("auditEvents", {
-      action: args.action,
-      actor: args.actor,
-      targets: args.targets,
-      context: args.context,
-      metadata: args.metadata,
-      organizationId: args.organizationId,
-      occurredAt,
-      idempotencyKey: args.idempotencyKey,
-      result: args.result ?? "success",
-      error: args.error,
-      tags: args.tags,
-      version: args.version ?? 1,
-    });
-
-    return { eventId, created: true };
+    return await writeEvent(ctx, args);
   },
 });
 
@@ -98,33 +82,7 @@ export const log = mutation({
  */
 export const logBatch = mutation({
   args: {
-    events: v.array(
-      v.object({
-        action: v.string(),
-        actor: actorValidator,
-        targets: v.array(targetValidator),
-        context: v.optional(contextValidator),
-        metadata: v.optional(v.record(v.string(), v.any())),
-        organizationId: v.optional(v.string()),
-        occurredAt: v.optional(v.number()),
-        idempotencyKey: v.optional(v.string()),
-        result: v.optional(
-          v.union(
-            v.literal("success"),
-            v.literal("failure"),
-            v.literal("pending"),
-          ),
-        ),
-        error: v.optional(
-          v.object({
-            code: v.optional(v.string()),
-            message: v.optional(v.string()),
-          }),
-        ),
-        tags: v.optional(v.array(v.string())),
-        version: v.optional(v.number()),
-      }),
-    ),
+    events: v.array(eventInputValidator),
   },
   returns: v.array(
     v.object({
@@ -136,39 +94,7 @@ export const logBatch = mutation({
     const results: Array<{ eventId: string; created: boolean }> = [];
 
     for (const event of args.events) {
-      // Check for idempotency
-      if (event.idempotencyKey) {
-        const existing = await ctx.db
-          .query("auditEvents")
-          .withIndex("by_idempotencyKey", (q) =>
-            q.eq("idempotencyKey", event.idempotencyKey),
-          )
-          .first();
-
-        if (existing) {
-          results.push({ eventId: existing._id, created: false });
-          continue;
-        }
-      }
-
-      const occurredAt = event.occurredAt ?? Date.now();
-
-      const eventId = await ctx.db.insert("auditEvents", {
-        action: event.action,
-        actor: event.actor,
-        targets: event.targets,
-        context: event.context,
-        metadata: event.metadata,
-        organizationId: event.organizationId,
-        occurredAt,
-        idempotencyKey: event.idempotencyKey,
-        result: event.result ?? "success",
-        error: event.error,
-        tags: event.tags,
-        version: event.version ?? 1,
-      });
-
-      results.push({ eventId, created: true });
+      results.push(await writeEvent(ctx, event));
     }
 
     return results;
@@ -181,130 +107,134 @@ export const logBatch = mutation({
 
 /**
  * Get a single audit event by ID
+ *
+ * Encrypted fields are only restored when `decrypt` is set; otherwise the
+ * event is returned as stored, with its `encryption` envelope.
  */
 export const get = query({
   args: {
     eventId: v.string(),
+    decrypt: v.optional(v.boolean()),
   },
   returns: v.union(v.null(), auditEventDocValidator),
   handler: async (ctx, args) => {
-    const event = await ctx.db.get(args.eventId as any);
-    return event;
+    const eventId = ctx.db.normalizeId("auditEvents", args.eventId);
+    if (!eventId) {
+      return null;
+    }
+    const event = await ctx.db.get(eventId);
+    return event && args.decrypt ? await decryptEvent(ctx, event) : event;
   },
 });
 
 /**
  * List audit events with filtering and pagination
+ *
+ * Results are returned most recent first. Pass the returned `nextCursor` back
+ * as `cursor` (with the same filters) to fetch the following page. When the
+ * index chosen for the filters holds few matches, the page may stop early
+ * with `truncated` set; keep following `nextCursor` for the rest.
  */
 export const list = query({
   args: {
-    organizationId: v.optional(v.string()),
-    action: v.optional(v.string()),
-    actorId: v.optional(v.string()),
-    actorType: v.optional(v.string()),
-    startTime: v.optional(v.number()),
-    endTime: v.optional(v.number()),
+    ...eventFilterFields,
     limit: v.optional(v.number()),
     cursor: v.optional(v.string()),
+    decrypt: v.optional(v.boolean()),
   },
   returns: v.object({
     events: v.array(auditEventDocValidator),
     nextCursor: v.union(v.null(), v.string()),
     hasMore: v.boolean(),
+    truncated: v.boolean(),
   }),
   handler: async (ctx, args) => {
-    const limit = args.limit ?? 50;
-    const startTime = args.startTime ?? 0;
-    const endTime = args.endTime ?? Date.now() + 1000 * 60 * 60 * 24; // Default to 24h in the future
-
-    let query;
-
-    // Choose the best index based on provided filters
-    if (args.organizationId) {
-      query = ctx.db
-        .query("auditEvents")
-        .withIndex("by_organizationId_and_occurredAt", (q) =>
-          q
-            .eq("organizationId", args.organizationId)
-            .gte("occurredAt", startTime)
-            .lte("occurredAt", endTime),
-        );
-    } else if (args.action) {
-      const action = args.action;
-      query = ctx.db
-        .query("auditEvents")
-        .withIndex("by_action_and_occurredAt", (q) =>
-          q
-            .eq("action", action)
-            .gte("occurredAt", startTime)
-            .lte("occurredAt", endTime),
-        );
-    } else if (args.actorType && args.actorId) {
-      const actorType = args.actorType;
-      const actorId = args.actorId;
-      query = ctx.db
-        .query("auditEvents")
-        .withIndex("by_actor_and_occurredAt", (q) =>
-          q
-            .eq("actor.type", actorType as any)
-            .eq("actor.id", actorId)
-            .gte("occurredAt", startTime)
-            .lte("occurredAt", endTime),
-        );
-    } else {
-      // Default: query by creation time (most recent first)
-      query = ctx.db.query("auditEvents");
-    }
-
-    // Apply ordering (most recent first)
-    query = query.order("desc");
-
-    // Take one extra to determine if there are more results
-    const events = await query.take(limit + 1);
-
-    const hasMore = events.length > limit;
-    const resultEvents = hasMore ? events.slice(0, limit) : events;
-    const nextCursor =
-      hasMore && resultEvents.length > 0
-        ? resultEvents[resultEvents.length - 1]._id
-        : null;
-
-    return {
-      events: resultEvents,
-      nextCursor,
-      hasMore,
-    };
+    const { limit, cursor, decrypt, ...filters } = args;
+    const page = await queryEvents(ctx, filters, {
+      limit: limit ?? 50,
+      cursor,
+    });
+    return { ...page, events: await readable(ctx, page.events, decrypt) };
   },
 });
 
 /**
- * Search audit events by action text
+ * Search audit events by text
+ *
+ * Matches the action, the actor's name and email, target names and IDs, the
+ * error message, tags and the metadata keys chosen with `search.configure`.
+ * Accepts the same filters as `list`: organization, actor, action and result
+ * narrow the search index, the rest are checked as results are read, so a
+ * page may come back short with `hasMore` set. Results are ordered by
+ * relevance; pass the returned `nextCursor` back as `cursor` (with the same
+ * query and filters) to fetch the following page.
  */
 export const search = query({
   args: {
     searchQuery: v.string(),
-    organizationId: v.optional(v.string()),
-    actorId: v.optional(v.string()),
+    ...eventFilterFields,
     limit: v.optional(v.number()),
+    cursor: v.optional(v.string()),
+    decrypt: v.optional(v.boolean()),
   },
-  returns: v.array(auditEventDocValidator),
+  returns: v.object({
+    events: v.array(auditEventDocValidator),
+    nextCursor: v.union(v.null(), v.string()),
+    hasMore: v.boolean(),
+  }),
   handler: async (ctx, args) => {
-    const limit = args.limit ?? 50;
-
-    const searchResults = ctx.db
+    const { searchQuery, limit, cursor, decrypt, ...filters } = args;
+    const scope = cursorScope("search_text", [
+      searchQuery,
+      filters.organizationId,
+      filters.action,
+      filters.actionPrefix,
+      filters.actorType,
+      filters.actorId,
+      filters.actorEmail,
+      filters.result,
+      filters.tags,
+      filters.startTime,
+      filters.endTime,
+    ]);
+
+    const page = await ctx.db
       .query("auditEvents")
-      .withSearchIndex("search_action", (q) => {
-        let searchQuery = q.search("action", args.searchQuery);
-        if (args.organizationId) {
-          searchQuery = searchQuery.eq("organizationId", args.organizationId);
+      .withSearchIndex("search_text", (q) => {
+        let search = q.search("searchText", searchQuery.toLowerCase());
+        if (filters.organizationId !== undefined) {
+          search = search.eq("organizationId", filters.organizationId);
+        }
+        if (filters.actorType !== undefined) {
+          search = search.eq("actor.type", filters.actorType as any);
+        }
+        if (filters.actorId !== undefined) {
+          search = search.eq("actor.id", filters.actorId);
         }
-        if (args.actorId) {
-          searchQuery = searchQuery.eq("actor.id", args.actorId);
+        if (filters.action !== undefined) {
+          search = search.eq("action", filters.action);
         }
-        return searchQuery;
+        if (filters.result !== undefined) {
+          search = search.eq("result", filters.result);
+        }
+        return search;
+      })
+      .paginate({
+        numItems: limit ?? 50,
+        cursor: decodeCursor(scope, cursor),
       });
 
-    return await searchResults.take(limit);
+    const events = page.page.filter(
+      (event) =>
+        matchesFilters(event, filters) &&
+        event.occurredAt >= (filters.startTime ?? 0) &&
+        event.occurredAt <= (filters.endTime ?? Infinity),
+    );
+    return {
+      events: await readable(ctx, events, decrypt),
+      nextCursor: page.isDone ? null : encodeCursor(scope, page.continueCursor),
+      hasMore: !page.isDone,
+    };
   },
 });
 
@@ -318,6 +248,7 @@ export const listByActor = query({
     startTime: v.optional(v.number()),
     endTime: v.optional(v.number()),
     limit: v.optional(v.number()),
+    decrypt: v.optional(v.boolean()),
   },
   returns: v.array(auditEventDocValidator),
   handler: async (ctx, args) => {
@@ -337,7 +268,7 @@ export const listByActor = query({
       .order("desc")
       .take(limit);
 
-    return events;
+    return await readable(ctx, events, args.decrypt);
   },
 });
 
@@ -351,102 +282,232 @@ export const listByAction = query({
     startTime: v.optional(v.number()),
     endTime: v.optional(v.number()),
     limit: v.optional(v.number()),
+    decrypt: v.optional(v.boolean()),
   },
   returns: v.array(auditEventDocValidator),
+  handler: async (ctx, args) => {
+    const { limit, decrypt, ...filters } = args;
+    const page = await queryEvents(ctx, filters, { limit: limit ?? 50 });
+    return await readable(ctx, page.events, decrypt);
+  },
+});
+
+/**
+ * List audit events that affected a specific target resource
+ *
+ * Reads the `auditEventTargets` index, most recent first. Pass the returned
+ * `nextCursor` back as `cursor` (with the same filters) to fetch the
+ * following page.
+ */
+export const listByTarget = query({
+  args: {
+    targetType: v.string(),
+    targetId: v.string(),
+    organizationId: v.optional(v.string()),
+    startTime: v.optional(v.number()),
+    endTime: v.optional(v.number()),
+    limit: v.optional(v.number()),
+    cursor: v.optional(v.string()),
+    decrypt: v.optional(v.boolean()),
+  },
+  returns: v.object({
+    events: v.array(auditEventDocValidator),
+    nextCursor: v.union(v.null(), v.string()),
+    hasMore: v.boolean(),
+  }),
   handler: async (ctx, args) => {
     const limit = args.limit ?? 50;
     const startTime = args.startTime ?? 0;
     const endTime = args.endTime ?? Date.now() + 1000 * 60 * 60 * 24;
+    const { targetType, targetId, organizationId } = args;
 
-    let events = await ctx.db
-      .query("auditEvents")
-      .withIndex("by_action_and_occurredAt", (q) =>
-        q
-          .eq("action", args.action)
-          .gte("occurredAt", startTime)
-          .lte("occurredAt", endTime),
-      )
-      .order("desc")
-      .take(limit * 2); // Take more to filter
+    let query;
+    let scope: string;
+
+    if (organizationId) {
+      query = ctx.db
+        .query("auditEventTargets")
+        .withIndex(
+          "by_organizationId_and_targetType_and_targetId_and_occurredAt",
+          (q) =>
+            q
+              .eq("organizationId", organizationId)
+              .eq("targetType", targetType)
+              .eq("targetId", targetId)
+              .gte("occurredAt", startTime)
+              .lte("occurredAt", endTime),
+        );
+      scope = cursorScope(
+        "by_organizationId_and_targetType_and_targetId_and_occurredAt",
+        [organizationId, targetType, targetId],
+      );
+    } else {
+      query = ctx.db
+        .query("auditEventTargets")
+        .withIndex("by_targetType_and_targetId_and_occurredAt", (q) =>
+          q
+            .eq("targetType", targetType)
+            .eq("targetId", targetId)
+            .gte("occurredAt", startTime)
+            .lte("occurredAt", endTime),
+        );
+      scope = cursorScope("by_targetType_and_targetId_and_occurredAt", [
+        targetType,
+        targetId,
+      ]);
+    }
 
-    // Filter by organization if provided
-    if (args.organizationId) {
-      events = events.filter((e) => e.organizationId === args.organizationId);
+    const page = await query.order("desc").paginate({
+      numItems: limit,
+      cursor: decodeCursor(scope, args.cursor),
+    });
+
+    const events = [];
+    for (const row of page.page) {
+      const event = await ctx.db.get(row.eventId);
+      if (event) {
+        events.push(event);
+      }
     }
 
-    return events.slice(0, limit);
+    return {
+      events: await readable(ctx, events, args.decrypt),
+      nextCursor: page.isDone ? null : encodeCursor(scope, page.continueCursor),
+      hasMore: !page.isDone,
+    };
   },
 });
 
 /**
- * Get audit event statistics
+ * List audit events that changed a specific field
+ *
+ * Reads the `auditEventChanges` index, most recent first. A parent path
+ * matches changes below it: "address" finds events that changed
+ * "address.city". Pages like `listByTarget`.
  */
-export const getStats = query({
+export const listByChangedField = query({
   args: {
+    field: v.string(),
     organizationId: v.optional(v.string()),
     startTime: v.optional(v.number()),
     endTime: v.optional(v.number()),
+    limit: v.optional(v.number()),
+    cursor: v.optional(v.string()),
+    decrypt: v.optional(v.boolean()),
   },
   returns: v.object({
-    totalEvents: v.number(),
-    eventsByAction: v.record(v.string(), v.number()),
-    eventsByActorType: v.record(v.string(), v.number()),
-    eventsByResult: v.record(v.string(), v.number()),
+    events: v.array(auditEventDocValidator),
+    nextCursor: v.union(v.null(), v.string()),
+    hasMore: v.boolean(),
   }),
   handler: async (ctx, args) => {
-    const startTime = args.startTime ?? Date.now() - 30 * 24 * 60 * 60 * 1000; // Last 30 days
-    const endTime = args.endTime ?? Date.now();
+    const limit = args.limit ?? 50;
+    const startTime = args.startTime ?? 0;
+    const endTime = args.endTime ?? Date.now() + 1000 * 60 * 60 * 24;
+    const { field, organizationId } = args;
 
     let query;
+    let scope: string;
 
-    if (args.organizationId) {
+    if (organizationId) {
       query = ctx.db
-        .query("auditEvents")
-        .withIndex("by_organizationId_and_occurredAt", (q) =>
+        .query("auditEventChanges")
+        .withIndex("by_organizationId_and_field_and_occurredAt", (q) =>
           q
-            .eq("organizationId", args.organizationId)
+            .eq("organizationId", organizationId)
+            .eq("field", field)
             .gte("occurredAt", startTime)
             .lte("occurredAt", endTime),
         );
+      scope = cursorScope("by_organizationId_and_field_and_occurredAt", [
+        organizationId,
+        field,
+      ]);
     } else {
-      query = ctx.db.query("auditEvents");
-    }
-
-    const events = await query.collect();
-
-    // Filter by time range if no organization filter
-    const filteredEvents = args.organizationId
-      ? events
-      : events.filter(
-          (e) => e.occurredAt >= startTime && e.occurredAt <= endTime,
+      query = ctx.db
+        .query("auditEventChanges")
+        .withIndex("by_field_and_occurredAt", (q) =>
+          q
+            .eq("field", field)
+            .gte("occurredAt", startTime)
+            .lte("occurredAt", endTime),
         );
+      scope = cursorScope("by_field_and_occurredAt", [field]);
+    }
 
-    const eventsByAction: Record<string, number> = {};
-    const eventsByActorType: Record<string, number> = {};
-    const eventsByResult: Record<string, number> = {};
-
-    for (const event of filteredEvents) {
-      // Count by action
-      eventsByAction[event.action] = (eventsByAction[event.action] ?? 0) + 1;
-
-      // Count by actor type
-      eventsByActorType[event.actor.type] =
-        (eventsByActorType[event.actor.type] ?? 0) + 1;
+    const page = await query.order("desc").paginate({
+      numItems: limit,
+      cursor: decodeCursor(scope, args.cursor),
+    });
 
-      // Count by result
-      const result = event.result ?? "success";
-      eventsByResult[result] = (eventsByResult[result] ?? 0) + 1;
+    const events = [];
+    for (const row of page.page) {
+      const event = await ctx.db.get(row.eventId);
+      if (event) {
+        events.push(event);
+      }
     }
 
     return {
-      totalEvents: filteredEvents.length,
-      eventsByAction,
-      eventsByActorType,
-      eventsByResult,
+      events: await readable(ctx, events, args.decrypt),
+      nextCursor: page.isDone ? null : encodeCursor(scope, page.continueCursor),
+      hasMore: !page.isDone,
     };
   },
 });
 
+/**
+ * Get audit event statistics
+ *
+ * Reads pre-aggregated hourly and daily counters, so the cost grows with the
+ * length of the range rather than the number of events in it.
+ */
+export const getStats = query({
+  args: {
+    organizationId: v.optional(v.string()),
+    startTime: v.optional(v.number()),
+    endTime: v.optional(v.number()),
+  },
+  returns: statsValidator,
+  handler: async (ctx, args) => {
+    return await computeStats(ctx, {
+      organizationId: args.organizationId,
+      startTime: args.startTime ?? Date.now() - 30 * 24 * 60 * 60 * 1000, // Last 30 days
+      endTime: args.endTime ?? Date.now(),
+    });
+  },
+});
+
+/**
+ * Get event counts per hour or day for charts
+ *
+ * Returns one point per bucket overlapping the range, oldest first, with
+ * empty buckets included. Defaults to the last 24 hours for hourly series and
+ * the last 30 days for daily ones.
+ */
+export const getTimeSeries = query({
+  args: {
+    granularity: v.union(v.literal("hour"), v.literal("day")),
+    organizationId: v.optional(v.string()),
+    startTime: v.optional(v.number()),
+    endTime: v.optional(v.number()),
+    groupBy: v.optional(timeSeriesGroupByValidator),
+  },
+  returns: v.array(timeSeriesPointValidator),
+  handler: async (ctx, args) => {
+    const endTime = args.endTime ?? Date.now();
+    const defaultRange =
+      args.granularity === "hour"
+        ? 24 * 60 * 60 * 1000
+        : 30 * 24 * 60 * 60 * 1000;
+    return await computeTimeSeries(ctx, {
+      ...args,
+      startTime: args.startTime ?? endTime - defaultRange,
+      endTime,
+    });
+  },
+});
+
 // =============================================================================
 // Internal Functions
 // =============================================================================
@@ -466,49 +527,49 @@ export const getEvent = internalQuery({
 
 /**
  * Internal function to delete old events (for retention policies)
+ *
+ * Events under a legal hold are left in place and counted in `skipped`.
+ * While `hasMore`, pass `continueAfter` back as `after` for the next batch,
+ * so held events are not read again.
  */
 export const deleteOldEvents = internalMutation({
   args: {
     olderThan: v.number(), // Unix timestamp in milliseconds
     organizationId: v.optional(v.string()),
     batchSize: v.optional(v.number()),
+    after: v.optional(scanPositionValidator),
   },
   returns: v.object({
     deleted: v.number(),
+    skipped: v.number(),
     hasMore: v.boolean(),
+    continueAfter: v.union(v.null(), scanPositionValidator),
   }),
   handler: async (ctx, args) => {
     const batchSize = args.batchSize ?? 100;
 
-    let query;
-
-    if (args.organizationId) {
-      query = ctx.db
-        .query("auditEvents")
-        .withIndex("by_organizationId_and_occurredAt", (q) =>
-          q
-            .eq("organizationId", args.organizationId)
-            .lt("occurredAt", args.olderThan),
-        );
-    } else {
-      // Use the action index as a workaround to query by time
-      query = ctx.db.query("auditEvents");
-    }
-
-    const events = await query.take(batchSize + 1);
-
-    // Filter by time if no organization filter
-    const toDelete = args.organizationId
-      ? events.slice(0, batchSize)
-      : events.filter((e) => e.occurredAt < args.olderThan).slice(0, batchSize);
-
-    for (const event of toDelete) {
-      await ctx.db.delete(event._id);
-    }
-
+    const events = await scanBefore(
+      ctx,
+      args.olderThan,
+      args.after ?? null,
+      batchSize + 1,
+      args.organizationId,
+    );
+    const holds = await loadActiveHolds(ctx);
+    const batch = events.slice(0, batchSize);
+    const toDelete = batch.filter((event) => !findHold(holds, event));
+
+    await deleteEvents(ctx, toDelete);
+
+    const hasMore = events.length > batchSize;
+    const last = batch[batch.length - 1];
     return {
       deleted: toDelete.length,
-      hasMore: events.length > batchSize,
+      skipped: batch.length - toDelete.length,
+      hasMore,
+      continueAfter: hasMore
+        ? { occurredAt: last.occurredAt, creationTime: last._creationTime }
+        : null,
     };
   },
 });
@@ -524,13 +585,23 @@ export const updateEvent = internalMutation({
   },
   returns: v.null(),
   handler: async (ctx, args) => {
+    const existing = await ctx.db.get(args.eventId);
+    if (!existing) {
+      return null;
+    }
+
+    const hold = findHold(await loadActiveHolds(ctx), existing);
+    if (hold) {
+      throw new Error(
+        `Audit event ${args.eventId} is under legal hold ${hold._id}`,
+      );
+    }
+
+    const current = await decryptEvent(ctx, existing);
     const updates: Record<string, any> = {};
 
     if (args.metadata !== undefined) {
-      const existing = await ctx.db.get(args.eventId);
-      if (existing) {
-        updates.metadata = { ...existing.metadata, ...args.metadata };
-      }
+      updates.metadata = { ...current.metadata, ...args.metadata };
     }
 
     if (args.tags !== undefined) {
@@ -538,7 +609,26 @@ export const updateEvent = internalMutation({
     }
 
     if (Object.keys(updates).length > 0) {
-      await ctx.db.patch(args.eventId, updates);
+      if (existing.encryption) {
+        // Re-encrypt with the changes applied
+        const { _id, _creationTime, ...fields } = current;
+        const stored = await encryptEvent(ctx, { ...fields, ...updates });
+        await ctx.db.replace(args.eventId, {
+          ...stored,
+          searchText: await searchTextFor(ctx, stored),
+        });
+      } else {
+        await ctx.db.patch(args.eventId, {
+          ...updates,
+          searchText: await searchTextFor(ctx, { ...existing, ...updates }),
+        });
+      }
+
+      // Record the change so the hash chain still verifies
+      const updated = await ctx.db.get(args.eventId);
+      if (updated) {
+        await recordUpdateCheckpoint(ctx, updated);
+      }
     }
 
     return null;
@@ -0,0 +1,159 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api.js";
+import schema from "./schema.js";
+
+const modules = import.meta.glob("./**/*.ts");
+
+const HOUR = 60 * 60 * 1000;
+
+const BERLIN = {
+  countryCode: "DE",
+  city: "Berlin",
+  latitude: 52.52,
+  longitude: 13.405,
+};
+const MUNICH = {
+  countryCode: "DE",
+  city: "Munich",
+  latitude: 48.137,
+  longitude: 11.575,
+};
+const NEW_YORK = {
+  countryCode: "US",
+  city: "New York",
+  latitude: 40.713,
+  longitude: -74.006,
+};
+const VIENNA = {
+  countryCode: "AT",
+  city: "Vienna",
+  latitude: 48.208,
+  longitude: 16.373,
+};
+
+describe("Sign-in location analysis", () => {
+  test("flags impossible travel and new countries", async () => {
+    const t = convexTest(schema, modules);
+
+    const signIn = (geoLocation: typeof BERLIN, hour: number) =>
+      t.mutation(api.lib.log, {
+        action: "user.signed_in",
+        actor: { type: "user", id: "user_1" },
+        targets: [],
+        context: { location: "203.0.113.9", geoLocation },
+        organizationId: "org_1",
+        occurredAt: hour * HOUR,
+      });
+    const suspicious = () =>
+      t.query(api.lib.listByAction, {
+        action: "security.suspicious_activity",
+      });
+
+    // The first sign-in has nothing to compare with
+    await signIn(BERLIN, 1);
+    // Berlin to Munich in two hours is a train ride
+    await signIn(MUNICH, 3);
+    expect(await suspicious()).toEqual([]);
+
+    // Munich to New York in one hour is not
+    const jump = await signIn(NEW_YORK, 4);
+    let alerts = await suspicious();
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({
+      actor: { type: "system", id: "audit_detection" },
+      organizationId: "org_1",
+      metadata: {
+        reasons: ["impossible_travel", "new_country"],
+        signIn: { eventId: jump.eventId, countryCode: "US" },
+        previousSignIn: { countryCode: "DE", latitude: 48, longitude: 12 },
+        elapsedMs: HOUR,
+        knownCountries: ["DE"],
+      },
+    });
+    expect(alerts[0].metadata?.distanceKm).toBeGreaterThan(6000);
+    expect(alerts[0].metadata?.speedKmh).toBe(alerts[0].metadata?.distanceKm);
+    expect(alerts[0].targets.slice(0, 2)).toEqual([
+      { type: "user", id: "user_1" },
+      { type: "audit_event", id: jump.eventId },
+    ]);
+
+    // A day later, a new country within reach is only new
+    await signIn(VIENNA, 30);
+    alerts = await suspicious();
+    expect(alerts[0].metadata?.reasons).toEqual(["new_country"]);
+    expect(alerts[0].metadata?.knownCountries).toEqual(["DE", "US"]);
+
+    // Countries seen before don't count as new
+    await signIn(BERLIN, 60);
+    expect(await suspicious()).toHaveLength(2);
+
+    // History is deleted with its events
+    const history = await t.query(api.locations.listSignInLocations, {
+      actorType: "user",
+      actorId: "user_1",
+      organizationId: "org_1",
+    });
+    expect(history.map((row) => row.countryCode)).toEqual([
+      "DE",
+      "AT",
+      "US",
+      "DE",
+      "DE",
+    ]);
+    // Only the coarse location is kept outside the events
+    expect(history[0]).not.toHaveProperty("city");
+    expect(history[0]).toMatchObject({ latitude: 53, longitude: 13 });
+    await t.mutation(api.retention.setPolicy, { retentionDays: 1 });
+    await t.mutation(api.retention.enforce, {});
+    expect(
+      await t.query(api.locations.listSignInLocations, {
+        actorType: "user",
+        actorId: "user_1",
+        organizationId: "org_1",
+      }),
+    ).toEqual([]);
+  });
+
+  test("analysis can be tuned or turned off", async () => {
+    const t = convexTest(schema, modules);
+
+    expect(await t.query(api.locations.getSettings, {})).toEqual({
+      enabled: true,
+      maxSpeedKmh: 1000,
+      minDistanceKm: 500,
+      flagNewCountries: true,
+    });
+    await t.mutation(api.locations.configure, { flagNewCountries: false });
+
+    const signIn = (geoLocation: typeof BERLIN, hour: number) =>
+      t.mutation(api.lib.log, {
+        action: "user.signed_in",
+        actor: { type: "user", id: "user_1" },
+        targets: [],
+        context: { geoLocation },
+        occurredAt: hour * HOUR,
+      });
+    await signIn(BERLIN, 1);
+    await signIn(VIENNA, 100);
+    expect(
+      await t.query(api.lib.listByAction, {
+        action: "security.suspicious_activity",
+      }),
+    ).toEqual([]);
+
+    await t.mutation(api.locations.configure, { enabled: false });
+    await signIn(NEW_YORK, 101);
+    expect(
+      await t.query(api.lib.listByAction, {
+        action: "security.suspicious_activity",
+      }),
+    ).toEqual([]);
+    expect(
+      await t.query(api.locations.listSignInLocations, {
+        actorType: "user",
+        actorId: "user_1",
+      }),
+    ).toHaveLength(2);
+  });
+});
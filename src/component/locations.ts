@@ -0,0 +1,328 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server.js";
+import type { MutationCtx, QueryCtx } from "./_generated/server.js";
+import type { Doc, Id } from "./_generated/dataModel.js";
+import {
+  STANDARD_ACTIONS,
+  actorTypeValidator,
+  locationAnalysisConfigValidator,
+  signInLocationValidator,
+} from "./schema.js";
+import type { AuditEvent } from "./schema.js";
+import { writeEvent } from "./events.js";
+import { DETECTION_ACTOR } from "./detection.js";
+
+// Recent sign-ins compared against, and listed as known countries
+const RECENT_SIGN_INS = 20;
+
+const EARTH_RADIUS_KM = 6371;
+
+const DEFAULT_CONFIG = {
+  enabled: true,
+  // Faster than a commercial flight
+  maxSpeedKmh: 1000,
+  // IP geolocation is often off by a few hundred kilometers, and stored
+  // coordinates are rounded to whole degrees (up to ~80 km)
+  minDistanceKm: 500,
+  flagNewCountries: true,
+};
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+const signInLocationDocValidator = signInLocationValidator.extend({
+  _id: v.string(),
+  _creationTime: v.number(),
+});
+
+const configResultValidator = locationAnalysisConfigValidator.omit("updatedAt");
+
+// =============================================================================
+// Analysis
+// =============================================================================
+
+type SignIn = Pick<
+  AuditEvent,
+  "action" | "actor" | "context" | "organizationId"
+> & {
+  _id: Id<"auditEvents">;
+  occurredAt: number;
+};
+
+async function getConfig(ctx: QueryCtx) {
+  const config = await ctx.db.query("locationAnalysisConfig").first();
+  return config ?? DEFAULT_CONFIG;
+}
+
+/**
+ * Great-circle distance between two points
+ */
+function distanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number },
+) {
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = radians(to.latitude - from.latitude);
+  const dLon = radians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(radians(from.latitude)) *
+      Math.cos(radians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function hasCoordinates<T extends { latitude?: number; longitude?: number }>(
+  location: T,
+): location is T & { latitude: number; longitude: number } {
+  return location.latitude !== undefined && location.longitude !== undefined;
+}
+
+/**
+ * A sign-in as recorded in alert evidence
+ */
+function describeSignIn(
+  location: Omit<Doc<"signInLocations">, "_id" | "_creationTime">,
+) {
+  return {
+    eventId: location.eventId,
+    occurredAt: location.occurredAt,
+    countryCode: location.countryCode,
+    latitude: location.latitude,
+    longitude: location.longitude,
+  };
+}
+
+function roundCoordinate(coordinate: number | undefined) {
+  return coordinate === undefined ? undefined : Math.round(coordinate);
+}
+
+/**
+ * Compare a sign-in with the actor's recent locations and record it
+ *
+ * Called by `writeEvent` for `user.signed_in` events that carry a
+ * `geoLocation`. Flags travel faster than `maxSpeedKmh` since the previous
+ * sign-in and, once the actor has a history, countries never seen before,
+ * logging one `security.suspicious_activity` event with the evidence.
+ *
+ * The event is plaintext here, but the stored row isn't encrypted, so it only
+ * keeps the country and coordinates rounded to whole degrees. The city and
+ * exact coordinates stay in the event, encrypted with it when configured.
+ */
+export async function analyzeSignIn(ctx: MutationCtx, event: SignIn) {
+  const geo = event.context?.geoLocation;
+  if (event.action !== STANDARD_ACTIONS.USER_SIGNED_IN || !geo) {
+    return;
+  }
+  const config = await getConfig(ctx);
+  if (!config.enabled) {
+    return;
+  }
+
+  const location = {
+    actorType: event.actor.type,
+    actorId: event.actor.id,
+    organizationId: event.organizationId,
+    eventId: event._id,
+    occurredAt: event.occurredAt,
+    countryCode: geo.countryCode?.toUpperCase(),
+    latitude: roundCoordinate(geo.latitude),
+    longitude: roundCoordinate(geo.longitude),
+  };
+  if (location.countryCode === undefined && !hasCoordinates(location)) {
+    return;
+  }
+
+  const recent = await ctx.db
+    .query("signInLocations")
+    .withIndex("by_organizationId_and_actor_and_occurredAt", (q) =>
+      q
+        .eq("organizationId", event.organizationId)
+        .eq("actorType", event.actor.type)
+        .eq("actorId", event.actor.id)
+        .lte("occurredAt", event.occurredAt),
+    )
+    .order("desc")
+    .take(RECENT_SIGN_INS);
+
+  const reasons: string[] = [];
+  const evidence: Record<string, any> = {};
+
+  const previous = recent.find(hasCoordinates);
+  if (previous && hasCoordinates(location)) {
+    const distance = distanceKm(previous, location);
+    const elapsedMs = event.occurredAt - previous.occurredAt;
+    const speedKmh =
+      elapsedMs > 0 ? distance / (elapsedMs / (60 * 60 * 1000)) : null;
+    if (
+      distance >= config.minDistanceKm &&
+      (speedKmh === null || speedKmh > config.maxSpeedKmh)
+    ) {
+      reasons.push("impossible_travel");
+      evidence.previousSignIn = describeSignIn(previous);
+      evidence.distanceKm = Math.round(distance);
+      evidence.elapsedMs = elapsedMs;
+      evidence.speedKmh = speedKmh === null ? null : Math.round(speedKmh);
+    }
+  }
+
+  if (
+    config.flagNewCountries &&
+    location.countryCode !== undefined &&
+    recent.length > 0
+  ) {
+    const seen = await ctx.db
+      .query("signInLocations")
+      .withIndex("by_organizationId_and_actor_and_countryCode", (q) =>
+        q
+          .eq("organizationId", event.organizationId)
+          .eq("actorType", event.actor.type)
+          .eq("actorId", event.actor.id)
+          .eq("countryCode", location.countryCode),
+      )
+      .first();
+    if (!seen) {
+      reasons.push("new_country");
+      evidence.knownCountries = [
+        ...new Set(
+          recent
+            .map((row) => row.countryCode)
+            .filter((code): code is string => code !== undefined),
+        ),
+      ].sort();
+    }
+  }
+
+  await ctx.db.insert("signInLocations", location);
+
+  if (reasons.length === 0) {
+    return;
+  }
+  await writeEvent(ctx, {
+    action: STANDARD_ACTIONS.SUSPICIOUS_ACTIVITY,
+    actor: DETECTION_ACTOR,
+    targets: [
+      { type: event.actor.type, id: event.actor.id },
+      { type: "audit_event", id: event._id },
+      ...(evidence.previousSignIn
+        ? [{ type: "audit_event", id: evidence.previousSignIn.eventId }]
+        : []),
+    ],
+    organizationId: event.organizationId,
+    occurredAt: event.occurredAt,
+    metadata: {
+      reasons,
+      severity: "high",
+      signIn: describeSignIn(location),
+      ...evidence,
+    },
+    tags: ["detection", "high"],
+  });
+}
+
+/**
+ * Delete an actor's sign-in history in every organization
+ */
+export async function forgetSignInLocations(
+  ctx: MutationCtx,
+  actorType: Doc<"signInLocations">["actorType"],
+  actorId: string,
+) {
+  for await (const location of ctx.db
+    .query("signInLocations")
+    .withIndex("by_actor", (q) =>
+      q.eq("actorType", actorType).eq("actorId", actorId),
+    )) {
+    await ctx.db.delete(location._id);
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Configure sign-in location analysis
+ *
+ * Omitted fields keep their current value (or the default).
+ */
+export const configure = mutation({
+  args: {
+    enabled: v.optional(v.boolean()),
+    maxSpeedKmh: v.optional(v.number()),
+    minDistanceKm: v.optional(v.number()),
+    flagNewCountries: v.optional(v.boolean()),
+  },
+  returns: configResultValidator,
+  handler: async (ctx, args) => {
+    if (args.maxSpeedKmh !== undefined && !(args.maxSpeedKmh > 0)) {
+      throw new Error("maxSpeedKmh must be positive");
+    }
+    if (args.minDistanceKm !== undefined && !(args.minDistanceKm >= 0)) {
+      throw new Error("minDistanceKm must not be negative");
+    }
+
+    const existing = await ctx.db.query("locationAnalysisConfig").first();
+    const config = {
+      enabled: args.enabled ?? existing?.enabled ?? DEFAULT_CONFIG.enabled,
+      maxSpeedKmh:
+        args.maxSpeedKmh ?? existing?.maxSpeedKmh ?? DEFAULT_CONFIG.maxSpeedKmh,
+      minDistanceKm:
+        args.minDistanceKm ??
+        existing?.minDistanceKm ??
+        DEFAULT_CONFIG.minDistanceKm,
+      flagNewCountries:
+        args.flagNewCountries ??
+        existing?.flagNewCountries ??
+        DEFAULT_CONFIG.flagNewCountries,
+    };
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...config, updatedAt: Date.now() });
+    } else {
+      await ctx.db.insert("locationAnalysisConfig", {
+        ...config,
+        updatedAt: Date.now(),
+      });
+    }
+    return config;
+  },
+});
+
+/**
+ * Get the sign-in location analysis settings
+ */
+export const getSettings = query({
+  args: {},
+  returns: configResultValidator,
+  handler: async (ctx) => {
+    const { enabled, maxSpeedKmh, minDistanceKm, flagNewCountries } =
+      await getConfig(ctx);
+    return { enabled, maxSpeedKmh, minDistanceKm, flagNewCountries };
+  },
+});
+
+/**
+ * List an actor's recorded sign-in locations, most recent first
+ */
+export const listSignInLocations = query({
+  args: {
+    actorType: actorTypeValidator,
+    actorId: v.string(),
+    organizationId: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(signInLocationDocValidator),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("signInLocations")
+      .withIndex("by_organizationId_and_actor_and_occurredAt", (q) =>
+        q
+          .eq("organizationId", args.organizationId)
+          .eq("actorType", args.actorType)
+          .eq("actorId", args.actorId),
+      )
+      .order("desc")
+      .take(args.limit ?? 50);
+  },
+});
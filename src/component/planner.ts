@@ -0,0 +1,367 @@
+import { v, type Infer } from "convex/values";
+import type { NamedTableInfo, Query } from "convex/server";
+import type { QueryCtx } from "./_generated/server.js";
+import type { DataModel, Doc } from "./_generated/dataModel.js";
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+/**
+ * Filters accepted when listing audit events. All given filters must match.
+ */
+export const eventFilterFields = {
+  organizationId: v.optional(v.string()),
+  action: v.optional(v.string()),
+  actionPrefix: v.optional(v.string()), // e.g. "user." for every user action
+  actorType: v.optional(v.string()),
+  actorId: v.optional(v.string()),
+  actorEmail: v.optional(v.string()),
+  result: v.optional(
+    v.union(v.literal("success"), v.literal("failure"), v.literal("pending")),
+  ),
+  tags: v.optional(v.array(v.string())), // Events must carry every tag
+  startTime: v.optional(v.number()),
+  endTime: v.optional(v.number()),
+};
+
+export const eventFiltersValidator = v.object(eventFilterFields);
+
+export type EventFilters = Infer<typeof eventFiltersValidator>;
+
+// =============================================================================
+// Cursors
+// =============================================================================
+
+/**
+ * Identify the index range a cursor was issued for.
+ */
+export function cursorScope(index: string, values: unknown[]): string {
+  return JSON.stringify([index, ...values]);
+}
+
+/**
+ * Wrap a Convex pagination cursor into an opaque cursor string.
+ *
+ * The scope is embedded so a cursor replayed with different filters is
+ * rejected instead of silently resuming in the wrong index range.
+ */
+export function encodeCursor(scope: string, cursor: string): string {
+  return btoa(JSON.stringify({ scope, cursor }));
+}
+
+/**
+ * Unwrap an opaque cursor produced by `encodeCursor`
+ */
+export function decodeCursor(scope: string, cursor: string | undefined) {
+  if (!cursor) {
+    return null;
+  }
+
+  let decoded: { scope?: unknown; cursor?: unknown };
+  try {
+    decoded = JSON.parse(atob(cursor));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+
+  if (typeof decoded.cursor !== "string") {
+    throw new Error("Invalid cursor");
+  }
+  if (decoded.scope !== scope) {
+    throw new Error("Cursor does not match the requested filters");
+  }
+
+  return decoded.cursor;
+}
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+/**
+ * Most rows a single page may read while looking for matches. Pages of very
+ * selective filters can come back short, with `hasMore` and `truncated` set
+ * and a cursor that resumes where the scan stopped.
+ */
+const MAX_SCANNED_ROWS = 4000;
+
+type EventsQuery = Query<NamedTableInfo<DataModel, "auditEvents">>;
+
+type Plan = {
+  index: string;
+  // Read the index between two `occurredAt` bounds, inclusive
+  range: (ctx: QueryCtx, startTime: number, endTime: number) => EventsQuery;
+};
+
+/**
+ * Choose the most selective index for the given filters
+ *
+ * Every index ends in `occurredAt`, so results are always time-ordered.
+ * Filters the index does not cover are checked row by row. `actionPrefix`
+ * has no index of its own: the action indexes order rows by action before
+ * time, so a prefix range would not come back most recent first.
+ */
+export function planQuery(filters: EventFilters): Plan {
+  const { organizationId, action, actorId } = filters;
+  // An unknown actor type matches no events, so it needs no index
+  const actorType =
+    filters.actorType !== undefined && isActorType(filters.actorType)
+      ? filters.actorType
+      : undefined;
+
+  if (
+    organizationId !== undefined &&
+    actorType !== undefined &&
+    actorId !== undefined
+  ) {
+    return {
+      index: "by_organizationId_and_actor_and_occurredAt",
+      range: (ctx, startTime, endTime) =>
+        ctx.db
+          .query("auditEvents")
+          .withIndex("by_organizationId_and_actor_and_occurredAt", (q) =>
+            q
+              .eq("organizationId", organizationId)
+              .eq("actor.type", actorType)
+              .eq("actor.id", actorId)
+              .gte("occurredAt", startTime)
+              .lte("occurredAt", endTime),
+          ),
+    };
+  }
+  if (organizationId !== undefined && action !== undefined) {
+    return {
+      index: "by_organizationId_and_action_and_occurredAt",
+      range: (ctx, startTime, endTime) =>
+        ctx.db
+          .query("auditEvents")
+          .withIndex("by_organizationId_and_action_and_occurredAt", (q) =>
+            q
+              .eq("organizationId", organizationId)
+              .eq("action", action)
+              .gte("occurredAt", startTime)
+              .lte("occurredAt", endTime),
+          ),
+    };
+  }
+  if (organizationId !== undefined) {
+    return {
+      index: "by_organizationId_and_occurredAt",
+      range: (ctx, startTime, endTime) =>
+        ctx.db
+          .query("auditEvents")
+          .withIndex("by_organizationId_and_occurredAt", (q) =>
+            q
+              .eq("organizationId", organizationId)
+              .gte("occurredAt", startTime)
+              .lte("occurredAt", endTime),
+          ),
+    };
+  }
+  if (actorType !== undefined && actorId !== undefined) {
+    return {
+      index: "by_actor_and_occurredAt",
+      range: (ctx, startTime, endTime) =>
+        ctx.db
+          .query("auditEvents")
+          .withIndex("by_actor_and_occurredAt", (q) =>
+            q
+              .eq("actor.type", actorType)
+              .eq("actor.id", actorId)
+              .gte("occurredAt", startTime)
+              .lte("occurredAt", endTime),
+          ),
+    };
+  }
+  if (action !== undefined) {
+    return {
+      index: "by_action_and_occurredAt",
+      range: (ctx, startTime, endTime) =>
+        ctx.db
+          .query("auditEvents")
+          .withIndex("by_action_and_occurredAt", (q) =>
+            q
+              .eq("action", action)
+              .gte("occurredAt", startTime)
+              .lte("occurredAt", endTime),
+          ),
+    };
+  }
+  return {
+    index: "by_occurredAt",
+    range: (ctx, startTime, endTime) =>
+      ctx.db
+        .query("auditEvents")
+        .withIndex("by_occurredAt", (q) =>
+          q.gte("occurredAt", startTime).lte("occurredAt", endTime),
+        ),
+  };
+}
+
+type ActorType = Doc<"auditEvents">["actor"]["type"];
+
+// Keyed by every actor type, so adding one fails to compile until it is listed
+const ACTOR_TYPES: Record<ActorType, true> = {
+  user: true,
+  system: true,
+  api_key: true,
+  service: true,
+};
+
+function isActorType(type: string): type is ActorType {
+  return Object.prototype.hasOwnProperty.call(ACTOR_TYPES, type);
+}
+
+/**
+ * Whether an event matches every filter
+ */
+export function matchesFilters(
+  event: Doc<"auditEvents">,
+  filters: EventFilters,
+): boolean {
+  if (
+    filters.organizationId !== undefined &&
+    event.organizationId !== filters.organizationId
+  ) {
+    return false;
+  }
+  if (filters.action !== undefined && event.action !== filters.action) {
+    return false;
+  }
+  if (
+    filters.actionPrefix !== undefined &&
+    !event.action.startsWith(filters.actionPrefix)
+  ) {
+    return false;
+  }
+  if (
+    filters.actorType !== undefined &&
+    event.actor.type !== filters.actorType
+  ) {
+    return false;
+  }
+  if (filters.actorId !== undefined && event.actor.id !== filters.actorId) {
+    return false;
+  }
+  if (
+    filters.actorEmail !== undefined &&
+    event.actor.email?.toLowerCase() !== filters.actorEmail.toLowerCase()
+  ) {
+    return false;
+  }
+  if (
+    filters.result !== undefined &&
+    (event.result ?? "success") !== filters.result
+  ) {
+    return false;
+  }
+  if (filters.tags?.some((tag) => !event.tags?.includes(tag))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Position of the last row a page read, used to resume the scan
+ */
+type Position = { occurredAt: number; creationTime: number };
+
+/**
+ * Fetch one page of events matching every filter, most recent first
+ *
+ * Pages through the planned index with its own cursor rather than Convex's,
+ * so filters checked row by row still produce consistent pages: a cursor
+ * always resumes right after the last row the previous page read. A page
+ * that stopped at the scan limit before filling up is marked `truncated`.
+ */
+export async function queryEvents(
+  ctx: QueryCtx,
+  filters: EventFilters,
+  options: { limit: number; cursor?: string },
+) {
+  const plan = planQuery(filters);
+  const scope = cursorScope(plan.index, [
+    filters.organizationId,
+    filters.action,
+    filters.actionPrefix,
+    filters.actorType,
+    filters.actorId,
+    filters.actorEmail,
+    filters.result,
+    filters.tags,
+  ]);
+  const decoded = decodeCursor(scope, options.cursor);
+  const position = decoded ? parsePosition(decoded) : null;
+
+  const startTime = filters.startTime ?? 0;
+  const endTime = Math.min(
+    filters.endTime ?? Date.now() + 1000 * 60 * 60 * 24, // Default to 24h in the future
+    position?.occurredAt ?? Infinity,
+  );
+
+  const query = plan.range(ctx, startTime, endTime).order("desc");
+
+  const events: Array<Doc<"auditEvents">> = [];
+  let last: Position | null = null;
+  let scanned = 0;
+
+  for await (const event of query) {
+    // Rows sharing the resumed timestamp that the previous page already read
+    if (
+      position &&
+      event.occurredAt === position.occurredAt &&
+      event._creationTime >= position.creationTime
+    ) {
+      continue;
+    }
+
+    if (matchesFilters(event, filters)) {
+      if (events.length === options.limit) {
+        // Another match exists, so resume after the last returned event
+        return page(scope, events, last, false);
+      }
+      events.push(event);
+    }
+    last = { occurredAt: event.occurredAt, creationTime: event._creationTime };
+
+    scanned++;
+    if (scanned >= MAX_SCANNED_ROWS) {
+      return page(scope, events, last, events.length < options.limit);
+    }
+  }
+
+  return page(scope, events, null, false);
+}
+
+function page(
+  scope: string,
+  events: Array<Doc<"auditEvents">>,
+  resumeAfter: Position | null,
+  truncated: boolean,
+) {
+  return {
+    events,
+    nextCursor: resumeAfter
+      ? encodeCursor(scope, JSON.stringify(resumeAfter))
+      : null,
+    hasMore: resumeAfter !== null,
+    truncated,
+  };
+}
+
+function parsePosition(cursor: string): Position {
+  let position: Partial<Position>;
+  try {
+    position = JSON.parse(cursor);
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  if (
+    typeof position.occurredAt !== "number" ||
+    typeof position.creationTime !== "number"
+  ) {
+    throw new Error("Invalid cursor");
+  }
+  return position as Position;
+}
@@ -0,0 +1,163 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api.js";
+import schema from "./schema.js";
+
+const modules = import.meta.glob("./**/*.ts");
+
+function signIn(organizationId?: string) {
+  return {
+    action: "user.signed_in",
+    actor: {
+      type: "user" as const,
+      id: "user_1",
+      name: "Ada Lovelace",
+      email: "Ada@Example.com",
+    },
+    targets: [{ type: "user", id: "user_1", name: "Ada Lovelace" }],
+    context: {
+      location: "203.0.113.42, 2001:db8:85a3:8d3:1319:8a2e:370:7348",
+      userAgent: "Mozilla/5.0",
+    },
+    metadata: {
+      note: "Card 4111 1111 1111 1111 on file",
+      ssn: "123-45-6789",
+      nested: { phones: ["+1 555 0100"] },
+    },
+    organizationId,
+  };
+}
+
+describe("Redaction", () => {
+  test("applies every rule type before the event is stored", async () => {
+    const t = convexTest(schema, modules);
+
+    const { version } = await t.mutation(api.redaction.setPolicy, {
+      rules: [
+        { type: "remove", path: "metadata.ssn" },
+        { type: "remove", path: "metadata.nested.phones.*" },
+        {
+          type: "pattern",
+          name: "card",
+          pattern: "\\b\\d(?:[ -]?\\d){12,15}\\b",
+        },
+        { type: "truncateIp", path: "context.location" },
+        { type: "hashEmail", path: "actor.email" },
+        { type: "pseudonymize", path: "actor.name" },
+        { type: "pseudonymize", path: "targets.*.name" },
+      ],
+      pseudonymKey: "pseudonym-secret",
+    });
+    expect(version).toBe(1);
+
+    const { eventId } = await t.mutation(api.lib.log, signIn("org_1"));
+    const event = await t.query(api.lib.get, { eventId });
+
+    expect(event?.metadata).toEqual({
+      note: "Card [REDACTED:card] on file",
+      nested: { phones: ["[REDACTED]"] },
+    });
+    expect(event?.context?.location).toBe("203.0.113.0, 2001:db8:85a3::");
+    expect(event?.actor.email).toMatch(/^hmac:[0-9a-f]{64}$/);
+    expect(event?.actor.name).toMatch(/^pseu_[0-9a-f]{24}$/);
+    // Pseudonyms are stable for the same input and key
+    expect(event?.targets[0].name).toBe(event?.actor.name);
+    expect(event?.actor.id).toBe("user_1");
+
+    expect(event?.redaction).toEqual({
+      policyId: expect.any(String),
+      policyVersion: 1,
+      fields: [
+        "metadata.ssn",
+        "metadata.nested.phones.0",
+        "metadata.note",
+        "context.location",
+        "actor.email",
+        "actor.name",
+        "targets.0.name",
+      ],
+    });
+
+    // Emails hash the same regardless of case
+    const { eventId: secondId } = await t.mutation(api.lib.log, {
+      ...signIn("org_1"),
+      actor: { type: "user", id: "user_1", email: "ada@example.com" },
+    });
+    const second = await t.query(api.lib.get, { eventId: secondId });
+    expect(second?.actor.email).toBe(event?.actor.email);
+  });
+
+  test("organization policies replace the global policy", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.redaction.setPolicy, {
+      rules: [{ type: "remove", path: "actor.email" }],
+    });
+    await t.mutation(api.redaction.setPolicy, {
+      organizationId: "org_2",
+      rules: [{ type: "remove", path: "context" }],
+    });
+    const updated = await t.mutation(api.redaction.setPolicy, {
+      organizationId: "org_2",
+      rules: [
+        { type: "remove", path: "context" },
+        { type: "remove", path: "actor.id" },
+      ],
+    });
+    expect(updated.version).toBe(2);
+
+    const global = await t.query(api.lib.get, {
+      eventId: (await t.mutation(api.lib.log, signIn("org_1"))).eventId,
+    });
+    expect(global?.actor.email).toBeUndefined();
+    expect(global?.context).toBeDefined();
+
+    const scoped = await t.query(api.lib.get, {
+      eventId: (await t.mutation(api.lib.log, signIn("org_2"))).eventId,
+    });
+    expect(scoped?.actor.email).toBe("Ada@Example.com");
+    expect(scoped?.context).toBeUndefined();
+    // Required fields are blanked rather than dropped
+    expect(scoped?.actor.id).toBe("[REDACTED]");
+    expect(scoped?.redaction?.policyVersion).toBe(2);
+
+    const policy = await t.query(api.redaction.getPolicy, {
+      organizationId: "org_3",
+    });
+    expect(policy?.organizationId).toBeUndefined();
+    expect(policy?.hasPseudonymKey).toBe(false);
+
+    // Without a policy, events are stored as given
+    await t.mutation(api.redaction.removePolicy, {});
+    const plain = await t.query(api.lib.get, {
+      eventId: (await t.mutation(api.lib.log, signIn("org_1"))).eventId,
+    });
+    expect(plain?.actor.email).toBe("Ada@Example.com");
+    expect(plain?.redaction).toBeUndefined();
+  });
+
+  test("setPolicy rejects rules that cannot be applied", async () => {
+    const t = convexTest(schema, modules);
+
+    await expect(
+      t.mutation(api.redaction.setPolicy, {
+        rules: [{ type: "remove", path: "action" }],
+      }),
+    ).rejects.toThrow('Invalid redaction path "action"');
+    await expect(
+      t.mutation(api.redaction.setPolicy, {
+        rules: [{ type: "remove", path: "targets.*.type" }],
+      }),
+    ).rejects.toThrow("cannot be redacted");
+    await expect(
+      t.mutation(api.redaction.setPolicy, {
+        rules: [{ type: "pseudonymize", path: "actor.id" }],
+      }),
+    ).rejects.toThrow("require a pseudonymKey");
+    await expect(
+      t.mutation(api.redaction.setPolicy, {
+        rules: [{ type: "pattern", name: "broken", pattern: "(" }],
+      }),
+    ).rejects.toThrow('Invalid redaction pattern for "broken"');
+  });
+});
@@ -0,0 +1,455 @@
+import { v } from "convex/values";
+import type { Value } from "convex/values";
+import { mutation, query } from "./_generated/server.js";
+import type { MutationCtx, QueryCtx } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import { redactionPolicyValidator, redactionRuleValidator } from "./schema.js";
+import type { RedactionRule } from "./schema.js";
+import { keyedHash } from "./hashing.js";
+import type { EventInput } from "./events.js";
+
+const REDACTED = "[REDACTED]";
+
+// Fields that can be rewritten, and those the event cannot do without
+const REDACTABLE_ROOTS = [
+  "actor",
+  "targets",
+  "context",
+  "metadata",
+  "changes",
+  "error",
+];
+const PROTECTED_PATHS = [
+  "actor",
+  "actor.type",
+  "targets",
+  "targets.*",
+  "targets.*.type",
+  "changes",
+  "changes.*",
+  "changes.*.field",
+  "changes.*.kind",
+];
+// Required strings that are blanked rather than dropped
+const REQUIRED_PATHS = ["actor.id", "targets.*.id"];
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+const redactionPolicyDocValidator = redactionPolicyValidator
+  .omit("pseudonymKey")
+  .extend({
+    _id: v.string(),
+    _creationTime: v.number(),
+    hasPseudonymKey: v.boolean(),
+  });
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+type ValueObject = { [key: string]: Value | undefined };
+
+type Match = {
+  parent: ValueObject | Value[];
+  key: string;
+  path: string[];
+};
+
+function isObject(value: Value | undefined): value is ValueObject {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof ArrayBuffer)
+  );
+}
+
+function read({ parent, key }: Match): Value | undefined {
+  return Array.isArray(parent) ? parent[Number(key)] : parent[key];
+}
+
+function write({ parent, key }: Match, value: Value) {
+  if (Array.isArray(parent)) {
+    parent[Number(key)] = value;
+  } else {
+    parent[key] = value;
+  }
+}
+
+/**
+ * A match for each key of a value (or only `key`), or none if the value
+ * isn't an object or array
+ */
+function children(
+  value: Value | undefined,
+  path: string[],
+  key?: string,
+): Match[] {
+  if (Array.isArray(value)) {
+    const keys = key === undefined ? value.map((_, i) => String(i)) : [key];
+    return keys.map((k) => ({ parent: value, key: k, path: [...path, k] }));
+  }
+  if (isObject(value)) {
+    const keys = key === undefined ? Object.keys(value) : [key];
+    return keys.map((k) => ({ parent: value, key: k, path: [...path, k] }));
+  }
+  return [];
+}
+
+/**
+ * Find every value at a path, expanding `*` over object keys and array
+ * elements
+ */
+function resolvePath(root: ValueObject, path: string) {
+  let matches: Match[] = [{ parent: { root }, key: "root", path: [] }];
+
+  for (const segment of path.split(".")) {
+    matches = matches
+      .flatMap((match) =>
+        children(
+          read(match),
+          match.path,
+          segment === "*" ? undefined : segment,
+        ),
+      )
+      .filter((match) => read(match) !== undefined);
+  }
+
+  return matches;
+}
+
+/**
+ * A concrete path with array indices replaced by `*`, for comparing against
+ * rule paths
+ */
+function normalizePath(path: string[]) {
+  return path.map((segment) => (/^\d+$/.test(segment) ? "*" : segment));
+}
+
+/**
+ * Every string at or below a value, with its path
+ */
+function collectStrings(match: Match, found: Match[] = []) {
+  const value = read(match);
+  if (typeof value === "string") {
+    found.push(match);
+  } else {
+    for (const child of children(value, match.path)) {
+      collectStrings(child, found);
+    }
+  }
+  return found;
+}
+
+// =============================================================================
+// Transforms
+// =============================================================================
+
+/**
+ * Zero the host part of an IP address, or of each address in a
+ * comma-separated list
+ */
+export function truncateIp(value: string): string {
+  return value
+    .split(",")
+    .map((part) => {
+      const address = part.trim();
+      const ipv4 = address.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.\d{1,3}$/);
+      if (ipv4) {
+        return `${ipv4[1]}.${ipv4[2]}.${ipv4[3]}.0`;
+      }
+      if (address.includes(":")) {
+        const groups = address.split("::")[0].split(":").slice(0, 3);
+        return `${groups.join(":")}::`;
+      }
+      return REDACTED;
+    })
+    .join(", ");
+}
+
+/**
+ * HMAC-SHA256 of a value, hex encoded
+ */
+export async function hmacHex(key: string, value: string) {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(key),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    cryptoKey,
+    encoder.encode(value),
+  );
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function compilePattern(rule: Extract<RedactionRule, { type: "pattern" }>) {
+  const flags = rule.flags ?? "";
+  return new RegExp(rule.pattern, flags.includes("g") ? flags : `${flags}g`);
+}
+
+/**
+ * Reject rules that would break the event or cannot run
+ */
+function validateRules(rules: RedactionRule[], hasPseudonymKey: boolean) {
+  for (const rule of rules) {
+    const paths = rule.type === "pattern" ? (rule.paths ?? []) : [rule.path];
+    for (const path of paths) {
+      const segments = path.split(".");
+      if (
+        segments.some((segment) => segment === "") ||
+        !REDACTABLE_ROOTS.includes(segments[0])
+      ) {
+        throw new Error(
+          `Invalid redaction path "${path}": must start with one of ${REDACTABLE_ROOTS.join(", ")}`,
+        );
+      }
+      if (PROTECTED_PATHS.includes(normalizePath(segments).join("."))) {
+        throw new Error(`Redaction path "${path}" cannot be redacted`);
+      }
+    }
+
+    if (rule.type === "pattern") {
+      try {
+        compilePattern(rule);
+      } catch {
+        throw new Error(`Invalid redaction pattern for "${rule.name}"`);
+      }
+    }
+    if (rule.type === "pseudonymize" && !hasPseudonymKey) {
+      throw new Error("Pseudonymization rules require a pseudonymKey");
+    }
+  }
+}
+
+// =============================================================================
+// Applying Policies
+// =============================================================================
+
+async function findPolicy(ctx: QueryCtx, organizationId: string | undefined) {
+  return await ctx.db
+    .query("redactionPolicies")
+    .withIndex("by_organizationId", (q) =>
+      q.eq("organizationId", organizationId),
+    )
+    .unique();
+}
+
+/**
+ * Load the policy that applies to an organization: its own, or the global one
+ */
+async function loadPolicy(ctx: QueryCtx, organizationId: string | undefined) {
+  if (organizationId !== undefined) {
+    const policy = await findPolicy(ctx, organizationId);
+    if (policy) {
+      return policy;
+    }
+  }
+  return await findPolicy(ctx, undefined);
+}
+
+async function applyRule(
+  ctx: MutationCtx,
+  policy: Doc<"redactionPolicies">,
+  rule: RedactionRule,
+  event: ValueObject,
+  redacted: Set<string>,
+) {
+  if (rule.type === "pattern") {
+    const regex = compilePattern(rule);
+    const replacement = rule.replacement ?? `[REDACTED:${rule.name}]`;
+    for (const path of rule.paths ?? ["metadata"]) {
+      for (const match of resolvePath(event, path)) {
+        for (const leaf of collectStrings(match)) {
+          const value = read(leaf) as string;
+          const replaced = value.replace(regex, replacement);
+          if (replaced !== value) {
+            write(leaf, replaced);
+            redacted.add(leaf.path.join("."));
+          }
+        }
+      }
+    }
+    return;
+  }
+
+  for (const match of resolvePath(event, rule.path)) {
+    const value = read(match);
+    const normalized = normalizePath(match.path).join(".");
+
+    switch (rule.type) {
+      case "remove":
+        if (
+          Array.isArray(match.parent) ||
+          REQUIRED_PATHS.includes(normalized)
+        ) {
+          write(match, REDACTED);
+        } else {
+          delete match.parent[match.key];
+        }
+        break;
+      case "truncateIp":
+        write(match, typeof value === "string" ? truncateIp(value) : REDACTED);
+        break;
+      case "hashEmail":
+        write(
+          match,
+          typeof value === "string"
+            ? `hmac:${await keyedHash(ctx, "email", value.trim().toLowerCase())}`
+            : REDACTED,
+        );
+        break;
+      case "pseudonymize": {
+        const input = typeof value === "string" ? value : JSON.stringify(value);
+        const digest = await hmacHex(policy.pseudonymKey!, input);
+        write(match, `pseu_${digest.slice(0, 24)}`);
+        break;
+      }
+    }
+    redacted.add(match.path.join("."));
+  }
+}
+
+/**
+ * Apply the organization's redaction policy to an event before it is stored
+ *
+ * Returns the event unchanged when no policy applies. Otherwise returns a
+ * redacted copy along with a record of the rewritten fields.
+ */
+export async function redactEvent(ctx: MutationCtx, event: EventInput) {
+  const policy = await loadPolicy(ctx, event.organizationId);
+  if (!policy || policy.rules.length === 0) {
+    return { event, redaction: undefined };
+  }
+
+  // Rules rewrite in place, so work on a copy of the caller's event
+  const copy = clone(event) as EventInput;
+  const redacted = new Set<string>();
+  for (const rule of policy.rules) {
+    await applyRule(ctx, policy, rule, copy as ValueObject, redacted);
+  }
+
+  if (redacted.size === 0) {
+    return { event, redaction: undefined };
+  }
+  return {
+    event: copy,
+    redaction: {
+      policyId: policy._id,
+      policyVersion: policy.version,
+      fields: [...redacted],
+    },
+  };
+}
+
+function clone(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(clone);
+  }
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    !(value instanceof ArrayBuffer)
+  ) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, clone(entry)]),
+    );
+  }
+  return value;
+}
+
+// =============================================================================
+// Policy Management
+// =============================================================================
+
+/**
+ * Create or replace the redaction policy of an organization, or the global
+ * policy when `organizationId` is omitted
+ *
+ * Every change bumps the policy version. `pseudonymKey` is kept when omitted.
+ */
+export const setPolicy = mutation({
+  args: {
+    organizationId: v.optional(v.string()),
+    rules: v.array(redactionRuleValidator),
+    pseudonymKey: v.optional(v.string()),
+  },
+  returns: v.object({
+    policyId: v.string(),
+    version: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    const existing = await findPolicy(ctx, args.organizationId);
+    const pseudonymKey = args.pseudonymKey ?? existing?.pseudonymKey;
+    validateRules(args.rules, pseudonymKey !== undefined);
+
+    const now = Date.now();
+    if (existing) {
+      const version = existing.version + 1;
+      await ctx.db.patch(existing._id, {
+        rules: args.rules,
+        pseudonymKey,
+        version,
+        updatedAt: now,
+      });
+      return { policyId: existing._id, version };
+    }
+
+    const policyId = await ctx.db.insert("redactionPolicies", {
+      organizationId: args.organizationId,
+      rules: args.rules,
+      pseudonymKey,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { policyId, version: 1 };
+  },
+});
+
+/**
+ * Remove the redaction policy of an organization, or the global policy
+ */
+export const removePolicy = mutation({
+  args: {
+    organizationId: v.optional(v.string()),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const existing = await findPolicy(ctx, args.organizationId);
+    if (!existing) {
+      return false;
+    }
+    await ctx.db.delete(existing._id);
+    return true;
+  },
+});
+
+/**
+ * Get the redaction policy that applies to an organization
+ *
+ * Falls back to the global policy. The pseudonymization key is never
+ * returned.
+ */
+export const getPolicy = query({
+  args: {
+    organizationId: v.optional(v.string()),
+  },
+  returns: v.union(v.null(), redactionPolicyDocValidator),
+  handler: async (ctx, args) => {
+    const policy = await loadPolicy(ctx, args.organizationId);
+    if (!policy) {
+      return null;
+    }
+    const { pseudonymKey, ...rest } = policy;
+    return { ...rest, hasPseudonymKey: pseudonymKey !== undefined };
+  },
+});
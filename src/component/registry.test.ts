@@ -0,0 +1,140 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api.js";
+import schema from "./schema.js";
+
+const modules = import.meta.glob("./**/*.ts");
+
+// Serialized form of
+// v.object({ amount: v.number(), currency: v.union(v.literal("usd"), v.literal("eur")), note: v.optional(v.string()) })
+const invoiceMetadata = {
+  kind: "object",
+  fields: {
+    amount: { kind: "float64" },
+    currency: {
+      kind: "union",
+      members: [
+        { kind: "literal", value: "usd" },
+        { kind: "literal", value: "eur" },
+      ],
+    },
+    note: { kind: "string", optional: true },
+  },
+};
+
+const actor = { type: "user" as const, id: "user_1" };
+
+describe("Action registry", () => {
+  test("validates registered actions when events are written", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.registry.registerActions, {
+      actions: [
+        {
+          action: "invoice.paid",
+          description: "An invoice was paid",
+          severity: "low",
+          targetTypes: ["invoice"],
+          metadata: invoiceMetadata,
+        },
+      ],
+    });
+
+    const { created } = await t.mutation(api.lib.log, {
+      action: "invoice.paid",
+      actor,
+      targets: [{ type: "invoice", id: "inv_1" }],
+      metadata: { amount: 42, currency: "usd" },
+    });
+    expect(created).toBe(true);
+
+    await expect(
+      t.mutation(api.lib.log, {
+        action: "invoice.paid",
+        actor,
+        targets: [{ type: "invoice", id: "inv_1" }],
+        metadata: { amount: "42", currency: "usd" },
+      }),
+    ).rejects.toThrow("metadata.amount must be float64, got string");
+
+    await expect(
+      t.mutation(api.lib.log, {
+        action: "invoice.paid",
+        actor,
+        targets: [{ type: "invoice", id: "inv_1" }],
+        metadata: { amount: 42, currency: "gbp" },
+      }),
+    ).rejects.toThrow("metadata.currency does not match any allowed shape");
+
+    await expect(
+      t.mutation(api.lib.log, {
+        action: "invoice.paid",
+        actor,
+        targets: [{ type: "invoice", id: "inv_1" }],
+        metadata: { amount: 42, currency: "usd", extra: true },
+      }),
+    ).rejects.toThrow("metadata.extra is not allowed");
+
+    await expect(
+      t.mutation(api.lib.log, {
+        action: "invoice.paid",
+        actor,
+        targets: [{ type: "invoice", id: "inv_1" }],
+      }),
+    ).rejects.toThrow("metadata is required");
+
+    await expect(
+      t.mutation(api.lib.log, {
+        action: "invoice.paid",
+        actor,
+        targets: [{ type: "document", id: "doc_1" }],
+        metadata: { amount: 42, currency: "usd" },
+      }),
+    ).rejects.toThrow('target type "document" is not one of invoice');
+
+    // Unregistered actions are stored without checks
+    const unregistered = await t.mutation(api.lib.log, {
+      action: "custom.action",
+      actor,
+      targets: [{ type: "anything", id: "1" }],
+      metadata: { free: "form" },
+    });
+    expect(unregistered.created).toBe(true);
+  });
+
+  test("registering replaces the stored registry", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.registry.registerActions, {
+      actions: [
+        { action: "user.signed_in", severity: "low" },
+        { action: "invoice.paid", metadata: invoiceMetadata },
+      ],
+    });
+    const result = await t.mutation(api.registry.registerActions, {
+      actions: [
+        { action: "user.signed_in", severity: "medium" },
+        { action: "api_key.created", description: "An API key was created" },
+      ],
+    });
+    expect(result).toEqual({ registered: 2, removed: 1 });
+
+    expect(await t.query(api.registry.listActions, {})).toEqual([
+      { action: "api_key.created", description: "An API key was created" },
+      { action: "user.signed_in", severity: "medium" },
+    ]);
+
+    // The removed action no longer has its metadata checked
+    await t.mutation(api.lib.log, {
+      action: "invoice.paid",
+      actor,
+      targets: [],
+    });
+
+    await expect(
+      t.mutation(api.registry.registerActions, {
+        actions: [{ action: "user.signed_in" }, { action: "user.signed_in" }],
+      }),
+    ).rejects.toThrow("Each action may only be registered once");
+  });
+});
@@ -0,0 +1,239 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server.js";
+import type { QueryCtx } from "./_generated/server.js";
+import { actionDefinitionValidator } from "./schema.js";
+import type { AuditEvent } from "./schema.js";
+
+// =============================================================================
+// Serialized Validators
+// =============================================================================
+
+/**
+ * A Convex validator serialized by the client. Mirrors the validator's
+ * `kind` and its public fields.
+ */
+export type ValueSchema = { optional?: boolean } & (
+  | {
+      kind: "string" | "float64" | "int64" | "boolean" | "null" | "bytes";
+    }
+  | { kind: "any" }
+  | { kind: "literal"; value: unknown }
+  | { kind: "id"; tableName: string }
+  | { kind: "array"; element: ValueSchema }
+  | { kind: "object"; fields: Record<string, ValueSchema> }
+  | { kind: "record"; key: ValueSchema; value: ValueSchema }
+  | { kind: "union"; members: ValueSchema[] }
+);
+
+function typeName(value: unknown) {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof ArrayBuffer)
+  );
+}
+
+/**
+ * Check a value against a serialized validator
+ *
+ * Returns a description of the first mismatch, or null when the value is
+ * valid.
+ */
+export function checkValue(
+  schema: ValueSchema,
+  value: unknown,
+  path: string,
+): string | null {
+  const mismatch = `${path} must be ${schema.kind}, got ${typeName(value)}`;
+
+  switch (schema.kind) {
+    case "any":
+      return null;
+    case "string":
+    case "id":
+      return typeof value === "string" ? null : mismatch;
+    case "float64":
+      return typeof value === "number" ? null : mismatch;
+    case "int64":
+      return typeof value === "bigint" ? null : mismatch;
+    case "boolean":
+      return typeof value === "boolean" ? null : mismatch;
+    case "null":
+      return value === null ? null : mismatch;
+    case "bytes":
+      return value instanceof ArrayBuffer ? null : mismatch;
+    case "literal":
+      return value === schema.value
+        ? null
+        : `${path} must be ${JSON.stringify(schema.value)}`;
+    case "array": {
+      if (!Array.isArray(value)) {
+        return mismatch;
+      }
+      for (const [i, element] of value.entries()) {
+        const error = checkValue(schema.element, element, `${path}[${i}]`);
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    }
+    case "object": {
+      if (!isPlainObject(value)) {
+        return mismatch;
+      }
+      for (const [field, fieldSchema] of Object.entries(schema.fields)) {
+        if (value[field] === undefined) {
+          if (!fieldSchema.optional) {
+            return `${path}.${field} is required`;
+          }
+          continue;
+        }
+        const error = checkValue(fieldSchema, value[field], `${path}.${field}`);
+        if (error) {
+          return error;
+        }
+      }
+      for (const field of Object.keys(value)) {
+        if (!(field in schema.fields)) {
+          return `${path}.${field} is not allowed`;
+        }
+      }
+      return null;
+    }
+    case "record": {
+      if (!isPlainObject(value)) {
+        return mismatch;
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        const error =
+          checkValue(schema.key, key, `${path} key "${key}"`) ??
+          checkValue(schema.value, entry, `${path}.${key}`);
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    }
+    case "union":
+      return schema.members.some(
+        (member) => checkValue(member, value, path) === null,
+      )
+        ? null
+        : `${path} does not match any allowed shape`;
+  }
+}
+
+// =============================================================================
+// Write-time Checks
+// =============================================================================
+
+/**
+ * Reject events whose payload does not match their registered action
+ *
+ * Actions that are not registered are accepted as they are.
+ */
+export async function checkRegisteredAction(
+  ctx: QueryCtx,
+  event: Pick<AuditEvent, "action" | "metadata" | "targets">,
+) {
+  const definition = await ctx.db
+    .query("auditActions")
+    .withIndex("by_action", (q) => q.eq("action", event.action))
+    .unique();
+  if (!definition) {
+    return;
+  }
+
+  if (definition.targetTypes) {
+    for (const target of event.targets) {
+      if (!definition.targetTypes.includes(target.type)) {
+        throw new Error(
+          `Invalid audit event for "${event.action}": target type ` +
+            `"${target.type}" is not one of ${definition.targetTypes.join(", ")}`,
+        );
+      }
+    }
+  }
+
+  if (definition.metadata) {
+    const schema = definition.metadata as ValueSchema;
+    const error =
+      event.metadata === undefined
+        ? schema.optional
+          ? null
+          : "metadata is required"
+        : checkValue(schema, event.metadata, "metadata");
+    if (error) {
+      throw new Error(`Invalid audit event for "${event.action}": ${error}`);
+    }
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Replace the registered actions
+ *
+ * Actions missing from `actions` are unregistered, so the stored registry
+ * always matches the one the app was deployed with.
+ */
+export const registerActions = mutation({
+  args: {
+    actions: v.array(actionDefinitionValidator),
+  },
+  returns: v.object({
+    registered: v.number(),
+    removed: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    const incoming = new Map(args.actions.map((def) => [def.action, def]));
+    if (incoming.size !== args.actions.length) {
+      throw new Error("Each action may only be registered once");
+    }
+
+    let removed = 0;
+    for (const existing of await ctx.db.query("auditActions").collect()) {
+      const definition = incoming.get(existing.action);
+      if (definition) {
+        await ctx.db.replace(existing._id, definition);
+        incoming.delete(existing.action);
+      } else {
+        await ctx.db.delete(existing._id);
+        removed++;
+      }
+    }
+    for (const definition of incoming.values()) {
+      await ctx.db.insert("auditActions", definition);
+    }
+
+    return { registered: args.actions.length, removed };
+  },
+});
+
+/**
+ * List the registered actions, sorted by name
+ */
+export const listActions = query({
+  args: {},
+  returns: v.array(actionDefinitionValidator),
+  handler: async (ctx) => {
+    const definitions = await ctx.db.query("auditActions").collect();
+    return definitions
+      .map(({ _id, _creationTime, ...definition }) => definition)
+      .sort((a, b) => a.action.localeCompare(b.action));
+  },
+});
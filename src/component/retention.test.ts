@@ -0,0 +1,230 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, expect, test, describe, vi } from "vitest";
+import { api, internal } from "./_generated/api.js";
+import schema from "./schema.js";
+
+const modules = import.meta.glob("./**/*.ts");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Retention policies", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("setPolicy upserts by organization, action and tag", async () => {
+    const t = convexTest(schema, modules);
+
+    const first = await t.mutation(api.retention.setPolicy, {
+      action: "security.*",
+      retentionDays: 365,
+    });
+    const second = await t.mutation(api.retention.setPolicy, {
+      action: "security.*",
+      retentionDays: 7 * 365,
+    });
+    await t.mutation(api.retention.setPolicy, {
+      organizationId: "org_1",
+      action: "resource.read",
+      retentionDays: 30,
+    });
+
+    expect(second).toBe(first);
+
+    const all = await t.query(api.retention.listPolicies, {});
+    expect(all.length).toBe(2);
+
+    const forOther = await t.query(api.retention.listPolicies, {
+      organizationId: "org_2",
+    });
+    expect(forOther.map((p) => p.retentionDays)).toEqual([7 * 365]);
+  });
+
+  test("setPolicy rejects wildcards outside the end of the action", async () => {
+    const t = convexTest(schema, modules);
+
+    await expect(
+      t.mutation(api.retention.setPolicy, {
+        action: "*.deleted",
+        retentionDays: 30,
+      }),
+    ).rejects.toThrow('"*" is only allowed at the end');
+  });
+
+  test("enforce purges only expired events governed by a policy", async () => {
+    const t = convexTest(schema, modules);
+    const now = Date.now();
+
+    const log = (action: string, ageDays: number, tags?: string[]) =>
+      t.mutation(api.lib.log, {
+        action,
+        actor: { type: "user", id: "user_1" },
+        targets: [],
+        organizationId: "org_1",
+        occurredAt: now - ageDays * DAY_MS,
+        tags,
+      });
+
+    await log("resource.read", 40);
+    await log("resource.read", 10);
+    await log("security.alert", 400);
+    await log("user.signed_in", 400);
+    await log("resource.read", 40, ["legal"]);
+
+    await t.mutation(api.retention.setPolicy, {
+      action: "resource.read",
+      retentionDays: 30,
+    });
+    await t.mutation(api.retention.setPolicy, {
+      action: "security.*",
+      retentionDays: 7 * 365,
+    });
+    await t.mutation(api.retention.setPolicy, {
+      tag: "legal",
+      action: "resource.*",
+      retentionDays: 10 * 365,
+    });
+
+    const result = await t.mutation(api.retention.enforce, {});
+    expect(result.deleted).toBe(1);
+
+    const remaining = await t.query(api.lib.list, {});
+    expect(
+      remaining.events.map((e) => [e.action, e.tags ?? []]).sort(),
+    ).toEqual(
+      [
+        ["resource.read", []],
+        ["resource.read", ["legal"]],
+        ["security.alert", []],
+        ["user.signed_in", []],
+      ].sort(),
+    );
+
+    const chain = await t.query(api.chain.verifyChain, {
+      organizationId: "org_1",
+    });
+    expect(chain.valid).toBe(true);
+  });
+
+  test("enforce continues in scheduled batches", async () => {
+    const t = convexTest(schema, modules);
+    const now = Date.now();
+
+    for (let i = 0; i < 5; i++) {
+      await t.mutation(api.lib.log, {
+        action: "resource.read",
+        actor: { type: "user", id: "user_1" },
+        targets: [],
+        occurredAt: now - (40 + i) * DAY_MS,
+      });
+    }
+    await t.mutation(api.retention.setPolicy, {
+      action: "resource.read",
+      retentionDays: 30,
+    });
+
+    const first = await t.mutation(api.retention.enforce, { batchSize: 2 });
+    expect(first.deleted).toBe(2);
+    expect(first.hasMore).toBe(true);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const remaining = await t.query(api.lib.list, {});
+    expect(remaining.events.length).toBe(0);
+  });
+
+  test("later runs resume each policy where the last one stopped", async () => {
+    const t = convexTest(schema, modules);
+    const now = Date.now();
+
+    const log = (action: string, ageDays: number) =>
+      t.mutation(api.lib.log, {
+        action,
+        actor: { type: "user", id: "user_1" },
+        targets: [],
+        occurredAt: now - ageDays * DAY_MS,
+      });
+    for (let i = 0; i < 3; i++) {
+      await log("user.signed_in", 400 + i);
+    }
+    await log("resource.read", 40);
+    await t.mutation(api.retention.setPolicy, {
+      action: "resource.read",
+      retentionDays: 30,
+    });
+
+    const first = await t.mutation(api.retention.enforce, { batchSize: 2 });
+    expect(first).toMatchObject({ deleted: 0, scanned: 2, hasMore: true });
+    // A run is in progress, so another one doesn't start
+    expect(await t.mutation(internal.retention.enforceBatch, {})).toEqual({
+      deleted: 0,
+      held: 0,
+      scanned: 0,
+      hasMore: true,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect((await t.query(api.lib.list, {})).events.length).toBe(3);
+
+    // Events kept by the first run are not read again
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    await log("resource.read", 31);
+    expect(await t.mutation(api.retention.enforce, {})).toEqual({
+      deleted: 1,
+      held: 0,
+      scanned: 1,
+      hasMore: false,
+    });
+  });
+
+  test("previewPolicy counts events the policy would purge", async () => {
+    const t = convexTest(schema, modules);
+    const now = Date.now();
+
+    for (const [action, ageDays] of [
+      ["resource.read", 40],
+      ["resource.read", 50],
+      ["resource.read", 5],
+      ["resource.updated", 50],
+    ] as const) {
+      await t.mutation(api.lib.log, {
+        action,
+        actor: { type: "user", id: "user_1" },
+        targets: [],
+        organizationId: "org_1",
+        occurredAt: now - ageDays * DAY_MS,
+      });
+    }
+
+    const preview = await t.query(api.retention.previewPolicy, {
+      organizationId: "org_1",
+      action: "resource.read",
+      retentionDays: 30,
+    });
+
+    expect(preview).toEqual({ wouldPurge: 2, scanned: 3, isComplete: true });
+
+    // Nothing was deleted
+    const events = await t.query(api.lib.list, { organizationId: "org_1" });
+    expect(events.events.length).toBe(4);
+
+    // Held events would not be purged
+    await t.mutation(api.legalHolds.createHold, {
+      scope: { type: "organization", organizationId: "org_1" },
+      reason: "Audit",
+      createdBy: { type: "user", id: "admin" },
+    });
+    expect(
+      (
+        await t.query(api.retention.previewPolicy, {
+          organizationId: "org_1",
+          action: "resource.read",
+          retentionDays: 30,
+        })
+      ).wouldPurge,
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,514 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server.js";
+import type { MutationCtx } from "./_generated/server.js";
+import { internal } from "./_generated/api.js";
+import { retentionPolicyValidator } from "./schema.js";
+import type { AuditEvent, RetentionPolicy } from "./schema.js";
+import { deleteEvents } from "./events.js";
+import { findHold, loadActiveHolds } from "./legalHolds.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A run whose last batch is older than this has died and may be replaced
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+const retentionPolicyDocValidator = retentionPolicyValidator.extend({
+  _id: v.string(),
+  _creationTime: v.number(),
+});
+
+const enforcementResultValidator = v.object({
+  deleted: v.number(),
+  held: v.number(),
+  scanned: v.number(),
+  hasMore: v.boolean(),
+});
+
+// =============================================================================
+// Policy Matching
+// =============================================================================
+
+type PolicySelector = Pick<
+  RetentionPolicy,
+  "organizationId" | "action" | "tag" | "retentionDays"
+>;
+
+/**
+ * Reject action patterns with a wildcard anywhere but the end
+ */
+export function validateActionPattern(action: string | undefined) {
+  if (action === undefined) {
+    return;
+  }
+  const wildcard = action.indexOf("*");
+  if (wildcard !== -1 && wildcard !== action.length - 1) {
+    throw new Error(
+      `Invalid action pattern "${action}": "*" is only allowed at the end`,
+    );
+  }
+}
+
+/**
+ * Match an action against an exact action or a "prefix.*" pattern
+ */
+export function matchesAction(pattern: string | undefined, action: string) {
+  if (pattern === undefined) {
+    return true;
+  }
+  if (pattern.endsWith("*")) {
+    return action.startsWith(pattern.slice(0, -1));
+  }
+  return action === pattern;
+}
+
+function actionSpecificity(pattern: string | undefined) {
+  if (pattern === undefined) {
+    return 0;
+  }
+  // Exact actions beat any prefix of the same length
+  return pattern.endsWith("*")
+    ? 2 * (pattern.length - 1)
+    : 2 * pattern.length + 1;
+}
+
+/**
+ * Order policies from least to most specific
+ *
+ * Organization-specific policies beat global ones, then tag policies beat
+ * untagged ones, then the more specific action pattern wins. Remaining ties
+ * keep events for longer.
+ */
+function compareSpecificity(a: PolicySelector, b: PolicySelector) {
+  return (
+    Number(a.organizationId !== undefined) -
+      Number(b.organizationId !== undefined) ||
+    Number(a.tag !== undefined) - Number(b.tag !== undefined) ||
+    actionSpecificity(a.action) - actionSpecificity(b.action) ||
+    a.retentionDays - b.retentionDays
+  );
+}
+
+/**
+ * Find the policy that governs an event, or null if the event is kept forever
+ */
+export function selectPolicy<Policy extends PolicySelector>(
+  policies: Policy[],
+  event: Pick<AuditEvent, "organizationId" | "action" | "tags">,
+): Policy | null {
+  let selected: Policy | null = null;
+  for (const policy of policies) {
+    const matches =
+      (policy.organizationId === undefined ||
+        policy.organizationId === event.organizationId) &&
+      matchesAction(policy.action, event.action) &&
+      (policy.tag === undefined || (event.tags ?? []).includes(policy.tag));
+    if (
+      matches &&
+      (selected === null || compareSpecificity(policy, selected) > 0)
+    ) {
+      selected = policy;
+    }
+  }
+  return selected;
+}
+
+// =============================================================================
+// Policy Management
+// =============================================================================
+
+/**
+ * Create or update a retention policy
+ *
+ * Policies are keyed by organization, action pattern and tag; setting a
+ * policy with the same key replaces its retention period.
+ */
+export const setPolicy = mutation({
+  args: {
+    organizationId: v.optional(v.string()),
+    action: v.optional(v.string()),
+    tag: v.optional(v.string()),
+    retentionDays: v.number(),
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    validateActionPattern(args.action);
+    if (!(args.retentionDays > 0)) {
+      throw new Error("retentionDays must be greater than zero");
+    }
+
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("retentionPolicies")
+      .withIndex("by_organizationId_and_action_and_tag", (q) =>
+        q
+          .eq("organizationId", args.organizationId)
+          .eq("action", args.action)
+          .eq("tag", args.tag),
+      )
+      .unique();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        retentionDays: args.retentionDays,
+        updatedAt: now,
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("retentionPolicies", {
+      ...args,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Remove a retention policy
+ */
+export const removePolicy = mutation({
+  args: {
+    policyId: v.string(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const policyId = ctx.db.normalizeId("retentionPolicies", args.policyId);
+    if (!policyId || !(await ctx.db.get(policyId))) {
+      return false;
+    }
+    await ctx.db.delete(policyId);
+    // Events the policy kept may now be governed by others
+    const state = await ctx.db.query("retentionState").first();
+    if (state) {
+      await ctx.db.patch(state._id, { cursors: [] });
+    }
+    return true;
+  },
+});
+
+/**
+ * List retention policies
+ *
+ * With an organization, returns the policies that apply to it: its own and
+ * the global ones. Without one, returns every policy.
+ */
+export const listPolicies = query({
+  args: {
+    organizationId: v.optional(v.string()),
+  },
+  returns: v.array(retentionPolicyDocValidator),
+  handler: async (ctx, args) => {
+    if (args.organizationId === undefined) {
+      return await ctx.db.query("retentionPolicies").collect();
+    }
+
+    const global = await ctx.db
+      .query("retentionPolicies")
+      .withIndex("by_organizationId_and_action_and_tag", (q) =>
+        q.eq("organizationId", undefined),
+      )
+      .collect();
+    const scoped = await ctx.db
+      .query("retentionPolicies")
+      .withIndex("by_organizationId_and_action_and_tag", (q) =>
+        q.eq("organizationId", args.organizationId),
+      )
+      .collect();
+    return [...global, ...scoped];
+  },
+});
+
+/**
+ * Preview how many events a policy would purge
+ *
+ * The policy is evaluated alongside the existing ones, so events governed by
+ * a more specific policy or under a legal hold are not counted. At most
+ * `limit` expired events are scanned; `isComplete` is false when the count
+ * was cut short.
+ */
+export const previewPolicy = query({
+  args: {
+    organizationId: v.optional(v.string()),
+    action: v.optional(v.string()),
+    tag: v.optional(v.string()),
+    retentionDays: v.number(),
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({
+    wouldPurge: v.number(),
+    scanned: v.number(),
+    isComplete: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    validateActionPattern(args.action);
+    const limit = args.limit ?? 10000;
+    const candidate: PolicySelector = {
+      organizationId: args.organizationId,
+      action: args.action,
+      tag: args.tag,
+      retentionDays: args.retentionDays,
+    };
+    const cutoff = Date.now() - args.retentionDays * DAY_MS;
+
+    const existing = await ctx.db.query("retentionPolicies").collect();
+    const policies: PolicySelector[] = [
+      ...existing.filter(
+        (p) =>
+          p.organizationId !== args.organizationId ||
+          p.action !== args.action ||
+          p.tag !== args.tag,
+      ),
+      candidate,
+    ];
+
+    const events = await (
+      args.organizationId !== undefined
+        ? ctx.db
+            .query("auditEvents")
+            .withIndex("by_organizationId_and_occurredAt", (q) =>
+              q
+                .eq("organizationId", args.organizationId)
+                .lt("occurredAt", cutoff),
+            )
+        : ctx.db
+            .query("auditEvents")
+            .withIndex("by_occurredAt", (q) => q.lt("occurredAt", cutoff))
+    ).take(limit);
+
+    const holds = await loadActiveHolds(ctx);
+    const wouldPurge = events.filter(
+      (event) =>
+        selectPolicy(policies, event) === candidate && !findHold(holds, event),
+    ).length;
+
+    return {
+      wouldPurge,
+      scanned: events.length,
+      isComplete: events.length < limit,
+    };
+  },
+});
+
+// =============================================================================
+// Enforcement
+// =============================================================================
+
+export type ScanPosition = { occurredAt: number; creationTime: number };
+
+/**
+ * Read the next events older than `cutoff`, oldest first, optionally within
+ * one organization
+ */
+export async function scanBefore(
+  ctx: MutationCtx,
+  cutoff: number,
+  after: ScanPosition | null,
+  limit: number,
+  organizationId?: string,
+) {
+  // Events at `occurredAt`, created after `creationTime` when given
+  const at = (occurredAt: number, creationTime: number) =>
+    organizationId === undefined
+      ? ctx.db
+          .query("auditEvents")
+          .withIndex("by_occurredAt", (q) =>
+            q.eq("occurredAt", occurredAt).gt("_creationTime", creationTime),
+          )
+      : ctx.db
+          .query("auditEvents")
+          .withIndex("by_organizationId_and_occurredAt", (q) =>
+            q
+              .eq("organizationId", organizationId)
+              .eq("occurredAt", occurredAt)
+              .gt("_creationTime", creationTime),
+          );
+  // Events after `from` (or from the start) and before `cutoff`
+  const between = (from: number | null) =>
+    organizationId === undefined
+      ? ctx.db.query("auditEvents").withIndex("by_occurredAt", (q) => {
+          const range = from === null ? q : q.gt("occurredAt", from);
+          return range.lt("occurredAt", cutoff);
+        })
+      : ctx.db
+          .query("auditEvents")
+          .withIndex("by_organizationId_and_occurredAt", (q) => {
+            const org = q.eq("organizationId", organizationId);
+            const range = from === null ? org : org.gt("occurredAt", from);
+            return range.lt("occurredAt", cutoff);
+          });
+
+  if (after === null) {
+    return await between(null).take(limit);
+  }
+
+  // Finish events sharing the last timestamp before moving past it
+  const sameTime = await at(after.occurredAt, after.creationTime).take(limit);
+  const later = await between(after.occurredAt).take(limit - sameTime.length);
+  return [...sameTime, ...later];
+}
+
+async function getState(ctx: MutationCtx) {
+  const state = await ctx.db.query("retentionState").first();
+  if (state) {
+    return state;
+  }
+  const stateId = await ctx.db.insert("retentionState", {
+    cursors: [],
+    cursorsResetAt: Date.now(),
+  });
+  return (await ctx.db.get(stateId))!;
+}
+
+/**
+ * Start a retention run, unless one is already in progress
+ */
+async function startRetentionRun(ctx: MutationCtx, batchSize: number) {
+  const state = await getState(ctx);
+  const now = Date.now();
+  if (
+    state.runStartedAt !== undefined &&
+    now - (state.lastBatchAt ?? state.runStartedAt) < STALE_RUN_MS
+  ) {
+    return { deleted: 0, held: 0, scanned: 0, hasMore: true };
+  }
+
+  const resetCursors = now - state.cursorsResetAt >= DAY_MS;
+  await ctx.db.patch(state._id, {
+    runStartedAt: now,
+    lastBatchAt: now,
+    ...(resetCursors ? { cursors: [], cursorsResetAt: now } : {}),
+  });
+  return await enforceRetentionBatch(ctx, { startedAt: now, batchSize });
+}
+
+/**
+ * Purge up to `batchSize` scanned events, continuing each policy's scan
+ * from where the previous batch left it
+ *
+ * A policy scans the events in its organization (or all of them) that are
+ * older than its own cutoff, and purges those it governs.
+ */
+async function enforceRetentionBatch(
+  ctx: MutationCtx,
+  args: { startedAt: number; batchSize: number },
+) {
+  const state = await getState(ctx);
+  if (state.runStartedAt !== args.startedAt) {
+    // Replaced by a newer run
+    return { deleted: 0, held: 0, scanned: 0, hasMore: false };
+  }
+
+  const policies = await ctx.db.query("retentionPolicies").collect();
+  const positions = new Map(
+    state.cursors.map((cursor) => [cursor.policyId, cursor.after]),
+  );
+  // Events under a legal hold outlive their retention period
+  const holds = await loadActiveHolds(ctx);
+
+  let budget = args.batchSize;
+  let deleted = 0;
+  let held = 0;
+  for (const policy of policies) {
+    if (budget === 0) {
+      break;
+    }
+    const cutoff = args.startedAt - policy.retentionDays * DAY_MS;
+    const events = await scanBefore(
+      ctx,
+      cutoff,
+      positions.get(policy._id) ?? null,
+      budget,
+      policy.organizationId,
+    );
+    budget -= events.length;
+    if (events.length === 0) {
+      continue;
+    }
+
+    // Resuming at a position rereads its timestamp, which a lengthened
+    // retention period may no longer expire
+    const expired = events.filter(
+      (event) =>
+        event.occurredAt < cutoff && selectPolicy(policies, event) === policy,
+    );
+    const purgeable = expired.filter((event) => !findHold(holds, event));
+    await deleteEvents(ctx, purgeable);
+    deleted += purgeable.length;
+    held += expired.length - purgeable.length;
+
+    const last = events[events.length - 1];
+    positions.set(policy._id, {
+      occurredAt: last.occurredAt,
+      creationTime: last._creationTime,
+    });
+  }
+
+  const hasMore = budget === 0;
+  await ctx.db.patch(state._id, {
+    runStartedAt: hasMore ? args.startedAt : undefined,
+    lastBatchAt: Date.now(),
+    cursors: policies
+      .filter((policy) => positions.has(policy._id))
+      .map((policy) => ({
+        policyId: policy._id,
+        after: positions.get(policy._id)!,
+      })),
+  });
+  if (hasMore) {
+    await ctx.scheduler.runAfter(0, internal.retention.enforceBatch, {
+      startedAt: args.startedAt,
+      batchSize: args.batchSize,
+    });
+  }
+
+  return {
+    deleted,
+    held,
+    scanned: args.batchSize - budget,
+    hasMore,
+  };
+}
+
+/**
+ * Start enforcing retention policies now
+ *
+ * Purges the first batch of expired events and schedules the remaining
+ * batches in the background. Does nothing while a run is already in
+ * progress.
+ */
+export const enforce = mutation({
+  args: {
+    batchSize: v.optional(v.number()),
+  },
+  returns: enforcementResultValidator,
+  handler: async (ctx, args) => {
+    return await startRetentionRun(ctx, args.batchSize ?? 100);
+  },
+});
+
+/**
+ * Internal function to purge one batch of expired events
+ *
+ * Without `startedAt`, starts a new run (as the hourly cron does). Batches
+ * reschedule themselves until every policy's scan has caught up.
+ */
+export const enforceBatch = internalMutation({
+  args: {
+    startedAt: v.optional(v.number()),
+    batchSize: v.optional(v.number()),
+  },
+  returns: enforcementResultValidator,
+  handler: async (ctx, args) => {
+    const batchSize = args.batchSize ?? 100;
+    if (args.startedAt === undefined) {
+      return await startRetentionRun(ctx, batchSize);
+    }
+    return await enforceRetentionBatch(ctx, {
+      startedAt: args.startedAt,
+      batchSize,
+    });
+  },
+});
@@ -1,5 +1,6 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v, type Infer } from "convex/values";
+import { eventFiltersValidator } from "./planner.js";
 
 /**
  * Actor types for audit events
@@ -107,6 +108,9 @@ export const STANDARD_ACTIONS = {
   API_KEY_USED: "api_key.used",
   SECURITY_ALERT: "security.alert",
   SUSPICIOUS_ACTIVITY: "security.suspicious_activity",
+  LEGAL_HOLD_CREATED: "legal_hold.created",
+  LEGAL_HOLD_RELEASED: "legal_hold.released",
+  ACTOR_FORGOTTEN: "actor.forgotten",
 
   // Settings events
   SETTINGS_UPDATED: "settings.updated",
@@ -118,6 +122,42 @@ export const STANDARD_ACTIONS = {
 export type StandardAction =
   (typeof STANDARD_ACTIONS)[keyof typeof STANDARD_ACTIONS];
 
+/**
+ * One field changed by the action, with its value before and after
+ *
+ * `field` is a dot-separated path into the changed document. Redacted
+ * changes record that the field changed without storing either value.
+ */
+export const changeValidator = v.object({
+  field: v.string(),
+  kind: v.union(v.literal("added"), v.literal("removed"), v.literal("changed")),
+  before: v.optional(v.any()),
+  after: v.optional(v.any()),
+  redacted: v.optional(v.boolean()),
+});
+
+/**
+ * Event fields that can be encrypted at rest
+ */
+export const encryptableFieldValidator = v.union(
+  v.literal("metadata"),
+  v.literal("actor.metadata"),
+  v.literal("context"),
+);
+
+/**
+ * Envelope holding an event's encrypted fields
+ *
+ * The fields are encrypted with a data key generated for the event, and the
+ * data key is wrapped with the key encryption key named by `keyId`.
+ */
+export const encryptedFieldsValidator = v.object({
+  keyId: v.string(),
+  dataKey: v.string(), // Wrapped data key, base64 (IV + ciphertext)
+  ciphertext: v.string(), // Encrypted fields, base64 (IV + ciphertext)
+  fields: v.array(encryptableFieldValidator),
+});
+
 /**
  * Audit event schema
  */
@@ -139,6 +179,9 @@ export const auditEventValidator = v.object({
   // Custom metadata
   metadata: v.optional(v.record(v.string(), v.any())),
 
+  // Field-level diff of the document the action changed
+  changes: v.optional(v.array(changeValidator)),
+
   // Organization scope (optional - for multi-tenant apps)
   organizationId: v.optional(v.string()),
 
@@ -160,31 +203,797 @@ export const auditEventValidator = v.object({
 
   // Tags for categorization and filtering
   tags: v.optional(v.array(v.string())),
+
+  // Fields rewritten by a redaction policy before the event was stored
+  redaction: v.optional(
+    v.object({
+      policyId: v.string(),
+      policyVersion: v.number(),
+      fields: v.array(v.string()), // Paths such as "actor.email"
+    }),
+  ),
+
+  // Fields stored encrypted instead of in plaintext (see `encryption.ts`)
+  encryption: v.optional(encryptedFieldsValidator),
+
+  // Denormalized text for full-text search (see `search.ts`)
+  searchText: v.optional(v.string()),
+
+  // Tamper-evident hash chain (per organization)
+  sequence: v.optional(v.number()), // Position of the event in its chain
+  previousHash: v.optional(v.string()), // Hash of the preceding event
+  hash: v.optional(v.string()), // Hash of this event's canonical content
+});
+
+/**
+ * One target of an audit event, stored separately so events can be looked
+ * up by the resources they affected
+ */
+export const auditEventTargetValidator = v.object({
+  eventId: v.id("auditEvents"),
+  targetType: v.string(),
+  targetId: v.string(),
+  organizationId: v.optional(v.string()),
+  occurredAt: v.number(),
+});
+
+/**
+ * One changed field of an audit event, stored separately so events can be
+ * looked up by the fields they changed
+ *
+ * Each change is indexed under its field and every parent path, so a change
+ * to "address.city" is also found under "address".
+ */
+export const auditEventChangeValidator = v.object({
+  eventId: v.id("auditEvents"),
+  field: v.string(),
+  organizationId: v.optional(v.string()),
+  occurredAt: v.number(),
+});
+
+/**
+ * Head of an organization's hash chain
+ */
+export const chainHeadValidator = v.object({
+  organizationId: v.optional(v.string()),
+  lastSequence: v.number(),
+  lastHash: v.string(),
+});
+
+/**
+ * Checkpoint recording a sanctioned change to a hash chain
+ *
+ * - "update": an event's content was changed after it was written. `hash` is
+ *   the hash of the updated content; `previousHash` is the hash the event was
+ *   originally written with (which later events still link to).
+ * - "delete": events `fromSequence`..`toSequence` were removed. `previousHash`
+ *   is what the first removed event linked to, and `hash` is the hash of the
+ *   last removed event (what the next event links to).
+ */
+export const chainCheckpointValidator = v.object({
+  organizationId: v.optional(v.string()),
+  kind: v.union(v.literal("update"), v.literal("delete")),
+  fromSequence: v.number(),
+  toSequence: v.number(),
+  eventId: v.optional(v.string()),
+  previousHash: v.optional(v.string()),
+  hash: v.string(),
+  recordedAt: v.number(),
+});
+
+/**
+ * Retention policy for audit events
+ *
+ * A policy applies to events in `organizationId` (or every organization when
+ * omitted) whose action matches `action` and whose tags include `tag`. When
+ * several policies match an event, the most specific one wins.
+ */
+export const retentionPolicyValidator = v.object({
+  organizationId: v.optional(v.string()),
+  action: v.optional(v.string()), // Exact action or prefix pattern, e.g. "security.*"
+  tag: v.optional(v.string()),
+  retentionDays: v.number(),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+/**
+ * Position in the time index of an event a scan has reached
+ *
+ * Scans resume from an explicit position rather than a pagination cursor
+ * because the event a cursor points at may have been deleted since.
+ */
+export const scanPositionValidator = v.object({
+  occurredAt: v.number(),
+  creationTime: v.number(),
+});
+
+/**
+ * Progress of retention enforcement (a single document)
+ *
+ * Each policy keeps the position its scan has reached, so an hourly run only
+ * reads events that expired since the previous one. `runStartedAt` is set
+ * while a run is in progress. The positions are cleared once a day
+ * (`cursorsResetAt`) and when a policy is removed, so events left behind a
+ * position (held then, governed by another policy, or written backdated)
+ * are looked at again.
+ */
+export const retentionStateValidator = v.object({
+  runStartedAt: v.optional(v.number()),
+  lastBatchAt: v.optional(v.number()),
+  cursors: v.array(
+    v.object({
+      policyId: v.id("retentionPolicies"),
+      after: scanPositionValidator,
+    }),
+  ),
+  cursorsResetAt: v.number(),
+});
+
+/**
+ * What a legal hold freezes: every event in an organization, every event by
+ * an actor, or every event that targets a resource. Actor and target holds
+ * can optionally be narrowed to one organization.
+ */
+export const legalHoldScopeValidator = v.union(
+  v.object({
+    type: v.literal("organization"),
+    organizationId: v.string(),
+  }),
+  v.object({
+    type: v.literal("actor"),
+    actorType: actorTypeValidator,
+    actorId: v.string(),
+    organizationId: v.optional(v.string()),
+  }),
+  v.object({
+    type: v.literal("target"),
+    targetType: v.string(),
+    targetId: v.string(),
+    organizationId: v.optional(v.string()),
+  }),
+);
+
+/**
+ * Legal hold preventing audit events from being edited or purged
+ */
+export const legalHoldValidator = v.object({
+  scope: legalHoldScopeValidator,
+  reason: v.string(),
+  createdBy: actorValidator,
+  createdAt: v.number(),
+  expiresAt: v.optional(v.number()),
+  releasedAt: v.optional(v.number()),
+  releasedBy: v.optional(actorValidator),
+  releaseReason: v.optional(v.string()),
+});
+
+/**
+ * Filters selecting the events included in an export (same as `lib.list`)
+ */
+export const exportFiltersValidator = eventFiltersValidator;
+
+export const exportFormatValidator = v.union(
+  v.literal("csv"),
+  v.literal("ndjson"),
+);
+
+/**
+ * Export job writing filtered audit events to a file in storage
+ */
+export const exportValidator = v.object({
+  format: exportFormatValidator,
+  filters: exportFiltersValidator,
+  requestedBy: actorValidator,
+  status: v.union(
+    v.literal("pending"),
+    v.literal("running"),
+    v.literal("completed"),
+    v.literal("failed"),
+  ),
+  rowCount: v.number(), // Events written so far
+  storageId: v.optional(v.id("_storage")), // Set once the file is stored
+  error: v.optional(v.string()),
+  createdAt: v.number(),
+  completedAt: v.optional(v.number()),
+});
+
+/**
+ * Right-to-erasure job replacing an actor's identity with a pseudonym
+ *
+ * The job first rewrites events the actor performed, then events that
+ * target the actor. `actorId` is cleared once the job completes, so only the
+ * pseudonym remains.
+ */
+export const erasureJobValidator = v.object({
+  actorType: actorTypeValidator,
+  actorId: v.optional(v.string()),
+  pseudonym: v.string(),
+  requestedBy: actorValidator,
+  reason: v.optional(v.string()),
+  status: v.union(v.literal("running"), v.literal("completed")),
+  phase: v.union(v.literal("actor"), v.literal("targets")),
+  cursor: v.optional(v.string()), // Position within the current phase
+  batchSize: v.number(),
+  eventsRewritten: v.number(),
+  skippedHeld: v.number(), // Events left untouched because of a legal hold
+  certificateEventId: v.optional(v.string()), // Set once the job completes
+  createdAt: v.number(),
+  completedAt: v.optional(v.number()),
+});
+
+/**
+ * Person whose audit data an access report collects: events they performed,
+ * and events targeting them (targets of the same type and ID)
+ */
+export const accessReportSubjectValidator = v.object({
+  type: actorTypeValidator,
+  id: v.string(),
+});
+
+export const accessReportFormatValidator = v.union(
+  v.literal("json"),
+  v.literal("html"),
+);
+
+/**
+ * Summary of an access report bundle, stored next to it
+ */
+export const accessReportManifestValidator = v.object({
+  subject: accessReportSubjectValidator,
+  format: accessReportFormatValidator,
+  generatedAt: v.number(),
+  eventCount: v.number(),
+  actorEventCount: v.number(), // Events the subject performed
+  targetEventCount: v.number(), // Events that targeted the subject
+  organizations: v.array(v.string()),
+  actions: v.record(v.string(), v.number()), // Event count per action
+  firstOccurredAt: v.optional(v.number()),
+  lastOccurredAt: v.optional(v.number()),
+  sha256: v.string(), // Checksum of the bundle file
+});
+
+/**
+ * Data subject access report job collecting a person's audit data across
+ * organizations into a file in storage
+ */
+export const accessReportValidator = v.object({
+  subject: accessReportSubjectValidator,
+  format: accessReportFormatValidator,
+  requestedBy: actorValidator,
+  status: v.union(
+    v.literal("pending"),
+    v.literal("running"),
+    v.literal("completed"),
+    v.literal("failed"),
+  ),
+  eventCount: v.number(), // Events collected so far
+  storageId: v.optional(v.id("_storage")), // Bundle, set once stored
+  manifestStorageId: v.optional(v.id("_storage")),
+  manifest: v.optional(accessReportManifestValidator),
+  error: v.optional(v.string()),
+  createdAt: v.number(),
+  completedAt: v.optional(v.number()),
+});
+
+/**
+ * Webhook subscription streaming an organization's audit events to an
+ * external endpoint
+ *
+ * `actions` holds exact actions or prefix patterns ("security.*"); `tags`
+ * matches events carrying any of the tags. Omitted filters match everything.
+ */
+export const webhookSubscriptionValidator = v.object({
+  organizationId: v.string(),
+  url: v.string(),
+  secret: v.string(), // HMAC-SHA256 signing secret
+  actions: v.optional(v.array(v.string())),
+  tags: v.optional(v.array(v.string())),
+  enabled: v.boolean(),
+  maxAttempts: v.number(), // Attempts before a delivery is dead-lettered
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+/**
+ * Delivery of one audit event to one webhook subscription
+ *
+ * `attemptCount` counts attempts since the delivery was enqueued or last
+ * replayed; every attempt is kept in `webhookAttempts`.
+ */
+export const webhookDeliveryValidator = v.object({
+  subscriptionId: v.id("webhookSubscriptions"),
+  eventId: v.id("auditEvents"),
+  organizationId: v.string(),
+  status: v.union(
+    v.literal("pending"),
+    v.literal("delivered"),
+    v.literal("dead_letter"),
+  ),
+  attemptCount: v.number(),
+  nextAttemptAt: v.optional(v.number()),
+  lastError: v.optional(v.string()),
+  createdAt: v.number(),
+  deliveredAt: v.optional(v.number()),
+});
+
+/**
+ * One HTTP request made for a webhook delivery
+ */
+export const webhookAttemptValidator = v.object({
+  deliveryId: v.id("webhookDeliveries"),
+  attemptedAt: v.number(),
+  statusCode: v.optional(v.number()),
+  error: v.optional(v.string()),
+});
+
+/**
+ * Pre-aggregated event count for one time bucket
+ *
+ * There is one row per organization, bucket and combination of action,
+ * actor type and result. Rows without `organizationId` count events that
+ * have none; totals across organizations are summed when read.
+ */
+export const auditCounterValidator = v.object({
+  organizationId: v.optional(v.string()),
+  granularity: v.union(v.literal("hour"), v.literal("day")),
+  bucketStart: v.number(), // Start of the UTC hour or day
+  action: v.string(),
+  actorType: actorTypeValidator,
+  result: v.union(
+    v.literal("success"),
+    v.literal("failure"),
+    v.literal("pending"),
+  ),
+  count: v.number(),
+});
+
+/**
+ * Progress of counter maintenance (a single document)
+ *
+ * `backfillUntil` is the creation time of the newest event that existed when
+ * live counting began; later events are counted as they are written. Older
+ * events are counted by the backfill job, which has processed every event
+ * created up to `backfilledThrough`.
+ */
+export const statsStateValidator = v.object({
+  backfillUntil: v.optional(v.number()),
+  backfilledThrough: v.optional(v.number()),
+  backfillComplete: v.boolean(),
+});
+
+/**
+ * A single redaction rule
+ *
+ * Paths are dot-separated and start at the event ("actor.email",
+ * "context.location", "metadata.card.number"); `*` matches any key or array
+ * element ("targets.*.name").
+ */
+export const redactionRuleValidator = v.union(
+  // Drop the field (required strings are replaced with "[REDACTED]")
+  v.object({ type: v.literal("remove"), path: v.string() }),
+  // Replace regex matches in every string under `paths` (default "metadata")
+  v.object({
+    type: v.literal("pattern"),
+    name: v.string(),
+    pattern: v.string(),
+    flags: v.optional(v.string()),
+    replacement: v.optional(v.string()),
+    paths: v.optional(v.array(v.string())),
+  }),
+  // Zero the host part of IP addresses (/24 for IPv4, /48 for IPv6)
+  v.object({ type: v.literal("truncateIp"), path: v.string() }),
+  // Replace email addresses with their SHA-256 hash
+  v.object({ type: v.literal("hashEmail"), path: v.string() }),
+  // Replace values with a stable HMAC pseudonym keyed by `pseudonymKey`
+  v.object({ type: v.literal("pseudonymize"), path: v.string() }),
+);
+
+/**
+ * Redaction rules applied to events before they are stored
+ *
+ * An organization's policy replaces the global one (no `organizationId`).
+ * `version` increases every time the rules change and is recorded on each
+ * redacted event.
+ */
+export const redactionPolicyValidator = v.object({
+  organizationId: v.optional(v.string()),
+  version: v.number(),
+  rules: v.array(redactionRuleValidator),
+  pseudonymKey: v.optional(v.string()), // Secret, never returned by queries
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+/**
+ * How much attention an action deserves when it shows up in the log
+ */
+export const severityValidator = v.union(
+  v.literal("low"),
+  v.literal("medium"),
+  v.literal("high"),
+  v.literal("critical"),
+);
+
+/**
+ * What a detection rule counts events by
+ *
+ * `actor` is the actor's type and ID, `ip` the event's `context.location`
+ * (keyed by its HMAC), `target` each of its targets and `organization` its
+ * organization.
+ */
+export const detectionGroupByValidator = v.union(
+  v.literal("actor"),
+  v.literal("ip"),
+  v.literal("target"),
+  v.literal("organization"),
+);
+
+/**
+ * Threshold rule raising an alert when matching events pile up
+ *
+ * The rule fires when `threshold` matching events with the same key (see
+ * `groupBy`) occur within `windowMs`. Each `groupBy` entry is counted
+ * separately, so ["actor", "ip"] fires for either. Repeated firings for the
+ * same key within `cooldownMs` are folded into the previous alert. Omit
+ * `organizationId` for a rule that applies to every organization.
+ */
+export const detectionRuleValidator = v.object({
+  organizationId: v.optional(v.string()),
+  name: v.string(),
+  action: v.string(), // Exact action or prefix pattern ("user.*")
+  result: v.optional(
+    v.union(v.literal("success"), v.literal("failure"), v.literal("pending")),
+  ),
+  targetType: v.optional(v.string()),
+  targetId: v.optional(v.string()),
+  groupBy: v.array(detectionGroupByValidator),
+  threshold: v.number(),
+  windowMs: v.number(),
+  cooldownMs: v.number(),
+  severity: severityValidator,
+  alertAction: v.string(), // Action of the alert event
+  enabled: v.boolean(),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+/**
+ * A matching event counted in a rule's sliding window
+ *
+ * Keys are scoped to the event's organization, so a rule that applies to
+ * every organization counts each one separately.
+ */
+export const detectionHitValidator = v.object({
+  ruleId: v.id("detectionRules"),
+  key: v.string(), // Group key, such as "org:org_1:actor:user:user_1"
+  subjectKey: v.string(), // The key without its organization, "actor:user:user_1"
+  eventId: v.id("auditEvents"),
+  occurredAt: v.number(),
+});
+
+/**
+ * Last alert a rule raised for a group key, for deduplication
+ */
+export const detectionStateValidator = v.object({
+  ruleId: v.id("detectionRules"),
+  key: v.string(),
+  subjectKey: v.string(),
+  lastAlertEventId: v.id("auditEvents"),
+  lastAlertAt: v.number(),
+  suppressed: v.number(), // Firings folded into the last alert
+});
+
+/**
+ * Where an actor signed in from, kept to spot unusual sign-ins
+ *
+ * Rows are derived from `user.signed_in` events (after redaction) and are
+ * deleted with them, so they follow the events' retention. History is kept
+ * per organization so one tenant's alerts never reveal another's sign-ins.
+ * Rows aren't encrypted, so they only hold the coarse location the analysis
+ * needs: the country and coordinates rounded to whole degrees.
+ */
+export const signInLocationValidator = v.object({
+  actorType: actorTypeValidator,
+  actorId: v.string(),
+  organizationId: v.optional(v.string()),
+  eventId: v.id("auditEvents"),
+  occurredAt: v.number(),
+  countryCode: v.optional(v.string()),
+  latitude: v.optional(v.number()), // Whole degrees
+  longitude: v.optional(v.number()), // Whole degrees
+});
+
+/**
+ * Sign-in location analysis settings (a single document)
+ *
+ * Without one, analysis runs with the defaults in `locations.ts`.
+ */
+export const locationAnalysisConfigValidator = v.object({
+  enabled: v.boolean(),
+  maxSpeedKmh: v.number(), // Faster travel between sign-ins is flagged
+  minDistanceKm: v.number(), // Shorter hops are geolocation noise
+  flagNewCountries: v.boolean(),
+  updatedAt: v.number(),
+});
+
+/**
+ * Full-text search settings (a single document)
+ *
+ * `metadataKeys` are the metadata fields (dot paths allowed) whose values are
+ * added to the search text of new events.
+ */
+export const searchConfigValidator = v.object({
+  metadataKeys: v.array(v.string()),
+  updatedAt: v.number(),
+});
+
+/**
+ * Progress of the search text backfill (a single document)
+ *
+ * `backfillUntil` is the creation time of the newest event when the backfill
+ * started; later events got their search text when written. The job has
+ * processed every event created up to `backfilledThrough`.
+ */
+export const searchStateValidator = v.object({
+  backfillUntil: v.optional(v.number()),
+  backfilledThrough: v.optional(v.number()),
+  backfillComplete: v.boolean(),
+});
+
+/**
+ * Secret for keyed hashes of identifiers (a single document)
+ *
+ * Generated on first use. Pseudonyms and grouping keys derived from it are
+ * stable, but can't be linked back to an identifier without it.
+ */
+export const hashingSecretValidator = v.object({
+  secret: v.string(), // 256 random bits, base64
+  createdAt: v.number(),
+});
+
+/**
+ * Registered action with the payload shape its events must have
+ *
+ * `metadata` is a serialized Convex validator (see `registry.ts`). Events
+ * for actions that are not registered are stored without checks.
+ */
+export const actionDefinitionValidator = v.object({
+  action: v.string(),
+  description: v.optional(v.string()),
+  severity: v.optional(severityValidator),
+  targetTypes: v.optional(v.array(v.string())),
+  metadata: v.optional(v.any()),
+});
+
+/**
+ * Key encryption key used to wrap event data keys
+ *
+ * Only a fingerprint is stored; the key itself comes from the app's key
+ * provider whenever it is needed.
+ */
+export const encryptionKeyValidator = v.object({
+  keyId: v.string(),
+  fingerprint: v.string(), // SHA-256 of the key, base64
+  createdAt: v.number(),
+});
+
+/**
+ * Encryption settings (a single document)
+ *
+ * New events are encrypted with `activeKeyId` while `enabled`. When it
+ * changes, the rotation job rewraps the data keys of older events until
+ * `rotationComplete`.
+ */
+export const encryptionConfigValidator = v.object({
+  enabled: v.boolean(),
+  keyProvider: v.string(), // Function handle of a query returning the keys
+  activeKeyId: v.string(),
+  fields: v.array(encryptableFieldValidator),
+  rotationComplete: v.boolean(),
+  rewrapped: v.number(), // Events rewrapped since the last rotation began
+  updatedAt: v.number(),
 });
 
 export default defineSchema({
   auditEvents: defineTable(auditEventValidator)
+    // Index by time for unfiltered, time-ordered queries
+    .index("by_occurredAt", ["occurredAt"])
     // Index by organization for multi-tenant queries
     .index("by_organizationId_and_occurredAt", ["organizationId", "occurredAt"])
     // Index by action type
     .index("by_action_and_occurredAt", ["action", "occurredAt"])
     // Index by actor
     .index("by_actor_and_occurredAt", ["actor.type", "actor.id", "occurredAt"])
+    // Compound indexes for organization-scoped action and actor queries
+    .index("by_organizationId_and_action_and_occurredAt", [
+      "organizationId",
+      "action",
+      "occurredAt",
+    ])
+    .index("by_organizationId_and_actor_and_occurredAt", [
+      "organizationId",
+      "actor.type",
+      "actor.id",
+      "occurredAt",
+    ])
     // Index by idempotency key for deduplication
     .index("by_idempotencyKey", ["idempotencyKey"])
-    // Full-text search on action and metadata
-    .searchIndex("search_action", {
-      searchField: "action",
-      filterFields: ["organizationId", "actor.id"],
-    }),
+    // Full-text search on the denormalized search text
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: [
+        "organizationId",
+        "actor.type",
+        "actor.id",
+        "action",
+        "result",
+      ],
+    })
+    // Walk an organization's hash chain in order
+    .index("by_organizationId_and_sequence", ["organizationId", "sequence"])
+    // Find events still wrapped with a given key during rotation
+    .index("by_encryption_keyId", ["encryption.keyId"]),
+
+  auditEventTargets: defineTable(auditEventTargetValidator)
+    .index("by_targetType_and_targetId_and_occurredAt", [
+      "targetType",
+      "targetId",
+      "occurredAt",
+    ])
+    .index("by_organizationId_and_targetType_and_targetId_and_occurredAt", [
+      "organizationId",
+      "targetType",
+      "targetId",
+      "occurredAt",
+    ])
+    .index("by_eventId", ["eventId"]),
+
+  auditEventChanges: defineTable(auditEventChangeValidator)
+    .index("by_field_and_occurredAt", ["field", "occurredAt"])
+    .index("by_organizationId_and_field_and_occurredAt", [
+      "organizationId",
+      "field",
+      "occurredAt",
+    ])
+    .index("by_eventId", ["eventId"]),
+
+  auditChainHeads: defineTable(chainHeadValidator).index("by_organizationId", [
+    "organizationId",
+  ]),
+
+  auditChainCheckpoints: defineTable(chainCheckpointValidator).index(
+    "by_organizationId_and_kind_and_fromSequence",
+    ["organizationId", "kind", "fromSequence"],
+  ),
+
+  retentionPolicies: defineTable(retentionPolicyValidator).index(
+    "by_organizationId_and_action_and_tag",
+    ["organizationId", "action", "tag"],
+  ),
+
+  retentionState: defineTable(retentionStateValidator),
+
+  legalHolds: defineTable(legalHoldValidator)
+    // Active holds have no releasedAt
+    .index("by_releasedAt", ["releasedAt"]),
+
+  exports: defineTable(exportValidator),
+
+  webhookSubscriptions: defineTable(webhookSubscriptionValidator).index(
+    "by_organizationId",
+    ["organizationId"],
+  ),
+
+  webhookDeliveries: defineTable(webhookDeliveryValidator)
+    .index("by_subscriptionId_and_status", ["subscriptionId", "status"])
+    .index("by_organizationId_and_status", ["organizationId", "status"])
+    .index("by_status_and_nextAttemptAt", ["status", "nextAttemptAt"]),
+
+  webhookAttempts: defineTable(webhookAttemptValidator).index("by_deliveryId", [
+    "deliveryId",
+  ]),
+
+  auditCounters: defineTable(auditCounterValidator)
+    .index(
+      // Dimension fields follow the bucket so a counter can be found by its key
+      "by_organizationId_and_granularity_and_bucketStart",
+      [
+        "organizationId",
+        "granularity",
+        "bucketStart",
+        "action",
+        "actorType",
+        "result",
+      ],
+    )
+    // Counters of every organization, for totals across them
+    .index("by_granularity_and_bucketStart", ["granularity", "bucketStart"]),
+
+  statsState: defineTable(statsStateValidator),
+
+  redactionPolicies: defineTable(redactionPolicyValidator).index(
+    "by_organizationId",
+    ["organizationId"],
+  ),
+
+  auditActions: defineTable(actionDefinitionValidator).index("by_action", [
+    "action",
+  ]),
+
+  encryptionKeys: defineTable(encryptionKeyValidator).index("by_keyId", [
+    "keyId",
+  ]),
+
+  encryptionConfig: defineTable(encryptionConfigValidator),
+
+  accessReports: defineTable(accessReportValidator),
+
+  erasureJobs: defineTable(erasureJobValidator).index(
+    "by_actorType_and_actorId",
+    ["actorType", "actorId"],
+  ),
+
+  detectionRules: defineTable(detectionRuleValidator).index(
+    "by_organizationId",
+    ["organizationId"],
+  ),
+
+  detectionHits: defineTable(detectionHitValidator)
+    .index("by_ruleId_and_key_and_occurredAt", ["ruleId", "key", "occurredAt"])
+    .index("by_subjectKey", ["subjectKey"])
+    .index("by_occurredAt", ["occurredAt"]),
+
+  signInLocations: defineTable(signInLocationValidator)
+    .index("by_organizationId_and_actor_and_occurredAt", [
+      "organizationId",
+      "actorType",
+      "actorId",
+      "occurredAt",
+    ])
+    .index("by_organizationId_and_actor_and_countryCode", [
+      "organizationId",
+      "actorType",
+      "actorId",
+      "countryCode",
+    ])
+    .index("by_actor", ["actorType", "actorId"])
+    .index("by_eventId", ["eventId"]),
+
+  locationAnalysisConfig: defineTable(locationAnalysisConfigValidator),
+
+  searchConfig: defineTable(searchConfigValidator),
+
+  searchState: defineTable(searchStateValidator),
+
+  hashingSecret: defineTable(hashingSecretValidator),
+
+  detectionState: defineTable(detectionStateValidator)
+    .index("by_ruleId_and_key", ["ruleId", "key"])
+    .index("by_subjectKey", ["subjectKey"]),
 });
 
 export type ActorType = Infer<typeof actorTypeValidator>;
 export type Actor = Infer<typeof actorValidator>;
 export type Target = Infer<typeof targetValidator>;
 export type Context = Infer<typeof contextValidator>;
+export type Change = Infer<typeof changeValidator>;
 
 export type AuditEvent = Infer<typeof auditEventValidator>;
+export type ChainCheckpoint = Infer<typeof chainCheckpointValidator>;
+export type RetentionPolicy = Infer<typeof retentionPolicyValidator>;
+export type LegalHoldScope = Infer<typeof legalHoldScopeValidator>;
+export type ExportFilters = Infer<typeof exportFiltersValidator>;
+export type ExportFormat = Infer<typeof exportFormatValidator>;
+export type WebhookSubscription = Infer<typeof webhookSubscriptionValidator>;
+export type WebhookAttempt = Infer<typeof webhookAttemptValidator>;
+export type ActionDefinition = Infer<typeof actionDefinitionValidator>;
+export type RedactionRule = Infer<typeof redactionRuleValidator>;
+export type EncryptableField = Infer<typeof encryptableFieldValidator>;
+export type AccessReportFormat = Infer<typeof accessReportFormatValidator>;
+export type DetectionRule = Infer<typeof detectionRuleValidator>;
+export type DetectionGroupBy = Infer<typeof detectionGroupByValidator>;
+export type AccessReportManifest = Infer<typeof accessReportManifestValidator>;
 export type AuditEventWithoutSystemFields = Omit<
   AuditEvent,
   "_id" | "_creationTime"
@@ -0,0 +1,230 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe, vi } from "vitest";
+import {
+  createFunctionHandle,
+  makeFunctionReference,
+  queryGeneric,
+} from "convex/server";
+import { api } from "./_generated/api.js";
+import type { Id } from "./_generated/dataModel.js";
+import schema from "./schema.js";
+import { recordUpdateCheckpoint } from "./chain.js";
+
+const KEY = btoa(String.fromCharCode(...new Array(32).fill(1)));
+
+const modules = {
+  ...import.meta.glob("./**/*.ts"),
+  "./testKeys.ts": async () => ({
+    provide: queryGeneric({
+      args: {},
+      handler: async () => [{ keyId: "k1", key: KEY }],
+    }),
+  }),
+};
+
+describe("Search", () => {
+  test("matches actors, targets, errors, tags and chosen metadata", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.search.configure, { metadataKeys: ["file.name"] });
+    expect(await t.query(api.search.getSettings, {})).toEqual({
+      metadataKeys: ["file.name"],
+    });
+
+    await t.mutation(api.lib.log, {
+      action: "document.shared",
+      actor: {
+        type: "user",
+        id: "user_1",
+        name: "Ada Lovelace",
+        email: "ada@example.com",
+      },
+      targets: [{ type: "document", id: "doc_1", name: "Q3 Roadmap" }],
+      metadata: { file: { name: "roadmap-final.pdf" }, note: "unindexed" },
+      tags: ["sharing"],
+      organizationId: "org_1",
+    });
+    await t.mutation(api.lib.log, {
+      action: "payment.failed",
+      actor: { type: "system", id: "billing" },
+      targets: [{ type: "invoice", id: "inv_42" }],
+      result: "failure",
+      error: { code: "card_declined", message: "Card was declined" },
+      organizationId: "org_2",
+    });
+
+    const search = async (searchQuery: string, filters = {}) => {
+      const { events } = await t.query(api.lib.search, {
+        searchQuery,
+        ...filters,
+      });
+      return events.map((event) => event.action);
+    };
+
+    expect(await search("ada@example.com")).toEqual(["document.shared"]);
+    expect(await search("lovelace")).toEqual(["document.shared"]);
+    expect(await search("roadmap")).toEqual(["document.shared"]);
+    expect(await search("roadmap-final.pdf")).toEqual(["document.shared"]);
+    expect(await search("sharing")).toEqual(["document.shared"]);
+    expect(await search("unindexed")).toEqual([]);
+    expect(await search("declined")).toEqual(["payment.failed"]);
+    expect(await search("inv_42")).toEqual(["payment.failed"]);
+    // Actions stay searchable
+    expect(await search("payment.failed")).toEqual(["payment.failed"]);
+
+    // Filters narrow the matches
+    expect(
+      await search("roadmap declined", { organizationId: "org_2" }),
+    ).toEqual(["payment.failed"]);
+    expect(
+      await search("roadmap declined", {
+        actorType: "user",
+        actorId: "user_1",
+      }),
+    ).toEqual(["document.shared"]);
+    expect(await search("roadmap declined", { result: "failure" })).toEqual([
+      "payment.failed",
+    ]);
+    expect(
+      await search("roadmap declined", { action: "document.shared" }),
+    ).toEqual(["document.shared"]);
+    // Filters the index doesn't cover are checked as results are read
+    expect(
+      await search("roadmap declined", { actionPrefix: "payment." }),
+    ).toEqual(["payment.failed"]);
+    expect(
+      await search("roadmap declined", { actorEmail: "ADA@example.com" }),
+    ).toEqual(["document.shared"]);
+  });
+
+  test("pages through results and leaves encrypted fields out", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.search.configure, { metadataKeys: ["reason"] });
+    await t.mutation(api.encryption.configure, {
+      keyId: "k1",
+      keyProvider: await t.run(async () =>
+        createFunctionHandle(
+          makeFunctionReference<"query">("testKeys:provide"),
+        ),
+      ),
+      fields: ["metadata"],
+    });
+    for (let i = 1; i <= 5; i++) {
+      await t.mutation(api.lib.log, {
+        action: "record.deleted",
+        actor: { type: "user", id: "user_1" },
+        targets: [{ type: "record", id: `rec_${i}` }],
+        metadata: { reason: "cleanup" },
+        tags: ["bulk"],
+      });
+    }
+
+    // Encrypted metadata is not indexed in plaintext
+    const hidden = await t.query(api.lib.search, { searchQuery: "cleanup" });
+    expect(hidden.events).toEqual([]);
+
+    const first = await t.query(api.lib.search, {
+      searchQuery: "bulk",
+      limit: 3,
+      decrypt: true,
+    });
+    expect(first.events).toHaveLength(3);
+    expect(first.events[0].metadata).toEqual({ reason: "cleanup" });
+    expect(first.hasMore).toBe(true);
+
+    const second = await t.query(api.lib.search, {
+      searchQuery: "bulk",
+      limit: 3,
+      cursor: first.nextCursor!,
+    });
+    expect(second.hasMore).toBe(false);
+    expect(second.nextCursor).toBeNull();
+    expect(
+      [...first.events, ...second.events]
+        .map((event) => event.targets[0].id)
+        .sort(),
+    ).toEqual(["rec_1", "rec_2", "rec_3", "rec_4", "rec_5"]);
+
+    // Cursors only resume the query they came from
+    await expect(
+      t.query(api.lib.search, {
+        searchQuery: "record",
+        cursor: first.nextCursor!,
+      }),
+    ).rejects.toThrow("Cursor does not match the requested filters");
+  });
+
+  test("backfill adds search text to older events", async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, modules);
+
+    // Rows written by a version without search text, one of them chained
+    await t.run(async (ctx) => {
+      for (let i = 1; i <= 4; i++) {
+        await ctx.db.insert("auditEvents", {
+          action: "invoice.paid",
+          actor: { type: "user", id: "user_1", name: "Grace Hopper" },
+          targets: [{ type: "invoice", id: `inv_${i}` }],
+          occurredAt: i * 1000,
+          result: "success",
+        });
+      }
+    });
+    const { eventId } = await t.mutation(api.lib.log, {
+      action: "invoice.paid",
+      actor: { type: "user", id: "user_2", name: "Grace Hopper" },
+      targets: [{ type: "invoice", id: "inv_5" }],
+    });
+    await t.run(async (ctx) => {
+      const id = eventId as Id<"auditEvents">;
+      await ctx.db.patch(id, { searchText: undefined });
+      await recordUpdateCheckpoint(ctx, (await ctx.db.get(id))!);
+    });
+
+    const search = async () => {
+      const { events } = await t.query(api.lib.search, {
+        searchQuery: "hopper",
+      });
+      return events.map((event) => event.targets[0].id).sort();
+    };
+    const withoutText = async () =>
+      (await t.run((ctx) => ctx.db.query("auditEvents").collect())).filter(
+        (event) => event.searchText === undefined,
+      );
+    expect(await withoutText()).toHaveLength(5);
+    expect(
+      (await t.query(api.search.getBackfillStatus, {})).backfillComplete,
+    ).toBe(false);
+
+    const first = await t.mutation(api.search.backfill, { batchSize: 2 });
+    expect(first.backfillComplete).toBe(false);
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(
+      (await t.query(api.search.getBackfillStatus, {})).backfillComplete,
+    ).toBe(true);
+    expect(await withoutText()).toEqual([]);
+    expect(await search()).toEqual([
+      "inv_1",
+      "inv_2",
+      "inv_3",
+      "inv_4",
+      "inv_5",
+    ]);
+    expect((await t.query(api.chain.verifyChain, {})).valid).toBe(true);
+
+    // Events written later already have their text
+    await t.mutation(api.lib.log, {
+      action: "invoice.paid",
+      actor: { type: "user", id: "user_3", name: "Grace Hopper" },
+      targets: [{ type: "invoice", id: "inv_6" }],
+    });
+    expect((await t.mutation(api.search.backfill, {})).backfillComplete).toBe(
+      true,
+    );
+    expect(await search()).toHaveLength(6);
+
+    vi.useRealTimers();
+  });
+});
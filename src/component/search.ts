@@ -0,0 +1,271 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server.js";
+import type { MutationCtx, QueryCtx } from "./_generated/server.js";
+import { internal } from "./_generated/api.js";
+import type { AuditEvent } from "./schema.js";
+import { recordUpdateCheckpoint } from "./chain.js";
+
+// Longest search text stored on an event; later terms are dropped
+const MAX_SEARCH_TEXT_LENGTH = 8192;
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+const settingsValidator = v.object({
+  metadataKeys: v.array(v.string()),
+});
+
+const backfillStatusValidator = v.object({
+  backfillComplete: v.boolean(),
+  backfilledThrough: v.union(v.null(), v.number()),
+  backfillUntil: v.union(v.null(), v.number()),
+});
+
+// =============================================================================
+// Search Text
+// =============================================================================
+
+type Searchable = Pick<
+  AuditEvent,
+  "action" | "actor" | "targets" | "metadata" | "error" | "tags"
+>;
+
+async function getMetadataKeys(ctx: QueryCtx) {
+  const config = await ctx.db.query("searchConfig").first();
+  return config?.metadataKeys ?? [];
+}
+
+function readPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const segment of path.split(".")) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Every string, number and boolean in a metadata value
+ */
+function collectValues(value: unknown, values: string[]) {
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    values.push(String(value));
+  } else if (Array.isArray(value)) {
+    for (const item of value) {
+      collectValues(item, values);
+    }
+  } else if (value !== null && typeof value === "object") {
+    for (const item of Object.values(value)) {
+      collectValues(item, values);
+    }
+  }
+}
+
+/**
+ * Build the search text of an event
+ *
+ * Each word is stored lowercased, followed by its alphanumeric parts, so
+ * "alice@example.com" is found by the whole address as well as by "alice"
+ * or "example".
+ */
+export function buildSearchText(event: Searchable, metadataKeys: string[]) {
+  const values = [
+    event.action,
+    event.actor.name,
+    event.actor.email,
+    ...event.targets.flatMap((target) => [target.id, target.name]),
+    event.error?.message,
+    ...(event.tags ?? []),
+  ].filter((value): value is string => value !== undefined);
+  for (const key of metadataKeys) {
+    collectValues(readPath(event.metadata, key), values);
+  }
+
+  const terms = new Set<string>();
+  for (const word of values.join(" ").toLowerCase().split(/\s+/)) {
+    for (const term of [word, ...word.split(/[^\p{L}\p{N}]+/u)]) {
+      if (term.length > 0) {
+        terms.add(term);
+      }
+    }
+  }
+
+  let text = "";
+  for (const term of terms) {
+    if (text.length + term.length + 1 > MAX_SEARCH_TEXT_LENGTH) {
+      break;
+    }
+    text = text ? `${text} ${term}` : term;
+  }
+  return text;
+}
+
+/**
+ * Search text for an event in its stored form
+ *
+ * Called on the encrypted event, so encrypted fields never reach the search
+ * index in plaintext.
+ */
+export async function searchTextFor(ctx: QueryCtx, event: Searchable) {
+  return buildSearchText(event, await getMetadataKeys(ctx));
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Choose the metadata fields added to the search text
+ *
+ * Applies to events written from now on; existing events keep their text.
+ */
+export const configure = mutation({
+  args: {
+    metadataKeys: v.array(v.string()),
+  },
+  returns: settingsValidator,
+  handler: async (ctx, args) => {
+    const metadataKeys = [...new Set(args.metadataKeys)];
+    if (metadataKeys.some((key) => key.split(".").includes(""))) {
+      throw new Error("Metadata keys must not be empty");
+    }
+
+    const existing = await ctx.db.query("searchConfig").first();
+    if (existing) {
+      await ctx.db.patch(existing._id, { metadataKeys, updatedAt: Date.now() });
+    } else {
+      await ctx.db.insert("searchConfig", {
+        metadataKeys,
+        updatedAt: Date.now(),
+      });
+    }
+    return { metadataKeys };
+  },
+});
+
+/**
+ * Get the full-text search settings
+ */
+export const getSettings = query({
+  args: {},
+  returns: settingsValidator,
+  handler: async (ctx) => {
+    return { metadataKeys: await getMetadataKeys(ctx) };
+  },
+});
+
+// =============================================================================
+// Backfill
+// =============================================================================
+
+async function getState(ctx: QueryCtx) {
+  return await ctx.db.query("searchState").first();
+}
+
+/**
+ * Get the progress of the search text backfill
+ */
+export const getBackfillStatus = query({
+  args: {},
+  returns: backfillStatusValidator,
+  handler: async (ctx) => {
+    const state = await getState(ctx);
+    return {
+      backfillComplete: state?.backfillComplete ?? false,
+      backfilledThrough: state?.backfilledThrough ?? null,
+      backfillUntil: state?.backfillUntil ?? null,
+    };
+  },
+});
+
+/**
+ * Add search text to events written before search existed
+ *
+ * Processes the first batch now and schedules the rest in the background.
+ * Each rewritten event gets a hash chain update checkpoint. Safe to call
+ * again: the job resumes where it left off and does nothing once complete.
+ */
+export const backfill = mutation({
+  args: {
+    batchSize: v.optional(v.number()),
+  },
+  returns: backfillStatusValidator,
+  handler: async (ctx, args) => {
+    if (!(await getState(ctx))) {
+      const newest = await ctx.db.query("auditEvents").order("desc").first();
+      await ctx.db.insert("searchState", {
+        backfillUntil: newest?._creationTime,
+        backfillComplete: newest === null,
+      });
+    }
+    await backfillSearchText(ctx, args.batchSize ?? 100);
+    const state = (await getState(ctx))!;
+    return {
+      backfillComplete: state.backfillComplete,
+      backfilledThrough: state.backfilledThrough ?? null,
+      backfillUntil: state.backfillUntil ?? null,
+    };
+  },
+});
+
+/**
+ * Internal function to add search text to one batch of events
+ */
+export const backfillBatch = internalMutation({
+  args: {
+    batchSize: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await backfillSearchText(ctx, args.batchSize);
+    return null;
+  },
+});
+
+async function backfillSearchText(ctx: MutationCtx, batchSize: number) {
+  const state = await getState(ctx);
+  if (!state || state.backfillComplete) {
+    return;
+  }
+  const until = state.backfillUntil!;
+
+  const after = state.backfilledThrough;
+  const events = await ctx.db
+    .query("auditEvents")
+    .withIndex("by_creation_time", (q) =>
+      after === undefined
+        ? q.lte("_creationTime", until)
+        : q.gt("_creationTime", after).lte("_creationTime", until),
+    )
+    .take(batchSize);
+
+  const metadataKeys = await getMetadataKeys(ctx);
+  for (const event of events) {
+    if (event.searchText !== undefined) {
+      continue;
+    }
+    const searchText = buildSearchText(event, metadataKeys);
+    await ctx.db.patch(event._id, { searchText });
+    await recordUpdateCheckpoint(ctx, { ...event, searchText });
+  }
+
+  const done = events.length < batchSize;
+  await ctx.db.patch(state._id, {
+    backfilledThrough:
+      events.length > 0 ? events[events.length - 1]._creationTime : after,
+    backfillComplete: done,
+  });
+
+  if (!done) {
+    await ctx.scheduler.runAfter(0, internal.search.backfillBatch, {
+      batchSize,
+    });
+  }
+}
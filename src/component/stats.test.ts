@@ -0,0 +1,271 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, expect, test, describe, vi } from "vitest";
+import { api, internal } from "./_generated/api.js";
+import schema from "./schema.js";
+
+const modules = import.meta.glob("./**/*.ts");
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = Date.UTC(2024, 5, 15, 12, 30);
+
+function event(
+  occurredAt: number,
+  overrides: {
+    action?: string;
+    organizationId?: string;
+    result?: "success" | "failure";
+  } = {},
+) {
+  return {
+    action: overrides.action ?? "resource.read",
+    actor: { type: "user" as const, id: "user_1" },
+    targets: [],
+    organizationId: overrides.organizationId,
+    result: overrides.result,
+    occurredAt,
+  };
+}
+
+describe("Stats counters", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("getStats combines counters with exact range edges", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.lib.logBatch, {
+      events: [
+        // Before the range
+        event(NOW - 3 * DAY_MS - 1),
+        // Partial hour at the start of the range
+        event(NOW - 3 * DAY_MS + 10, { organizationId: "org_1" }),
+        // Whole hours and days in the middle
+        event(NOW - 2 * DAY_MS, {
+          organizationId: "org_1",
+          result: "failure",
+        }),
+        event(NOW - DAY_MS, { action: "user.signed_in" }),
+        event(NOW - 2 * HOUR_MS, { organizationId: "org_2" }),
+        // Partial hour at the end of the range, and the end itself
+        event(NOW - 60 * 1000, { organizationId: "org_1" }),
+        event(NOW, { organizationId: "org_1" }),
+        // After the range
+        event(NOW + 1),
+      ],
+    });
+
+    const all = await t.query(api.lib.getStats, {
+      startTime: NOW - 3 * DAY_MS,
+      endTime: NOW,
+    });
+    expect(all).toEqual({
+      status: "ready",
+      totalEvents: 6,
+      eventsByAction: { "resource.read": 5, "user.signed_in": 1 },
+      eventsByActorType: { user: 6 },
+      eventsByResult: { success: 5, failure: 1 },
+    });
+
+    const org = await t.query(api.lib.getStats, {
+      organizationId: "org_1",
+      startTime: NOW - 3 * DAY_MS,
+      endTime: NOW,
+    });
+    expect(org.totalEvents).toBe(4);
+    expect(org.eventsByResult).toEqual({ success: 3, failure: 1 });
+
+    // Counters are read rather than events, and each event only counts
+    // towards its own organization: an hour and a day counter per event
+    const counters = await t.run(async (ctx) =>
+      ctx.db.query("auditCounters").collect(),
+    );
+    expect(counters.reduce((sum, c) => sum + c.count, 0)).toBe(16);
+  });
+
+  test("deleting events decrements the counters", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.mutation(api.lib.logBatch, {
+      events: [event(NOW - 40 * DAY_MS), event(NOW - 2 * DAY_MS)],
+    });
+    await t.mutation(internal.lib.deleteOldEvents, {
+      olderThan: NOW - 30 * DAY_MS,
+    });
+
+    const stats = await t.query(api.lib.getStats, {
+      startTime: NOW - 60 * DAY_MS,
+      endTime: NOW,
+    });
+    expect(stats.totalEvents).toBe(1);
+
+    const counters = await t.run(async (ctx) =>
+      ctx.db.query("auditCounters").collect(),
+    );
+    expect(counters.every((counter) => counter.count === 1)).toBe(true);
+  });
+
+  test("stats across every organization read a bounded number of counters", async () => {
+    const t = convexTest(schema, modules);
+
+    await t.run(async (ctx) => {
+      for (let i = 0; i < 5001; i++) {
+        await ctx.db.insert("auditCounters", {
+          organizationId: `org_${i}`,
+          granularity: "day",
+          bucketStart: NOW - 5 * DAY_MS - (NOW % DAY_MS),
+          action: "resource.read",
+          actorType: "user",
+          result: "success",
+          count: 1,
+        });
+      }
+    });
+    await t.mutation(api.lib.log, event(NOW, { organizationId: "org_0" }));
+
+    const range = { startTime: NOW - 10 * DAY_MS, endTime: NOW };
+    await expect(t.query(api.lib.getStats, range)).rejects.toThrow(
+      "pass an organizationId or a shorter range",
+    );
+    expect(
+      (
+        await t.query(api.lib.getStats, {
+          ...range,
+          organizationId: "org_0",
+        })
+      ).totalEvents,
+    ).toBe(2);
+  });
+
+  test("backfill counts events written before counters existed", async () => {
+    const t = convexTest(schema, modules);
+
+    // Rows written by a version without counters
+    await t.run(async (ctx) => {
+      for (let i = 0; i < 5; i++) {
+        await ctx.db.insert("auditEvents", {
+          ...event(NOW - (i + 1) * DAY_MS, { organizationId: "org_1" }),
+          result: "success",
+        });
+      }
+    });
+    await t.mutation(
+      api.lib.log,
+      event(NOW - HOUR_MS - 1, {
+        organizationId: "org_1",
+      }),
+    );
+
+    const range = {
+      organizationId: "org_1",
+      startTime: NOW - 10 * DAY_MS,
+      endTime: NOW,
+    };
+
+    // Until backfilled, stats report it instead of reading every event
+    expect(
+      (await t.query(api.stats.getBackfillStatus, {})).backfillComplete,
+    ).toBe(false);
+    expect(await t.query(api.lib.getStats, range)).toMatchObject({
+      status: "backfilling",
+      totalEvents: 0,
+    });
+    await expect(
+      t.query(api.lib.getTimeSeries, { ...range, granularity: "day" }),
+    ).rejects.toThrow("until the stats backfill completes");
+
+    const first = await t.mutation(api.stats.backfill, { batchSize: 2 });
+    expect(first.backfillComplete).toBe(false);
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(
+      (await t.query(api.stats.getBackfillStatus, {})).backfillComplete,
+    ).toBe(true);
+    expect(await t.query(api.lib.getStats, range)).toMatchObject({
+      status: "ready",
+      totalEvents: 6,
+    });
+
+    // Running it again does not count anything twice
+    await t.mutation(api.stats.backfill, {});
+    const dailyTotal = await t.run(async (ctx) => {
+      const counters = await ctx.db.query("auditCounters").collect();
+      return counters
+        .filter((c) => c.organizationId === "org_1" && c.granularity === "day")
+        .reduce((sum, c) => sum + c.count, 0);
+    });
+    expect(dailyTotal).toBe(6);
+  });
+});
+
+describe("Time series", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("getTimeSeries fills empty buckets and groups counts", async () => {
+    const t = convexTest(schema, modules);
+    const today = Date.UTC(2024, 5, 15);
+
+    await t.mutation(api.lib.logBatch, {
+      events: [
+        event(today - 2 * DAY_MS + HOUR_MS, { organizationId: "org_1" }),
+        event(today - 2 * DAY_MS + 5 * HOUR_MS, {
+          organizationId: "org_1",
+          result: "failure",
+        }),
+        event(today + HOUR_MS, { organizationId: "org_1" }),
+        event(today + HOUR_MS, { organizationId: "org_2" }),
+      ],
+    });
+
+    const series = await t.query(api.lib.getTimeSeries, {
+      granularity: "day",
+      organizationId: "org_1",
+      startTime: today - 3 * DAY_MS,
+      endTime: NOW,
+      groupBy: "result",
+    });
+
+    expect(series).toEqual([
+      { bucketStart: today - 3 * DAY_MS, total: 0, groups: {} },
+      {
+        bucketStart: today - 2 * DAY_MS,
+        total: 2,
+        groups: { success: 1, failure: 1 },
+      },
+      { bucketStart: today - DAY_MS, total: 0, groups: {} },
+      { bucketStart: today, total: 1, groups: { success: 1 } },
+    ]);
+
+    const hourly = await t.query(api.lib.getTimeSeries, {
+      granularity: "hour",
+    });
+    expect(hourly.length).toBe(25);
+    expect(hourly.find((p) => p.bucketStart === today + HOUR_MS)?.total).toBe(
+      2,
+    );
+  });
+
+  test("getTimeSeries rejects ranges with too many buckets", async () => {
+    const t = convexTest(schema, modules);
+
+    await expect(
+      t.query(api.lib.getTimeSeries, {
+        granularity: "hour",
+        startTime: NOW - 365 * DAY_MS,
+      }),
+    ).rejects.toThrow("more than 1000 hour buckets");
+  });
+});
@@ -0,0 +1,552 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server.js";
+import type { MutationCtx, QueryCtx } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import { internal } from "./_generated/api.js";
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+export type Granularity = "hour" | "day";
+
+type CountedEvent = Pick<
+  Doc<"auditEvents">,
+  "organizationId" | "occurredAt" | "action" | "actor" | "result"
+>;
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+export const statsValidator = v.object({
+  status: v.union(v.literal("ready"), v.literal("backfilling")),
+  totalEvents: v.number(),
+  eventsByAction: v.record(v.string(), v.number()),
+  eventsByActorType: v.record(v.string(), v.number()),
+  eventsByResult: v.record(v.string(), v.number()),
+});
+
+export type Stats = {
+  status: "ready" | "backfilling";
+  totalEvents: number;
+  eventsByAction: Record<string, number>;
+  eventsByActorType: Record<string, number>;
+  eventsByResult: Record<string, number>;
+};
+
+// =============================================================================
+// Buckets
+// =============================================================================
+
+export function bucketStart(timestamp: number, granularity: Granularity) {
+  const size = granularity === "hour" ? HOUR_MS : DAY_MS;
+  return Math.floor(timestamp / size) * size;
+}
+
+function bucketCeil(timestamp: number, granularity: Granularity) {
+  const start = bucketStart(timestamp, granularity);
+  return start === timestamp
+    ? start
+    : start + (granularity === "hour" ? HOUR_MS : DAY_MS);
+}
+
+// =============================================================================
+// Counter Maintenance
+// =============================================================================
+
+async function getState(ctx: QueryCtx) {
+  return await ctx.db.query("statsState").first();
+}
+
+/**
+ * Whether an event is already reflected in the counters
+ */
+function isCounted(state: Doc<"statsState"> | null, event: Doc<"auditEvents">) {
+  if (!state) {
+    return false;
+  }
+  return (
+    state.backfillUntil === undefined ||
+    event._creationTime > state.backfillUntil ||
+    (state.backfilledThrough !== undefined &&
+      event._creationTime <= state.backfilledThrough)
+  );
+}
+
+async function adjustCounter(
+  ctx: MutationCtx,
+  key: Omit<Doc<"auditCounters">, "_id" | "_creationTime" | "count">,
+  delta: number,
+) {
+  const existing = await ctx.db
+    .query("auditCounters")
+    .withIndex("by_organizationId_and_granularity_and_bucketStart", (q) =>
+      q
+        .eq("organizationId", key.organizationId)
+        .eq("granularity", key.granularity)
+        .eq("bucketStart", key.bucketStart)
+        .eq("action", key.action)
+        .eq("actorType", key.actorType)
+        .eq("result", key.result),
+    )
+    .unique();
+
+  if (!existing) {
+    if (delta > 0) {
+      await ctx.db.insert("auditCounters", { ...key, count: delta });
+    }
+    return;
+  }
+
+  const count = existing.count + delta;
+  if (count > 0) {
+    await ctx.db.patch(existing._id, { count });
+  } else {
+    await ctx.db.delete(existing._id);
+  }
+}
+
+/**
+ * Add `delta` to every counter an event contributes to: its hour and day
+ * within its organization
+ *
+ * There are no counters across organizations, so writes from different
+ * organizations never touch the same document.
+ */
+async function countEvent(
+  ctx: MutationCtx,
+  event: CountedEvent,
+  delta: number,
+) {
+  for (const granularity of ["hour", "day"] as const) {
+    await adjustCounter(
+      ctx,
+      {
+        organizationId: event.organizationId,
+        granularity,
+        bucketStart: bucketStart(event.occurredAt, granularity),
+        action: event.action,
+        actorType: event.actor.type,
+        result: event.result ?? "success",
+      },
+      delta,
+    );
+  }
+}
+
+/**
+ * Start counting events as they are written
+ *
+ * Call before inserting an event. The first call records which events
+ * predate live counting; if there were none, there is nothing to backfill.
+ */
+export async function ensureLiveCounting(ctx: MutationCtx) {
+  if (await getState(ctx)) {
+    return;
+  }
+  const newest = await ctx.db.query("auditEvents").order("desc").first();
+  await ctx.db.insert("statsState", {
+    backfillUntil: newest?._creationTime,
+    backfillComplete: newest === null,
+  });
+}
+
+/**
+ * Count a newly written event
+ */
+export async function recordEventWritten(
+  ctx: MutationCtx,
+  event: CountedEvent,
+) {
+  await countEvent(ctx, event, 1);
+}
+
+/**
+ * Remove events that are about to be deleted from the counters
+ */
+export async function recordEventsDeleted(
+  ctx: MutationCtx,
+  events: Array<Doc<"auditEvents">>,
+) {
+  const state = await getState(ctx);
+  for (const event of events) {
+    if (isCounted(state, event)) {
+      await countEvent(ctx, event, -1);
+    }
+  }
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+function emptyStats(status: Stats["status"] = "ready"): Stats {
+  return {
+    status,
+    totalEvents: 0,
+    eventsByAction: {},
+    eventsByActorType: {},
+    eventsByResult: {},
+  };
+}
+
+function addToStats(
+  stats: Stats,
+  row: { action: string; actorType: string; result: string },
+  count: number,
+) {
+  stats.totalEvents += count;
+  stats.eventsByAction[row.action] =
+    (stats.eventsByAction[row.action] ?? 0) + count;
+  stats.eventsByActorType[row.actorType] =
+    (stats.eventsByActorType[row.actorType] ?? 0) + count;
+  stats.eventsByResult[row.result] =
+    (stats.eventsByResult[row.result] ?? 0) + count;
+}
+
+/**
+ * Read events with `startTime <= occurredAt < endTime` from the events table
+ */
+export async function scanEvents(
+  ctx: QueryCtx,
+  organizationId: string | undefined,
+  startTime: number,
+  endTime: number,
+) {
+  if (startTime >= endTime) {
+    return [];
+  }
+  if (organizationId !== undefined) {
+    return await ctx.db
+      .query("auditEvents")
+      .withIndex("by_organizationId_and_occurredAt", (q) =>
+        q
+          .eq("organizationId", organizationId)
+          .gte("occurredAt", startTime)
+          .lt("occurredAt", endTime),
+      )
+      .collect();
+  }
+  return await ctx.db
+    .query("auditEvents")
+    .withIndex("by_occurredAt", (q) =>
+      q.gte("occurredAt", startTime).lt("occurredAt", endTime),
+    )
+    .collect();
+}
+
+/**
+ * Most counter rows a single read may return
+ */
+const MAX_COUNTER_ROWS = 5000;
+
+/**
+ * Read counters for buckets starting in `[startTime, endTime)`
+ *
+ * Without `organizationId`, the counters of every organization are read.
+ * Either way the read is bounded: ranges with more than `MAX_COUNTER_ROWS`
+ * counters throw instead of reading them all.
+ */
+export async function readCounters(
+  ctx: QueryCtx,
+  organizationId: string | undefined,
+  granularity: Granularity,
+  startTime: number,
+  endTime: number,
+) {
+  if (startTime >= endTime) {
+    return [];
+  }
+  const counters =
+    organizationId === undefined
+      ? await ctx.db
+          .query("auditCounters")
+          .withIndex("by_granularity_and_bucketStart", (q) =>
+            q
+              .eq("granularity", granularity)
+              .gte("bucketStart", startTime)
+              .lt("bucketStart", endTime),
+          )
+          .take(MAX_COUNTER_ROWS + 1)
+      : await ctx.db
+          .query("auditCounters")
+          .withIndex("by_organizationId_and_granularity_and_bucketStart", (q) =>
+            q
+              .eq("organizationId", organizationId)
+              .eq("granularity", granularity)
+              .gte("bucketStart", startTime)
+              .lt("bucketStart", endTime),
+          )
+          .take(MAX_COUNTER_ROWS + 1);
+  if (counters.length > MAX_COUNTER_ROWS) {
+    throw new Error(
+      organizationId === undefined
+        ? `Stats across every organization would read more than ${MAX_COUNTER_ROWS} counters; pass an organizationId or a shorter range`
+        : `Stats would read more than ${MAX_COUNTER_ROWS} counters; pass a shorter range`,
+    );
+  }
+  return counters;
+}
+
+/**
+ * Whether counters reflect every stored event
+ *
+ * Before the first event is written there is nothing to count, so the
+ * counters are complete.
+ */
+export async function countersAreComplete(ctx: QueryCtx) {
+  const state = await getState(ctx);
+  if (!state) {
+    return (await ctx.db.query("auditEvents").first()) === null;
+  }
+  return state.backfillComplete;
+}
+
+/**
+ * Compute statistics for events with `startTime <= occurredAt <= endTime`
+ *
+ * Whole hours and days are read from the counters; the partial hours at
+ * either end of the range are read from the events themselves, so results
+ * are exact. Until the counters are backfilled, ranges spanning a whole hour
+ * return empty stats with status "backfilling" rather than reading every
+ * event.
+ */
+export async function computeStats(
+  ctx: QueryCtx,
+  args: { organizationId?: string; startTime: number; endTime: number },
+): Promise<Stats> {
+  const stats = emptyStats();
+  const { organizationId, startTime } = args;
+  // Counters and scans use exclusive ends
+  const endTime = args.endTime + 1;
+
+  const addEvents = (events: Array<Doc<"auditEvents">>) => {
+    for (const event of events) {
+      addToStats(
+        stats,
+        {
+          action: event.action,
+          actorType: event.actor.type,
+          result: event.result ?? "success",
+        },
+        1,
+      );
+    }
+  };
+
+  const wholeStart = bucketCeil(startTime, "hour");
+  const wholeEnd = bucketStart(endTime, "hour");
+
+  if (wholeStart >= wholeEnd) {
+    addEvents(await scanEvents(ctx, organizationId, startTime, endTime));
+    return stats;
+  }
+  if (!(await countersAreComplete(ctx))) {
+    return emptyStats("backfilling");
+  }
+
+  // Partial hours at the edges
+  addEvents(await scanEvents(ctx, organizationId, startTime, wholeStart));
+  addEvents(await scanEvents(ctx, organizationId, wholeEnd, endTime));
+
+  // Whole days in the middle, whole hours around them
+  const dayStart = Math.min(bucketCeil(wholeStart, "day"), wholeEnd);
+  const dayEnd = Math.max(bucketStart(wholeEnd, "day"), dayStart);
+  const counters = [
+    ...(await readCounters(ctx, organizationId, "hour", wholeStart, dayStart)),
+    ...(await readCounters(ctx, organizationId, "day", dayStart, dayEnd)),
+    ...(await readCounters(ctx, organizationId, "hour", dayEnd, wholeEnd)),
+  ];
+  for (const counter of counters) {
+    addToStats(stats, counter, counter.count);
+  }
+
+  return stats;
+}
+
+/**
+ * Most buckets a single time series may span
+ */
+const MAX_BUCKETS = 1000;
+
+export const timeSeriesGroupByValidator = v.union(
+  v.literal("action"),
+  v.literal("actorType"),
+  v.literal("result"),
+);
+
+export type TimeSeriesGroupBy = "action" | "actorType" | "result";
+
+export const timeSeriesPointValidator = v.object({
+  bucketStart: v.number(),
+  total: v.number(),
+  groups: v.record(v.string(), v.number()),
+});
+
+/**
+ * Count events per hour or day between `startTime` and `endTime`
+ *
+ * Every bucket overlapping the range is returned, including empty ones, and
+ * counts cover whole buckets. With `groupBy`, each point also breaks its
+ * total down by that dimension. Throws until the counters are backfilled.
+ */
+export async function computeTimeSeries(
+  ctx: QueryCtx,
+  args: {
+    organizationId?: string;
+    granularity: Granularity;
+    startTime: number;
+    endTime: number;
+    groupBy?: TimeSeriesGroupBy;
+  },
+) {
+  const size = args.granularity === "hour" ? HOUR_MS : DAY_MS;
+  const first = bucketStart(args.startTime, args.granularity);
+  const last = bucketStart(args.endTime, args.granularity);
+  if (last < first) {
+    return [];
+  }
+  if ((last - first) / size + 1 > MAX_BUCKETS) {
+    throw new Error(
+      `Time series would span more than ${MAX_BUCKETS} ${args.granularity} buckets`,
+    );
+  }
+
+  const points = new Map<
+    number,
+    { bucketStart: number; total: number; groups: Record<string, number> }
+  >();
+  for (let start = first; start <= last; start += size) {
+    points.set(start, { bucketStart: start, total: 0, groups: {} });
+  }
+
+  const add = (
+    start: number,
+    row: { action: string; actorType: string; result: string },
+    count: number,
+  ) => {
+    const point = points.get(start)!;
+    point.total += count;
+    if (args.groupBy !== undefined) {
+      const key = row[args.groupBy];
+      point.groups[key] = (point.groups[key] ?? 0) + count;
+    }
+  };
+
+  if (!(await countersAreComplete(ctx))) {
+    throw new Error(
+      "Time series are unavailable until the stats backfill completes",
+    );
+  }
+  const counters = await readCounters(
+    ctx,
+    args.organizationId,
+    args.granularity,
+    first,
+    last + size,
+  );
+  for (const counter of counters) {
+    add(counter.bucketStart, counter, counter.count);
+  }
+
+  return [...points.values()];
+}
+
+// =============================================================================
+// Backfill
+// =============================================================================
+
+const backfillStatusValidator = v.object({
+  backfillComplete: v.boolean(),
+  backfilledThrough: v.union(v.null(), v.number()),
+  backfillUntil: v.union(v.null(), v.number()),
+});
+
+/**
+ * Get the progress of counter maintenance
+ */
+export const getBackfillStatus = query({
+  args: {},
+  returns: backfillStatusValidator,
+  handler: async (ctx) => {
+    const state = await getState(ctx);
+    return {
+      backfillComplete: state?.backfillComplete ?? false,
+      backfilledThrough: state?.backfilledThrough ?? null,
+      backfillUntil: state?.backfillUntil ?? null,
+    };
+  },
+});
+
+/**
+ * Build the counters from events written before live counting began
+ *
+ * Processes the first batch now and schedules the rest in the background.
+ * Safe to call again: the job resumes where it left off and does nothing
+ * once complete.
+ */
+export const backfill = mutation({
+  args: {
+    batchSize: v.optional(v.number()),
+  },
+  returns: backfillStatusValidator,
+  handler: async (ctx, args) => {
+    await ensureLiveCounting(ctx);
+    await backfillCounters(ctx, args.batchSize ?? 200);
+    const state = (await getState(ctx))!;
+    return {
+      backfillComplete: state.backfillComplete,
+      backfilledThrough: state.backfilledThrough ?? null,
+      backfillUntil: state.backfillUntil ?? null,
+    };
+  },
+});
+
+/**
+ * Internal function to count one batch of events for the backfill
+ */
+export const backfillBatch = internalMutation({
+  args: {
+    batchSize: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await backfillCounters(ctx, args.batchSize);
+    return null;
+  },
+});
+
+async function backfillCounters(ctx: MutationCtx, batchSize: number) {
+  const state = await getState(ctx);
+  if (!state || state.backfillComplete) {
+    return;
+  }
+  const until = state.backfillUntil!;
+
+  const after = state.backfilledThrough;
+  const events = await ctx.db
+    .query("auditEvents")
+    .withIndex("by_creation_time", (q) =>
+      after === undefined
+        ? q.lte("_creationTime", until)
+        : q.gt("_creationTime", after).lte("_creationTime", until),
+    )
+    .take(batchSize);
+
+  for (const event of events) {
+    await countEvent(ctx, event, 1);
+  }
+
+  const done = events.length < batchSize;
+  await ctx.db.patch(state._id, {
+    backfilledThrough:
+      events.length > 0 ? events[events.length - 1]._creationTime : after,
+    backfillComplete: done,
+  });
+
+  if (!done) {
+    await ctx.scheduler.runAfter(0, internal.stats.backfillBatch, {
+      batchSize,
+    });
+  }
+}
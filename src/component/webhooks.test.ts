@@ -0,0 +1,246 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, expect, test, describe, vi } from "vitest";
+import { api, internal } from "./_generated/api.js";
+import schema from "./schema.js";
+
+const modules = import.meta.glob("./**/*.ts");
+
+const ENDPOINT = "https://siem.example.com/audit";
+
+/**
+ * Local stand-in for a customer endpoint, answering with the given statuses
+ * in order (the last one repeats)
+ */
+function stubEndpoint(statuses: number[]) {
+  const requests: Array<{ headers: Headers; body: string }> = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: RequestInit) => {
+      requests.push({
+        headers: new Headers(init.headers),
+        body: String(init.body),
+      });
+      const status = statuses[Math.min(requests.length, statuses.length) - 1];
+      return new Response(null, { status });
+    }),
+  );
+  return requests;
+}
+
+async function hmac(secret: string, payload: string) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(payload),
+  );
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+describe("Webhooks", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  test("delivers matching events with a verifiable signature", async () => {
+    const t = convexTest(schema, modules);
+    const requests = stubEndpoint([200]);
+
+    await t.mutation(api.webhooks.createSubscription, {
+      organizationId: "org_1",
+      url: ENDPOINT,
+      secret: "whsec_test",
+      actions: ["security.*"],
+    });
+
+    const { eventId } = await t.mutation(api.lib.log, {
+      action: "security.alert",
+      actor: { type: "system", id: "detector" },
+      targets: [],
+      organizationId: "org_1",
+    });
+    // Filtered out by action, and by organization
+    await t.mutation(api.lib.log, {
+      action: "user.signed_in",
+      actor: { type: "user", id: "user_1" },
+      targets: [],
+      organizationId: "org_1",
+    });
+    await t.mutation(api.lib.log, {
+      action: "security.alert",
+      actor: { type: "system", id: "detector" },
+      targets: [],
+      organizationId: "org_2",
+    });
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(requests.length).toBe(1);
+    const [request] = requests;
+    const timestamp = request.headers.get("X-Audit-Timestamp")!;
+    expect(request.headers.get("X-Audit-Signature")).toBe(
+      `sha256=${await hmac("whsec_test", `${timestamp}.${request.body}`)}`,
+    );
+    expect(JSON.parse(request.body).event._id).toBe(eventId);
+
+    const [delivery] = await t.query(api.webhooks.listDeliveries, {
+      organizationId: "org_1",
+    });
+    expect(delivery.status).toBe("delivered");
+    expect(delivery.attemptCount).toBe(1);
+  });
+
+  test("retries with backoff, then dead-letters, then replays", async () => {
+    const t = convexTest(schema, modules);
+    const requests = stubEndpoint([500, 503, 502]);
+
+    const subscriptionId = await t.mutation(api.webhooks.createSubscription, {
+      organizationId: "org_1",
+      url: ENDPOINT,
+      secret: "whsec_test",
+      maxAttempts: 3,
+    });
+    await t.mutation(api.lib.log, {
+      action: "resource.deleted",
+      actor: { type: "user", id: "user_1" },
+      targets: [],
+      organizationId: "org_1",
+    });
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(requests.length).toBe(3);
+    const [deadLetter] = await t.query(api.webhooks.listDeliveries, {
+      subscriptionId,
+      status: "dead_letter",
+    });
+    expect(deadLetter.attemptCount).toBe(3);
+    expect(deadLetter.lastError).toBe("Endpoint responded with 502");
+
+    const attempts = await t.query(api.webhooks.listAttempts, {
+      deliveryId: deadLetter._id,
+    });
+    expect(attempts.map((a) => a.statusCode)).toEqual([500, 503, 502]);
+    // Backoff doubles between attempts
+    expect(attempts[2].attemptedAt - attempts[1].attemptedAt).toBe(
+      2 * (attempts[1].attemptedAt - attempts[0].attemptedAt),
+    );
+
+    stubEndpoint([204]);
+    await t.mutation(api.webhooks.replayDelivery, {
+      deliveryId: deadLetter._id,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const [replayed] = await t.query(api.webhooks.listDeliveries, {
+      subscriptionId,
+    });
+    expect(replayed.status).toBe("delivered");
+    expect(
+      (await t.query(api.webhooks.listAttempts, { deliveryId: replayed._id }))
+        .length,
+    ).toBe(4);
+  });
+
+  test("retries deliveries whose attempt never finished", async () => {
+    const t = convexTest(schema, modules);
+    const requests = stubEndpoint([200]);
+
+    const subscriptionId = await t.mutation(api.webhooks.createSubscription, {
+      organizationId: "org_1",
+      url: ENDPOINT,
+      secret: "whsec_test",
+    });
+    await t.mutation(api.lib.log, {
+      action: "resource.deleted",
+      actor: { type: "user", id: "user_1" },
+      targets: [],
+      organizationId: "org_1",
+    });
+    // A pending delivery with nothing scheduled, as left by a killed action
+    const deliveryId = await t.run(async (ctx) => {
+      for (const scheduled of await ctx.db.system
+        .query("_scheduled_functions")
+        .collect()) {
+        await ctx.scheduler.cancel(scheduled._id);
+      }
+      return (await ctx.db.query("webhookDeliveries").first())!._id;
+    });
+
+    // Not yet stalled
+    await t.mutation(internal.webhooks.retryStalledDeliveries, {});
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(requests.length).toBe(0);
+
+    vi.advanceTimersByTime(16 * 60 * 1000);
+    await t.mutation(internal.webhooks.retryStalledDeliveries, {});
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(requests.length).toBe(1);
+    const [delivery] = await t.query(api.webhooks.listDeliveries, {
+      subscriptionId,
+    });
+    expect(delivery.status).toBe("delivered");
+    const attempts = await t.query(api.webhooks.listAttempts, { deliveryId });
+    expect(attempts.map((a) => a.error)).toEqual([
+      "Attempt did not finish",
+      undefined,
+    ]);
+  });
+
+  test("disabled subscriptions receive nothing and hide their secret", async () => {
+    const t = convexTest(schema, modules);
+    const requests = stubEndpoint([200]);
+
+    const subscriptionId = await t.mutation(api.webhooks.createSubscription, {
+      organizationId: "org_1",
+      url: ENDPOINT,
+      secret: "whsec_test",
+    });
+    await t.mutation(api.webhooks.updateSubscription, {
+      subscriptionId,
+      enabled: false,
+    });
+    await t.mutation(api.lib.log, {
+      action: "resource.read",
+      actor: { type: "user", id: "user_1" },
+      targets: [],
+      organizationId: "org_1",
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(requests.length).toBe(0);
+
+    const [subscription] = await t.query(api.webhooks.listSubscriptions, {
+      organizationId: "org_1",
+    });
+    expect(subscription.enabled).toBe(false);
+    expect("secret" in subscription).toBe(false);
+  });
+
+  test("createSubscription rejects invalid URLs", async () => {
+    const t = convexTest(schema, modules);
+
+    await expect(
+      t.mutation(api.webhooks.createSubscription, {
+        organizationId: "org_1",
+        url: "ftp://example.com",
+        secret: "whsec_test",
+      }),
+    ).rejects.toThrow("must use http or https");
+  });
+});
@@ -0,0 +1,608 @@
+import { v } from "convex/values";
+import {
+  internalAction,
+  internalMutation,
+  mutation,
+  query,
+} from "./_generated/server.js";
+import type { MutationCtx } from "./_generated/server.js";
+import type { Doc, Id } from "./_generated/dataModel.js";
+import { internal } from "./_generated/api.js";
+import {
+  webhookAttemptValidator,
+  webhookDeliveryValidator,
+  webhookSubscriptionValidator,
+} from "./schema.js";
+import type {
+  AuditEvent,
+  WebhookAttempt,
+  WebhookSubscription,
+} from "./schema.js";
+import { matchesAction, validateActionPattern } from "./retention.js";
+import { decryptEvent } from "./encryption.js";
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 30 * 1000;
+// Pending this long past their attempt time, a delivery's action has died
+const STALLED_DELIVERY_MS = 15 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 100;
+
+// =============================================================================
+// Validators
+// =============================================================================
+
+// Secrets are write-only: they are never returned from queries
+const webhookSubscriptionDocValidator = webhookSubscriptionValidator
+  .omit("secret")
+  .extend({
+    _id: v.string(),
+    _creationTime: v.number(),
+  });
+
+const webhookDeliveryDocValidator = webhookDeliveryValidator.extend({
+  _id: v.string(),
+  _creationTime: v.number(),
+});
+
+const webhookAttemptDocValidator = webhookAttemptValidator.extend({
+  _id: v.string(),
+  _creationTime: v.number(),
+});
+
+const deliveryStatusValidator = v.union(
+  v.literal("pending"),
+  v.literal("delivered"),
+  v.literal("dead_letter"),
+);
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function validateSubscription(fields: {
+  url?: string;
+  actions?: string[];
+  maxAttempts?: number;
+}) {
+  if (fields.url !== undefined) {
+    let protocol: string;
+    try {
+      protocol = new URL(fields.url).protocol;
+    } catch {
+      throw new Error(`Invalid webhook URL: ${fields.url}`);
+    }
+    if (protocol !== "https:" && protocol !== "http:") {
+      throw new Error(`Webhook URL must use http or https: ${fields.url}`);
+    }
+  }
+  for (const action of fields.actions ?? []) {
+    validateActionPattern(action);
+  }
+  if (fields.maxAttempts !== undefined && !(fields.maxAttempts >= 1)) {
+    throw new Error("maxAttempts must be at least 1");
+  }
+}
+
+function matchesSubscription(
+  subscription: Pick<WebhookSubscription, "actions" | "tags">,
+  event: Pick<AuditEvent, "action" | "tags">,
+) {
+  const actionMatches =
+    subscription.actions === undefined ||
+    subscription.actions.some((pattern) =>
+      matchesAction(pattern, event.action),
+    );
+  const tagMatches =
+    subscription.tags === undefined ||
+    subscription.tags.some((tag) => (event.tags ?? []).includes(tag));
+  return actionMatches && tagMatches;
+}
+
+/**
+ * Delay before the next attempt, doubling after every failure
+ */
+function retryDelay(attemptCount: number) {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** (attemptCount - 1),
+    MAX_RETRY_DELAY_MS,
+  );
+}
+
+/**
+ * HMAC-SHA256 of `${timestamp}.${body}`, hex encoded
+ */
+async function sign(secret: string, timestamp: number, body: string) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}.${body}`),
+  );
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Enqueue deliveries of a newly written event to matching subscriptions
+ */
+export async function enqueueDeliveries(
+  ctx: MutationCtx,
+  event: Pick<AuditEvent, "organizationId" | "action" | "tags"> & {
+    _id: Id<"auditEvents">;
+  },
+) {
+  const organizationId = event.organizationId;
+  if (organizationId === undefined) {
+    return;
+  }
+
+  const subscriptions = await ctx.db
+    .query("webhookSubscriptions")
+    .withIndex("by_organizationId", (q) =>
+      q.eq("organizationId", organizationId),
+    )
+    .collect();
+
+  for (const subscription of subscriptions) {
+    if (!subscription.enabled || !matchesSubscription(subscription, event)) {
+      continue;
+    }
+    const now = Date.now();
+    const deliveryId = await ctx.db.insert("webhookDeliveries", {
+      subscriptionId: subscription._id,
+      eventId: event._id,
+      organizationId,
+      status: "pending",
+      attemptCount: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+    });
+    await ctx.scheduler.runAfter(0, internal.webhooks.deliver, {
+      deliveryId,
+    });
+  }
+}
+
+// =============================================================================
+// Subscriptions
+// =============================================================================
+
+/**
+ * Subscribe an endpoint to an organization's audit events
+ *
+ * Every matching event is POSTed as JSON, signed with `secret`.
+ */
+export const createSubscription = mutation({
+  args: {
+    organizationId: v.string(),
+    url: v.string(),
+    secret: v.string(),
+    actions: v.optional(v.array(v.string())),
+    tags: v.optional(v.array(v.string())),
+    maxAttempts: v.optional(v.number()),
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    validateSubscription(args);
+    const now = Date.now();
+    return await ctx.db.insert("webhookSubscriptions", {
+      ...args,
+      enabled: true,
+      maxAttempts: args.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Update a webhook subscription
+ *
+ * Omitted fields are left unchanged.
+ */
+export const updateSubscription = mutation({
+  args: {
+    subscriptionId: v.string(),
+    url: v.optional(v.string()),
+    secret: v.optional(v.string()),
+    actions: v.optional(v.array(v.string())),
+    tags: v.optional(v.array(v.string())),
+    enabled: v.optional(v.boolean()),
+    maxAttempts: v.optional(v.number()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { subscriptionId, ...fields } = args;
+    const id = ctx.db.normalizeId("webhookSubscriptions", subscriptionId);
+    if (!id || !(await ctx.db.get(id))) {
+      throw new Error(`Webhook subscription not found: ${subscriptionId}`);
+    }
+    validateSubscription(fields);
+    await ctx.db.patch(id, { ...fields, updatedAt: Date.now() });
+    return null;
+  },
+});
+
+/**
+ * Remove a webhook subscription
+ *
+ * Past deliveries are kept; deliveries still pending are dead-lettered on
+ * their next attempt.
+ */
+export const removeSubscription = mutation({
+  args: {
+    subscriptionId: v.string(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const id = ctx.db.normalizeId("webhookSubscriptions", args.subscriptionId);
+    if (!id || !(await ctx.db.get(id))) {
+      return false;
+    }
+    await ctx.db.delete(id);
+    return true;
+  },
+});
+
+/**
+ * List an organization's webhook subscriptions (without their secrets)
+ */
+export const listSubscriptions = query({
+  args: {
+    organizationId: v.string(),
+  },
+  returns: v.array(webhookSubscriptionDocValidator),
+  handler: async (ctx, args) => {
+    const subscriptions = await ctx.db
+      .query("webhookSubscriptions")
+      .withIndex("by_organizationId", (q) =>
+        q.eq("organizationId", args.organizationId),
+      )
+      .collect();
+    return subscriptions.map(
+      ({ secret: _secret, ...subscription }) => subscription,
+    );
+  },
+});
+
+// =============================================================================
+// Deliveries
+// =============================================================================
+
+/**
+ * List webhook deliveries, most recent first
+ *
+ * Filter by subscription or organization, optionally by status (e.g.
+ * "dead_letter" to find deliveries that need replaying).
+ */
+export const listDeliveries = query({
+  args: {
+    subscriptionId: v.optional(v.string()),
+    organizationId: v.optional(v.string()),
+    status: v.optional(deliveryStatusValidator),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(webhookDeliveryDocValidator),
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 50;
+    const status = args.status;
+
+    if (args.subscriptionId !== undefined) {
+      const subscriptionId = ctx.db.normalizeId(
+        "webhookSubscriptions",
+        args.subscriptionId,
+      );
+      if (!subscriptionId) {
+        return [];
+      }
+      return await ctx.db
+        .query("webhookDeliveries")
+        .withIndex("by_subscriptionId_and_status", (q) =>
+          status === undefined
+            ? q.eq("subscriptionId", subscriptionId)
+            : q.eq("subscriptionId", subscriptionId).eq("status", status),
+        )
+        .order("desc")
+        .take(limit);
+    }
+
+    if (args.organizationId !== undefined) {
+      const organizationId = args.organizationId;
+      return await ctx.db
+        .query("webhookDeliveries")
+        .withIndex("by_organizationId_and_status", (q) =>
+          status === undefined
+            ? q.eq("organizationId", organizationId)
+            : q.eq("organizationId", organizationId).eq("status", status),
+        )
+        .order("desc")
+        .take(limit);
+    }
+
+    const deliveries = ctx.db.query("webhookDeliveries").order("desc");
+    return status === undefined
+      ? await deliveries.take(limit)
+      : await deliveries
+          .filter((q) => q.eq(q.field("status"), status))
+          .take(limit);
+  },
+});
+
+/**
+ * List the HTTP attempts made for a delivery, oldest first
+ */
+export const listAttempts = query({
+  args: {
+    deliveryId: v.string(),
+  },
+  returns: v.array(webhookAttemptDocValidator),
+  handler: async (ctx, args) => {
+    const deliveryId = ctx.db.normalizeId("webhookDeliveries", args.deliveryId);
+    if (!deliveryId) {
+      return [];
+    }
+    return await ctx.db
+      .query("webhookAttempts")
+      .withIndex("by_deliveryId", (q) => q.eq("deliveryId", deliveryId))
+      .collect();
+  },
+});
+
+/**
+ * Send a delivery again
+ *
+ * Works for delivered and dead-lettered deliveries; the retry budget starts
+ * over.
+ */
+export const replayDelivery = mutation({
+  args: {
+    deliveryId: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const deliveryId = ctx.db.normalizeId("webhookDeliveries", args.deliveryId);
+    const delivery = deliveryId ? await ctx.db.get(deliveryId) : null;
+    if (!delivery) {
+      throw new Error(`Webhook delivery not found: ${args.deliveryId}`);
+    }
+    if (delivery.status === "pending") {
+      throw new Error(`Webhook delivery is already pending: ${delivery._id}`);
+    }
+
+    await ctx.db.patch(delivery._id, {
+      status: "pending",
+      attemptCount: 0,
+      nextAttemptAt: Date.now(),
+      deliveredAt: undefined,
+    });
+    await ctx.scheduler.runAfter(0, internal.webhooks.deliver, {
+      deliveryId: delivery._id,
+    });
+    return null;
+  },
+});
+
+// =============================================================================
+// Sending
+// =============================================================================
+
+/**
+ * Internal function to load what an attempt should send
+ *
+ * Returns null when the delivery is no longer pending. Deliveries whose
+ * subscription was removed or disabled, or whose event no longer exists,
+ * are dead-lettered here instead of being sent.
+ */
+export const prepareAttempt = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+  },
+  returns: v.union(
+    v.null(),
+    v.object({
+      url: v.string(),
+      secret: v.string(),
+      event: v.any(),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery || delivery.status !== "pending") {
+      return null;
+    }
+
+    const subscription = await ctx.db.get(delivery.subscriptionId);
+    const event = await ctx.db.get(delivery.eventId);
+    if (!subscription || !subscription.enabled || !event) {
+      await ctx.db.patch(delivery._id, {
+        status: "dead_letter",
+        nextAttemptAt: undefined,
+        lastError: !subscription
+          ? "Subscription was removed"
+          : !subscription.enabled
+            ? "Subscription is disabled"
+            : "Event no longer exists",
+      });
+      return null;
+    }
+
+    return {
+      url: subscription.url,
+      secret: subscription.secret,
+      event: await decryptEvent(ctx, event),
+    };
+  },
+});
+
+/**
+ * Internal action making one signed HTTP request for a delivery
+ */
+export const deliver = internalAction({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const attempt = await ctx.runMutation(internal.webhooks.prepareAttempt, {
+      deliveryId: args.deliveryId,
+    });
+    if (!attempt) {
+      return null;
+    }
+
+    const body = JSON.stringify({
+      deliveryId: args.deliveryId,
+      event: attempt.event as Doc<"auditEvents">,
+    });
+    const timestamp = Date.now();
+    const signature = await sign(attempt.secret, timestamp, body);
+
+    let statusCode: number | undefined;
+    let error: string | undefined;
+    try {
+      const response = await fetch(attempt.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Audit-Delivery": args.deliveryId,
+          "X-Audit-Timestamp": String(timestamp),
+          "X-Audit-Signature": `sha256=${signature}`,
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      statusCode = response.status;
+      if (!response.ok) {
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    await ctx.runMutation(internal.webhooks.recordAttempt, {
+      deliveryId: args.deliveryId,
+      attemptedAt: timestamp,
+      statusCode,
+      error,
+    });
+    return null;
+  },
+});
+
+/**
+ * Internal function to record an attempt and schedule a retry if needed
+ */
+export const recordAttempt = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    attemptedAt: v.number(),
+    statusCode: v.optional(v.number()),
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery) {
+      return null;
+    }
+    await applyAttempt(ctx, delivery, args);
+    return null;
+  },
+});
+
+/**
+ * Internal function to retry deliveries whose attempt never finished
+ *
+ * An attempt that dies before recording its result (e.g. the action was
+ * killed) leaves its delivery pending with nothing scheduled. Deliveries
+ * still pending well past their attempt time count as a failed attempt, so
+ * they are retried or dead-lettered like any other failure.
+ */
+export const retryStalledDeliveries = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const now = Date.now();
+    const stalled = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_status_and_nextAttemptAt", (q) =>
+        q
+          .eq("status", "pending")
+          .lt("nextAttemptAt", now - STALLED_DELIVERY_MS),
+      )
+      .take(SWEEP_BATCH_SIZE);
+
+    for (const delivery of stalled) {
+      await applyAttempt(ctx, delivery, {
+        deliveryId: delivery._id,
+        attemptedAt: delivery.nextAttemptAt ?? now,
+        error: "Attempt did not finish",
+      });
+    }
+
+    if (stalled.length === SWEEP_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.webhooks.retryStalledDeliveries,
+        {},
+      );
+    }
+    return null;
+  },
+});
+
+/**
+ * Record an attempt on a delivery, then mark it delivered, dead-letter it or
+ * schedule the next attempt
+ */
+async function applyAttempt(
+  ctx: MutationCtx,
+  delivery: Doc<"webhookDeliveries">,
+  attempt: WebhookAttempt,
+) {
+  await ctx.db.insert("webhookAttempts", attempt);
+
+  const attemptCount = delivery.attemptCount + 1;
+  if (attempt.error === undefined) {
+    await ctx.db.patch(delivery._id, {
+      status: "delivered",
+      attemptCount,
+      nextAttemptAt: undefined,
+      lastError: undefined,
+      deliveredAt: attempt.attemptedAt,
+    });
+    return;
+  }
+
+  const subscription = await ctx.db.get(delivery.subscriptionId);
+  const maxAttempts = subscription?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  if (attemptCount >= maxAttempts) {
+    await ctx.db.patch(delivery._id, {
+      status: "dead_letter",
+      attemptCount,
+      nextAttemptAt: undefined,
+      lastError: attempt.error,
+    });
+    return;
+  }
+
+  const delay = retryDelay(attemptCount);
+  await ctx.db.patch(delivery._id, {
+    attemptCount,
+    nextAttemptAt: Date.now() + delay,
+    lastError: attempt.error,
+  });
+  await ctx.scheduler.runAfter(delay, internal.webhooks.deliver, {
+    deliveryId: delivery._id,
+  });
+}
@@ -42,14 +42,26 @@
  * ```
  */
 
-import { useCallback, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { useQuery, useMutation } from "convex/react";
+import type { OptionalRestArgsOrSkip } from "convex/react";
 import type { FunctionReference, FunctionArgs, FunctionReturnType } from "convex/server";
+import { parseAuditQuery } from "../client/queryLanguage.js";
+
+export type { AuditQueryDiagnostic } from "../client/queryLanguage.js";
 
 // =============================================================================
 // Types
 // =============================================================================
 
+export interface AuditChange {
+  field: string;
+  kind: "added" | "removed" | "changed";
+  before?: any;
+  after?: any;
+  redacted?: boolean;
+}
+
 export interface AuditEvent {
   _id: string;
   _creationTime: number;
@@ -83,6 +95,7 @@ export interface AuditEvent {
     sessionId?: string;
   };
   metadata?: Record<string, any>;
+  changes?: AuditChange[];
   organizationId?: string;
   result?: "success" | "failure" | "pending";
   error?: {
@@ -91,15 +104,90 @@ export interface AuditEvent {
   };
   tags?: string[];
   version?: number;
+  redaction?: {
+    policyId: string;
+    policyVersion: number;
+    fields: string[];
+  };
+  encryption?: {
+    keyId: string;
+    dataKey: string;
+    ciphertext: string;
+    fields: Array<"metadata" | "actor.metadata" | "context">;
+  };
+  sequence?: number;
+  previousHash?: string;
+  hash?: string;
+}
+
+/**
+ * A change prepared for display, e.g. as one row of a diff table
+ */
+export interface AuditChangeRow {
+  field: string;
+  label: string;
+  kind: "added" | "removed" | "changed";
+  before: string;
+  after: string;
+  redacted: boolean;
 }
 
 export interface AuditStats {
+  /** "backfilling" until counters cover events from before they existed */
+  status: "ready" | "backfilling";
   totalEvents: number;
   eventsByAction: Record<string, number>;
   eventsByActorType: Record<string, number>;
   eventsByResult: Record<string, number>;
 }
 
+export interface AuditActionInfo {
+  action: string;
+  description?: string;
+  severity?: "low" | "medium" | "high" | "critical";
+  targetTypes?: string[];
+  metadata?: any;
+}
+
+export interface TimeSeriesPoint {
+  bucketStart: number;
+  total: number;
+  groups: Record<string, number>;
+}
+
+/**
+ * A time series point flattened for charting libraries: every group key is
+ * present on every point, with 0 where a bucket had no events for it
+ */
+export type ChartPoint = {
+  bucketStart: number;
+  total: number;
+} & Record<string, number>;
+
+export interface AuditExport {
+  _id: string;
+  _creationTime: number;
+  format: "csv" | "ndjson";
+  filters: {
+    organizationId?: string;
+    action?: string;
+    actionPrefix?: string;
+    actorId?: string;
+    actorType?: string;
+    actorEmail?: string;
+    result?: "success" | "failure" | "pending";
+    tags?: string[];
+    startTime?: number;
+    endTime?: number;
+  };
+  status: "pending" | "running" | "completed" | "failed";
+  rowCount: number;
+  error?: string;
+  createdAt: number;
+  completedAt?: number;
+  url: string | null;
+}
+
 export interface ListResponse {
   events: AuditEvent[];
   nextCursor: string | null;
@@ -113,40 +201,90 @@ export interface ListResponse {
 /**
  * Hook for listing audit events with pagination
  *
+ * Pages are accumulated as `loadMore` is called. The most recent page stays
+ * reactive; earlier pages are kept as they were when the next page was
+ * requested. Changing `args` starts again from the first page.
+ *
  * @param listFn - The list function reference (e.g., api.example.list)
- * @param args - Arguments for the list function
+ * @param args - Arguments for the list function, or "skip" to not load
  * @returns Object with events, loading state, and pagination controls
  */
 export function useAuditEvents<
   ListFn extends FunctionReference<"query", "public", any, ListResponse>
 >(
   listFn: ListFn,
-  args: Omit<FunctionArgs<ListFn>, "cursor">
+  args: Omit<FunctionArgs<ListFn>, "cursor"> | "skip"
 ) {
-  const [cursor, setCursor] = useState<string | undefined>(undefined);
+  const argsKey = JSON.stringify(args);
+  const [pages, setPages] = useState<{
+    argsKey: string;
+    cursor: string | undefined;
+    previousEvents: AuditEvent[];
+  }>({ argsKey, cursor: undefined, previousEvents: [] });
 
-  const result = useQuery(listFn, { ...args, cursor } as FunctionArgs<ListFn>);
+  // Ignore pagination state left over from different arguments
+  const current =
+    pages.argsKey === argsKey
+      ? pages
+      : { argsKey, cursor: undefined, previousEvents: [] };
+
+  const result = useQuery(
+    listFn,
+    ...((args === "skip"
+      ? ["skip"]
+      : [{ ...args, cursor: current.cursor }]) as OptionalRestArgsOrSkip<ListFn>)
+  );
 
   const loadMore = useCallback(() => {
     if (result?.nextCursor) {
-      setCursor(result.nextCursor);
+      setPages({
+        argsKey,
+        cursor: result.nextCursor,
+        previousEvents: [...current.previousEvents, ...result.events],
+      });
     }
-  }, [result?.nextCursor]);
+  }, [argsKey, current.previousEvents, result]);
 
   const reset = useCallback(() => {
-    setCursor(undefined);
-  }, []);
+    setPages({ argsKey, cursor: undefined, previousEvents: [] });
+  }, [argsKey]);
 
   return {
-    events: result?.events ?? [],
+    events: [...current.previousEvents, ...(result?.events ?? [])],
     hasMore: result?.hasMore ?? false,
     nextCursor: result?.nextCursor ?? null,
-    isLoading: result === undefined,
+    isLoading: args !== "skip" && result === undefined,
     loadMore,
     reset,
   };
 }
 
+/**
+ * Hook for listing the audit events that affected a target resource
+ *
+ * Paginates like `useAuditEvents`.
+ *
+ * @param listFn - The listByTarget function reference (e.g., api.example.listByTarget)
+ * @param targetType - The type of the target resource (e.g., "document")
+ * @param targetId - The ID of the target resource
+ * @param args - Additional arguments for the listByTarget function
+ * @returns Object with events, loading state, and pagination controls
+ */
+export function useAuditEventsByTarget<
+  ListFn extends FunctionReference<"query", "public", any, ListResponse>
+>(
+  listFn: ListFn,
+  targetType: string,
+  targetId: string,
+  args?: Omit<FunctionArgs<ListFn>, "cursor" | "targetType" | "targetId">
+) {
+  return useAuditEvents(listFn, {
+    ...args,
+    targetType,
+    targetId,
+  } as Omit<FunctionArgs<ListFn>, "cursor">);
+}
+
 /**
  * Hook for getting audit statistics
  *
@@ -163,21 +301,65 @@ export function useAuditStats<
   return useQuery(statsFn, args);
 }
 
+/**
+ * Hook for listing the registered actions, e.g. to fill an action filter
+ *
+ * @param listFn - The listActions function reference (e.g., api.example.listActions)
+ * @returns Registered actions sorted by name, or undefined if loading
+ */
+export function useAuditActions<
+  ListFn extends FunctionReference<"query", "public", any, AuditActionInfo[]>
+>(listFn: ListFn): AuditActionInfo[] | undefined {
+  return useQuery(listFn, {} as FunctionArgs<ListFn>);
+}
+
 /**
  * Hook for searching audit events
  *
+ * Paginates like `useAuditEvents`. Changing the query or a filter starts
+ * over from the first page.
+ *
  * @param searchFn - The search function reference (e.g., api.example.search)
- * @param searchQuery - The search query string
- * @param args - Additional arguments for the search function
- * @returns Array of matching events or undefined if loading
+ * @param args - The search query and filters (organizationId, actorType, actorId, action, result)
+ * @returns Object with matching events, loading state, and pagination controls
  */
 export function useAuditSearch<
-  SearchFn extends FunctionReference<"query", "public", any, AuditEvent[]>
+  SearchFn extends FunctionReference<"query", "public", any, ListResponse>
 >(
   searchFn: SearchFn,
-  args: FunctionArgs<SearchFn>
-): AuditEvent[] | undefined {
-  return useQuery(searchFn, args);
+  args: Omit<FunctionArgs<SearchFn>, "cursor">
+) {
+  return useAuditEvents(searchFn, args);
+}
+
+/**
+ * Hook for running an audit query typed into an input box
+ *
+ * The input is parsed as it changes. While it has diagnostics (an unknown
+ * field, a bad date, an unterminated quote...) nothing is loaded, and the
+ * diagnostics locate the problems for highlighting. Valid queries paginate
+ * like `useAuditEvents`.
+ *
+ * @param queryFn - The query function reference (e.g., api.example.queryEvents)
+ * @param input - The query text, e.g. "action:user.* result:failure"
+ * @param args - Additional arguments for the query function
+ * @returns Object with events, diagnostics, loading state, and pagination controls
+ */
+export function useAuditQuery<
+  QueryFn extends FunctionReference<"query", "public", any, ListResponse>
+>(
+  queryFn: QueryFn,
+  input: string,
+  args?: Omit<FunctionArgs<QueryFn>, "cursor" | "q">
+) {
+  const diagnostics = useMemo(() => parseAuditQuery(input).diagnostics, [input]);
+  const page = useAuditEvents(
+    queryFn,
+    diagnostics.length > 0
+      ? "skip"
+      : ({ ...args, q: input } as Omit<FunctionArgs<QueryFn>, "cursor">)
+  );
+  return { ...page, diagnostics };
 }
 
 /**
@@ -196,6 +378,70 @@ export function useAuditEvent<
   return useQuery(getFn, { eventId } as FunctionArgs<GetFn>);
 }
 
+/**
+ * Hook for getting a single audit event along with its changes, formatted
+ * for display
+ *
+ * @example
+ * ```tsx
+ * const { changes } = useAuditEventChanges(api.audit.get, eventId);
+ * return (
+ *   <table>
+ *     {changes.map((change) => (
+ *       <tr key={change.field}>
+ *         <td>{change.label}</td>
+ *         <td><del>{change.before}</del></td>
+ *         <td><ins>{change.after}</ins></td>
+ *       </tr>
+ *     ))}
+ *   </table>
+ * );
+ * ```
+ *
+ * @param getFn - The get function reference (e.g., api.example.get)
+ * @param eventId - The ID of the event to get
+ * @returns The event, one row per changed field, and loading state
+ */
+export function useAuditEventChanges<
+  GetFn extends FunctionReference<"query", "public", any, AuditEvent | null>
+>(getFn: GetFn, eventId: string) {
+  const event = useAuditEvent(getFn, eventId);
+
+  const changes = useMemo(
+    () => (event?.changes ?? []).map(formatChange),
+    [event]
+  );
+
+  return {
+    event,
+    changes,
+    isLoading: event === undefined,
+  };
+}
+
+/**
+ * Hook for listing the audit events that changed a field
+ *
+ * Paginates like `useAuditEvents`. A parent path matches changes below it.
+ *
+ * @param listFn - The listByChangedField function reference (e.g., api.example.listByChangedField)
+ * @param field - The changed field (e.g., "billing.plan")
+ * @param args - Additional arguments for the listByChangedField function
+ * @returns Object with events, loading state, and pagination controls
+ */
+export function useAuditEventsByChangedField<
+  ListFn extends FunctionReference<"query", "public", any, ListResponse>
+>(
+  listFn: ListFn,
+  field: string,
+  args?: Omit<FunctionArgs<ListFn>, "cursor" | "field">
+) {
+  return useAuditEvents(listFn, {
+    ...args,
+    field,
+  } as Omit<FunctionArgs<ListFn>, "cursor">);
+}
+
 /**
  * Hook for logging audit events
  *
@@ -213,6 +459,89 @@ export function useLogAuditEvent<
   return useMutation(logFn);
 }
 
+/**
+ * Hook for charting event counts over time
+ *
+ * @param timeSeriesFn - The time series function (e.g., api.example.getTimeSeries)
+ * @param args - Granularity, range, organization and optional groupBy
+ * @returns Chart-ready points, the group keys present, and loading state
+ */
+export function useAuditTimeSeries<
+  TimeSeriesFn extends FunctionReference<
+    "query",
+    "public",
+    any,
+    TimeSeriesPoint[]
+  >
+>(timeSeriesFn: TimeSeriesFn, args: FunctionArgs<TimeSeriesFn>) {
+  const series = useQuery(timeSeriesFn, args);
+
+  return useMemo(() => {
+    const groups = [
+      ...new Set((series ?? []).flatMap((point) => Object.keys(point.groups))),
+    ].sort();
+
+    const points: ChartPoint[] = (series ?? []).map((point) => {
+      const chartPoint: Record<string, number> = {};
+      for (const group of groups) {
+        chartPoint[group] = point.groups[group] ?? 0;
+      }
+      return {
+        ...chartPoint,
+        bucketStart: point.bucketStart,
+        total: point.total,
+      } as ChartPoint;
+    });
+
+    return { points, groups, isLoading: series === undefined };
+  }, [series]);
+}
+
+/**
+ * Hook for exporting audit events to a downloadable file
+ *
+ * Call `start` with the export arguments; the returned job updates reactively
+ * until it completes and `downloadUrl` becomes available.
+ *
+ * @param startFn - The start export mutation (e.g., api.example.startExport)
+ * @param getFn - The get export query (e.g., api.example.getExport)
+ * @returns The current export job, its download URL and a `start` function
+ */
+export function useAuditExport<
+  StartFn extends FunctionReference<"mutation", "public", any, string>,
+  GetFn extends FunctionReference<"query", "public", any, AuditExport | null>
+>(startFn: StartFn, getFn: GetFn) {
+  const [exportId, setExportId] = useState<string | null>(null);
+  const startExport = useMutation(startFn);
+
+  const exportJob = useQuery(
+    getFn,
+    ...((exportId ? [{ exportId }] : ["skip"]) as OptionalRestArgsOrSkip<GetFn>)
+  );
+
+  const start = useCallback(
+    async (args: FunctionArgs<StartFn>) => {
+      const id: FunctionReturnType<StartFn> = await startExport(args);
+      setExportId(id);
+      return id;
+    },
+    [startExport]
+  );
+
+  const status = exportJob?.status;
+
+  return {
+    start,
+    exportId,
+    exportJob: exportJob ?? null,
+    isExporting:
+      exportId !== null &&
+      (status === undefined || status === "pending" || status === "running"),
+    downloadUrl: status === "completed" ? exportJob?.url ?? null : null,
+    error: status === "failed" ? exportJob?.error ?? null : null,
+  };
+}
+
 // =============================================================================
 // Formatting Utilities
 // =============================================================================
@@ -235,6 +564,52 @@ export function formatAction(action: string): string {
     .join(" - ");
 }
 
+/**
+ * Format a changed field path for display
+ *
+ * @param field - The field path (e.g., "billing.plan_name")
+ * @returns Formatted field string (e.g., "Billing - Plan Name")
+ */
+export function formatChangeField(field: string): string {
+  return formatAction(field.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase());
+}
+
+/**
+ * Format a changed value for display
+ *
+ * @param value - The value before or after the change
+ * @returns The value as text, or an empty string if it was not set
+ */
+export function formatChangeValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  return JSON.stringify(value, (_key, entry) =>
+    typeof entry === "bigint" ? entry.toString() : entry
+  );
+}
+
+/**
+ * Prepare a change for display
+ *
+ * @param change - A change from an event's `changes`
+ * @returns The change with a readable label and formatted values
+ */
+export function formatChange(change: AuditChange): AuditChangeRow {
+  const redacted = change.redacted === true;
+  return {
+    field: change.field,
+    label: formatChangeField(change.field),
+    kind: change.kind,
+    before: redacted ? "[REDACTED]" : formatChangeValue(change.before),
+    after: redacted ? "[REDACTED]" : formatChangeValue(change.after),
+    redacted,
+  };
+}
+
 /**
  * Format a timestamp for display
  *